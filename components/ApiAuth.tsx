@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import { configureApi, MOCK_BACKEND } from '../utils/api';
+
+// Hands the signed-in Clerk user to the API client, so requests carry their
+// token and user id. Renders nothing; mount it once inside ClerkProvider.
+// Against the stand-in backend it leaves the stand-in's own user in place.
+export default function ApiAuth() {
+  const { getToken, userId } = useAuth();
+
+  useEffect(() => {
+    if (MOCK_BACKEND) return;
+    configureApi({ getToken: () => getToken(), userId: userId ?? null });
+  }, [getToken, userId]);
+
+  return null;
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { characterAPI } from '../utils/api';
+import type { SessionCharacter } from '../utils/characters';
+
+interface CharacterPickerProps {
+  sessionId: string;
+  userId?: string; // Characters belonging to this user are listed first
+  onPick: (character: SessionCharacter) => void;
+  onClose: () => void;
+}
+
+// Choose which of the session's characters to play
+export default function CharacterPicker({ sessionId, userId, onPick, onClose }: CharacterPickerProps) {
+  const [characters, setCharacters] = useState<SessionCharacter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    characterAPI.getCharacters(sessionId)
+      .then(list => {
+        const mine = (character: SessionCharacter) => (userId && character.user_id === userId ? 0 : 1);
+        setCharacters([...list].sort((a, b) => mine(a) - mine(b)));
+      })
+      .catch(error => setError(error instanceof Error ? error.message : 'Failed to load characters'))
+      .finally(() => setLoading(false));
+  }, [sessionId, userId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 p-6 rounded-lg max-w-md w-full mx-4 text-white">
+        <h3 className="text-xl font-bold text-green-500 mb-4">Choose Your Character</h3>
+
+        {loading && <p className="text-gray-400">Loading characters...</p>}
+        {error && <p className="text-red-400 mb-2">{error}</p>}
+        {!loading && !error && characters.length === 0 && (
+          <p className="text-gray-400 italic">No characters in this session yet.</p>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {characters.map(character => (
+            <button
+              key={character.id}
+              onClick={() => onPick(character)}
+              className="w-full text-left border border-gray-700 rounded p-3 hover:border-green-500"
+            >
+              <span className="font-semibold">{character.name}</span>
+              {userId && character.user_id === userId && <span className="ml-2 text-xs text-green-400">yours</span>}
+              <p className="text-sm text-gray-400">
+                {[character.metatype, character.archetype].filter(Boolean).join(' ')}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <Link href="/enhanced-dashboard" className="text-sm text-blue-400 hover:text-blue-200">
+            Create a new character
+          </Link>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+          >
+            Later
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
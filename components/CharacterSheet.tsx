@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { getInitiativeProfile, initiativeTypes } from '../utils/initiative';
 
 // Shadowrun character data structures
 export interface ShadowrunCharacter {
@@ -23,6 +24,8 @@ export interface ShadowrunCharacter {
     physical: number;
     astral?: number;
     matrix?: number;
+    rigging?: number;
+    dice?: { physical?: number; astral?: number; matrix?: number; rigging?: number }; // Initiative dice (1-5)
   };
   condition: {
     physical: { current: number; max: number };
@@ -123,7 +126,7 @@ export default function CharacterSheet({ character, onCharacterUpdate, readonly
     updatedChar.initiatives.physical = updatedChar.attributes.reaction + updatedChar.attributes.intuition;
     
     if (updatedChar.attributes.magic) {
-      updatedChar.initiatives.astral = (updatedChar.attributes.intuition * 2) + (updatedChar.attributes.magic || 0);
+      updatedChar.initiatives.astral = updatedChar.attributes.intuition * 2;
     }
     
     setChar(updatedChar);
@@ -364,16 +367,15 @@ export default function CharacterSheet({ character, onCharacterUpdate, readonly
             <div className="border border-gray-700 rounded p-4">
               <h3 className="font-bold text-red-400 mb-2">Initiative</h3>
               <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="text-gray-400">Physical</label>
-                  <div className="text-lg font-bold">{char.initiatives.physical} + 1d6</div>
-                </div>
-                {char.initiatives.astral && (
-                  <div>
-                    <label className="text-gray-400">Astral</label>
-                    <div className="text-lg font-bold">{char.initiatives.astral} + 2d6</div>
-                  </div>
-                )}
+                {initiativeTypes.filter(type => char.initiatives[type] !== undefined).map(type => {
+                  const profile = getInitiativeProfile(char, type);
+                  return (
+                    <div key={type}>
+                      <label className="text-gray-400 capitalize">{type}</label>
+                      <div className="text-lg font-bold">{profile.base} + {profile.dice}d6</div>
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -1,13 +1,32 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { ShadowrunCharacter } from './CharacterSheet';
+import {
+  InitiativeType,
+  initiativeTypes,
+  rollInitiative as rollInitiativeScore,
+  rollCharacterInitiative,
+  seizeInitiative as seizeInitiativeResult,
+  sortInitiativeOrder,
+  InitiativeResult,
+  SEIZE_THE_INITIATIVE_COST,
+  MAX_INITIATIVE_DICE
+} from '../utils/initiative';
+import { Permissions, can } from '../utils/permissions';
 
 // Combat types
 interface Combatant {
   id: string;
   name: string;
   type: 'player' | 'npc' | 'spirit' | 'drone';
-  initiative: number;
+  initiative: number; // Base initiative (REA + INT for physical)
+  initiativeDice: number;
+  initiativeType: InitiativeType;
   initiativeScore: number;
+  initiativeBase?: number;
+  initiativeResult?: InitiativeResult;
+  seizedInitiative?: boolean;
+  character?: ShadowrunCharacter; // Sheet to roll from, for player characters
   actions: number;
   reaction: number;
   intuition: number;
@@ -46,7 +65,17 @@ interface DiceRoll {
   edge: boolean;
 }
 
-export function CombatManager({ sessionId, userId, isGM }: { sessionId: string; userId: string; isGM: boolean }) {
+interface CombatManagerProps {
+  sessionId: string;
+  userId: string;
+  isGM: boolean;
+  permissions?: Permissions; // Overrides isGM when given
+}
+
+export function CombatManager({ sessionId, userId, isGM, permissions }: CombatManagerProps) {
+  const access: Permissions = permissions ?? { role: isGM ? 'gm' : 'player' };
+  const canEditCombat = can(access, 'edit_combat');
+  const canSeeNpcStats = can(access, 'see_npc_stats');
   const [combatants, setCombatants] = useState<Combatant[]>([]);
   const [currentRound, setCurrentRound] = useState(1);
   const [activeIndex, setActiveIndex] = useState(0);
@@ -56,15 +85,23 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
   const [selectedCombatant, setSelectedCombatant] = useState<Combatant | null>(null);
 
   // Initiative order
-  const sortedCombatants = [...combatants].sort((a, b) => b.initiativeScore - a.initiativeScore);
+  const sortedCombatants = sortInitiativeOrder(combatants);
   const activeCombatant = sortedCombatants[activeIndex];
 
   // Roll initiative for all combatants
   const rollInitiative = () => {
     setCombatants(prev => prev.map(c => {
-      const roll = Math.floor(Math.random() * 6) + 1;
-      const score = c.initiative + c.intuition + roll;
-      return { ...c, initiativeScore: score };
+      const result = c.character
+        ? rollCharacterInitiative(c.character, c.initiativeType)
+        : rollInitiativeScore(c.initiative, c.initiativeDice, { type: c.initiativeType });
+      return {
+        ...c,
+        initiativeScore: result.score,
+        initiativeBase: result.base,
+        initiativeResult: result,
+        seizedInitiative: false,
+        actions: result.minorActions
+      };
     }));
     setActiveIndex(0);
     setCurrentRound(1);
@@ -138,6 +175,20 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
     }));
   };
 
+  // Seize the Initiative: spend Edge to act first this round
+  const seizeInitiative = (id: string) => {
+    setCombatants(prev => prev.map(c => {
+      if (c.id !== id || !c.initiativeResult) return c;
+      try {
+        const { result, edgeRemaining } = seizeInitiativeResult(c.initiativeResult, c.currentEdge);
+        return { ...c, initiativeResult: result, seizedInitiative: true, currentEdge: edgeRemaining };
+      } catch (error) {
+        console.warn('Cannot seize initiative:', error);
+        return c;
+      }
+    }));
+  };
+
   // Spend Edge
   const spendEdge = (id: string, amount: number = 1) => {
     setCombatants(prev => prev.map(c => 
@@ -155,7 +206,7 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
           <div className="text-green-400">
             <span className="text-xl font-bold">ROUND {currentRound}</span>
           </div>
-          {isGM && (
+          {canEditCombat && (
             <div className="flex gap-2">
               <button
                 onClick={rollInitiative}
@@ -210,6 +261,8 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
                       </div>
                       <div className="text-sm text-gray-400">
                         {combatant.type.toUpperCase()} • Init: {combatant.initiativeScore}
+                        {combatant.initiativeResult && ` (${combatant.initiativeResult.base} + ${combatant.initiativeResult.dice}d6)`}
+                        {combatant.seizedInitiative && ' ⚡'}
                       </div>
                     </div>
                     <div className="text-right">
@@ -235,7 +288,7 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
             </AnimatePresence>
           </div>
 
-          {activeCombatant && !isPaused && isGM && (
+          {activeCombatant && !isPaused && canEditCombat && (
             <div className="mt-4">
               <button
                 onClick={nextTurn}
@@ -293,45 +346,47 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
                 {selectedCombatant.name} - DETAILS
               </h3>
               
-              {/* Health Bars */}
-              <div className="space-y-3 mb-4">
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span className="text-gray-400">Physical</span>
-                    <span className="text-gray-400">
-                      {selectedCombatant.physicalDamage}/{selectedCombatant.conditionMonitor.physical}
-                    </span>
-                  </div>
-                  <div className="w-full bg-gray-700 rounded-full h-4 overflow-hidden">
-                    <div 
-                      className="h-full bg-red-600 transition-all duration-300"
-                      style={{ 
-                        width: `${(selectedCombatant.physicalDamage / selectedCombatant.conditionMonitor.physical) * 100}%` 
-                      }}
-                    />
+              {/* Health Bars; NPCs' only for those allowed to see NPC stats */}
+              {(selectedCombatant.type !== 'npc' || canSeeNpcStats) && (
+                <div className="space-y-3 mb-4">
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-400">Physical</span>
+                      <span className="text-gray-400">
+                        {selectedCombatant.physicalDamage}/{selectedCombatant.conditionMonitor.physical}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-4 overflow-hidden">
+                      <div 
+                        className="h-full bg-red-600 transition-all duration-300"
+                        style={{ 
+                          width: `${(selectedCombatant.physicalDamage / selectedCombatant.conditionMonitor.physical) * 100}%` 
+                        }}
+                      />
+                    </div>
                   </div>
-                </div>
                 
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span className="text-gray-400">Stun</span>
-                    <span className="text-gray-400">
-                      {selectedCombatant.stunDamage}/{selectedCombatant.conditionMonitor.stun}
-                    </span>
-                  </div>
-                  <div className="w-full bg-gray-700 rounded-full h-4 overflow-hidden">
-                    <div 
-                      className="h-full bg-blue-600 transition-all duration-300"
-                      style={{ 
-                        width: `${(selectedCombatant.stunDamage / selectedCombatant.conditionMonitor.stun) * 100}%` 
-                      }}
-                    />
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-400">Stun</span>
+                      <span className="text-gray-400">
+                        {selectedCombatant.stunDamage}/{selectedCombatant.conditionMonitor.stun}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-4 overflow-hidden">
+                      <div 
+                        className="h-full bg-blue-600 transition-all duration-300"
+                        style={{ 
+                          width: `${(selectedCombatant.stunDamage / selectedCombatant.conditionMonitor.stun) * 100}%` 
+                        }}
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Actions */}
-              {isGM && (
+              {canEditCombat && (
                 <div className="grid grid-cols-3 gap-2">
                   <button
                     onClick={() => applyDamage(selectedCombatant.id, 1, 0)}
@@ -352,6 +407,13 @@ export function CombatManager({ sessionId, userId, isGM }: { sessionId: string;
                   >
                     Spend Edge
                   </button>
+                  <button
+                    onClick={() => seizeInitiative(selectedCombatant.id)}
+                    disabled={!selectedCombatant.initiativeResult || selectedCombatant.seizedInitiative || selectedCombatant.currentEdge < SEIZE_THE_INITIATIVE_COST}
+                    className="px-3 py-2 bg-yellow-600 hover:bg-yellow-700 text-black rounded text-sm disabled:opacity-50"
+                  >
+                    Seize Initiative
+                  </button>
                   <button
                     onClick={() => applyDamage(selectedCombatant.id, -1, 0)}
                     className="px-3 py-2 bg-green-600 hover:bg-green-700 text-black rounded text-sm"
@@ -428,7 +490,9 @@ function AddCombatantForm({
   const [formData, setFormData] = useState({
     name: '',
     type: 'npc' as Combatant['type'],
-    initiative: 10,
+    initiative: 8,
+    initiativeDice: 1,
+    initiativeType: 'physical' as InitiativeType,
     reaction: 5,
     intuition: 3,
     edge: 2,
@@ -487,6 +551,34 @@ function AddCombatantForm({
           />
         </div>
       </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-green-400 mb-1">Initiative Type</label>
+          <select
+            value={formData.initiativeType}
+            onChange={e => setFormData({ ...formData, initiativeType: e.target.value as InitiativeType })}
+            className="w-full bg-gray-700 text-green-400 border border-green-600 rounded px-3 py-2"
+          >
+            {initiativeTypes.map(type => (
+              <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-green-400 mb-1">Initiative Dice</label>
+          <select
+            value={formData.initiativeDice}
+            onChange={e => setFormData({ ...formData, initiativeDice: parseInt(e.target.value) })}
+            className="w-full bg-gray-700 text-green-400 border border-green-600 rounded px-3 py-2"
+          >
+            {Array.from({ length: MAX_INITIATIVE_DICE }, (_, i) => i + 1).map(dice => (
+              <option key={dice} value={dice}>{dice}d6</option>
+            ))}
+          </select>
+        </div>
+      </div>
       
       <div className="flex gap-2 justify-end">
         <button
@@ -0,0 +1,222 @@
+import type { ShadowrunDiceResult, OpposedTestResult, ExtendedTestResult } from '../utils/dice';
+import type { HelpSection } from '../utils/commands';
+import type { PrivateMessage } from '../utils/whispers';
+
+export interface ResultRendererProps {
+  data: any;
+  output: string;
+}
+
+export type ResultRenderer = (props: ResultRendererProps) => JSX.Element;
+
+// Render a single die: hits green, ones red, exploded 6s marked
+function DieChip({ value, exploded, shadowrun }: { value: number; exploded?: boolean; shadowrun: boolean }) {
+  let className = 'bg-gray-800 text-gray-300 border-gray-600';
+  if (shadowrun && value >= 5) className = 'bg-green-900 text-green-200 border-green-500';
+  if (shadowrun && value === 1) className = 'bg-red-900 text-red-200 border-red-500';
+
+  return (
+    <span
+      className={`inline-flex items-center justify-center w-7 h-7 mr-1 mb-1 rounded border font-bold ${className} ${exploded ? 'ring-2 ring-yellow-400' : ''}`}
+      title={exploded ? 'Exploded 6' : undefined}
+      data-testid="die-chip"
+      data-hit={shadowrun && value >= 5 ? 'true' : undefined}
+      data-one={shadowrun && value === 1 ? 'true' : undefined}
+      data-exploded={exploded ? 'true' : undefined}
+    >
+      {value}
+    </span>
+  );
+}
+
+function Badge({ tone, children }: { tone: 'success' | 'failure' | 'warning' | 'info'; children: React.ReactNode }) {
+  const tones = {
+    success: 'bg-green-800 text-green-100',
+    failure: 'bg-red-800 text-red-100',
+    warning: 'bg-yellow-700 text-yellow-100',
+    info: 'bg-blue-900 text-blue-100'
+  };
+  return <span className={`inline-block px-2 py-0.5 mr-2 rounded text-xs font-bold ${tones[tone]}`}>{children}</span>;
+}
+
+function GlitchBadge({ roll }: { roll: ShadowrunDiceResult }) {
+  if (roll.isCriticalGlitch) return <Badge tone="failure">CRITICAL GLITCH</Badge>;
+  if (roll.isGlitch) return <Badge tone="warning">GLITCH</Badge>;
+  return null;
+}
+
+// Dice chips for one roll, with hits or total
+function DiceResultView({ data }: ResultRendererProps) {
+  const roll = data as ShadowrunDiceResult;
+  const shadowrun = roll.total === undefined;
+  const baseCount = roll.results.length - (roll.exploded?.length || 0);
+
+  return (
+    <div aria-label="Dice result">
+      {roll.label && <div className="text-xs italic mb-1">{roll.label}</div>}
+      <div className="flex flex-wrap">
+        {roll.results.map((value, i) => (
+          <DieChip key={i} value={value} exploded={i >= baseCount} shadowrun={shadowrun} />
+        ))}
+        {roll.dropped?.map((value, i) => (
+          <span key={`dropped-${i}`} className="inline-flex items-center justify-center w-7 h-7 mr-1 mb-1 rounded border border-gray-700 text-gray-600 line-through">
+            {value}
+          </span>
+        ))}
+      </div>
+      <div className="mt-1">
+        {shadowrun ? (
+          <Badge tone={roll.hits > 0 ? 'success' : 'info'}>
+            {roll.hits} hit{roll.hits === 1 ? '' : 's'}
+            {roll.limit !== undefined ? ` (limit ${roll.limit})` : ''}
+          </Badge>
+        ) : (
+          <Badge tone="info">Total {roll.total}</Badge>
+        )}
+        {shadowrun && roll.threshold !== undefined && (
+          <Badge tone={roll.hits >= roll.threshold ? 'success' : 'failure'}>
+            {roll.hits >= roll.threshold ? `PASS +${roll.hits - roll.threshold}` : 'FAIL'} vs {roll.threshold}
+          </Badge>
+        )}
+        {shadowrun && <GlitchBadge roll={roll} />}
+        {roll.edgeActions && roll.edgeActions.length > 0 && (
+          <Badge tone="info">Edge: {roll.edgeActions.join(', ')}</Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Threshold test: the roll plus a pass/fail badge with net hits
+function TestResultView({ data, output }: ResultRendererProps) {
+  return (
+    <div aria-label="Test result">
+      <div className="mb-1">
+        <Badge tone={data.success ? 'success' : 'failure'}>
+          {data.success ? `PASS · ${data.netHits} net hit${data.netHits === 1 ? '' : 's'}` : 'FAIL'}
+        </Badge>
+        <span className="text-xs">threshold {data.threshold}</span>
+      </div>
+      <DiceResultView data={{ ...data, threshold: undefined }} output={output} />
+    </div>
+  );
+}
+
+function OpposedResultView({ data, output }: ResultRendererProps) {
+  const result = data as OpposedTestResult;
+  return (
+    <div aria-label="Opposed test result">
+      <div className="mb-1">
+        <Badge tone={result.winner === 'attacker' ? 'success' : 'failure'}>
+          {result.winner === 'attacker' ? `ATTACKER WINS · ${result.netHits} net hit${result.netHits === 1 ? '' : 's'}` : result.isTie ? 'TIE · DEFENDER HOLDS' : 'DEFENDER WINS'}
+        </Badge>
+      </div>
+      <div className="text-xs">Attacker</div>
+      <DiceResultView data={result.attacker} output={output} />
+      <div className="text-xs mt-1">Defender</div>
+      <DiceResultView data={result.defender} output={output} />
+    </div>
+  );
+}
+
+function ExtendedResultView({ data }: ResultRendererProps) {
+  const result = data as ExtendedTestResult;
+  return (
+    <div aria-label="Extended test result">
+      <div className="mb-1">
+        <Badge tone={result.success ? 'success' : 'failure'}>
+          {result.success ? 'PASS' : result.criticalGlitch ? 'CRITICAL GLITCH' : 'FAIL'} · {result.totalHits}/{result.threshold} hits
+        </Badge>
+        <span className="text-xs">{result.elapsed.length} {result.elapsed.unit}{result.elapsed.length === 1 ? '' : 's'}</span>
+      </div>
+      {result.intervals.map(step => (
+        <div key={step.interval} className="flex items-start">
+          <span className="text-xs w-10 mt-1">#{step.interval}</span>
+          <div className="flex flex-wrap">
+            {step.result.results.map((value, i) => (
+              <DieChip key={i} value={value} shadowrun />
+            ))}
+          </div>
+          <span className="text-xs ml-2 mt-1">{step.cumulativeHits}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Help as collapsible sections
+function HelpResultView({ data }: ResultRendererProps) {
+  const sections = data.sections as HelpSection[];
+  return (
+    <div aria-label="Help">
+      {sections.map((section, i) => (
+        <details key={section.title} open={sections.length === 1 || i === 0} className="mb-1">
+          <summary className="cursor-pointer font-bold">{section.title}</summary>
+          <dl className="pl-4">
+            {section.entries.map(entry => (
+              <div key={entry.term} className="flex">
+                <dt className="w-32 flex-shrink-0 font-mono">{entry.term}</dt>
+                <dd>{entry.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+const channelStyles: Record<PrivateMessage['channel'], string> = {
+  whisper: 'border-purple-500 bg-purple-950 text-purple-200',
+  gm: 'border-yellow-500 bg-yellow-950 text-yellow-200',
+  reveal: 'border-cyan-500 bg-cyan-950 text-cyan-200'
+};
+
+// Whispers, GM notes and reveals, set apart from public output
+function PrivateMessageView({ data, output }: ResultRendererProps) {
+  const message = data as PrivateMessage;
+  const Attachment = message.dataType ? resultRenderers[message.dataType] : undefined;
+  return (
+    <div
+      aria-label={`Private ${message.channel} message`}
+      className={`border-l-4 pl-2 py-1 italic rounded-r ${channelStyles[message.channel]}`}
+    >
+      <div className="whitespace-pre-wrap">{output}</div>
+      {Attachment && message.data && (
+        <div className="not-italic mt-1">
+          <Attachment data={message.data} output={message.message} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Renderers by CommandResult type
+export const resultRenderers: Record<string, ResultRenderer> = {
+  dice: DiceResultView,
+  test: TestResultView,
+  opposed: OpposedResultView,
+  extended: ExtendedResultView,
+  help: HelpResultView,
+  whisper: PrivateMessageView,
+  gm: PrivateMessageView,
+  reveal: PrivateMessageView
+};
+
+// Add or replace the renderer for a result type
+export function registerResultRenderer(type: string, renderer: ResultRenderer) {
+  resultRenderers[type] = renderer;
+}
+
+// Render a command result, falling back to its text output
+export default function CommandResultView({ type, data, output }: { type?: string; data?: any; output: string }) {
+  const Renderer = type ? resultRenderers[type] : undefined;
+  if (!Renderer || data === undefined || data === null) {
+    return <>{output}</>;
+  }
+  return (
+    <div className="whitespace-normal" data-result-type={type}>
+      <Renderer data={data} output={output} />
+    </div>
+  );
+}
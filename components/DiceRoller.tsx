@@ -1,13 +1,39 @@
-import { useState, useRef, useCallback } from 'react';
-import { parseDiceCommand, formatDiceResult, spendEdge, ShadowrunDiceResult } from '../utils/dice';
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { parseDiceCommand, formatDiceResult, ShadowrunDiceResult } from '../utils/dice';
+import { spendEdge, edgeActions, EdgeActionId, DEFAULT_EDGE_CAP } from '../utils/edge';
+import { parseDiceExpression, MAX_DICE } from '../utils/diceExpression';
+import { calculateOdds, RollOdds } from '../utils/probability';
+import { commandAPI } from '../utils/api';
+
+// Odds for the pool being typed, or null when it isn't a plain Shadowrun pool
+function previewOdds(input: string, edge: boolean): { normal: RollOdds; exploding: RollOdds } | null {
+  try {
+    const expression = parseDiceExpression(input);
+    if (expression.terms.some(term => term.kind !== 'number')) return null;
+    const pool = expression.terms.reduce((sum, term) => sum + (term.kind === 'number' ? term.sign * term.value : 0), 0);
+    if (pool < 1 || pool > MAX_DICE) return null;
+    return {
+      normal: calculateOdds(pool, { threshold: expression.threshold, limit: expression.limit, exploding: edge || expression.edge }),
+      exploding: calculateOdds(pool, { threshold: expression.threshold, exploding: true })
+    };
+  } catch {
+    return null;
+  }
+}
+
+function formatPercent(chance: number): string {
+  return `${(chance * 100).toFixed(1)}%`;
+}
 
 export default function DiceRoller() {
   const [diceInput, setDiceInput] = useState('');
   const [useEdge, setUseEdge] = useState(false);
+  const [edgePool, setEdgePool] = useState(3);
   const [isRolling, setIsRolling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<Array<{ input: string; result: ShadowrunDiceResult; output: string; timestamp: Date }>>([]);
   const rollTimeoutRef = useRef<NodeJS.Timeout>();
+  const odds = useMemo(() => previewOdds(diceInput, useEdge), [diceInput, useEdge]);
   const [quickRolls] = useState([
     { label: '6 dice', command: '6' },
     { label: '8 dice', command: '8' },
@@ -42,20 +68,7 @@ export default function DiceRoller() {
     setError(null);
 
     try {
-      const response = await fetch('/api/roll', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          command,
-          edge: useEdge 
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to roll dice');
-      }
-
-      const data = await response.json();
+      const data = await commandAPI.rollExpression(command, useEdge);
       
       // Check if the response has the expected structure
       if (!data || !data.result) {
@@ -100,40 +113,24 @@ export default function DiceRoller() {
     }
   };
 
-  const rollWithEdge = useCallback(async (diceCount: number, edgeAction: 'reroll' | 'explode' | 'pushLimit') => {
-    if (isRolling) return;
-    setIsRolling(true);
+  // Spend Edge on one of the recent rolls
+  const applyEdgeAction = (index: number, actionId: EdgeActionId) => {
+    const roll = results[index];
+    if (!roll) return;
     setError(null);
 
     try {
-      const response = await fetch('/api/roll/edge', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          diceCount,
-          edgeAction 
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to use edge');
-      }
-
-      const data = await response.json();
-      const result = data.result;
-      
-      setResults(prev => [{
-        input: `${diceCount} + edge (${edgeAction})`,
-        result,
-        output: `${formatDiceResult(result, `${diceCount} dice with edge (${edgeAction})`)}\n✨ Edge spent: ${edgeAction}`,
-        timestamp: new Date()
-      }, ...prev].slice(0, 10));
+      const spent = spendEdge(roll.result, actionId, { availableEdge: edgePool });
+      setResults(prev => prev.map((r, i) => i === index ? {
+        ...r,
+        result: spent.result,
+        output: formatDiceResult(spent.result, r.input)
+      } : r));
+      setEdgePool(spent.edgeRemaining ?? edgePool);
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Unknown error');
-    } finally {
-      setIsRolling(false);
     }
-  }, []);
+  };
 
   return (
     <div className="bg-black bg-opacity-70 border border-red-900 border-opacity-40 rounded-lg p-6 text-white" role="region" aria-label="Dice Roller">
@@ -188,6 +185,38 @@ export default function DiceRoller() {
         </div>
       </form>
 
+      {/* Odds Preview */}
+      {odds && (
+        <div className="mb-6 p-3 border border-gray-700 rounded text-sm font-mono" aria-label="Roll odds preview">
+          <h3 className="text-sm font-bold text-blue-300 mb-2">Odds for {odds.normal.pool} dice</h3>
+          <div className="grid grid-cols-3 gap-2">
+            <span className="text-gray-400"></span>
+            <span className="text-gray-300">This roll</span>
+            <span className="text-yellow-300">Exploding 6s, no limit</span>
+            <span className="text-gray-400">Expected hits</span>
+            <span>{odds.normal.expectedHits.toFixed(2)}</span>
+            <span>{odds.exploding.expectedHits.toFixed(2)}</span>
+            {odds.normal.thresholdChance !== undefined && odds.exploding.thresholdChance !== undefined && (
+              <>
+                <span className="text-gray-400">{odds.normal.threshold}+ hits</span>
+                <span>{formatPercent(odds.normal.thresholdChance)}</span>
+                <span>{formatPercent(odds.exploding.thresholdChance)}</span>
+              </>
+            )}
+            {odds.normal.limit !== undefined && (
+              <>
+                <span className="text-gray-400">Limit cuts hits</span>
+                <span>{formatPercent(odds.normal.limitedChance)}</span>
+                <span>no limit</span>
+              </>
+            )}
+          </div>
+          <div className="mt-2 text-gray-400">
+            Glitch {formatPercent(odds.normal.glitchChance)} • Critical glitch {formatPercent(odds.normal.criticalGlitchChance)}
+          </div>
+        </div>
+      )}
+
       {/* Quick Roll Buttons */}
       <div className="mb-6">
         <h3 className="text-lg font-bold text-red-400 mb-3">Quick Rolls</h3>
@@ -206,52 +235,21 @@ export default function DiceRoller() {
         </div>
       </div>
 
-      {/* Edge Actions */}
+      {/* Edge Pool */}
       <div className="mb-6">
         <h3 className="text-lg font-bold text-yellow-400 mb-3">Edge Actions</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-          <div className="space-y-2">
-            <h4 className="text-sm font-medium text-yellow-300">Reroll Failures</h4>
-            {[6, 8, 10, 12].map(dice => (
-              <button
-                key={dice}
-                onClick={() => rollWithEdge(dice, 'reroll')}
-                className="w-full bg-yellow-700 text-yellow-100 px-2 py-1 rounded hover:bg-yellow-600 text-sm disabled:opacity-50"
-                disabled={isRolling}
-                aria-label={`Reroll ${dice} dice with Edge`}
-              >
-                {dice} dice
-              </button>
-            ))}
-          </div>
-          <div className="space-y-2">
-            <h4 className="text-sm font-medium text-yellow-300">Exploding 6s</h4>
-            {[6, 8, 10, 12].map(dice => (
-              <button
-                key={dice}
-                onClick={() => rollWithEdge(dice, 'explode')}
-                className="w-full bg-orange-700 text-orange-100 px-2 py-1 rounded hover:bg-orange-600 text-sm disabled:opacity-50"
-                disabled={isRolling}
-                aria-label={`Explode ${dice} dice with Edge`}
-              >
-                {dice} dice
-              </button>
-            ))}
-          </div>
-          <div className="space-y-2">
-            <h4 className="text-sm font-medium text-yellow-300">Push the Limit</h4>
-            {[6, 8, 10, 12].map(dice => (
-              <button
-                key={dice}
-                onClick={() => rollWithEdge(dice, 'pushLimit')}
-                className="w-full bg-red-700 text-red-100 px-2 py-1 rounded hover:bg-red-600 text-sm disabled:opacity-50"
-                disabled={isRolling}
-                aria-label={`Push the limit with ${dice} dice`}
-              >
-                {dice} dice
-              </button>
-            ))}
-          </div>
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="edge-pool" className="text-yellow-300">Edge points</label>
+          <input
+            id="edge-pool"
+            type="number"
+            min={0}
+            max={DEFAULT_EDGE_CAP}
+            value={edgePool}
+            onChange={(e) => setEdgePool(Math.min(DEFAULT_EDGE_CAP, Math.max(0, parseInt(e.target.value) || 0)))}
+            className="w-16 p-1 bg-gray-800 border border-gray-600 rounded text-white font-mono"
+          />
+          <span className="text-gray-400">Spend Edge on a roll below after it lands.</span>
         </div>
       </div>
 
@@ -321,6 +319,23 @@ export default function DiceRoller() {
                     )}
                   </div>
                 )}
+
+                {roll.result && roll.result.total === undefined && roll.result.results && roll.result.results.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {Object.values(edgeActions).map(action => (
+                      <button
+                        key={action.id}
+                        onClick={() => applyEdgeAction(index, action.id)}
+                        className="bg-yellow-700 text-yellow-100 px-2 py-1 rounded hover:bg-yellow-600 text-xs disabled:opacity-50"
+                        disabled={isRolling || action.cost > edgePool}
+                        title={action.description}
+                        aria-label={`${action.name} on roll ${roll.input}`}
+                      >
+                        {action.name} ({action.cost})
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -1,88 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
-import axios from 'axios';
-
-interface Theme {
-  name: string;
-  background: string;
-  text: string;
-  secondaryText: string;
-  accent: string;
-  prompt: string;
-  input: string;
-  inputText: string;
-  secondaryBackground: string;
-}
-
-interface PendingResponse {
-  id: string;
-  user_id: string;
-  context: string;
-  ai_response: string;
-  response_type: string;
-  priority: number;
-  created_at: string;
-}
-
-interface DmNotification {
-  id: number;
-  pending_response_id: string;
-  notification_type: string;
-  message: string;
-  created_at: string;
-}
-
-interface Pagination {
-  page: number;
-  per_page: number;
-  total: number;
-  pages: number;
-  has_next: boolean;
-  has_prev: boolean;
-}
-
-interface PendingResponsesData {
-  items: PendingResponse[];
-  pagination: Pagination;
-}
-
-interface Analytics {
-  queue_status: {
-    pending_count: number;
-    high_priority_count: number;
-  };
-  review_stats: {
-    total_reviewed: number;
-    approved_count: number;
-    rejected_count: number;
-    edited_count: number;
-    approval_rate: number;
-    avg_review_time_minutes: number;
-  };
-  notifications: {
-    unread_count: number;
-  };
-}
+import { reviewAPI, PendingResponse, PendingResponsesPage, DmNotification, ReviewAnalytics } from '../utils/api';
+import { Permissions, can } from '../utils/permissions';
+import type { Theme } from './types';
 
 interface DmDashboardProps {
   sessionId: string;
   isVisible: boolean;
   onClose: () => void;
   theme: Theme;
+  permissions?: Permissions | null; // The review queue needs approve_ai_responses; without permissions it stays locked
 }
 
 type TabType = 'pending' | 'notifications' | 'analytics';
 
-const API_BASE_URL = 'http://localhost:5000';
-
-export default function DmDashboard({ sessionId, isVisible, onClose, theme }: DmDashboardProps) {
+export default function DmDashboard({ sessionId, isVisible, onClose, theme, permissions }: DmDashboardProps) {
   const { user } = useUser();
-  const [pendingResponsesData, setPendingResponsesData] = useState<PendingResponsesData>({
+  const canReview = can(permissions, 'approve_ai_responses');
+  const canViewAnalytics = can(permissions, 'view_analytics');
+  const [pendingResponsesData, setPendingResponsesData] = useState<PendingResponsesPage>({
     items: [],
     pagination: { page: 1, per_page: 20, total: 0, pages: 0, has_next: false, has_prev: false }
   });
   const [notifications, setNotifications] = useState<DmNotification[]>([]);
-  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [analytics, setAnalytics] = useState<ReviewAnalytics | null>(null);
   const [selectedResponse, setSelectedResponse] = useState<PendingResponse | null>(null);
   const [selectedResponses, setSelectedResponses] = useState<Set<string>>(new Set());
   const [editedResponse, setEditedResponse] = useState('');
@@ -98,13 +39,15 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
   const startPolling = useCallback(() => {
     if (intervalRef.current) clearInterval(intervalRef.current);
     intervalRef.current = setInterval(() => {
-      if (isVisible && user) {
+      if (isVisible && user && canReview) {
         fetchPendingResponses();
-        fetchNotifications();
-        fetchAnalytics();
+        if (canViewAnalytics) {
+          fetchNotifications();
+          fetchAnalytics();
+        }
       }
     }, 5000); // Poll every 5 seconds
-  }, [isVisible, user, sessionId, currentPage, priorityFilter, responseTypeFilter]);
+  }, [isVisible, user, canReview, canViewAnalytics, sessionId, currentPage, priorityFilter, responseTypeFilter]);
 
   const stopPolling = useCallback(() => {
     if (intervalRef.current) {
@@ -114,17 +57,19 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
   }, []);
 
   useEffect(() => {
-    if (isVisible && user) {
+    if (isVisible && user && canReview) {
       fetchPendingResponses();
-      fetchNotifications();
-      fetchAnalytics();
+      if (canViewAnalytics) {
+        fetchNotifications();
+        fetchAnalytics();
+      }
       startPolling();
     } else {
       stopPolling();
     }
 
     return () => stopPolling();
-  }, [isVisible, user, sessionId, currentPage, priorityFilter, responseTypeFilter, startPolling, stopPolling]);
+  }, [isVisible, user, canReview, canViewAnalytics, sessionId, currentPage, priorityFilter, responseTypeFilter, startPolling, stopPolling]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -153,19 +98,12 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
   const fetchPendingResponses = async () => {
     try {
       setIsLoading(true);
-      const params = new URLSearchParams({
-        user_id: user?.id || '',
-        page: currentPage.toString(),
-        per_page: '20'
-      });
-
-      if (priorityFilter) params.append('priority', priorityFilter.toString());
-      if (responseTypeFilter) params.append('response_type', responseTypeFilter);
-
-      const response = await axios.get(
-        `${API_BASE_URL}/api/session/${sessionId}/pending-responses?${params}`
-      );
-      setPendingResponsesData(response.data);
+      setPendingResponsesData(await reviewAPI.getPendingResponses(sessionId, {
+        page: currentPage,
+        perPage: 20,
+        priority: priorityFilter,
+        responseType: responseTypeFilter
+      }));
     } catch (error) {
       console.error('Error fetching pending responses:', error);
     } finally {
@@ -175,10 +113,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
   const fetchNotifications = async () => {
     try {
-      const response = await axios.get(
-        `${API_BASE_URL}/api/session/${sessionId}/dm/notifications?user_id=${user?.id}`
-      );
-      setNotifications(response.data);
+      setNotifications(await reviewAPI.getNotifications(sessionId));
     } catch (error) {
       console.error('Error fetching notifications:', error);
     }
@@ -186,10 +121,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
   const fetchAnalytics = async () => {
     try {
-      const response = await axios.get(
-        `${API_BASE_URL}/api/session/${sessionId}/dm/analytics?user_id=${user?.id}`
-      );
-      setAnalytics(response.data);
+      setAnalytics(await reviewAPI.getAnalytics(sessionId));
     } catch (error) {
       console.error('Error fetching analytics:', error);
     }
@@ -200,15 +132,11 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
     try {
       setIsLoading(true);
-      await axios.post(
-        `${API_BASE_URL}/api/session/${sessionId}/pending-response/${selectedResponse.id}/review`,
-        {
-          user_id: user.id,
-          action,
-          final_response: action === 'edit' ? editedResponse : undefined,
-          dm_notes: dmNotes
-        }
-      );
+      await reviewAPI.review(sessionId, selectedResponse.id, {
+        action,
+        finalResponse: action === 'edit' ? editedResponse : undefined,
+        dmNotes
+      });
 
       // Refresh data
       await fetchPendingResponses();
@@ -231,15 +159,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
     try {
       setIsLoading(true);
-      await axios.post(
-        `${API_BASE_URL}/api/session/${sessionId}/pending-responses/bulk`,
-        {
-          user_id: user.id,
-          action,
-          response_ids: Array.from(selectedResponses),
-          dm_notes: dmNotes
-        }
-      );
+      await reviewAPI.bulkReview(sessionId, { action, responseIds: Array.from(selectedResponses), dmNotes });
 
       // Refresh data
       await fetchPendingResponses();
@@ -258,10 +178,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
   const markNotificationRead = async (notificationId: number) => {
     try {
-      await axios.post(
-        `${API_BASE_URL}/api/session/${sessionId}/dm/notifications/${notificationId}/mark-read`,
-        { user_id: user?.id }
-      );
+      await reviewAPI.markNotificationRead(sessionId, notificationId);
       await fetchNotifications();
       await fetchAnalytics();
     } catch (error) {
@@ -309,6 +226,20 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
 
   if (!isVisible) return null;
 
+  if (!canReview) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+        <div className="bg-gray-900 text-green-400 p-6 rounded-lg max-w-md w-full">
+          <h2 className="text-2xl font-bold text-red-400 mb-4">DM REVIEW DASHBOARD</h2>
+          <p className="text-gray-300 mb-4">You don&apos;t have permission to review AI responses in this session.</p>
+          <button onClick={onClose} className="px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600">
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
       <div className="bg-gray-900 text-green-400 p-6 rounded-lg max-w-6xl w-full max-h-[90vh] overflow-y-auto">
@@ -334,26 +265,30 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
           >
             PENDING RESPONSES ({pendingResponsesData.items.length})
           </button>
-          <button
-            className={`px-4 py-2 font-mono ${
-              activeTab === 'notifications' 
-                ? 'text-green-400 border-b-2 border-green-400' 
-                : 'text-gray-400 hover:text-green-400'
-            }`}
-            onClick={() => setActiveTab('notifications')}
-          >
-            NOTIFICATIONS ({notifications.length})
-          </button>
-          <button
-            className={`px-4 py-2 font-mono ${
-              activeTab === 'analytics' 
-                ? 'text-green-400 border-b-2 border-green-400' 
-                : 'text-gray-400 hover:text-green-400'
-            }`}
-            onClick={() => setActiveTab('analytics')}
-          >
-            ANALYTICS
-          </button>
+          {canViewAnalytics && (
+            <>
+              <button
+                className={`px-4 py-2 font-mono ${
+                  activeTab === 'notifications' 
+                    ? 'text-green-400 border-b-2 border-green-400' 
+                    : 'text-gray-400 hover:text-green-400'
+                }`}
+                onClick={() => setActiveTab('notifications')}
+              >
+                NOTIFICATIONS ({notifications.length})
+              </button>
+              <button
+                className={`px-4 py-2 font-mono ${
+                  activeTab === 'analytics' 
+                    ? 'text-green-400 border-b-2 border-green-400' 
+                    : 'text-gray-400 hover:text-green-400'
+                }`}
+                onClick={() => setActiveTab('analytics')}
+              >
+                ANALYTICS
+              </button>
+            </>
+          )}
         </div>
 
         {/* Pending Responses Tab */}
@@ -604,7 +539,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
         )}
 
         {/* Notifications Tab */}
-        {activeTab === 'notifications' && (
+        {activeTab === 'notifications' && canViewAnalytics && (
           <div>
             <h3 className="text-lg font-mono mb-4 text-yellow-400">NOTIFICATIONS</h3>
             
@@ -639,7 +574,7 @@ export default function DmDashboard({ sessionId, isVisible, onClose, theme }: Dm
         )}
 
         {/* Analytics Tab */}
-        {activeTab === 'analytics' && (
+        {activeTab === 'analytics' && canViewAnalytics && (
           <div>
             <h3 className="text-lg font-mono mb-4 text-yellow-400">ANALYTICS</h3>
             
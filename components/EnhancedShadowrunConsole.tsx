@@ -1,30 +1,35 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
 import { useUser } from '@clerk/nextjs';
 import { 
   executeCommand, 
   CommandHistoryManager, 
-  autoCompleteCommand, 
   getCommandSuggestions,
   Command
 } from '../utils/commands';
-import { sessionAPI, ShadowrunWebSocket } from '../utils/api';
+import { ShadowrunDiceResult } from '../utils/dice';
+import { sessionAPI, historyAPI, characterAPI, ShadowrunWebSocket, SessionInfo } from '../utils/api';
+import { SessionStateManager } from '../utils/session';
+import { MacroManager } from '../utils/macros';
+import { toShadowrunCharacter } from '../utils/characters';
+import { getCompletions, applyCompletion, commonCompletionPrefix, CompletionItem } from '../utils/completion';
+import {
+  createTranscript,
+  saveTranscript,
+  parseTranscriptJson,
+  downloadFile,
+  TranscriptEntry
+} from '../utils/transcript';
+import { ThemeManager, DEFAULT_THEME, themeStyle } from '../utils/themes';
+import { isRecipient, describePrivateMessage } from '../utils/whispers';
+import { observerCanSee, DelayBuffer, OBSERVER_DELAYS } from '../utils/observer';
+import { sessionPermissions, isGameMaster } from '../utils/permissions';
+import CommandResultView from './CommandResultView';
+import ThemeEditor from './ThemeEditor';
+import CharacterPicker from './CharacterPicker';
+import type { ShadowrunCharacter } from './CharacterSheet';
 
 // Define types
-type ThemeName = 'shadowrunBarren' | 'matrix' | 'cyberpunk' | 'terminal';
-
-interface Theme {
-  name: string;
-  background: string;
-  text: string;
-  secondaryText: string;
-  accent: string;
-  prompt: string;
-  input: string;
-  inputText: string;
-  secondaryBackground: string;
-  highlight: string;
-}
-
 interface HistoryItem {
   command: string;
   output: string;
@@ -34,76 +39,18 @@ interface HistoryItem {
   success?: boolean;
   broadcast?: boolean;
   userId?: string;
+  resultType?: string; // CommandResult type, picks the rich renderer
+  data?: any;
 }
 
 interface UserSettings {
-  theme: ThemeName;
+  theme: string; // Theme id in the theme registry
   fontSize: string;
   soundEnabled: boolean;
   autoScroll: boolean;
+  observerDelay: number; // Seconds session events are held back while observing
 }
 
-interface SessionInfo {
-  id: string;
-  name: string;
-  playerCount: number;
-  maxPlayers: number;
-  gameState: 'waiting' | 'active' | 'paused';
-  isGM: boolean;
-}
-
-// Enhanced themes with more properties
-const themes: Record<string, Theme> = {
-  shadowrunBarren: {
-    name: 'Shadowrun Barren',
-    background: 'bg-gray-950',
-    text: 'text-red-300',
-    secondaryText: 'text-gray-400',
-    accent: 'bg-red-900 text-red-100',
-    prompt: 'text-green-500',
-    input: 'bg-gray-900 border-red-900 border',
-    inputText: 'text-red-200',
-    secondaryBackground: 'bg-gray-900',
-    highlight: 'bg-red-900 bg-opacity-30'
-  },
-  matrix: {
-    name: 'Matrix',
-    background: 'bg-black',
-    text: 'text-green-400',
-    secondaryText: 'text-green-600',
-    accent: 'bg-green-700 text-green-200',
-    prompt: 'text-green-500',
-    input: 'bg-black border-green-700 border',
-    inputText: 'text-green-400',
-    secondaryBackground: 'bg-green-900 bg-opacity-20',
-    highlight: 'bg-green-700 bg-opacity-30'
-  },
-  cyberpunk: {
-    name: 'Cyberpunk',
-    background: 'bg-purple-900',
-    text: 'text-pink-300',
-    secondaryText: 'text-blue-300',
-    accent: 'bg-pink-600 text-blue-200',
-    prompt: 'text-yellow-300',
-    input: 'bg-purple-800 border-pink-500 border',
-    inputText: 'text-pink-300',
-    secondaryBackground: 'bg-purple-800',
-    highlight: 'bg-pink-600 bg-opacity-30'
-  },
-  terminal: {
-    name: 'Terminal',
-    background: 'bg-black',
-    text: 'text-amber-400',
-    secondaryText: 'text-amber-600',
-    accent: 'bg-amber-800 text-amber-200',
-    prompt: 'text-amber-500',
-    input: 'bg-black border-amber-700 border',
-    inputText: 'text-amber-400',
-    secondaryBackground: 'bg-amber-900 bg-opacity-20',
-    highlight: 'bg-amber-700 bg-opacity-30'
-  }
-};
-
 // Define font sizes
 const fontSizes = [
   { id: 'xs', name: 'Extra Small', class: 'text-xs' },
@@ -113,7 +60,12 @@ const fontSizes = [
   { id: 'xl', name: 'Extra Large', class: 'text-xl' }
 ];
 
-export default function EnhancedShadowrunConsole() {
+interface EnhancedShadowrunConsoleProps {
+  sessionId?: string; // Session to join on load
+  pickCharacter?: boolean; // Ask which character to play once joined, e.g. after following an invite
+}
+
+export default function EnhancedShadowrunConsole({ sessionId, pickCharacter }: EnhancedShadowrunConsoleProps = {}) {
   const { user, isSignedIn } = useUser();
   const [input, setInput] = useState('');
   const [history, setHistory] = useState<HistoryItem[]>([]);
@@ -122,10 +74,13 @@ export default function EnhancedShadowrunConsole() {
   const [showSettings, setShowSettings] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
+  const [pendingMessages, setPendingMessages] = useState(0);
+  const [showCharacterPicker, setShowCharacterPicker] = useState(false);
+  const [character, setCharacter] = useState<ShadowrunCharacter | null>(null); // Sheet commands roll from
   
   // Auto-completion state
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<CompletionItem[]>([]);
   const [selectedSuggestion, setSelectedSuggestion] = useState(-1);
   
   // Command help state
@@ -136,13 +91,23 @@ export default function EnhancedShadowrunConsole() {
   const consoleRef = useRef<HTMLDivElement>(null);
   const historyManager = useRef(new CommandHistoryManager());
   const websocket = useRef<ShadowrunWebSocket | null>(null);
+  const lastRoll = useRef<ShadowrunDiceResult | undefined>(undefined);
+  const sessionState = useRef(new SessionStateManager());
+  const macroManager = useRef(new MacroManager());
+  const themeManager = useRef(new ThemeManager());
+  const [themes, setThemes] = useState(() => themeManager.current.getThemes());
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
+  
+  // Ctrl+R reverse history search
+  const [historySearch, setHistorySearch] = useState<{ query: string; index: number; sessionOnly: boolean; savedInput: string } | null>(null);
   
   // Settings state with expanded defaults
   const [settings, setSettings] = useState<UserSettings>({
-    theme: 'shadowrunBarren',
+    theme: DEFAULT_THEME,
     fontSize: 'base',
     soundEnabled: false,
-    autoScroll: true
+    autoScroll: true,
+    observerDelay: 0
   });
 
   // Load settings and command history on mount
@@ -158,6 +123,10 @@ export default function EnhancedShadowrunConsole() {
     }
 
     historyManager.current.loadFromStorage();
+    sessionState.current.loadFromStorage();
+    macroManager.current.loadFromStorage();
+    themeManager.current.loadFromStorage();
+    setThemes(themeManager.current.getThemes());
 
     // Set initial prompt based on user
     setPrompt(isSignedIn ? `${user?.firstName || 'User'}@SR > ` : '> ');
@@ -173,11 +142,45 @@ export default function EnhancedShadowrunConsole() {
     ]);
   }, [isSignedIn, user]);
 
+  // Sync command history with the server for signed-in players
+  useEffect(() => {
+    historyManager.current.setUser(user?.id);
+    if (!user?.id) {
+      historyManager.current.setSync(undefined);
+      return;
+    }
+    const userId = user.id;
+    historyManager.current.setSync({
+      fetch: options => historyAPI.getHistory(userId, options),
+      push: entries => historyAPI.appendHistory(userId, entries)
+    });
+    historyManager.current.syncWithServer().catch(error => {
+      console.warn('Command history sync failed:', error);
+    });
+  }, [user?.id]);
+
+  // Custom themes are saved per user
+  useEffect(() => {
+    if (!user?.id) return;
+    themeManager.current.setUser(user.id);
+    setThemes(themeManager.current.getThemes());
+  }, [user?.id]);
+
+  // Macros are saved per character
+  useEffect(() => {
+    macroManager.current.setCharacter(character?.id ?? 'default');
+  }, [character?.id]);
+
   // Save settings when they change
   useEffect(() => {
     localStorage.setItem('shadowrun-settings', JSON.stringify(settings));
   }, [settings]);
 
+  // Keep the session transcript saved for export from other views
+  useEffect(() => {
+    saveTranscript(sessionInfo?.id, toTranscriptEntries(history));
+  }, [history, sessionInfo?.id]);
+
   // Auto-scroll when history updates
   useEffect(() => {
     if (settings.autoScroll && consoleRef.current) {
@@ -192,15 +195,67 @@ export default function EnhancedShadowrunConsole() {
     }
   }, []);
 
-  // WebSocket message handler
-  const handleWebSocketMessage = useCallback((data: any) => {
-    if (data.type === 'command_result') {
-      addToHistory(data.command, data.output, new Date(), false, false, data.success, true, data.userId);
-    } else if (data.type === 'player_joined') {
-      addToHistory('', `🎮 ${data.username} joined the session`, new Date(), false, false, true, false);
-    } else if (data.type === 'player_left') {
-      addToHistory('', `👋 ${data.username} left the session`, new Date(), false, false, true, false);
-    }
+  // Who we are, for filtering private messages in the WebSocket handler
+  const permissions = sessionInfo ? sessionPermissions(sessionInfo) : undefined;
+  const isObserver = permissions?.role === 'observer';
+  const identity = useRef({ userId: 'User', userName: 'User', isGM: false, isObserver: false });
+  identity.current = { userId: user?.id || 'User', userName: user?.firstName || 'User', isGM: isGameMaster(permissions), isObserver };
+
+  // Session events pass through here; observers can see them on a delay
+  const incoming = useRef(new DelayBuffer<() => void>(show => show()));
+  useEffect(() => {
+    incoming.current.setDelay(isObserver ? settings.observerDelay * 1000 : 0);
+  }, [isObserver, settings.observerDelay]);
+  useEffect(() => () => incoming.current.clear(), []);
+
+  // WebSocket message handlers
+  const subscribeToSession = useCallback((socket: ShadowrunWebSocket, sessionId: string) => {
+    // Player counts and lists come from the server
+    const refreshSessionInfo = () => {
+      sessionAPI.getSessionInfo(sessionId)
+        .then(setSessionInfo)
+        .catch(error => console.warn('Failed to refresh session info:', error));
+    };
+
+    socket.on('command_result', data => {
+      if (identity.current.isObserver && !observerCanSee(data)) return;
+      incoming.current.push(() => {
+        addToHistory(data.command, data.output, new Date(), false, false, data.success, true, data.userId);
+      });
+    });
+    socket.on('player_joined', data => {
+      incoming.current.push(() => {
+        addToHistory('', `🎮 ${data.username} joined the session`, new Date(), false, false, true, false);
+        refreshSessionInfo();
+      });
+    });
+    socket.on('player_left', data => {
+      incoming.current.push(() => {
+        addToHistory('', `👋 ${data.username} left the session`, new Date(), false, false, true, false);
+        refreshSessionInfo();
+      });
+    });
+    socket.on('private_message', data => {
+      // The server only sends us messages addressed to us, but check anyway;
+      // our own were shown when sent
+      const { userId, isGM, isObserver } = identity.current;
+      const { message } = data;
+      if (isObserver && !observerCanSee(data)) return;
+      if (isRecipient(message, userId, isGM) && message.from !== userId) {
+        addToHistory('', `${describePrivateMessage(message, userId)}: ${message.message}`, new Date(message.timestamp), false, false, true, false, message.fromName || message.from, message.channel, message);
+      }
+    });
+    // Scene, NPC and initiative changes, ours included, from the server
+    socket.on('session_change', data => {
+      if (identity.current.isObserver && !observerCanSee(data)) return;
+      incoming.current.push(() => sessionState.current.apply(data.change));
+    });
+    socket.on('error', data => {
+      addToHistory('', `Server error: ${data.message}`, new Date(), false, false, false);
+    });
+    socket.onProtocolError(error => {
+      addToHistory('', `⚠️ Ignored a malformed message from the server: ${error.message}`, new Date(), false, false, false);
+    });
   }, []);
 
   // WebSocket connection handler
@@ -217,7 +272,9 @@ export default function EnhancedShadowrunConsole() {
     isStreaming = false, 
     success = true,
     broadcast = false,
-    userId?: string
+    userId?: string,
+    resultType?: string,
+    data?: any
   ) => {
     setHistory(prev => [...prev, { 
       command, 
@@ -227,22 +284,70 @@ export default function EnhancedShadowrunConsole() {
       isStreaming, 
       success,
       broadcast,
-      userId
+      userId,
+      resultType,
+      data
     }]);
   };
 
-  // Handle auto-completion
+  // Finished console entries, as transcript entries
+  const toTranscriptEntries = (items: HistoryItem[]): TranscriptEntry[] =>
+    items
+      .filter(item => !item.isProcessing)
+      .map(item => ({
+        command: item.command,
+        output: item.output,
+        timestamp: item.timestamp.toISOString(),
+        userId: item.userId,
+        broadcast: item.broadcast,
+        success: item.success,
+        type: item.resultType,
+        data: item.data
+      }));
+
+  // Load a JSON transcript export back into the console
+  const importTranscript = async (file: File) => {
+    try {
+      const transcript = parseTranscriptJson(await file.text());
+      setHistory(transcript.entries.map(entry => ({
+        command: entry.command,
+        output: entry.output,
+        timestamp: new Date(entry.timestamp),
+        success: entry.success,
+        broadcast: entry.broadcast,
+        userId: entry.userId,
+        resultType: entry.type,
+        data: entry.data
+      })));
+      addToHistory('', `📄 Imported ${transcript.entries.length} entries from ${file.name}`, new Date(), false, false, true);
+    } catch (error) {
+      addToHistory('', `Import error: ${error instanceof Error ? error.message : 'Unknown error'}`, new Date(), false, false, false);
+    }
+  };
+
+  // Handle auto-completion of command names and arguments
   const handleTabComplete = () => {
-    if (input.trim()) {
-      const completions = autoCompleteCommand(input.trim());
-      if (completions.length === 1) {
-        setInput(completions[0] + ' ');
-        setShowSuggestions(false);
-      } else if (completions.length > 1) {
-        setSuggestions(completions);
-        setShowSuggestions(true);
-        setSelectedSuggestion(0);
+    if (!input.trim()) return;
+    
+    const completions = getCompletions(input, {
+      character: character ?? undefined,
+      session: sessionState.current,
+      participants: sessionInfo?.participants,
+      themes: themeManager.current
+    });
+    if (completions.length === 1) {
+      setInput(applyCompletion(input, completions[0]));
+      setShowSuggestions(false);
+    } else if (completions.length > 1) {
+      // Complete as far as all candidates agree, then list them
+      const { replaceFrom } = completions[0];
+      const prefix = commonCompletionPrefix(completions);
+      if (prefix.length > input.length - replaceFrom) {
+        setInput(input.slice(0, replaceFrom) + prefix);
       }
+      setSuggestions(completions);
+      setShowSuggestions(true);
+      setSelectedSuggestion(0);
     }
   };
 
@@ -258,8 +363,49 @@ export default function EnhancedShadowrunConsole() {
     }
   };
 
+  // Matches for the active history search, newest first
+  const historyMatches = useMemo(() => {
+    if (!historySearch) return [];
+    return historyManager.current.search(historySearch.query, {
+      sessionId: historySearch.sessionOnly ? sessionInfo?.id : undefined
+    });
+  }, [historySearch, sessionInfo]);
+  const historyMatch = historySearch ? historyMatches[historySearch.index]?.entry.command : undefined;
+
+  // Keys while searching history: Ctrl+R older match, Ctrl+S toggle session scope,
+  // Enter to take the match, Escape to go back to what was typed
+  const handleHistorySearchKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!historySearch) return;
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setHistorySearch({ ...historySearch, index: Math.min(historySearch.index + 1, Math.max(0, historyMatches.length - 1)) });
+    } else if (e.ctrlKey && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      setHistorySearch({ ...historySearch, index: 0, sessionOnly: !historySearch.sessionOnly });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      setInput(historyMatch ?? historySearch.savedInput);
+      setHistorySearch(null);
+    } else if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'g')) {
+      e.preventDefault();
+      setInput(historySearch.savedInput);
+      setHistorySearch(null);
+    }
+  };
+
   // Handle key navigation
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (historySearch) {
+      handleHistorySearchKey(e);
+      return;
+    }
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setHistorySearch({ query: '', index: 0, sessionOnly: false, savedInput: input });
+      setShowSuggestions(false);
+      setShowCommandHelp(false);
+      return;
+    }
     switch (e.key) {
       case 'ArrowUp':
         e.preventDefault();
@@ -327,19 +473,6 @@ export default function EnhancedShadowrunConsole() {
         return;
       }
 
-      if (cmd.toLowerCase().startsWith('theme ')) {
-        const themeName = cmd.substring(6).trim();
-        if (themes[themeName]) {
-          const newSettings = { ...settings, theme: themeName as ThemeName };
-          setSettings(newSettings);
-          addToHistory(cmd, `Theme changed to ${themes[themeName].name}`, new Date(), false, false, true);
-        } else {
-          addToHistory(cmd, `Theme not found. Available themes: ${Object.keys(themes).join(', ')}`, new Date(), false, false, false);
-        }
-        setIsProcessing(false);
-        return;
-      }
-
       if (cmd.toLowerCase() === 'settings') {
         setShowSettings(true);
         addToHistory(cmd, 'Opening settings panel...', new Date(), false, false, true);
@@ -349,24 +482,47 @@ export default function EnhancedShadowrunConsole() {
 
       // Execute command using the enhanced command system
       const result = await executeCommand(cmd, {
-        userId: user?.firstName || 'User',
+        userId: user?.id || 'User',
+        userName: user?.firstName || 'User',
         sessionId: sessionInfo?.id,
         isGM: sessionInfo?.isGM || false,
-        apiCall: async (endpoint: string, data: any) => {
-          // API call wrapper for future backend integration
-          console.log('API Call:', endpoint, data);
-          return { success: true, data: null };
-        }
+        isObserver,
+        permissions,
+        members: sessionInfo?.members,
+        lastRoll: lastRoll.current,
+        character: character ?? undefined,
+        session: sessionState.current,
+        macros: macroManager.current,
+        themes: themeManager.current,
+        transcript: () => createTranscript(toTranscriptEntries(history), {
+          sessionId: sessionInfo?.id,
+          sessionName: sessionInfo?.name,
+          theme: { name: currentTheme.name, palette: currentTheme.palette }
+        })
       });
 
+      // The theme command may have imported or removed themes
+      setThemes(themeManager.current.getThemes());
+
+      // Remember the latest dice pool so Edge can be spent on it
+      if (result.success && result.data && Array.isArray(result.data.results) && result.data.total === undefined) {
+        lastRoll.current = result.data;
+      }
+
       // Handle special results
       if (result.output === 'CLEAR_CONSOLE') {
         setHistory([]);
+      } else if (result.type === 'theme' && result.success) {
+        setSettings(prev => ({ ...prev, theme: result.data.themeId }));
+        addToHistory(cmd, result.output, new Date(), false, false, true);
+      } else if (result.type === 'export' && result.success) {
+        downloadFile(result.data.content, result.data.filename, result.data.mimeType);
+        addToHistory(cmd, result.output, new Date(), false, false, true);
       } else {
-        addToHistory(cmd, result.output, new Date(), false, false, result.success, result.broadcast);
+        addToHistory(cmd, result.output, new Date(), false, false, result.success, result.broadcast, undefined, result.type, result.data);
         
-        // If this should be broadcast and we have a websocket connection
-        if (result.broadcast && websocket.current?.isConnected()) {
+        // Broadcast to the session; sends while offline are queued until reconnect
+        if (result.broadcast && websocket.current) {
           websocket.current.send({
             type: 'command',
             command: cmd,
@@ -374,6 +530,13 @@ export default function EnhancedShadowrunConsole() {
             userId: user?.firstName || 'User'
           });
         }
+
+        // Private messages go out addressed to their recipients only
+        if (websocket.current) {
+          result.privateMessages?.forEach(message => {
+            websocket.current!.send({ type: 'private_message', to: message.to, message });
+          });
+        }
       }
     } catch (error) {
       console.error('Error processing command:', error);
@@ -386,6 +549,10 @@ export default function EnhancedShadowrunConsole() {
   // Handle input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
+    if (historySearch) {
+      setHistorySearch({ ...historySearch, query: value, index: 0 });
+      return;
+    }
     setInput(value);
     updateCommandSuggestions(value);
   };
@@ -396,12 +563,36 @@ export default function EnhancedShadowrunConsole() {
       setConnectionStatus('connecting');
       const session = await sessionAPI.getSessionInfo(sessionId);
       setSessionInfo(session);
+      historyManager.current.setSession(sessionId);
+      const state = new SessionStateManager(sessionId);
+      state.loadFromStorage();
+      sessionState.current = state;
+      // The server has the table's scene, NPCs and initiative; our copy may be stale
+      sessionAPI.getSessionState(sessionId)
+        .then(shared => state.setShared(shared))
+        .catch(error => console.warn('Failed to load session state:', error));
+
+      // Play the user's own character in this session, if they have one
+      setCharacter(null);
+      characterAPI.getCharacters(sessionId)
+        .then(characters => {
+          const own = characters.find(candidate => user?.id && candidate.user_id === user.id);
+          if (own) setCharacter(toShadowrunCharacter(own));
+        })
+        .catch(error => console.warn('Failed to load characters:', error));
       
       // Initialize WebSocket connection
-      websocket.current = new ShadowrunWebSocket();
-      websocket.current.connect(sessionId, handleWebSocketMessage, handleWebSocketConnection);
+      websocket.current?.disconnect();
+      websocket.current = new ShadowrunWebSocket({ name: identity.current.userName });
+      websocket.current.onPendingChange(setPendingMessages);
+      subscribeToSession(websocket.current, sessionId);
+      websocket.current.connect(sessionId, handleWebSocketConnection);
+      setPendingMessages(websocket.current.getPendingCount());
       
       addToHistory('', `Connected to session: ${session.name}`, new Date(), false, false, true);
+      if (pickCharacter && session.role === 'player') {
+        setShowCharacterPicker(true);
+      }
     } catch (error) {
       console.error('Failed to connect to session:', error);
       addToHistory('', `Failed to connect to session: ${error instanceof Error ? error.message : 'Unknown error'}`, new Date(), false, false, false);
@@ -409,11 +600,22 @@ export default function EnhancedShadowrunConsole() {
     }
   };
 
-  const currentTheme = themes[settings.theme];
+  // Join the session given by the page, and hang up when the console goes away.
+  // Only a new session id reconnects, not every render's connectToSession.
+  const connect = useRef(connectToSession);
+  connect.current = connectToSession;
+  useEffect(() => {
+    if (sessionId) {
+      connect.current(sessionId);
+    }
+    return () => websocket.current?.disconnect();
+  }, [sessionId]);
+
+  const currentTheme = themes[settings.theme] || themes[DEFAULT_THEME];
   const currentFontSize = fontSizes.find(fs => fs.id === settings.fontSize)?.class || 'text-base';
 
   return (
-    <div className={`min-h-screen flex flex-col ${currentTheme.background}`}>
+    <div className={`min-h-screen flex flex-col ${currentTheme.background}`} style={themeStyle(currentTheme)}>
       {/* Enhanced console header */}
       <header className="p-2 border-b border-red-900">
         <div className="flex justify-between items-center">
@@ -428,14 +630,46 @@ export default function EnhancedShadowrunConsole() {
                   {connectionStatus.toUpperCase()}
                 </span>
               </span>
+              {pendingMessages > 0 && (
+                <span className="text-yellow-400" title="Sent when the connection comes back">
+                  ⏳ {pendingMessages} pending
+                </span>
+              )}
               {sessionInfo && (
                 <span className={currentTheme.secondaryText}>
                   Session: {sessionInfo.name} ({sessionInfo.playerCount} players)
                 </span>
               )}
+              {character && (
+                <span className={currentTheme.secondaryText}>
+                  Playing as: {character.name}
+                </span>
+              )}
+              {isObserver && (
+                <span className="text-yellow-400" title="Read-only: you can watch, but not roll or run game commands">
+                  👁️ OBSERVING{settings.observerDelay > 0 ? ` · ${settings.observerDelay}s delay` : ''}
+                </span>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {sessionInfo && isObserver && (
+              <Link
+                href={`/overlay?session=${encodeURIComponent(sessionInfo.id)}&delay=${settings.observerDelay}`}
+                target="_blank"
+                className={`px-3 py-1 rounded ${currentTheme.accent} hover:opacity-80 text-sm`}
+              >
+                Stream Overlay
+              </Link>
+            )}
+            {sessionInfo && sessionInfo.role === 'player' && (
+              <button
+                onClick={() => setShowCharacterPicker(true)}
+                className={`px-3 py-1 rounded ${currentTheme.accent} hover:opacity-80 text-sm`}
+              >
+                Character
+              </button>
+            )}
             <button 
               onClick={() => setShowSettings(true)}
               className={`px-3 py-1 rounded ${currentTheme.accent} hover:opacity-80 text-sm`}
@@ -469,7 +703,7 @@ export default function EnhancedShadowrunConsole() {
               {item.userId && item.broadcast && (
                 <span className="text-blue-300">[{item.userId}] </span>
               )}
-              {item.output}
+              <CommandResultView type={item.resultType} data={item.data} output={item.output} />
               {item.isProcessing && (
                 <span className="streaming-cursor ml-1"></span>
               )}
@@ -504,30 +738,51 @@ export default function EnhancedShadowrunConsole() {
                 i === selectedSuggestion ? currentTheme.highlight : ''
               } ${currentTheme.text}`}
               onClick={() => {
-                setInput(suggestion + ' ');
+                setInput(applyCompletion(input, suggestion));
                 setShowSuggestions(false);
                 inputRef.current?.focus();
               }}
             >
-              {suggestion}
+              {suggestion.label}
+              <span className={`${currentTheme.secondaryText} text-xs ml-2`}>
+                {suggestion.parameter ? `${suggestion.parameter}: ` : ''}{suggestion.description}
+              </span>
             </div>
           ))}
         </div>
       )}
       
+      {/* Reverse history search */}
+      {historySearch && (
+        <div
+          className={`absolute bottom-16 left-4 right-4 ${currentTheme.secondaryBackground} border ${currentTheme.input} rounded-lg p-2 z-10 text-xs`}
+          role="status"
+          aria-label="History search"
+        >
+          <span className={currentTheme.secondaryText}>
+            {historyMatches.length > 0 ? `Match ${historySearch.index + 1} of ${historyMatches.length}` : 'No matches'}
+            {historySearch.sessionOnly ? ' in this session' : ' in all sessions'}
+            {' '}· Ctrl+R older · Ctrl+S {historySearch.sessionOnly ? 'all sessions' : 'this session'} · Enter to use · Esc to cancel
+          </span>
+          {historyMatch && <div className={`${currentTheme.text} mt-1 font-mono`}>{historyMatch}</div>}
+        </div>
+      )}
+      
       {/* Enhanced input form */}
       <form onSubmit={handleSubmit} className="p-2 border-t border-red-900">
         <div className={`flex items-center ${currentTheme.input} p-2 rounded relative`}>
-          <span className={`${currentTheme.prompt} mr-2 flex-shrink-0`}>{prompt}</span>
+          <span className={`${currentTheme.prompt} mr-2 flex-shrink-0`}>
+            {historySearch ? '(reverse-i-search)' : prompt}
+          </span>
           <input
             ref={inputRef}
             type="text"
-            value={input}
+            value={historySearch ? historySearch.query : input}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             className={`flex-1 bg-transparent outline-none ${currentTheme.inputText}`}
             disabled={isProcessing}
-            placeholder={isProcessing ? "Processing..." : "Type a command... (Tab for auto-complete, ↑↓ for history)"}
+            placeholder={isProcessing ? "Processing..." : historySearch ? "Search history..." : isObserver ? "Observing (read-only: help, clear, theme and export only)" : "Type a command... (Tab for auto-complete, ↑↓ for history, Ctrl+R to search)"}
             autoComplete="off"
           />
           {isProcessing && (
@@ -539,6 +794,19 @@ export default function EnhancedShadowrunConsole() {
       </form>
       
       {/* Enhanced settings modal */}
+      {showCharacterPicker && sessionInfo && (
+        <CharacterPicker
+          sessionId={sessionInfo.id}
+          userId={user?.id}
+          onPick={picked => {
+            setCharacter(toShadowrunCharacter(picked));
+            setShowCharacterPicker(false);
+            addToHistory('', `🎭 Playing as ${picked.name}`, new Date(), false, false, true);
+          }}
+          onClose={() => setShowCharacterPicker(false)}
+        />
+      )}
+
       {showSettings && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
           <div className={`${currentTheme.secondaryBackground} p-6 rounded-lg max-w-md w-full mx-4`}>
@@ -548,13 +816,19 @@ export default function EnhancedShadowrunConsole() {
               <label className={`${currentTheme.text} block mb-2`}>Theme</label>
               <select 
                 value={settings.theme}
-                onChange={e => setSettings({...settings, theme: e.target.value as ThemeName})}
+                onChange={e => setSettings({...settings, theme: e.target.value})}
                 className="w-full p-2 bg-gray-800 text-white rounded"
               >
                 {Object.entries(themes).map(([key, theme]) => (
-                  <option key={key} value={key}>{theme.name}</option>
+                  <option key={key} value={key}>{theme.name}{theme.custom ? ' (custom)' : ''}</option>
                 ))}
               </select>
+              <button
+                onClick={() => setShowThemeEditor(true)}
+                className="mt-2 text-sm underline text-gray-300 hover:text-white"
+              >
+                {currentTheme.custom ? 'Edit theme...' : 'Create custom theme...'}
+              </button>
             </div>
             
             <div className="mb-4">
@@ -594,6 +868,35 @@ export default function EnhancedShadowrunConsole() {
               </label>
             </div>
             
+            {isObserver && (
+              <div className="mb-4">
+                <label className={`${currentTheme.text} block mb-2`}>Stream Delay</label>
+                <select
+                  value={settings.observerDelay}
+                  onChange={e => setSettings({...settings, observerDelay: parseInt(e.target.value)})}
+                  className="w-full p-2 bg-gray-800 text-white rounded"
+                >
+                  {OBSERVER_DELAYS.map(delay => (
+                    <option key={delay} value={delay}>{delay === 0 ? 'No delay' : `${delay} seconds`}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
+            <div className="mb-4">
+              <label className={`${currentTheme.text} block mb-2`}>Import Transcript (JSON)</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) importTranscript(file);
+                  e.target.value = '';
+                }}
+                className="w-full text-sm text-gray-300"
+              />
+            </div>
+            
             <div className="flex justify-between mt-6">
               <button 
                 onClick={() => historyManager.current.clearHistory()}
@@ -611,6 +914,19 @@ export default function EnhancedShadowrunConsole() {
           </div>
         </div>
       )}
+
+      {showThemeEditor && (
+        <ThemeEditor
+          themes={themeManager.current}
+          base={currentTheme}
+          onSave={themeId => {
+            setThemes(themeManager.current.getThemes());
+            setSettings(prev => ({ ...prev, theme: themeId }));
+            setShowThemeEditor(false);
+          }}
+          onClose={() => setShowThemeEditor(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
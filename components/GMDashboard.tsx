@@ -1,5 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
-import { useUser } from '@clerk/nextjs';
+import { createTranscript, formatTranscript, loadTranscript, downloadFile } from '../utils/transcript';
+import { gmAPI, reviewAPI, characterAPI, imageAPI, sessionAPI } from '../utils/api';
+import type {
+  CampaignEvent, CombatInfo, CombatantStatus, DiscoveredSheet, IceProgram, LivePlayer, MatrixGridInfo,
+  MatrixNode, NpcRelationship, PlayerEngagement, PlotThread, SheetIntegration
+} from '../utils/api';
+import { Capability, Permissions, can } from '../utils/permissions';
+import type { SessionCharacter } from '../utils/characters';
 
 /**
  * GMDashboard Component
@@ -114,43 +121,6 @@ interface Scene {
   symbolism?: string[];
 }
 
-/**
- * Combatant Interface
- * 
- * Represents a participant in Shadowrun 6E combat.
- * Tracks initiative, damage, and status according to SR6E rules.
- * 
- * @interface Combatant
- */
-interface Combatant {
-  /** Unique identifier for the combatant */
-  id: string;
-  /** Combatant's name */
-  name: string;
-  /** Initiative score for turn order */
-  initiative: number;
-  /** Legacy damage field (use physicalDamage/stunDamage instead) */
-  damage: number;
-  /** Maximum Edge points */
-  edge: number;
-  /** Current available Edge points */
-  currentEdge: number;
-  /** Combat status (active, unconscious, dead, etc.) */
-  status: string;
-  /** Type of combatant for different rule applications */
-  type: 'player' | 'npc' | 'spirit' | 'drone';
-  /** Number of actions available per turn */
-  actions: number;
-  /** Current Physical damage boxes filled */
-  physicalDamage: number;
-  /** Current Stun damage boxes filled */
-  stunDamage: number;
-  /** Total Physical condition monitor boxes */
-  physicalMonitor: number;
-  /** Total Stun condition monitor boxes */
-  stunMonitor: number;
-}
-
 /**
  * SymbolicElement Interface
  * 
@@ -174,6 +144,33 @@ interface SymbolicElement {
   payoff_notes?: string;
 }
 
+/**
+ * Dashboard tab configuration
+ * Each tab has an ID, label, color theme for visual organization, and the
+ * capability needed to see it
+ */
+const allTabs: { id: string; label: string; color: string; capability: Capability }[] = [
+  { id: 'review', label: '📋 Review Queue', color: 'red', capability: 'approve_ai_responses' },
+  { id: 'scene', label: '🎭 Scene Control', color: 'purple', capability: 'edit_scene' },
+  { id: 'npcs', label: '👥 NPCs & Factions', color: 'blue', capability: 'manage_npcs' },
+  { id: 'combat', label: '⚔️ Combat Manager', color: 'orange', capability: 'edit_combat' },
+  { id: 'players', label: '🎯 Character Viewer', color: 'green', capability: 'manage_session' },
+  { id: 'matrix', label: '🔮 Matrix Dashboard', color: 'cyan', capability: 'see_npc_stats' },
+  { id: 'analytics', label: '📊 Session Analytics', color: 'indigo', capability: 'view_analytics' },
+  { id: 'monitoring', label: '👁️ Live Monitoring', color: 'yellow', capability: 'view_analytics' },
+  { id: 'timeline', label: '📅 Campaign Timeline', color: 'pink', capability: 'view_analytics' },
+  { id: 'generators', label: '🎲 Generators', color: 'emerald', capability: 'manage_npcs' },
+  { id: 'tools', label: '🛠️ GM Tools', color: 'gray', capability: 'manage_session' },
+  { id: 'slack', label: '📨 Slack Controls', color: 'violet', capability: 'manage_session' }
+];
+
+/**
+ * Whether the viewer may see at least one tab, and so open the dashboard at all
+ */
+export function canOpenGMDashboard(permissions: Permissions | null | undefined): boolean {
+  return allTabs.some(tab => can(permissions, tab.capability));
+}
+
 /**
  * GMDashboardProps Interface
  * 
@@ -188,6 +185,8 @@ interface GMDashboardProps {
   isVisible: boolean;
   /** Callback function to close the dashboard */
   onClose: () => void;
+  /** What the viewer may do; tabs they lack the capability for are hidden. Without it, nothing is shown */
+  permissions?: Permissions | null;
 }
 
 /**
@@ -200,13 +199,10 @@ interface GMDashboardProps {
  * @param {GMDashboardProps} props - Component props
  * @returns {JSX.Element | null} The dashboard UI or null if not visible
  */
-export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboardProps) {
-  // Get current user information from Clerk authentication
-  const { user } = useUser();
-  
+export default function GMDashboard({ sessionId, isVisible, onClose, permissions }: GMDashboardProps) {
   // === CORE DASHBOARD STATE ===
-  /** Currently active tab in the dashboard */
-  const [activeTab, setActiveTab] = useState<string>('review');
+  /** Currently active tab in the dashboard; the first one the viewer may see */
+  const [activeTab, setActiveTab] = useState<string>(() => allTabs.find(tab => can(permissions, tab.capability))?.id ?? 'review');
   /** Loading state for async operations */
   const [isLoading, setIsLoading] = useState(false);
   
@@ -253,10 +249,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   // === COMBAT MANAGEMENT STATE ===
   /** All combatants in the current combat encounter */
-  const [combatants, setCombatants] = useState<Combatant[]>([]);
+  const [combatants, setCombatants] = useState<CombatantStatus[]>([]);
 
   /** Current active combat encounter */
-  const [activeCombat, setActiveCombat] = useState<any>(null);
+  const [activeCombat, setActiveCombat] = useState<CombatInfo | null>(null);
   /** Current combat round number */
   const [combatRound, setCombatRound] = useState(1);
   /** Index of the currently active combatant */
@@ -266,49 +262,49 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   // === CHARACTER MANAGEMENT STATE ===
   /** All player characters in the current session */
-  const [playerCharacters, setPlayerCharacters] = useState<any[]>([]);
+  const [playerCharacters, setPlayerCharacters] = useState<SessionCharacter[]>([]);
   /** Currently selected character for detailed viewing */
-  const [selectedCharacter, setSelectedCharacter] = useState<any>(null);
+  const [selectedCharacter, setSelectedCharacter] = useState<SessionCharacter | null>(null);
 
   // === CHARACTER SHEET INTEGRATION STATE ===
   /** Character sheets discovered from external sources (Google Docs, Slack) */
-  const [discoveredSheets, setDiscoveredSheets] = useState<any>({});
+  const [discoveredSheets, setDiscoveredSheets] = useState<Record<string, DiscoveredSheet[]>>({});
   /** Status of various character sheet integrations */
-  const [integrationStatus, setIntegrationStatus] = useState<any>({});
+  const [integrationStatus, setIntegrationStatus] = useState<Record<string, SheetIntegration>>({});
   /** Whether the import modal is currently visible */
   const [showImportModal, setShowImportModal] = useState(false);
   /** Currently selected sheet for import */
-  const [selectedImportSheet, setSelectedImportSheet] = useState<any>(null);
+  const [selectedImportSheet, setSelectedImportSheet] = useState<DiscoveredSheet | null>(null);
 
   // === MATRIX DASHBOARD STATE ===
   /** Current Matrix grid configuration */
-  const [matrixGrid, setMatrixGrid] = useState<any>(null);
+  const [matrixGrid, setMatrixGrid] = useState<MatrixGridInfo | null>(null);
   /** All nodes in the Matrix grid */
-  const [matrixNodes, setMatrixNodes] = useState<any[]>([]);
+  const [matrixNodes, setMatrixNodes] = useState<MatrixNode[]>([]);
   /** Active ICE programs in the Matrix */
-  const [icePrograms, setIcePrograms] = useState<any[]>([]);
+  const [icePrograms, setIcePrograms] = useState<IceProgram[]>([]);
   /** Current Overwatch Score accumulation */
   const [overwatchLevel, setOverwatchLevel] = useState(0);
 
   // === SESSION ANALYTICS STATE ===
   /** Overall session statistics and metrics */
-  const [sessionStats, setSessionStats] = useState<any>({});
+  const [sessionStats, setSessionStats] = useState<Record<string, number>>({});
   /** Player engagement tracking data */
-  const [playerEngagement, setPlayerEngagement] = useState<any[]>([]);
+  const [playerEngagement, setPlayerEngagement] = useState<PlayerEngagement[]>([]);
   /** Combat-specific metrics and analysis */
-  const [combatMetrics, setCombatMetrics] = useState<any>({});
+  const [combatMetrics, setCombatMetrics] = useState<Record<string, number>>({});
 
   // === CAMPAIGN TIMELINE STATE ===
   /** Major campaign events for timeline display */
-  const [campaignEvents, setCampaignEvents] = useState<any[]>([]);
+  const [campaignEvents, setCampaignEvents] = useState<CampaignEvent[]>([]);
   /** Active plot threads and their status */
-  const [plotThreads, setPlotThreads] = useState<any[]>([]);
+  const [plotThreads, setPlotThreads] = useState<PlotThread[]>([]);
   /** NPC relationship network data */
-  const [npcRelationships, setNpcRelationships] = useState<any[]>([]);
+  const [npcRelationships, setNpcRelationships] = useState<NpcRelationship[]>([]);
 
   // === LIVE MONITORING STATE ===
   /** Real-time player status and activity */
-  const [livePlayerStatus, setLivePlayerStatus] = useState<any[]>([]);
+  const [livePlayerStatus, setLivePlayerStatus] = useState<LivePlayer[]>([]);
   /** Number of currently connected players */
   const [activeConnections, setActiveConnections] = useState<number>(0);
 
@@ -319,24 +315,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
   const [imageStyle, setImageStyle] = useState('noir');
 
   // === DASHBOARD CONFIGURATION ===
-  /**
-   * Dashboard tab configuration
-   * Each tab has an ID, label, and color theme for visual organization
-   */
-  const tabs = [
-    { id: 'review', label: '📋 Review Queue', color: 'red' },
-    { id: 'scene', label: '🎭 Scene Control', color: 'purple' },
-    { id: 'npcs', label: '👥 NPCs & Factions', color: 'blue' },
-    { id: 'combat', label: '⚔️ Combat Manager', color: 'orange' },
-    { id: 'players', label: '🎯 Character Viewer', color: 'green' },
-    { id: 'matrix', label: '🔮 Matrix Dashboard', color: 'cyan' },
-    { id: 'analytics', label: '📊 Session Analytics', color: 'indigo' },
-    { id: 'monitoring', label: '👁️ Live Monitoring', color: 'yellow' },
-    { id: 'timeline', label: '📅 Campaign Timeline', color: 'pink' },
-    { id: 'generators', label: '🎲 Generators', color: 'emerald' },
-    { id: 'tools', label: '🛠️ GM Tools', color: 'gray' },
-    { id: 'slack', label: '📨 Slack Controls', color: 'violet' }
-  ];
+  /** Tabs the viewer has the capability for */
+  const tabs = allTabs.filter(tab => can(permissions, tab.capability));
+  const tabIds = tabs.map(tab => tab.id).join();
+  const canReview = can(permissions, 'approve_ai_responses');
 
   // === DATA FETCHING FUNCTIONS ===
   /**
@@ -351,9 +333,8 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
    */
   const fetchPendingResponses = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/pending-responses`);
-      const data = await response.json();
-      setPendingResponses(data.items || []);
+      const data = await reviewAPI.getPendingResponses(sessionId);
+      setPendingResponses((data.items || []) as PendingResponse[]);
     } catch (error) {
       console.error('Failed to fetch pending responses:', error);
     }
@@ -392,9 +373,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
    */
   const fetchPlayerCharacters = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/characters`);
-      const data = await response.json();
-      setPlayerCharacters(data);
+      setPlayerCharacters(await characterAPI.getCharacters(sessionId));
     } catch (error) {
       console.error('Failed to fetch player characters:', error);
     }
@@ -402,14 +381,11 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchCombatStatus = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/combat/status`);
-      if (response.ok) {
-        const data = await response.json();
-        setActiveCombat(data.combat);
-        setCombatants(data.combatants || []);
-        setCombatRound(data.round || 1);
-        setActiveInitiative(data.activeIndex || 0);
-      }
+      const data = await gmAPI.getCombatStatus(sessionId);
+      setActiveCombat(data.combat);
+      setCombatants(data.combatants || []);
+      setCombatRound(data.round || 1);
+      setActiveInitiative(data.activeIndex || 0);
     } catch (error) {
       console.error('Failed to fetch combat status:', error);
     }
@@ -417,14 +393,11 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchMatrixData = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/matrix/grid`);
-      if (response.ok) {
-        const data = await response.json();
-        setMatrixGrid(data.grid);
-        setMatrixNodes(data.nodes || []);
-        setIcePrograms(data.ice || []);
-        setOverwatchLevel(data.overwatch || 0);
-      }
+      const data = await gmAPI.getMatrixGrid(sessionId);
+      setMatrixGrid(data.grid);
+      setMatrixNodes(data.nodes || []);
+      setIcePrograms(data.ice || []);
+      setOverwatchLevel(data.overwatch || 0);
     } catch (error) {
       console.error('Failed to fetch matrix data:', error);
     }
@@ -432,13 +405,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchSessionAnalytics = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/analytics/summary`);
-      if (response.ok) {
-        const data = await response.json();
-        setSessionStats(data.stats);
-        setPlayerEngagement(data.engagement);
-        setCombatMetrics(data.combat);
-      }
+      const data = await gmAPI.getAnalytics(sessionId);
+      setSessionStats(data.stats);
+      setPlayerEngagement(data.engagement);
+      setCombatMetrics(data.combat);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
     }
@@ -446,13 +416,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchCampaignTimeline = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/timeline/events`);
-      if (response.ok) {
-        const data = await response.json();
-        setCampaignEvents(data.events);
-        setPlotThreads(data.threads);
-        setNpcRelationships(data.relationships);
-      }
+      const data = await gmAPI.getTimeline(sessionId);
+      setCampaignEvents(data.events);
+      setPlotThreads(data.threads);
+      setNpcRelationships(data.relationships);
     } catch (error) {
       console.error('Failed to fetch timeline:', error);
     }
@@ -460,12 +427,9 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchLiveMonitoring = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/monitoring/live`);
-      if (response.ok) {
-        const data = await response.json();
-        setLivePlayerStatus(data.players);
-        setActiveConnections(data.connections);
-      }
+      const data = await gmAPI.getLiveMonitoring(sessionId);
+      setLivePlayerStatus(data.players);
+      setActiveConnections(data.connections);
     } catch (error) {
       console.error('Failed to fetch live monitoring:', error);
     }
@@ -473,11 +437,8 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchDiscoveredSheets = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/character-sheets/discover?user_id=${user?.id}`);
-      if (response.ok) {
-        const data = await response.json();
-        setDiscoveredSheets(data.discovered_sheets);
-      }
+      const data = await characterAPI.discoverSheets(sessionId);
+      setDiscoveredSheets(data.discovered_sheets);
     } catch (error) {
       console.error('Failed to fetch discovered sheets:', error);
     }
@@ -485,37 +446,22 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const fetchIntegrationStatus = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/character-sheet/integration-status`);
-      if (response.ok) {
-        const data = await response.json();
-        setIntegrationStatus(data.integrations);
-      }
+      const data = await characterAPI.getIntegrationStatus();
+      setIntegrationStatus(data.integrations);
     } catch (error) {
       console.error('Failed to fetch integration status:', error);
     }
   };
 
-  const importCharacterSheet = async (sourceType: string, sourceReference: any) => {
+  const importCharacterSheet = async (sourceType: string, sourceReference: string) => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/character-sheets/import`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: user?.id,
-          source_type: sourceType,
-          source_reference: sourceReference
-        })
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        // Refresh character list
-        fetchPlayerCharacters();
-        // Close import modal
-        setShowImportModal(false);
-        setSelectedImportSheet(null);
-        return data;
-      }
+      const data = await characterAPI.importSheet(sessionId, sourceType, sourceReference);
+      // Refresh character list
+      fetchPlayerCharacters();
+      // Close import modal
+      setShowImportModal(false);
+      setSelectedImportSheet(null);
+      return data;
     } catch (error) {
       console.error('Failed to import character sheet:', error);
     }
@@ -523,20 +469,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const syncAllCharacterSheets = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/character-sheets/sync-all`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: user?.id
-        })
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        // Refresh character list
-        fetchPlayerCharacters();
-        return data;
-      }
+      const data = await characterAPI.syncAllSheets(sessionId);
+      // Refresh character list
+      fetchPlayerCharacters();
+      return data;
     } catch (error) {
       console.error('Failed to sync character sheets:', error);
     }
@@ -544,18 +480,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   const createWrenManagedCopy = async (characterId: number) => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/character/${characterId}/create-wren-copy`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: user?.id
-        })
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        return data;
-      }
+      return await characterAPI.createWrenCopy(sessionId, characterId);
     } catch (error) {
       console.error('Failed to create WREN managed copy:', error);
     }
@@ -563,18 +488,22 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
 
   useEffect(() => {
     if (isVisible && sessionId) {
-      fetchPendingResponses();
+      // Only load what the viewer's tabs show
+      const shows = (id: string) => tabs.some(tab => tab.id === id);
+      if (canReview) fetchPendingResponses();
       fetchPlayerLogs();
-      fetchPlayerCharacters();
-      fetchCombatStatus();
-      fetchMatrixData();
-      fetchSessionAnalytics();
-      fetchCampaignTimeline();
-      fetchLiveMonitoring();
-      fetchDiscoveredSheets();
-      fetchIntegrationStatus();
+      if (shows('players')) {
+        fetchPlayerCharacters();
+        fetchDiscoveredSheets();
+        fetchIntegrationStatus();
+      }
+      if (shows('combat')) fetchCombatStatus();
+      if (shows('matrix')) fetchMatrixData();
+      if (shows('analytics')) fetchSessionAnalytics();
+      if (shows('timeline')) fetchCampaignTimeline();
+      if (shows('monitoring')) fetchLiveMonitoring();
     }
-  }, [isVisible, sessionId]);
+  }, [isVisible, sessionId, tabIds]);
 
   // Polling for live updates
   useEffect(() => {
@@ -598,21 +527,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
   // Review Queue Actions
   const handleReviewResponse = async (responseId: string, action: 'approve' | 'reject' | 'edit', finalText?: string) => {
     try {
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/pending-response/${responseId}/review`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action,
-          dm_notes: 'Reviewed by GM',
-          final_response: finalText
-        })
-      });
-      
-      if (response.ok) {
-        fetchPendingResponses();
-        setEditingResponse(null);
-        setEditText('');
-      }
+      await reviewAPI.review(sessionId, responseId, { action, dmNotes: 'Reviewed by GM', finalResponse: finalText });
+      fetchPendingResponses();
+      setEditingResponse(null);
+      setEditText('');
     } catch (error) {
       console.error('Failed to review response:', error);
     }
@@ -621,11 +539,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
   // Scene Management
   const pushSceneToPlayers = async () => {
     try {
-      await fetch(`http://localhost:5000/api/session/${sessionId}/scene`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newScene)
-      });
+      await sessionAPI.updateScene(sessionId, newScene);
       
       setCurrentScene(newScene as Scene);
       setNewScene({
@@ -662,20 +576,8 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
   const generateImage = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch(`http://localhost:5000/api/session/${sessionId}/generate-image-instant`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: imagePrompt,
-          style: imageStyle,
-          user_id: user?.id
-        })
-      });
-      
-      if (response.ok) {
-        // Handle successful image generation
-        setImagePrompt('');
-      }
+      await imageAPI.generate(sessionId, { prompt: imagePrompt, style: imageStyle });
+      setImagePrompt('');
     } catch (error) {
       console.error('Failed to generate image:', error);
     } finally {
@@ -683,6 +585,15 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
     }
   };
 
+  // Download the console transcript saved for this session
+  const exportTranscriptMarkdown = () => {
+    const file = formatTranscript(createTranscript(loadTranscript(sessionId), { sessionId }), 'markdown');
+    downloadFile(file.content, file.filename, file.mimeType);
+  };
+
+  // Permissions can change while the dashboard is open
+  const shownTab = tabs.some(tab => tab.id === activeTab) ? activeTab : tabs[0]?.id;
+
   if (!isVisible) return null;
 
   return (
@@ -705,7 +616,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
               key={tab.id}
               onClick={() => setActiveTab(tab.id)}
               className={`w-full text-left px-3 py-2 rounded transition-colors ${
-                activeTab === tab.id
+                shownTab === tab.id
                   ? `bg-${tab.color}-700 text-${tab.color}-100`
                   : 'text-gray-300 hover:bg-gray-800'
               }`}
@@ -721,14 +632,14 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           <div className="text-sm text-gray-300 space-y-1">
             <div>ID: {sessionId}</div>
             <div>Active Players: {combatants.filter(c => c.type === 'player').length}</div>
-            <div>Pending Reviews: {pendingResponses.length}</div>
+            {canReview && <div>Pending Reviews: {pendingResponses.length}</div>}
           </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="flex-1 overflow-y-auto">
-        {activeTab === 'review' && (
+        {shownTab === 'review' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-red-400 mb-6">📋 Review Queue Manager</h3>
             
@@ -866,7 +777,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'scene' && (
+        {shownTab === 'scene' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-purple-400 mb-6">🎭 Scene Orchestration</h3>
             
@@ -993,7 +904,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'npcs' && (
+        {shownTab === 'npcs' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-blue-400 mb-6">👥 NPCs & Faction Tracker</h3>
             
@@ -1091,7 +1002,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'combat' && (
+        {shownTab === 'combat' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-orange-400 mb-6">⚔️ Combat Manager</h3>
             
@@ -1178,8 +1089,8 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                             </div>
                           </div>
                                                      <div className="text-right text-sm">
-                             <div className="text-gray-400">Actions: {(combatant as any).actions || 1}</div>
-                             <div className="text-gray-400">Edge: {(combatant as any).currentEdge || combatant.edge}</div>
+                             <div className="text-gray-400">Actions: {combatant.actions || 1}</div>
+                             <div className="text-gray-400">Edge: {combatant.currentEdge || combatant.edge}</div>
                            </div>
                         </div>
                         
@@ -1190,11 +1101,11 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                             <div className="flex-1 bg-gray-700 rounded h-2">
                                                              <div 
                                  className="bg-red-500 h-2 rounded" 
-                                 style={{ width: `${((combatant as any).physicalDamage / (combatant as any).physicalMonitor) * 100}%` }}
+                                 style={{ width: `${((combatant.physicalDamage || 0) / (combatant.physicalMonitor || 10)) * 100}%` }}
                                />
                              </div>
                              <span className="text-xs text-gray-400">
-                               {(combatant as any).physicalDamage || 0}/{(combatant as any).physicalMonitor || 10}
+                               {combatant.physicalDamage || 0}/{combatant.physicalMonitor || 10}
                              </span>
                           </div>
                           <div className="flex items-center gap-2">
@@ -1202,11 +1113,11 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                             <div className="flex-1 bg-gray-700 rounded h-2">
                                                              <div 
                                  className="bg-yellow-500 h-2 rounded" 
-                                 style={{ width: `${((combatant as any).stunDamage / (combatant as any).stunMonitor) * 100}%` }}
+                                 style={{ width: `${((combatant.stunDamage || 0) / (combatant.stunMonitor || 10)) * 100}%` }}
                                />
                              </div>
                              <span className="text-xs text-gray-400">
-                               {(combatant as any).stunDamage || 0}/{(combatant as any).stunMonitor || 10}
+                               {combatant.stunDamage || 0}/{combatant.stunMonitor || 10}
                              </span>
                           </div>
                         </div>
@@ -1236,7 +1147,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'players' && (
+        {shownTab === 'players' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-green-400 mb-6">🎯 Character Viewer</h3>
             
@@ -1262,10 +1173,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                     <div className="mb-4">
                       <h5 className="text-green-300 font-semibold mb-2">Attributes</h5>
                       <div className="grid grid-cols-2 gap-2 text-sm">
-                        {Object.entries(JSON.parse(character.attributes)).map(([attr, value]) => (
+                        {Object.entries(character.attributes).map(([attr, value]) => (
                           <div key={attr} className="flex justify-between">
                             <span className="text-gray-400 capitalize">{attr}:</span>
-                            <span className="text-green-400">{value as number}</span>
+                            <span className="text-green-400">{value}</span>
                           </div>
                         ))}
                       </div>
@@ -1340,10 +1251,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                       <h4 className="text-green-300 font-semibold mb-2">Skills</h4>
                       {selectedCharacter.skills && (
                         <div className="text-sm space-y-1">
-                          {Object.entries(JSON.parse(selectedCharacter.skills)).map(([skill, value]) => (
+                          {Object.entries(selectedCharacter.skills).map(([skill, { rating }]) => (
                             <div key={skill} className="flex justify-between">
                               <span className="text-gray-400 capitalize">{skill}:</span>
-                              <span className="text-green-400">{value as number}</span>
+                              <span className="text-green-400">{rating}</span>
                             </div>
                           ))}
                         </div>
@@ -1354,11 +1265,11 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                       <h4 className="text-green-300 font-semibold mb-2">Qualities</h4>
                       {selectedCharacter.qualities && (
                         <div className="text-sm">
-                          {Object.entries(JSON.parse(selectedCharacter.qualities)).map(([type, qualities]) => (
+                          {Object.entries(selectedCharacter.qualities).map(([type, qualities]) => (
                             <div key={type} className="mb-2">
                               <div className="text-gray-400 capitalize font-medium">{type}:</div>
                               <ul className="list-disc list-inside ml-2">
-                                {(qualities as string[]).map((quality, i) => (
+                                {qualities.map((quality, i) => (
                                   <li key={i} className="text-gray-300">{quality}</li>
                                 ))}
                               </ul>
@@ -1374,7 +1285,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'matrix' && (
+        {shownTab === 'matrix' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-cyan-400 mb-6">🔮 Matrix Dashboard</h3>
             
@@ -1522,7 +1433,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'analytics' && (
+        {shownTab === 'analytics' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-indigo-400 mb-6">📊 Session Analytics</h3>
             
@@ -1628,7 +1539,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'monitoring' && (
+        {shownTab === 'monitoring' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-yellow-400 mb-6">👁️ Live Monitoring</h3>
             
@@ -1729,7 +1640,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'timeline' && (
+        {shownTab === 'timeline' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-pink-400 mb-6">📅 Campaign Timeline</h3>
             
@@ -1801,7 +1712,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'generators' && (
+        {shownTab === 'generators' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-emerald-400 mb-6">🎲 Random Generators</h3>
             
@@ -1923,7 +1834,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'tools' && (
+        {shownTab === 'tools' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-yellow-400 mb-6">🛠️ GM Tools & Automation</h3>
             
@@ -1952,7 +1863,10 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
                     <button className="w-full p-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 text-sm">
                       💾 Save Current State
                     </button>
-                    <button className="w-full p-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 text-sm">
+                    <button
+                      onClick={exportTranscriptMarkdown}
+                      className="w-full p-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 text-sm"
+                    >
                       📄 Export to Markdown
                     </button>
                     <button className="w-full p-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 text-sm">
@@ -2023,7 +1937,7 @@ export default function GMDashboard({ sessionId, isVisible, onClose }: GMDashboa
           </div>
         )}
 
-        {activeTab === 'slack' && (
+        {shownTab === 'slack' && (
           <div className="p-6">
             <h3 className="text-2xl font-bold text-cyan-400 mb-6">📨 Slack Broadcast Controls</h3>
             
@@ -1,29 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
-import axios from 'axios';
-
-interface Theme {
-  name: string;
-  background: string;
-  text: string;
-  secondaryText: string;
-  accent: string;
-  prompt: string;
-  input: string;
-  inputText: string;
-  secondaryBackground: string;
-}
-
-interface GeneratedImage {
-  id: string;
-  prompt: string;
-  image_url: string;
-  provider: string;
-  status: string;
-  created_at: string;
-  is_favorite: boolean;
-  tags: string[];
-}
+import { imageAPI, GeneratedImage } from '../utils/api';
+import type { Theme } from './types';
 
 interface ImageGalleryProps {
   sessionId: string;
@@ -37,8 +15,6 @@ interface Provider {
   available: boolean;
 }
 
-const API_BASE_URL = 'http://localhost:5000';
-
 export default function ImageGallery({ sessionId, isVisible, onClose, theme }: ImageGalleryProps) {
   const { user } = useUser();
   const [images, setImages] = useState<GeneratedImage[]>([]);
@@ -61,10 +37,7 @@ export default function ImageGallery({ sessionId, isVisible, onClose, theme }: I
   const fetchImages = async () => {
     try {
       setIsLoading(true);
-      const response = await axios.get(
-        `${API_BASE_URL}/api/session/${sessionId}/images?user_id=${user?.id}&limit=20`
-      );
-      setImages(response.data.images || []);
+      setImages(await imageAPI.getImages(sessionId, 20));
     } catch (error) {
       console.error('Error fetching images:', error);
     } finally {
@@ -74,12 +47,10 @@ export default function ImageGallery({ sessionId, isVisible, onClose, theme }: I
 
   const fetchProviders = async () => {
     try {
-      const response = await axios.get(
-        `${API_BASE_URL}/api/session/${sessionId}/image-providers`
-      );
-      setProviders(response.data.providers || []);
-      if (response.data.default) {
-        setSelectedProvider(response.data.default);
+      const data = await imageAPI.getProviders(sessionId);
+      setProviders(data.providers);
+      if (data.default) {
+        setSelectedProvider(data.default);
       }
     } catch (error) {
       console.error('Error fetching providers:', error);
@@ -91,25 +62,21 @@ export default function ImageGallery({ sessionId, isVisible, onClose, theme }: I
 
     try {
       setIsGenerating(true);
-      const response = await axios.post(
-        `${API_BASE_URL}/api/session/${sessionId}/generate-image-instant`,
-        {
-          user_id: user.id,
-          prompt: prompt.trim(),
-          provider: selectedProvider,
-          style_preferences: {
-            quality: 'standard',
-            size: '1024x1024'
-          }
+      const result = await imageAPI.generate(sessionId, {
+        prompt: prompt.trim(),
+        provider: selectedProvider,
+        stylePreferences: {
+          quality: 'standard',
+          size: '1024x1024'
         }
-      );
+      });
 
       // Add the new image to the gallery
       const newImage: GeneratedImage = {
-        id: response.data.image_id,
+        id: result.image_id,
         prompt: prompt.trim(),
-        image_url: response.data.image_url,
-        provider: response.data.provider,
+        image_url: result.image_url,
+        provider: result.provider,
         status: 'completed',
         created_at: new Date().toISOString(),
         is_favorite: false,
@@ -129,13 +96,7 @@ export default function ImageGallery({ sessionId, isVisible, onClose, theme }: I
 
   const handleToggleFavorite = async (imageId: string, currentFavorite: boolean) => {
     try {
-      await axios.post(
-        `${API_BASE_URL}/api/session/${sessionId}/image/${imageId}/favorite`,
-        {
-          user_id: user?.id,
-          is_favorite: !currentFavorite
-        }
-      );
+      await imageAPI.setFavorite(sessionId, imageId, !currentFavorite);
 
       setImages(prev => prev.map(img => 
         img.id === imageId ? { ...img, is_favorite: !currentFavorite } : img
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { inviteAPI, Invite, InviteSettings } from '../utils/api';
+import { INVITE_EXPIRY_OPTIONS, inviteLink, inviteState, describeInvite } from '../utils/invites';
+
+interface InviteLinksProps {
+  sessionId: string;
+}
+
+// The GM's invite links for a session: make one, copy it, revoke old ones
+export default function InviteLinks({ sessionId }: InviteLinksProps) {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [settings, setSettings] = useState<Required<InviteSettings>>({
+    role: 'player',
+    expiresInMinutes: INVITE_EXPIRY_OPTIONS[1].minutes,
+    maxUses: null
+  });
+  const [copied, setCopied] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    inviteAPI.getInvites(sessionId)
+      .then(setInvites)
+      .catch(error => console.warn('Failed to load invites:', error));
+  }, [sessionId]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(token));
+      setCopied(token);
+    } catch (error) {
+      console.warn('Failed to copy invite link:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const invite = await inviteAPI.createInvite(sessionId, settings);
+      setInvites([...invites, invite]);
+      copyLink(invite.token);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create invite');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    try {
+      await inviteAPI.revokeInvite(sessionId, token);
+      setInvites(invites.map(invite => (invite.token === token ? { ...invite, revoked: true } : invite)));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revoke invite');
+    }
+  };
+
+  const usable = invites.filter(invite => inviteState(invite) === 'usable');
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mb-4">
+      <h3 className="text-lg font-semibold text-red-300 mb-2">Invite Links</h3>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <select
+          value={settings.role}
+          onChange={e => setSettings({...settings, role: e.target.value as Invite['role']})}
+          className="p-2 bg-gray-800 text-white rounded border border-gray-600 text-sm"
+        >
+          <option value="player">Player</option>
+          <option value="observer">Observer</option>
+        </select>
+        <select
+          value={settings.expiresInMinutes}
+          onChange={e => setSettings({...settings, expiresInMinutes: parseInt(e.target.value)})}
+          className="p-2 bg-gray-800 text-white rounded border border-gray-600 text-sm"
+        >
+          {INVITE_EXPIRY_OPTIONS.map(option => (
+            <option key={option.minutes} value={option.minutes}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={settings.maxUses ?? ''}
+          onChange={e => setSettings({...settings, maxUses: e.target.value ? parseInt(e.target.value) : null})}
+          className="p-2 bg-gray-800 text-white rounded border border-gray-600 text-sm"
+        >
+          <option value="">Unlimited uses</option>
+          {[1, 2, 3, 4, 5, 6, 8, 10].map(num => (
+            <option key={num} value={num}>{num} {num === 1 ? 'use' : 'uses'}</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={handleCreate}
+        disabled={loading}
+        className="w-full bg-blue-700 text-blue-100 px-4 py-2 rounded hover:bg-blue-600 disabled:opacity-50 mb-2"
+      >
+        {loading ? 'Creating...' : 'Create & Copy Link'}
+      </button>
+
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      {usable.length > 0 && (
+        <div className="space-y-1">
+          {usable.map(invite => (
+            <div key={invite.token} className="flex justify-between items-center text-sm">
+              <span className="text-gray-300">{describeInvite(invite)}</span>
+              <span className="space-x-2">
+                <button onClick={() => copyLink(invite.token)} className="text-blue-400 hover:text-blue-200">
+                  {copied === invite.token ? 'Copied' : 'Copy'}
+                </button>
+                <button onClick={() => handleRevoke(invite.token)} className="text-red-400 hover:text-red-200">
+                  Revoke
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
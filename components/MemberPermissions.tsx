@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { sessionAPI, SessionMember } from '../utils/api';
+import {
+  Permissions,
+  Role,
+  CAPABILITIES,
+  CAPABILITY_LABELS,
+  ROLE_LABELS,
+  capabilitiesOf,
+  withCapability
+} from '../utils/permissions';
+
+interface MemberPermissionsProps {
+  sessionId: string;
+  members: SessionMember[];
+  onChange: () => void; // Called after a member's permissions are saved
+}
+
+// Roles anyone but the session's creator can have
+const assignableRoles: Role[] = ['co-gm', 'player', 'observer'];
+
+// The GM's view of who may do what: a role per member, plus capabilities
+// granted or taken away on top of it
+export default function MemberPermissions({ sessionId, members, onChange }: MemberPermissionsProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (member: SessionMember, permissions: Permissions) => {
+    try {
+      setError(null);
+      await sessionAPI.setMemberPermissions(sessionId, member.userId, permissions);
+      onChange();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update permissions');
+    }
+  };
+
+  const others = members.filter(member => member.role !== 'gm');
+  if (others.length === 0) return null;
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mb-4">
+      <h3 className="text-lg font-semibold text-red-300 mb-2">Roles & Permissions</h3>
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      <div className="space-y-2">
+        {others.map(member => {
+          const capabilities = capabilitiesOf(member);
+          return (
+            <div key={member.userId} className="border border-gray-700 rounded p-2">
+              <div className="flex justify-between items-center">
+                <span className="text-green-400">{member.name || member.userId}</span>
+                <span className="flex items-center gap-2">
+                  <select
+                    value={member.role}
+                    onChange={e => save(member, { role: e.target.value as Role })}
+                    className="p-1 bg-gray-800 text-white rounded border border-gray-600 text-sm"
+                  >
+                    {assignableRoles.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setExpanded(expanded === member.userId ? null : member.userId)}
+                    className="text-sm text-blue-400 hover:text-blue-200"
+                  >
+                    {expanded === member.userId ? 'Hide' : 'Customize'}
+                  </button>
+                </span>
+              </div>
+
+              {expanded === member.userId && (
+                <div className="grid grid-cols-1 gap-1 mt-2">
+                  {CAPABILITIES.map(capability => (
+                    <label key={capability} className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={capabilities.includes(capability)}
+                        onChange={e => save(member, withCapability(member, capability, e.target.checked))}
+                      />
+                      {CAPABILITY_LABELS[capability]}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { useUser } from '@clerk/nextjs';
-import { sessionAPI, SessionInfo } from '../utils/api';
+import { sessionAPI, SessionInfo, JoinCredentials, ShadowrunWebSocket } from '../utils/api';
+import { ROLE_LABELS, can, sessionPermissions } from '../utils/permissions';
+import InviteLinks from './InviteLinks';
+import MemberPermissions from './MemberPermissions';
 
 interface SessionManagerProps {
-  onSessionJoined: (sessionInfo: SessionInfo) => void;
+  onSessionJoined: (sessionInfo: SessionInfo | null) => void; // null after leaving
   currentSession?: SessionInfo | null;
 }
 
@@ -14,11 +16,19 @@ interface CreateSessionForm {
   isPrivate: boolean;
 }
 
+interface JoinByIdForm {
+  sessionId: string;
+  inviteCode: string;
+  password: string;
+}
+
 export default function SessionManager({ onSessionJoined, currentSession }: SessionManagerProps) {
-  const { user } = useUser();
   const [activeSessions, setActiveSessions] = useState<SessionInfo[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [showJoinForm, setShowJoinForm] = useState<string | null>(null);
+  const [showJoinForm, setShowJoinForm] = useState<SessionInfo | null>(null);
+  const [showJoinById, setShowJoinById] = useState(false);
+  const [joinById, setJoinById] = useState<JoinByIdForm>({ sessionId: '', inviteCode: '', password: '' });
+  const [sessionDetails, setSessionDetails] = useState<SessionInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -36,6 +46,28 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
     loadActiveSessions();
   }, []);
 
+  // Keep the current session's player list up to date as people join and leave
+  const currentSessionId = currentSession?.id;
+  useEffect(() => {
+    setSessionDetails(null);
+    if (!currentSessionId) return;
+
+    const refresh = () => refreshSessionDetails(currentSessionId);
+    const socket = new ShadowrunWebSocket();
+    socket.on('player_joined', refresh);
+    socket.on('player_left', refresh);
+    socket.connect(currentSessionId);
+    refresh();
+
+    return () => socket.disconnect();
+  }, [currentSessionId]);
+
+  const refreshSessionDetails = (sessionId: string) => {
+    sessionAPI.getSessionInfo(sessionId)
+      .then(setSessionDetails)
+      .catch(error => console.warn('Failed to refresh session:', error));
+  };
+
   const loadActiveSessions = async () => {
     try {
       setLoading(true);
@@ -59,7 +91,11 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
     try {
       setLoading(true);
       setError(null);
-      const session = await sessionAPI.createSession(createForm.name, createForm.maxPlayers);
+      const session = await sessionAPI.createSession(createForm.name, {
+        maxPlayers: createForm.maxPlayers,
+        password: createForm.password || undefined,
+        isPrivate: createForm.isPrivate
+      });
       setShowCreateForm(false);
       setCreateForm({ name: '', maxPlayers: 6, password: '', isPrivate: false });
       onSessionJoined(session);
@@ -71,13 +107,15 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
     }
   };
 
-  const handleJoinSession = async (sessionId: string) => {
+  const handleJoinSession = async (sessionId: string, credentials: JoinCredentials = { password: joinPassword || undefined }) => {
     try {
       setLoading(true);
       setError(null);
-      const session = await sessionAPI.joinSession(sessionId, joinPassword || undefined);
+      const session = await sessionAPI.joinSession(sessionId, credentials);
       setShowJoinForm(null);
+      setShowJoinById(false);
       setJoinPassword('');
+      setJoinById({ sessionId: '', inviteCode: '', password: '' });
       onSessionJoined(session);
     } catch (error) {
       console.error('Failed to join session:', error);
@@ -89,11 +127,16 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
 
   const handleLeaveSession = async () => {
     if (!currentSession) return;
+    // The GM stays in the session they run; they only go back to the lobby
+    if (currentSession.isGM) {
+      onSessionJoined(null);
+      return;
+    }
 
     try {
       setLoading(true);
       await sessionAPI.leaveSession(currentSession.id);
-      onSessionJoined(null as any); // Signal that we left
+      onSessionJoined(null);
       loadActiveSessions(); // Refresh the list
     } catch (error) {
       console.error('Failed to leave session:', error);
@@ -104,6 +147,8 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
   };
 
   if (currentSession) {
+    const session = sessionDetails || currentSession;
+    const permissions = sessionPermissions(session);
     return (
       <div className="bg-black bg-opacity-70 border border-red-900 border-opacity-40 rounded-lg p-6 text-white">
         <h2 className="text-xl font-bold text-green-500 mb-4">Current Session</h2>
@@ -111,33 +156,75 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
         <div className="space-y-2 mb-4">
           <div className="flex justify-between">
             <span className="text-gray-300">Name:</span>
-            <span className="text-green-400">{currentSession.name}</span>
+            <span className="text-green-400">{session.name}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-gray-300">Players:</span>
-            <span className="text-green-400">{currentSession.playerCount}/{currentSession.maxPlayers}</span>
+            <span className="text-green-400">{session.playerCount}/{session.maxPlayers}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-gray-300">Status:</span>
             <span className={`${
-              currentSession.gameState === 'active' ? 'text-green-400' :
-              currentSession.gameState === 'paused' ? 'text-yellow-400' : 'text-gray-400'
+              session.gameState === 'active' ? 'text-green-400' :
+              session.gameState === 'paused' ? 'text-yellow-400' : 'text-gray-400'
             }`}>
-              {currentSession.gameState.toUpperCase()}
+              {session.gameState.toUpperCase()}
             </span>
           </div>
           <div className="flex justify-between">
             <span className="text-gray-300">Role:</span>
-            <span className="text-red-400">{currentSession.isGM ? 'Game Master' : 'Player'}</span>
+            <span className="text-red-400">{ROLE_LABELS[permissions.role]}</span>
           </div>
+          {session.participants && session.participants.length > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-300">In session:</span>
+              <span className="text-green-400 text-right">{session.participants.join(', ')}</span>
+            </div>
+          )}
+          {session.isGM && session.inviteCode && (
+            <div className="flex justify-between">
+              <span className="text-gray-300">Invite code:</span>
+              <span className="text-yellow-400 font-mono">{session.inviteCode}</span>
+            </div>
+          )}
+          {session.isGM && session.isPrivate && (
+            <p className="text-xs text-gray-400">
+              Private session: players need the session ID ({session.id}) and the invite code to join.
+            </p>
+          )}
         </div>
 
+        {can(permissions, 'manage_session') && (
+          <>
+            <InviteLinks sessionId={session.id} />
+            <MemberPermissions
+              sessionId={session.id}
+              members={session.members || []}
+              onChange={() => refreshSessionDetails(session.id)}
+            />
+          </>
+        )}
+
+        <a
+          href={`/enhanced-console?session=${encodeURIComponent(session.id)}`}
+          className="block w-full text-center bg-green-700 text-green-100 px-4 py-2 rounded hover:bg-green-600 mb-2"
+        >
+          Open Console
+        </a>
+
+        <a
+          href={`/game-dashboard?session=${encodeURIComponent(session.id)}`}
+          className="block w-full text-center bg-gray-800 text-green-300 px-4 py-2 rounded hover:bg-gray-700 mb-2"
+        >
+          Open Game Dashboard
+        </a>
+
         <button
           onClick={handleLeaveSession}
           disabled={loading}
           className="w-full bg-red-700 text-red-100 px-4 py-2 rounded hover:bg-red-600 disabled:opacity-50"
         >
-          {loading ? 'Leaving...' : 'Leave Session'}
+          {loading ? 'Leaving...' : session.isGM ? 'Back to Lobby' : 'Leave Session'}
         </button>
       </div>
     );
@@ -168,6 +255,14 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
           Create New Session
         </button>
 
+        {/* Private sessions aren't listed; join them with an invite */}
+        <button
+          onClick={() => setShowJoinById(true)}
+          className="w-full bg-gray-800 text-gray-200 px-4 py-2 rounded hover:bg-gray-700"
+        >
+          Join With Invite
+        </button>
+
         {/* Active Sessions */}
         <div>
           <div className="flex justify-between items-center mb-2">
@@ -189,13 +284,16 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
                 <div key={session.id} className="border border-gray-700 rounded p-3">
                   <div className="flex justify-between items-start mb-2">
                     <div>
-                      <h4 className="font-semibold text-white">{session.name}</h4>
+                      <h4 className="font-semibold text-white">
+                        {session.hasPassword && <span title="Password required">🔒 </span>}
+                        {session.name}
+                      </h4>
                       <p className="text-sm text-gray-400">
                         {session.playerCount}/{session.maxPlayers} players • {session.gameState}
                       </p>
                     </div>
                     <button
-                      onClick={() => setShowJoinForm(session.id)}
+                      onClick={() => session.hasPassword ? setShowJoinForm(session) : handleJoinSession(session.id)}
                       disabled={session.playerCount >= session.maxPlayers}
                       className="bg-blue-700 text-blue-100 px-3 py-1 rounded text-sm hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
@@ -241,6 +339,26 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
                 </select>
               </div>
               
+              <div>
+                <label className="block text-gray-300 mb-2">Password (optional)</label>
+                <input
+                  type="password"
+                  value={createForm.password}
+                  onChange={e => setCreateForm({...createForm, password: e.target.value})}
+                  className="w-full p-2 bg-gray-800 text-white rounded border border-gray-600"
+                  placeholder="Leave empty for an open session"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={createForm.isPrivate}
+                  onChange={e => setCreateForm({...createForm, isPrivate: e.target.checked})}
+                />
+                Private (hidden from the lobby, invite only)
+              </label>
+              
               <div className="flex justify-end space-x-2 mt-6">
                 <button
                   type="button"
@@ -266,11 +384,11 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
       {showJoinForm && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
           <div className="bg-gray-900 p-6 rounded-lg max-w-md w-full mx-4">
-            <h3 className="text-xl font-bold text-blue-500 mb-4">Join Session</h3>
+            <h3 className="text-xl font-bold text-blue-500 mb-4">Join {showJoinForm.name}</h3>
             
             <div className="space-y-4">
               <div>
-                <label className="block text-gray-300 mb-2">Password (if required)</label>
+                <label className="block text-gray-300 mb-2">Password</label>
                 <input
                   type="password"
                   value={joinPassword}
@@ -288,7 +406,7 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
                   Cancel
                 </button>
                 <button
-                  onClick={() => handleJoinSession(showJoinForm)}
+                  onClick={() => handleJoinSession(showJoinForm.id)}
                   disabled={loading}
                   className="px-4 py-2 bg-blue-700 text-blue-100 rounded hover:bg-blue-600 disabled:opacity-50"
                 >
@@ -299,6 +417,72 @@ export default function SessionManager({ onSessionJoined, currentSession }: Sess
           </div>
         </div>
       )}
+      {/* Join With Invite Modal */}
+      {showJoinById && (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+          <div className="bg-gray-900 p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-xl font-bold text-blue-500 mb-4">Join With Invite</h3>
+            
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                handleJoinSession(joinById.sessionId.trim(), {
+                  inviteCode: joinById.inviteCode.trim() || undefined,
+                  password: joinById.password || undefined
+                });
+              }}
+              className="space-y-4"
+            >
+              <div>
+                <label className="block text-gray-300 mb-2">Session ID</label>
+                <input
+                  type="text"
+                  value={joinById.sessionId}
+                  onChange={e => setJoinById({...joinById, sessionId: e.target.value})}
+                  className="w-full p-2 bg-gray-800 text-white rounded border border-gray-600"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-2">Invite Code</label>
+                <input
+                  type="text"
+                  value={joinById.inviteCode}
+                  onChange={e => setJoinById({...joinById, inviteCode: e.target.value})}
+                  className="w-full p-2 bg-gray-800 text-white rounded border border-gray-600"
+                  placeholder="From the GM"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-2">Password (if required)</label>
+                <input
+                  type="password"
+                  value={joinById.password}
+                  onChange={e => setJoinById({...joinById, password: e.target.value})}
+                  className="w-full p-2 bg-gray-800 text-white rounded border border-gray-600"
+                />
+              </div>
+              
+              <div className="flex justify-end space-x-2 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setShowJoinById(false)}
+                  className="px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="px-4 py-2 bg-blue-700 text-blue-100 rounded hover:bg-blue-600 disabled:opacity-50"
+                >
+                  {loading ? 'Joining...' : 'Join Session'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
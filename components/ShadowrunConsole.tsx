@@ -2,12 +2,12 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useUser } from '@clerk/nextjs';
 import DmDashboard from './DmDashboard';
 import ImageGallery from './ImageGallery';
-import axios from 'axios';
+import { sessionAPI, commandAPI, llmAPI } from '../utils/api';
+import { Permissions, can, sessionPermissions } from '../utils/permissions';
 import type { Theme } from './types';
+import { ThemeManager, DEFAULT_THEME } from '../utils/themes';
 
 // Define types
-type ThemeName = 'shadowrunBarren' | 'matrix' | 'cyberpunk' | 'terminal';
-
 interface HistoryItem {
   command: string;
   output: string;
@@ -16,7 +16,7 @@ interface HistoryItem {
 }
 
 interface UserSettings {
-  theme: ThemeName;
+  theme: string; // Theme id in the theme registry
   fontSize: string;
 }
 
@@ -33,54 +33,6 @@ interface Message {
   };
 }
 
-// Define themes
-const themes: Record<ThemeName, Theme> = {
-  shadowrunBarren: {
-    name: 'Shadowrun Barren',
-    background: 'bg-gray-950',
-    text: 'text-red-300',
-    secondaryText: 'text-gray-400',
-    accent: 'bg-red-900 text-red-100',
-    prompt: 'text-green-500',
-    input: 'bg-gray-900 border-red-900 border',
-    inputText: 'text-red-200',
-    secondaryBackground: 'bg-gray-900'
-  },
-  matrix: {
-    name: 'Matrix',
-    background: 'bg-black',
-    text: 'text-green-400',
-    secondaryText: 'text-green-600',
-    accent: 'bg-green-700 text-green-200',
-    prompt: 'text-green-500',
-    input: 'bg-black border-green-700 border',
-    inputText: 'text-green-400',
-    secondaryBackground: 'bg-green-900 bg-opacity-20'
-  },
-  cyberpunk: {
-    name: 'Cyberpunk',
-    background: 'bg-purple-900',
-    text: 'text-pink-300',
-    secondaryText: 'text-blue-300',
-    accent: 'bg-pink-600 text-blue-200',
-    prompt: 'text-yellow-300',
-    input: 'bg-purple-800 border-pink-500 border',
-    inputText: 'text-pink-300',
-    secondaryBackground: 'bg-purple-800'
-  },
-  terminal: {
-    name: 'Terminal',
-    background: 'bg-black',
-    text: 'text-amber-400',
-    secondaryText: 'text-amber-600',
-    accent: 'bg-amber-800 text-amber-200',
-    prompt: 'text-amber-500',
-    input: 'bg-black border-amber-700 border',
-    inputText: 'text-amber-400',
-    secondaryBackground: 'bg-amber-900 bg-opacity-20'
-  }
-};
-
 // Define font sizes
 const fontSizes = [
   { id: 'xs', name: 'Extra Small', class: 'text-xs' },
@@ -105,19 +57,21 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
   const [showDmDashboard, setShowDmDashboard] = useState(false);
   const [showImageGallery, setShowImageGallery] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [isGameMaster, setIsGameMaster] = useState(false);
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const themeManager = useRef(new ThemeManager());
+  const [themes, setThemes] = useState(() => themeManager.current.getThemes());
   const [isConnected, setIsConnected] = useState(false);
   const [isRolling, setIsRolling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Settings state with defaults
   const [settings, setSettings] = useState<UserSettings>({
-    theme: 'shadowrunBarren',
+    theme: DEFAULT_THEME,
     fontSize: 'base'
   });
 
@@ -137,7 +91,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
         eventSourceRef.current.close();
       }
 
-      const eventSource = new EventSource('http://localhost:5000/events');
+      const eventSource = commandAPI.openEvents();
       eventSourceRef.current = eventSource;
 
       eventSource.onopen = () => {
@@ -235,22 +189,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
     if (sanitizedInput.toLowerCase().startsWith('roll')) {
       setIsRolling(true);
       try {
-        const response = await fetch('http://localhost:5000/roll', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            command: sanitizedInput,
-            userId: user?.id
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to process roll');
-        }
-
-        const data = await response.json();
+        const data = await commandAPI.roll(sanitizedInput);
         handleServerMessage(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to process roll');
@@ -298,6 +237,10 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
       }
     }
 
+    if (user?.id) themeManager.current.setUser(user.id);
+    themeManager.current.loadFromStorage();
+    setThemes(themeManager.current.getThemes());
+
     // Set initial prompt based on user
     setPrompt(isSignedIn ? `${user?.firstName || 'User'}@SR > ` : '> ');
     
@@ -347,14 +290,11 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
       }
       
       try {
-        const response = await axios.post('http://localhost:5000/api/session', {
-          name: argument,
-          gm_user_id: user?.id
-        });
+        const session = await sessionAPI.createSession(argument);
         
-        setCurrentSessionId(response.data.session_id);
-        setIsGameMaster(true);
-        addToHistory(cmd, `Session "${argument}" created successfully!\nSession ID: ${response.data.session_id}\nYou are the Game Master.`, false);
+        setCurrentSessionId(session.id);
+        setPermissions({ role: 'gm' });
+        addToHistory(cmd, `Session "${argument}" created successfully!\nSession ID: ${session.id}\nYou are the Game Master.`, false);
       } catch (error) {
         addToHistory(cmd, `Error creating session: ${error instanceof Error ? error.message : 'Unknown error'}`, false);
       }
@@ -365,13 +305,10 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
       }
       
       try {
-        await axios.post(`http://localhost:5000/api/session/${argument}/join`, {
-          user_id: user?.id,
-          role: 'player'
-        });
+        const session = await sessionAPI.joinSession(argument);
         
         setCurrentSessionId(argument);
-        setIsGameMaster(false);
+        setPermissions(sessionPermissions(session));
         addToHistory(cmd, `Joined session ${argument} as a player.`, false);
       } catch (error) {
         addToHistory(cmd, `Error joining session: ${error instanceof Error ? error.message : 'Unknown error'}`, false);
@@ -396,31 +333,30 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
     }
     
     try {
-      const response = await axios.post(`http://localhost:5000/api/session/${currentSessionId}/llm-with-review`, {
-        user_id: user?.id,
-        context: context,
-        response_type: 'narrative',
+      const response = await llmAPI.requestWithReview(currentSessionId, {
+        context,
+        responseType: 'narrative',
         priority: 1,
-        require_review: !isGameMaster // GM responses don't need review
+        requireReview: !can(permissions, 'approve_ai_responses') // Reviewers' own responses don't need review
       });
       
-      if (response.data.status === 'pending_review') {
+      if (response.status === 'pending_review') {
         addToHistory(cmd, 
           `AI response generated and sent for DM review.\n` +
-          `Request ID: ${response.data.pending_response_id}\n` +
+          `Request ID: ${response.pending_response_id}\n` +
           `You will be notified when the DM approves your response.`, 
           false
         );
       } else {
         // Direct response (GM bypass)
-        addToHistory(cmd, response.data.choices?.[0]?.message?.content || 'AI response received.', false);
+        addToHistory(cmd, response.choices?.[0]?.message?.content || 'AI response received.', false);
       }
     } catch (error) {
       addToHistory(cmd, `Error getting AI response: ${error instanceof Error ? error.message : 'Unknown error'}`, false);
     }
   };
 
-  const currentTheme = themes[settings.theme];
+  const currentTheme = themes[settings.theme] || themes[DEFAULT_THEME];
   const currentFontSize = fontSizes.find(fs => fs.id === settings.fontSize)?.class || 'text-base';
 
   return (
@@ -454,7 +390,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
       {/* Console Output */}
       <div 
         ref={consoleRef}
-        className={`${themes[settings.theme].secondaryBackground} rounded-lg p-4 mb-4 h-[calc(100vh-12rem)] overflow-y-auto font-mono ${themes[settings.theme].text}`}
+        className={`${currentTheme.secondaryBackground} rounded-lg p-4 mb-4 h-[calc(100vh-12rem)] overflow-y-auto font-mono ${currentTheme.text}`}
         role="log"
         aria-label="Console output"
       >
@@ -470,7 +406,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
                 {message.type === 'user' ? `${user?.firstName}: ` : ''}
                 {message.text}
               </span>
-              <span style={{ color: themes[settings.theme].secondaryText }}>
+              <span style={{ color: currentTheme.secondaryText }}>
                 {message.timestamp.toLocaleTimeString()}
               </span>
             </div>
@@ -481,7 +417,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
                     {message.result.critical_glitch ? 'Critical Glitch!' : 'Glitch!'}
                   </div>
                 )}
-                <div style={{ fontSize: '0.8em', color: themes[settings.theme].secondaryText }}>
+                <div style={{ fontSize: '0.8em', color: currentTheme.secondaryText }}>
                   Rolls: {message.result.rolls.join(', ')}
                 </div>
               </div>
@@ -500,7 +436,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
       >
         <div className="flex-1 relative">
           <span 
-            className={`absolute left-3 top-1/2 -translate-y-1/2 ${themes[settings.theme].prompt}`}
+            className={`absolute left-3 top-1/2 -translate-y-1/2 ${currentTheme.prompt}`}
             aria-hidden="true"
           >
             {prompt}
@@ -510,7 +446,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            className={`w-full pl-8 pr-4 py-2 rounded ${themes[settings.theme].input} ${themes[settings.theme].inputText}`}
+            className={`w-full pl-8 pr-4 py-2 rounded ${currentTheme.input} ${currentTheme.inputText}`}
             placeholder="Enter command..."
             disabled={isProcessing || connectionStatus === 'error'}
             aria-label="Command input"
@@ -519,7 +455,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
         </div>
         <button
           type="submit"
-          className={`px-4 py-2 rounded ${themes[settings.theme].accent}`}
+          className={`px-4 py-2 rounded ${currentTheme.accent}`}
           disabled={isProcessing || connectionStatus === 'error'}
           aria-label="Submit command"
           aria-disabled={isProcessing || connectionStatus === 'error'}
@@ -529,7 +465,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
         <button
           type="button"
           onClick={() => setShowSettings(true)}
-          className={`px-4 py-2 rounded ${themes[settings.theme].accent}`}
+          className={`px-4 py-2 rounded ${currentTheme.accent}`}
           aria-label="Open settings"
         >
           SETTINGS
@@ -544,18 +480,18 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
           aria-label="Console settings"
           aria-modal="true"
         >
-          <div className={`${themes[settings.theme].secondaryBackground} p-6 rounded-lg max-w-md w-full`}>
-            <h2 className={`text-xl font-bold mb-4 ${themes[settings.theme].text}`}>Console Settings</h2>
+          <div className={`${currentTheme.secondaryBackground} p-6 rounded-lg max-w-md w-full`}>
+            <h2 className={`text-xl font-bold mb-4 ${currentTheme.text}`}>Console Settings</h2>
             
             {/* Theme Selection */}
             <div className="mb-4">
-              <label className={`block mb-2 ${themes[settings.theme].text}`}>
+              <label className={`block mb-2 ${currentTheme.text}`}>
                 Theme
               </label>
               <select
                 value={settings.theme}
-                onChange={(e) => setSettings(prev => ({ ...prev, theme: e.target.value as ThemeName }))}
-                className={`w-full p-2 rounded ${themes[settings.theme].input} ${themes[settings.theme].inputText}`}
+                onChange={(e) => setSettings(prev => ({ ...prev, theme: e.target.value }))}
+                className={`w-full p-2 rounded ${currentTheme.input} ${currentTheme.inputText}`}
                 aria-label="Select theme"
               >
                 {Object.entries(themes).map(([id, theme]) => (
@@ -566,13 +502,13 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
 
             {/* Font Size Selection */}
             <div className="mb-4">
-              <label className={`block mb-2 ${themes[settings.theme].text}`}>
+              <label className={`block mb-2 ${currentTheme.text}`}>
                 Font Size
               </label>
               <select
                 value={settings.fontSize}
                 onChange={(e) => setSettings(prev => ({ ...prev, fontSize: e.target.value }))}
-                className={`w-full p-2 rounded ${themes[settings.theme].input} ${themes[settings.theme].inputText}`}
+                className={`w-full p-2 rounded ${currentTheme.input} ${currentTheme.inputText}`}
                 aria-label="Select font size"
               >
                 {fontSizes.map(size => (
@@ -584,7 +520,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
             <div className="flex justify-end gap-2">
               <button
                 onClick={() => setShowSettings(false)}
-                className={`px-4 py-2 rounded ${themes[settings.theme].accent}`}
+                className={`px-4 py-2 rounded ${currentTheme.accent}`}
                 aria-label="Close settings"
               >
                 Close
@@ -601,6 +537,7 @@ export default function ShadowrunConsole({ theme }: ShadowrunConsoleProps) {
           onClose={() => setShowDmDashboard(false)}
           theme={theme}
           isVisible={showDmDashboard}
+          permissions={permissions}
         />
       )}
 
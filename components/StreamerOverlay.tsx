@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { sessionAPI, gmAPI, ShadowrunWebSocket, SceneInfo, CombatStatus } from '../utils/api';
+import { DelayBuffer, observerCanSee, toRecentRoll, RecentRoll, RECENT_ROLL_LIMIT } from '../utils/observer';
+
+interface StreamerOverlayProps {
+  sessionId: string;
+  delaySeconds?: number; // Everything shown this late, against stream sniping
+}
+
+// How often combat and the scene are fetched, in ms
+const POLL_INTERVAL = 5000;
+
+type OverlayUpdate =
+  | { kind: 'snapshot'; scene: SceneInfo; combat: CombatStatus }
+  | { kind: 'roll'; roll: RecentRoll };
+
+// A transparent, read-only layout for streaming software: initiative order,
+// the current scene and the latest rolls
+export default function StreamerOverlay({ sessionId, delaySeconds = 0 }: StreamerOverlayProps) {
+  const [scene, setScene] = useState<SceneInfo | null>(null);
+  const [combat, setCombat] = useState<CombatStatus | null>(null);
+  const [rolls, setRolls] = useState<RecentRoll[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const watch = () => {
+      const buffer = new DelayBuffer<OverlayUpdate>(update => {
+        if (update.kind === 'snapshot') {
+          setScene(update.scene);
+          setCombat(update.combat);
+        } else {
+          setRolls(previous => [update.roll, ...previous].slice(0, RECENT_ROLL_LIMIT));
+        }
+      }, delaySeconds * 1000);
+
+      const poll = () => {
+        Promise.all([sessionAPI.getScene(sessionId), gmAPI.getCombatStatus(sessionId)])
+          .then(([scene, combat]) => buffer.push({ kind: 'snapshot', scene, combat }))
+          .catch(error => console.warn('Failed to refresh overlay:', error));
+      };
+      poll();
+      const timer = setInterval(poll, POLL_INTERVAL);
+
+      const socket = new ShadowrunWebSocket();
+      socket.on('command_result', data => {
+        const roll = observerCanSee(data) ? toRecentRoll(data) : null;
+        if (roll) buffer.push({ kind: 'roll', roll });
+      });
+      socket.connect(sessionId);
+
+      return () => {
+        clearInterval(timer);
+        socket.disconnect();
+        buffer.clear();
+      };
+    };
+
+    // Only members of the session (observers included) get the overlay
+    let cancelled = false;
+    let stop = () => {};
+    setNotice(null);
+    sessionAPI.getSessionInfo(sessionId)
+      .then(info => {
+        if (cancelled) return;
+        if (!info.role && !info.isGM) {
+          setNotice("You're not in this session. Join it, or ask the GM for an observer invite.");
+          return;
+        }
+        stop = watch();
+      })
+      .catch(error => {
+        console.error('Failed to load session for overlay:', error);
+        if (!cancelled) setNotice(error instanceof Error ? error.message : 'Failed to load session');
+      });
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [sessionId, delaySeconds]);
+
+  if (notice) {
+    return (
+      <div className="min-h-screen p-4 font-mono">
+        <p className="inline-block bg-black bg-opacity-70 border border-red-900 rounded-lg p-4 text-red-400">{notice}</p>
+      </div>
+    );
+  }
+
+  const combatants = [...(combat?.combatants || [])].sort((a, b) => (b.initiative ?? 0) - (a.initiative ?? 0));
+  const active = combat?.combatants?.[combat.activeIndex ?? 0];
+
+  return (
+    <div className="min-h-screen p-4 font-mono text-white grid grid-cols-3 gap-4 items-start">
+      <section className="bg-black bg-opacity-70 border border-red-900 rounded-lg p-4">
+        <h2 className="text-red-400 font-bold mb-2">
+          Initiative{combat?.round ? ` · Round ${combat.round}` : ''}
+        </h2>
+        {combatants.length === 0 ? (
+          <p className="text-gray-400 italic">No combat</p>
+        ) : (
+          <ol className="space-y-1">
+            {combatants.map(combatant => (
+              <li
+                key={combatant.id ?? combatant.name}
+                className={`flex justify-between ${combatant === active ? 'text-yellow-300 font-bold' : 'text-gray-200'}`}
+              >
+                <span>{combatant.name}</span>
+                <span>{combatant.initiative}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      <section className="bg-black bg-opacity-70 border border-green-900 rounded-lg p-4">
+        <h2 className="text-green-400 font-bold mb-2">{scene?.location || 'Scene'}</h2>
+        <p className="text-gray-200">{scene?.summary || <i>No scene set.</i>}</p>
+        {(scene?.timeOfDay || scene?.tone) && (
+          <p className="text-xs text-gray-400 mt-2">{[scene.timeOfDay, scene.tone].filter(Boolean).join(' · ')}</p>
+        )}
+      </section>
+
+      <section className="bg-black bg-opacity-70 border border-blue-900 rounded-lg p-4">
+        <h2 className="text-blue-400 font-bold mb-2">Recent Rolls</h2>
+        {rolls.length === 0 ? (
+          <p className="text-gray-400 italic">No rolls yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {rolls.map(roll => (
+              <li key={`${roll.at}-${roll.command}`} className={roll.success ? 'text-gray-200' : 'text-red-400'}>
+                <span className="text-blue-300">{roll.userId || 'Someone'}:</span> {roll.command}
+                <div className="text-sm whitespace-pre-wrap">{roll.output}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
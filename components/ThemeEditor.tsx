@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import {
+  ThemeManager,
+  Theme,
+  ThemePalette,
+  paletteFields,
+  checkThemeContrast,
+  validatePalette
+} from '../utils/themes';
+
+interface ThemeEditorProps {
+  themes: ThemeManager;
+  base: Theme; // Theme to start from
+  onSave: (themeId: string) => void;
+  onClose: () => void;
+}
+
+// Sample console output in the edited colors
+function ThemePreview({ palette }: { palette: ThemePalette }) {
+  return (
+    <div
+      aria-label="Theme preview"
+      className="rounded p-3 font-mono text-sm mb-4"
+      style={{ backgroundColor: palette.background, color: palette.text }}
+    >
+      <div>
+        <span style={{ color: palette.prompt }}>Runner@SR &gt; </span>roll 12 t3
+      </div>
+      <div className="pl-4" style={{ color: palette.secondaryText }}>🎲 Rolling 12d6... 4 hits</div>
+      <div className="pl-4" style={{ color: palette.error }}>Roll error: Threshold must be positive</div>
+      <div
+        className="mt-2 p-2 rounded border"
+        style={{ backgroundColor: palette.secondaryBackground, borderColor: palette.border, color: palette.inputText }}
+      >
+        &gt; edge reroll
+      </div>
+      <button
+        type="button"
+        className="mt-2 px-3 py-1 rounded text-xs"
+        style={{ backgroundColor: palette.accent, color: palette.accentText }}
+      >
+        Settings
+      </button>
+    </div>
+  );
+}
+
+export default function ThemeEditor({ themes, base, onSave, onClose }: ThemeEditorProps) {
+  const [name, setName] = useState(base.custom ? base.name : `${base.name} Custom`);
+  const [palette, setPalette] = useState<ThemePalette>(base.palette);
+  const [shared, setShared] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const contrast = checkThemeContrast(palette);
+
+  const handleSave = () => {
+    try {
+      onSave(themes.saveTheme(name, palette));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save theme');
+    }
+  };
+
+  // Load a shared theme into the editor; it is saved with the Save button
+  const handleImport = () => {
+    try {
+      const parsed = JSON.parse(shared);
+      setPalette(validatePalette(parsed.palette));
+      if (typeof parsed.name === 'string') setName(parsed.name);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof SyntaxError ? 'Theme import must be JSON' : e instanceof Error ? e.message : 'Failed to import theme');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50" role="dialog" aria-label="Theme editor">
+      <div className="bg-gray-900 text-gray-200 p-6 rounded-lg max-w-2xl w-full mx-4 max-h-screen overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">Theme Editor</h2>
+
+        <label className="block mb-4">
+          <span className="block mb-1">Name</span>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="w-full p-2 bg-gray-800 text-white rounded"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {paletteFields.map(({ key, label }) => (
+              <label key={key} className="flex items-center text-sm">
+                <input
+                  type="color"
+                  value={palette[key]}
+                  onChange={e => setPalette({ ...palette, [key]: e.target.value })}
+                  className="mr-2 w-8 h-8 bg-transparent"
+                  aria-label={label}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <ThemePreview palette={palette} />
+            <ul aria-label="Contrast check" className="text-xs space-y-1">
+              {contrast.map(check => (
+                <li key={check.label} className={check.passes ? 'text-green-400' : 'text-yellow-400'}>
+                  {check.passes ? '✓' : '⚠'} {check.label}: {check.ratio.toFixed(2)}:1
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <label className="block mt-4">
+          <span className="block mb-1 text-sm">Share (JSON)</span>
+          <textarea
+            value={shared}
+            onChange={e => setShared(e.target.value)}
+            placeholder='{"name": "...", "palette": {...}}'
+            className="w-full h-20 p-2 bg-gray-800 text-white rounded font-mono text-xs"
+          />
+        </label>
+        <div className="flex gap-2 mt-2">
+          <button
+            type="button"
+            onClick={() => setShared(JSON.stringify({ name, palette }))}
+            className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!shared.trim()}
+            className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+
+        {error && <div role="alert" className="mt-4 text-red-400 text-sm">{error}</div>}
+
+        <div className="flex justify-between mt-6">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">
+            Cancel
+          </button>
+          <button type="button" onClick={handleSave} className="px-4 py-2 rounded bg-green-700 text-green-100 hover:bg-green-600">
+            Save Theme
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1 @@
-export interface Theme {
-  name: string;
-  background: string;
-  text: string;
-  secondaryText: string;
-  accent: string;
-  prompt: string;
-  input: string;
-  inputText: string;
-  secondaryBackground: string;
-} 
\ No newline at end of file
+export type { Theme, ThemePalette } from '../utils/themes';
@@ -1,10 +1,29 @@
 import '../styles/globals.css';
 import type { AppProps } from 'next/app';
 import { ClerkProvider } from '@clerk/nextjs';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
+import ApiAuth from '../components/ApiAuth';
+import { MOCK_BACKEND } from '../utils/api';
+
+// Play against the in-page stand-in backend instead of a real server. It is
+// loaded on demand, so normal builds don't ship it.
+const mockBackendReady = typeof window !== 'undefined' && MOCK_BACKEND
+  ? import('../utils/mockBackend').then(({ installMockBackend }) => { installMockBackend(); })
+  : null;
 
 function ShadowrunInterface({ Component, pageProps }: AppProps) {
   const router = useRouter();
+  const [backendReady, setBackendReady] = useState(!MOCK_BACKEND);
+
+  useEffect(() => {
+    mockBackendReady?.then(() => setBackendReady(true));
+  }, []);
+
+  // Hold pages back until the stand-in can answer their first requests
+  if (!backendReady) {
+    return null;
+  }
   
   // Skip Clerk for test pages only (keep test functionality available)
   if (router.pathname === '/test') {
@@ -13,6 +32,7 @@ function ShadowrunInterface({ Component, pageProps }: AppProps) {
 
   return (
     <ClerkProvider {...pageProps}>
+      <ApiAuth />
       <Component {...pageProps} />
     </ClerkProvider>
   );
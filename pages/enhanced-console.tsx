@@ -1,9 +1,13 @@
-import { useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
 import EnhancedShadowrunConsole from '../components/EnhancedShadowrunConsole';
 
 export default function EnhancedConsolePage() {
+  const router = useRouter();
+  const sessionId = typeof router.query.session === 'string' ? router.query.session : undefined;
+  const pickCharacter = router.query.pickCharacter === '1';
+
   return (
     <>
       <Head>
@@ -14,7 +18,7 @@ export default function EnhancedConsolePage() {
 
       <SignedIn>
         <div className="min-h-screen bg-gray-950 flex flex-col">
-          <EnhancedShadowrunConsole />
+          <EnhancedShadowrunConsole sessionId={sessionId} pickCharacter={pickCharacter} />
         </div>
       </SignedIn>
       
@@ -1,16 +1,50 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { useAuth } from '@clerk/nextjs';
 import { DiceRoller3D } from '../components/DiceRoller3D';
 import { CombatManager } from '../components/CombatManager';
 import { MatrixInterface } from '../components/MatrixInterface';
+import GMDashboard, { canOpenGMDashboard } from '../components/GMDashboard';
+import { sessionAPI, getApiConfig, SessionInfo } from '../utils/api';
+import { ROLE_LABELS, sessionPermissions } from '../utils/permissions';
 import { motion, AnimatePresence } from 'framer-motion';
 
 type TabType = 'dice' | 'combat' | 'matrix';
 
+// /game-dashboard?session=<id>
 export default function GameDashboard() {
+  const router = useRouter();
+  const { userId: signedInUserId } = useAuth();
+  const sessionId = typeof router.query.session === 'string' ? router.query.session : undefined;
   const [activeTab, setActiveTab] = useState<TabType>('dice');
-  const [sessionId] = useState('demo-session');
-  const [userId] = useState('demo-user');
-  const [isGM] = useState(true);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [showGMDashboard, setShowGMDashboard] = useState(false);
+
+  // The viewer's role comes from the session, so the tools below only offer what they may do
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    setSession(null);
+    setSessionError(null);
+    sessionAPI.getSessionInfo(sessionId)
+      .then(info => {
+        if (!cancelled) setSession(info);
+      })
+      .catch(error => {
+        console.error('Failed to load session:', error);
+        if (!cancelled) setSessionError(error instanceof Error ? error.message : 'Failed to load session');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, signedInUserId]);
+
+  const permissions = session ? sessionPermissions(session) : null;
+  const userId = getApiConfig().userId || '';
+  const sessionNotice = !sessionId
+    ? 'Open this dashboard from a session: /game-dashboard?session=<id>'
+    : sessionError || 'Loading session...';
 
   const tabs = [
     { id: 'dice' as TabType, label: '🎲 3D Dice', color: 'green' },
@@ -69,15 +103,19 @@ export default function GameDashboard() {
               </div>
             )}
 
-            {activeTab === 'combat' && (
+            {activeTab !== 'dice' && !(session && permissions) && (
+              <p className="text-center text-gray-400 font-mono">{sessionNotice}</p>
+            )}
+
+            {activeTab === 'combat' && session && permissions && (
               <div className="max-w-7xl mx-auto">
-                <CombatManager sessionId={sessionId} userId={userId} isGM={isGM} />
+                <CombatManager sessionId={session.id} userId={userId} isGM={session.isGM} permissions={permissions} />
               </div>
             )}
 
-            {activeTab === 'matrix' && (
+            {activeTab === 'matrix' && session && (
               <div className="max-w-7xl mx-auto">
-                <MatrixInterface sessionId={sessionId} userId={userId} characterId="demo-char" />
+                <MatrixInterface sessionId={session.id} userId={userId} characterId="demo-char" />
               </div>
             )}
           </motion.div>
@@ -89,11 +127,11 @@ export default function GameDashboard() {
             <div className="flex gap-6 text-sm">
               <div>
                 <span className="text-gray-400">Session:</span>
-                <span className="ml-2 text-green-400 font-mono">{sessionId}</span>
+                <span className="ml-2 text-green-400 font-mono">{sessionId || '—'}</span>
               </div>
               <div>
                 <span className="text-gray-400">Role:</span>
-                <span className="ml-2 text-green-400 font-mono">{isGM ? 'Game Master' : 'Player'}</span>
+                <span className="ml-2 text-green-400 font-mono">{permissions ? ROLE_LABELS[permissions.role] : '—'}</span>
               </div>
             </div>
             <div className="flex gap-4">
@@ -103,14 +141,28 @@ export default function GameDashboard() {
               <button className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm transition-colors">
                 💬 Text Chat
               </button>
-              <button className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm transition-colors">
-                📊 Analytics
-              </button>
+              {canOpenGMDashboard(permissions) && (
+                <button
+                  onClick={() => setShowGMDashboard(true)}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm transition-colors"
+                >
+                  📊 GM Dashboard
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      {session && (
+        <GMDashboard
+          sessionId={session.id}
+          isVisible={showGMDashboard}
+          onClose={() => setShowGMDashboard(false)}
+          permissions={permissions}
+        />
+      )}
+
       <style jsx>{`
         .glitch-text {
           animation: glitch 2s infinite;
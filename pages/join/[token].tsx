@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useAuth, SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import { inviteAPI } from '../../utils/api';
+
+// Redeems the invite once the user is signed in, then opens the session's
+// console with the character picker up
+function RedeemInvite({ token }: { token: string }) {
+  const router = useRouter();
+  const { userId } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let active = true;
+    inviteAPI.redeemInvite(token)
+      .then(session => {
+        if (!active) return;
+        const query = new URLSearchParams({ session: session.id });
+        if (session.role === 'player') {
+          query.set('pickCharacter', '1');
+        }
+        router.replace(`/enhanced-console?${query}`);
+      })
+      .catch(error => {
+        if (active) setError(error instanceof Error ? error.message : 'Failed to join session');
+      });
+    return () => {
+      active = false;
+    };
+  }, [token, userId, router]);
+
+  return (
+    <div className="bg-black bg-opacity-70 border border-red-900 border-opacity-40 rounded-lg p-6 text-white max-w-md w-full">
+      <h1 className="text-xl font-bold text-green-500 mb-4">Session Invite</h1>
+      {error ? (
+        <>
+          <p className="text-red-400 mb-4">{error}</p>
+          <Link href="/enhanced-dashboard" className="text-blue-400 hover:text-blue-200">
+            Go to the dashboard
+          </Link>
+        </>
+      ) : (
+        <p className="text-gray-300">Joining session...</p>
+      )}
+    </div>
+  );
+}
+
+export default function JoinPage() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : undefined;
+
+  return (
+    <>
+      <Head>
+        <title>Shadowrun Interface | Join Session</title>
+      </Head>
+
+      <SignedIn>
+        <main className="min-h-screen bg-gray-950 flex items-center justify-center">
+          {token && <RedeemInvite token={token} />}
+        </main>
+      </SignedIn>
+
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+    </>
+  );
+}
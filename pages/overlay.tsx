@@ -0,0 +1,27 @@
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import StreamerOverlay from '../components/StreamerOverlay';
+
+// Browser source for streaming: /overlay?session=<id>&delay=<seconds>
+export default function OverlayPage() {
+  const router = useRouter();
+  const sessionId = typeof router.query.session === 'string' ? router.query.session : undefined;
+  const delay = typeof router.query.delay === 'string' ? Math.max(0, parseInt(router.query.delay) || 0) : 0;
+
+  return (
+    <>
+      <Head>
+        <title>Shadowrun Interface | Stream Overlay</title>
+      </Head>
+
+      <SignedIn>
+        {sessionId && <StreamerOverlay sessionId={sessionId} delaySeconds={delay} />}
+      </SignedIn>
+
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+    </>
+  );
+}
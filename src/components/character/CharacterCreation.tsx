@@ -5,6 +5,7 @@ import IdentityStep from './steps/IdentityStep';
 import BuildMethodStep from './steps/BuildMethodStep';
 import AttributesStep from './steps/AttributesStep';
 import SkillsStep from './steps/SkillsStep';
+import { characterAPI } from '../../../utils/api';
 // Additional step imports will be uncommented as they're implemented
 // import QualitiesStep from './steps/QualitiesStep';
 // import GearStep from './steps/GearStep';
@@ -128,23 +129,12 @@ export default function CharacterCreation({ sessionId, userId, onComplete }: Cha
   const saveCharacter = async () => {
     setSaving(true);
     try {
-      const response = await fetch(`http://127.0.0.1:5000/api/session/${sessionId}/character`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(character)
-      });
-      
-      const data = await response.json();
-      if (response.ok) {
-        if (onComplete) {
-          onComplete({ ...character, id: data.character_id });
-        }
-      } else {
-        // Handle error
-        console.error("Failed to save character:", data.error);
+      const data = await characterAPI.createCharacter(sessionId, character);
+      if (onComplete) {
+        onComplete({ ...character, id: data.character_id });
       }
     } catch (error) {
-      console.error("Error saving character:", error);
+      console.error("Failed to save character:", error);
     } finally {
       setSaving(false);
     }
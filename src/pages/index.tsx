@@ -1,9 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
+import { sessionAPI, llmAPI } from "../../utils/api";
 
-const API_BASE = "http://127.0.0.1:5000/api";
 const SESSION_ID = "demo-session"; // Replace with real session logic
-const GM_USER_ID = "gm-user";
-const PLAYER_USER_ID = "test-player";
 
 function RoleSelector({ role, setRole }: { role: string; setRole: (r: string) => void }) {
   return (
@@ -22,25 +20,25 @@ function RoleSelector({ role, setRole }: { role: string; setRole: (r: string) =>
   );
 }
 
-function SceneSummary({ sessionId, role, userId }: { sessionId: string; role: string; userId: string }) {
+function SceneSummary({ sessionId, role }: { sessionId: string; role: string }) {
   const [scene, setScene] = useState("");
   const [edit, setEdit] = useState(false);
   const [input, setInput] = useState("");
 
   useEffect(() => {
-    fetch(`${API_BASE}/session/${sessionId}/scene`)
-      .then(res => res.json())
-      .then(data => setScene(data.summary || ""));
+    sessionAPI.getScene(sessionId)
+      .then(data => setScene(data.summary))
+      .catch(error => console.warn("Failed to load scene:", error));
   }, [sessionId]);
 
   const saveScene = async () => {
-    await fetch(`${API_BASE}/session/${sessionId}/scene`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ summary: input, user_id: userId }),
-    });
-    setScene(input);
-    setEdit(false);
+    try {
+      await sessionAPI.updateScene(sessionId, { summary: input });
+      setScene(input);
+      setEdit(false);
+    } catch (error) {
+      console.warn("Failed to save scene:", error);
+    }
   };
 
   return (
@@ -81,9 +79,9 @@ function EntityTracker({ sessionId }: { sessionId: string }) {
   const [entities, setEntities] = useState<any[]>([]);
 
   useEffect(() => {
-    fetch(`${API_BASE}/session/${sessionId}/entities`)
-      .then(res => res.json())
-      .then(data => setEntities(data));
+    sessionAPI.getEntities(sessionId)
+      .then(setEntities)
+      .catch(error => console.warn("Failed to load entities:", error));
   }, [sessionId]);
 
   return (
@@ -105,7 +103,7 @@ function EntityTracker({ sessionId }: { sessionId: string }) {
 }
 
 // Terminal component for command + natural language parsing
-function Terminal({ sessionId, userId, role }: { sessionId: string; userId: string; role: string }) {
+function Terminal({ sessionId, role }: { sessionId: string; role: string }) {
   const [input, setInput] = useState("");
   const [lines, setLines] = useState<any[]>([]); // {type: 'user'|'system'|'error', text: string}
   const [loading, setLoading] = useState(false);
@@ -133,6 +131,7 @@ function Terminal({ sessionId, userId, role }: { sessionId: string; userId: stri
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    if (role === "observer") return; // Observers only watch
     const parsed = parseInput(input);
     setLines(l => [...l, { type: "user", text: input }]);
     setInput("");
@@ -158,7 +157,7 @@ function Terminal({ sessionId, userId, role }: { sessionId: string; userId: stri
       // Streaming via EventSource (SSE)
       setLines(l => [...l, { type: "system", text: "", streaming: true }]);
       let current = "";
-      const eventSource = new EventSource(`${API_BASE}/chat/stream-proxy?session_id=${encodeURIComponent(sessionId || "")}&user_id=${encodeURIComponent(userId || "")}&role=${encodeURIComponent(role || "")}&input=${encodeURIComponent(parsed.text || "")}`);
+      const eventSource = llmAPI.createChatStreamProxy(sessionId, parsed.text || "", role);
       eventSource.onmessage = (event) => {
         if (event.data) {
           current += event.data;
@@ -232,13 +231,14 @@ function Terminal({ sessionId, userId, role }: { sessionId: string; userId: stri
           className="flex-1 bg-black border border-green-600 text-green-200 px-2 py-1 font-mono"
           value={input}
           onChange={e => setInput(e.target.value)}
-          disabled={loading}
+          disabled={loading || role === "observer"}
+          placeholder={role === "observer" ? "Observing (read-only)" : undefined}
           autoFocus
         />
         <button
           type="submit"
           className="ml-2 px-2 py-1 bg-green-800 text-black rounded font-bold"
-          disabled={loading}
+          disabled={loading || role === "observer"}
         >
           Send
         </button>
@@ -249,7 +249,6 @@ function Terminal({ sessionId, userId, role }: { sessionId: string; userId: stri
 
 export default function HomePage() {
   const [role, setRole] = useState("player");
-  const userId = role === "gm" ? GM_USER_ID : PLAYER_USER_ID;
 
   return (
     <div className="min-h-screen bg-black text-green-200 font-mono p-6">
@@ -259,9 +258,9 @@ export default function HomePage() {
       </div>
       <div className="mb-4 text-green-300 font-mono">welcome back, anon</div>
       <RoleSelector role={role} setRole={setRole} />
-      <SceneSummary sessionId={SESSION_ID} role={role} userId={userId} />
+      <SceneSummary sessionId={SESSION_ID} role={role} />
       <EntityTracker sessionId={SESSION_ID} />
-      <Terminal sessionId={SESSION_ID} userId={userId} role={role} />
+      <Terminal sessionId={SESSION_ID} role={role} />
       <footer className="mt-12 text-xs text-green-700 text-center select-none">
         &copy; 2025 Forest Within Therapeutic Services Professional Corporation
       </footer>
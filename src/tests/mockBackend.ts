@@ -0,0 +1,25 @@
+import { vi, beforeEach, afterEach } from 'vitest';
+import { configureApi } from '@utils/api';
+import { installMockBackend, MockBackend, MockBackendSeed } from '@utils/mockBackend';
+
+// Shared setup for tests that run the API client against the stand-in backend
+
+// Make the following requests as another user
+export const as = (userId: string) => configureApi({ userId });
+
+// Give every test in the calling suite a fresh backend, signed in as userId,
+// and undo its spies afterwards. The backend is on the returned object.
+export function useMockBackend(seed: () => MockBackendSeed = () => ({}), userId = 'gm') {
+  const current = {} as { backend: MockBackend };
+
+  beforeEach(() => {
+    current.backend = installMockBackend(seed());
+    as(userId);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  return current;
+}
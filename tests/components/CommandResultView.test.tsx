@@ -0,0 +1,52 @@
+/**
+ * Tests for CommandResultView
+ * Covers dice chips, test badges, collapsible help and the text fallback
+ */
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CommandResultView from '@components/CommandResultView';
+import { executeCommand } from '@utils/commands';
+
+describe('CommandResultView', () => {
+  const roll = {
+    dice: 4,
+    results: [6, 5, 1, 3, 2],
+    exploded: [2],
+    hits: 2,
+    ones: 1,
+    isGlitch: false,
+    isCriticalGlitch: false,
+    threshold: 3
+  };
+
+  it('renders dice as hit, one and exploded chips', () => {
+    render(<CommandResultView type="dice" data={roll} output="text" />);
+
+    const chips = screen.getAllByTestId('die-chip');
+    expect(chips).toHaveLength(5);
+    expect(chips[0]).toHaveAttribute('data-hit', 'true');
+    expect(chips[2]).toHaveAttribute('data-one', 'true');
+    expect(chips[4]).toHaveAttribute('data-exploded', 'true');
+    expect(screen.getByText('2 hits')).toBeInTheDocument();
+    expect(screen.getByText(/FAIL vs 3/)).toBeInTheDocument();
+  });
+
+  it('renders threshold tests as a pass badge with net hits', () => {
+    render(<CommandResultView type="test" data={{ ...roll, hits: 4, threshold: 2, success: true, netHits: 2 }} output="text" />);
+    expect(screen.getByText('PASS · 2 net hits')).toBeInTheDocument();
+  });
+
+  it('renders help as collapsible sections', async () => {
+    const result = await executeCommand('help roll', { userId: 'runner', isGM: false });
+    const { container } = render(<CommandResultView type={result.type} data={result.data} output={result.output} />);
+
+    expect(container.querySelectorAll('details').length).toBeGreaterThan(1);
+    expect(screen.getByText('Usage')).toBeInTheDocument();
+  });
+
+  it('falls back to text for unknown result types', () => {
+    render(<CommandResultView type="mystery" data={{ x: 1 }} output="Plain output" />);
+    expect(screen.getByText('Plain output')).toBeInTheDocument();
+  });
+});
@@ -2,15 +2,15 @@
  * Tests for DiceRoller component
  * Tests dice input validation, XSS prevention, and edge cases
  */
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import DiceRoller from '@components/DiceRoller';
+import { commandAPI } from '@utils/api';
 
-// Mock fetch
-const mockFetch = vi.fn();
-global.fetch = mockFetch;
+// Stand in for the backend's roll endpoint; some tests answer with malformed results
+const mockRoll = vi.spyOn(commandAPI, 'rollExpression').mockResolvedValue({}) as MockInstance<[string, boolean], Promise<any>>;
 
 describe('DiceRoller Component', () => {
   beforeEach(() => {
@@ -26,21 +26,18 @@ describe('DiceRoller Component', () => {
   });
 
   it('handles dice roll submission', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
-        result: {
-          dice: 3,
-          results: [4, 5, 6],
-          hits: 2,
-          ones: 0,
-          sixes: 1,
-          isGlitch: false,
-          isCriticalGlitch: false,
-          total: 15,
-          exploded: []
-        }
-      })
+    mockRoll.mockResolvedValueOnce({
+      result: {
+        dice: 3,
+        results: [4, 5, 6],
+        hits: 2,
+        ones: 0,
+        sixes: 1,
+        isGlitch: false,
+        isCriticalGlitch: false,
+        total: 15,
+        exploded: []
+      }
     });
 
     render(<DiceRoller />);
@@ -52,20 +49,14 @@ describe('DiceRoller Component', () => {
     await userEvent.click(rollButton);
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith(
-        '/api/roll',
-        expect.objectContaining({
-          method: 'POST',
-          body: JSON.stringify({ command: '3d6', edge: false })
-        })
-      );
+      expect(mockRoll).toHaveBeenCalledWith('3d6', false);
     });
 
     expect(await screen.findByText(/Rolling 3d6/i)).toBeInTheDocument();
   });
 
   it('handles API errors', async () => {
-    mockFetch.mockRejectedValueOnce(new Error('Network error'));
+    mockRoll.mockRejectedValueOnce(new Error('Network error'));
 
     render(<DiceRoller />);
     
@@ -166,15 +157,12 @@ describe('DiceRoller Component', () => {
       const user = userEvent.setup();
       
       // Mock malicious API response
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
-          result: {
-            rolls: [3, 5, 2],
-            total: 10,
-            notation: '<script>alert("xss")</script>3d6'
-          }
-        })
+      mockRoll.mockResolvedValueOnce({
+        result: {
+          rolls: [3, 5, 2],
+          total: 10,
+          notation: '<script>alert("xss")</script>3d6'
+        }
       });
       
       render(<DiceRoller />);
@@ -208,12 +196,7 @@ describe('DiceRoller Component', () => {
       await user.click(rollButton);
       
       await waitFor(() => {
-        expect(fetch).toHaveBeenCalledWith(
-          expect.any(String),
-          expect.objectContaining({
-            body: expect.stringContaining('"edge":true')
-          })
-        );
+        expect(mockRoll).toHaveBeenCalledWith('5d6', true);
       });
     });
 
@@ -221,17 +204,14 @@ describe('DiceRoller Component', () => {
       const user = userEvent.setup();
       
       // Mock Edge roll response
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
-          result: {
-            rolls: [6, 6, 3, 5, 2, 6, 4],  // Exploded 6s
-            hits: 5,
-            edge_used: true,
-            glitch: false,
-            critical_glitch: false
-          }
-        })
+      mockRoll.mockResolvedValueOnce({
+        result: {
+          rolls: [6, 6, 3, 5, 2, 6, 4],  // Exploded 6s
+          hits: 5,
+          edge_used: true,
+          glitch: false,
+          critical_glitch: false
+        }
       });
       
       render(<DiceRoller />);
@@ -251,21 +231,113 @@ describe('DiceRoller Component', () => {
     });
   });
 
+  describe('Odds Preview', () => {
+    it('shows the odds for the pool being typed', async () => {
+      const user = userEvent.setup();
+      render(<DiceRoller />);
+
+      await user.type(screen.getByPlaceholderText(/Enter dice command/i), '12 t3 l4');
+
+      const preview = screen.getByLabelText('Roll odds preview');
+      expect(within(preview).getByText('Odds for 12 dice')).toBeInTheDocument();
+      expect(within(preview).getByText('3+ hits')).toBeInTheDocument();
+      expect(within(preview).getByText('Limit cuts hits')).toBeInTheDocument();
+      expect(preview).toHaveTextContent(/Glitch \d+\.\d% • Critical glitch/);
+    });
+
+    it('compares the roll with exploding 6s, and follows the Edge toggle', async () => {
+      const user = userEvent.setup();
+      render(<DiceRoller />);
+
+      await user.type(screen.getByPlaceholderText(/Enter dice command/i), '6');
+      const preview = screen.getByLabelText('Roll odds preview');
+      expect(within(preview).getByText('2.00')).toBeInTheDocument();
+      expect(within(preview).getByText('2.40')).toBeInTheDocument();
+
+      await user.click(screen.getByLabelText(/Use Edge/i));
+      expect(within(preview).getAllByText('2.40')).toHaveLength(2);
+    });
+
+    it('only previews plain dice pools', async () => {
+      const user = userEvent.setup();
+      render(<DiceRoller />);
+      const input = screen.getByPlaceholderText(/Enter dice command/i);
+
+      for (const notation of ['3d6', 'AGI+Firearms', '0', 'abc']) {
+        await user.clear(input);
+        await user.type(input, notation);
+        expect(screen.queryByLabelText('Roll odds preview')).not.toBeInTheDocument();
+      }
+    });
+  });
+
+  describe('Edge Actions', () => {
+    // A server roll with no exploded field, as some backends send it
+    const serverRoll = {
+      dice: 3,
+      results: [2, 3, 6],
+      hits: 1,
+      ones: 0,
+      sixes: 1,
+      isGlitch: false,
+      isCriticalGlitch: false
+    };
+
+    // Drop answers queued by earlier tests that failed before using them
+    beforeEach(() => {
+      mockRoll.mockReset().mockResolvedValue({});
+    });
+
+    it('keeps the Edge pool between 0 and 7', () => {
+      render(<DiceRoller />);
+      const pool = screen.getByLabelText('Edge points');
+
+      fireEvent.change(pool, { target: { value: '12' } });
+      expect(pool).toHaveValue(7);
+      fireEvent.change(pool, { target: { value: '-2' } });
+      expect(pool).toHaveValue(0);
+    });
+
+    it('spends Edge on a server roll that has no exploded dice', async () => {
+      const user = userEvent.setup();
+      mockRoll.mockResolvedValueOnce({ result: serverRoll });
+      render(<DiceRoller />);
+
+      await user.type(screen.getByPlaceholderText(/Enter dice command/i), '3');
+      await user.click(screen.getByRole('button', { name: 'Roll dice' }));
+      await user.click(await screen.findByRole('button', { name: 'Buy a Hit on roll 3' }));
+
+      expect(screen.getByRole('status')).toHaveTextContent('Hits: 2');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(screen.getByLabelText('Edge points')).toHaveValue(0);
+    });
+
+    it('disables actions that cost more Edge than is left', async () => {
+      const user = userEvent.setup();
+      mockRoll.mockResolvedValueOnce({ result: serverRoll });
+      render(<DiceRoller />);
+
+      fireEvent.change(screen.getByLabelText('Edge points'), { target: { value: '2' } });
+      await user.type(screen.getByPlaceholderText(/Enter dice command/i), '3');
+      await user.click(screen.getByRole('button', { name: 'Roll dice' }));
+
+      expect(await screen.findByRole('button', { name: 'Add 3 to One Die on roll 3' })).toBeEnabled();
+      expect(screen.getByRole('button', { name: 'Buy a Hit on roll 3' })).toBeDisabled();
+    });
+  });
+
   describe('Glitch Detection', () => {
     it('displays glitch warnings', async () => {
       const user = userEvent.setup();
       
       // Mock glitch response
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
-          result: {
-            rolls: [1, 1, 1, 2, 3],
-            hits: 0,
-            glitch: true,
-            critical_glitch: false
-          }
-        })
+      mockRoll.mockResolvedValueOnce({
+        result: {
+          rolls: [1, 1, 1, 2, 3],
+          hits: 0,
+          glitch: true,
+          critical_glitch: false
+        }
       });
       
       render(<DiceRoller />);
@@ -285,16 +357,13 @@ describe('DiceRoller Component', () => {
       const user = userEvent.setup();
       
       // Mock critical glitch response
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
-          result: {
-            rolls: [1, 1, 1, 1, 1],
-            hits: 0,
-            glitch: true,
-            critical_glitch: true
-          }
-        })
+      mockRoll.mockResolvedValueOnce({
+        result: {
+          rolls: [1, 1, 1, 1, 1],
+          hits: 0,
+          glitch: true,
+          critical_glitch: true
+        }
       });
       
       render(<DiceRoller />);
@@ -325,21 +394,18 @@ describe('DiceRoller Component', () => {
     it('announces results to screen readers', async () => {
       const user = userEvent.setup();
       
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
-          result: {
-            dice: 3,
-            results: [4, 5, 6],
-            hits: 2,
-            ones: 0,
-            sixes: 1,
-            isGlitch: false,
-            isCriticalGlitch: false,
-            total: 15,
-            exploded: []
-          }
-        })
+      mockRoll.mockResolvedValueOnce({
+        result: {
+          dice: 3,
+          results: [4, 5, 6],
+          hits: 2,
+          ones: 0,
+          sixes: 1,
+          isGlitch: false,
+          isCriticalGlitch: false,
+          total: 15,
+          exploded: []
+        }
       });
       
       render(<DiceRoller />);
@@ -362,7 +428,7 @@ describe('DiceRoller Component', () => {
     it('displays error message on API failure', async () => {
       const user = userEvent.setup();
       
-      (global.fetch as any).mockRejectedValueOnce(
+      mockRoll.mockRejectedValueOnce(
         new Error('Network error')
       );
       
@@ -402,7 +468,7 @@ describe('DiceRoller Component', () => {
       await user.click(rollButton);
       
       // Should only make one API call
-      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(mockRoll).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import ShadowrunConsole from '@components/ShadowrunConsole';
 import type { Theme } from '@components/types';
+import { builtInThemes } from '@utils/themes';
 import { ShadowrunWebSocket } from '@utils/api';
 
 // Mock EventSource
@@ -49,7 +50,9 @@ const defaultTheme: Theme = {
   prompt: 'text-green-500',
   input: 'bg-gray-800',
   inputText: 'text-white',
-  secondaryBackground: 'bg-gray-900'
+  secondaryBackground: 'bg-gray-900',
+  highlight: 'bg-blue-900',
+  palette: builtInThemes.shadowrunBarren.palette
 };
 
 describe('ShadowrunConsole Component', () => {
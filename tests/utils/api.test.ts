@@ -0,0 +1,87 @@
+/**
+ * Tests for the API client
+ * Covers configuration, auth, retries, errors and cancellation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { configureApi, sessionAPI, reviewAPI, commandAPI, ApiError, isCanceled } from '@utils/api';
+
+// Stand-in backend: answers each request with the next reply in line
+function backend(...replies: { status: number; data?: any }[]) {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    requests.push(config);
+    const { status, data } = replies.length > 1 ? replies.shift()! : replies[0];
+    const response = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  });
+  configureApi({ adapter });
+  return { adapter, requests };
+}
+
+describe('API Client', () => {
+  beforeEach(() => {
+    configureApi({
+      baseUrl: 'https://staging.example.com',
+      getToken: async () => 'clerk-token',
+      userId: 'user_123',
+      retries: 2,
+      retryDelay: 0
+    });
+  });
+
+  it('sends requests to the configured backend as the signed-in user', async () => {
+    const { requests } = backend({ status: 200, data: { session_id: 'abc', name: 'Heist' } });
+
+    const session = await sessionAPI.createSession('Heist');
+
+    expect(session).toMatchObject({ id: 'abc', name: 'Heist', isGM: true });
+    expect(requests[0].baseURL).toBe('https://staging.example.com');
+    expect(requests[0].url).toBe('/api/session');
+    expect(requests[0].headers.Authorization).toBe('Bearer clerk-token');
+    expect(JSON.parse(requests[0].data)).toEqual({ name: 'Heist', gm_user_id: 'user_123', max_players: 6, is_private: false });
+    expect(commandAPI.eventsUrl()).toBe('https://staging.example.com/events');
+  });
+
+  it('retries failed reads but not writes', async () => {
+    const reads = backend({ status: 503 }, { status: 502 }, { status: 200, data: [] });
+    await expect(reviewAPI.getNotifications('abc')).resolves.toEqual([]);
+    expect(reads.adapter).toHaveBeenCalledTimes(3);
+    expect(reads.requests[0].params).toEqual({ user_id: 'user_123' });
+
+    const writes = backend({ status: 503 });
+    await expect(reviewAPI.markNotificationRead('abc', 1)).rejects.toMatchObject({ status: 503 });
+    expect(writes.adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the reason the backend gave', async () => {
+    backend({ status: 403, data: { error: 'Only the GM can review responses' } });
+    const error = await reviewAPI.review('abc', 'r1', { action: 'approve' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Only the GM can review responses', status: 403 });
+
+    configureApi({ userId: null });
+    await expect(sessionAPI.joinSession('abc')).rejects.toThrow('Not signed in');
+  });
+
+  it('cancels requests, including ones waiting to retry', async () => {
+    const controller = new AbortController();
+    const { adapter } = backend({ status: 503 });
+    adapter.mockImplementationOnce(async config => {
+      controller.abort();
+      throw new AxiosError('Service unavailable', 'ERR_BAD_RESPONSE', config, null,
+        { data: null, status: 503, statusText: '503', headers: {}, config });
+    });
+    configureApi({ retryDelay: 10000 });
+
+    const error = await sessionAPI.getScene('abc', { signal: controller.signal }).catch(e => e);
+    expect(isCanceled(error)).toBe(true);
+    expect(adapter).toHaveBeenCalledTimes(1);
+
+    await expect(sessionAPI.getScene('abc', { signal: controller.signal })).rejects.toMatchObject({ canceled: true });
+  });
+});
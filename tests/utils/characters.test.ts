@@ -0,0 +1,39 @@
+/**
+ * Tests for session characters
+ * Covers reading characters from the backend and turning them into sheets
+ */
+import { describe, it, expect } from 'vitest';
+import { toSessionCharacter, toShadowrunCharacter } from '@utils/characters';
+import { parseDiceCommand } from '@utils/dice';
+import { rollCharacterInitiative } from '@utils/initiative';
+
+describe('Session characters', () => {
+  it('reads attributes and skills sent as JSON text', () => {
+    const character = toSessionCharacter({
+      id: 3,
+      name: 'Kit',
+      user_id: 'u1',
+      attributes: JSON.stringify({ agility: 5 }),
+      skills: JSON.stringify({ Firearms: { rating: 4, specialization: 'Pistols' }, Hacking: 6 })
+    });
+
+    expect(character).toMatchObject({ id: 3, name: 'Kit', user_id: 'u1', attributes: { agility: 5 } });
+    expect(character.skills).toEqual({ Firearms: { rating: 4, specialization: 'Pistols' }, Hacking: { rating: 6 } });
+  });
+
+  it('builds a sheet that named pools and initiative roll from', () => {
+    const sheet = toShadowrunCharacter(toSessionCharacter({
+      id: 3,
+      name: 'Kit',
+      metatype: 'elf',
+      attributes: { agility: 5, reaction: 4, intuition: 3, body: 4 },
+      skills: { Firearms: { rating: 4 } }
+    }));
+
+    expect(sheet).toMatchObject({ id: '3', metatype: 'Elf', initiatives: { physical: 7 } });
+    expect(sheet.attributes.logic).toBe(1);
+    expect(sheet.condition.physical.max).toBe(10);
+    expect(parseDiceCommand('AGI+Firearms', { character: sheet }).dice).toBe(9);
+    expect(rollCharacterInitiative(sheet).base).toBe(7);
+  });
+});
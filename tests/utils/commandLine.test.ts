@@ -0,0 +1,40 @@
+/**
+ * Tests for the console command line parser
+ * Covers quoting, escapes, options, chaining and pipes
+ */
+import { describe, it, expect } from 'vitest';
+import { parseCommandChain, CommandLineError } from '@utils/commandLine';
+
+describe('Command Line Parser', () => {
+  it('groups quoted arguments and honours escapes', () => {
+    const [[summon]] = parseCommandChain(`summon "Mr. Johnson" 'fixer'`);
+    expect(summon).toMatchObject({ command: 'summon', args: ['Mr. Johnson', 'fixer'] });
+
+    const [[echo]] = parseCommandChain('echo say \\"hi\\" "with \\"quotes\\"" a\\ b');
+    expect(echo.args).toEqual(['say', '"hi"', 'with "quotes"', 'a b']);
+  });
+
+  it('keeps apostrophes inside words literal', () => {
+    const [[roll]] = parseCommandChain("roll 12 #Jonny's shot");
+    expect(roll.rawArgs).toBe("12 #Jonny's shot");
+  });
+
+  it('collects --flag=value options', () => {
+    const [[echo]] = parseCommandChain('echo --to="game master" --loud on my way -- --not-a-flag');
+    expect(echo.flags).toEqual({ to: 'game master', loud: 'true' });
+    expect(echo.args).toEqual(['on', 'my', 'way', '--not-a-flag']);
+  });
+
+  it('splits chains on ; and pipelines on |', () => {
+    const chain = parseCommandChain('roll 12 | edge hit; echo "a;b|c"');
+    expect(chain.map(pipeline => pipeline.map(cmd => cmd.command))).toEqual([['roll', 'edge'], ['echo']]);
+    expect(chain[1][0].args).toEqual(['a;b|c']);
+    expect(chain[0][0].rawArgs).toBe('12');
+  });
+
+  it('reports unterminated quotes and empty pipes with a column', () => {
+    expect(() => parseCommandChain('echo "open')).toThrow(CommandLineError);
+    expect(() => parseCommandChain('roll 12 |')).toThrow(/column 9/);
+    expect(parseCommandChain('echo "open', { partial: true })[0][0].args).toEqual(['open']);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for the console command registry
+ * Covers handler dispatch, argument validation, permissions, registration
+ * and the session-state commands
+ */
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import {
+  executeCommand,
+  registerCommand,
+  unregisterCommand,
+  validateCommandArguments,
+  findCommand,
+  CommandContext,
+  CommandHistoryManager
+} from '@utils/commands';
+import { SessionStateManager } from '@utils/session';
+import { sessionAPI } from '@utils/api';
+
+const player: CommandContext = { userId: 'runner', isGM: false };
+const gm: CommandContext = { userId: 'gm', isGM: true };
+
+describe('Command Registry', () => {
+  afterEach(() => {
+    unregisterCommand('ping');
+  });
+
+  it('runs registered handlers with validated parameters', async () => {
+    registerCommand({
+      name: 'ping',
+      aliases: ['pong'],
+      description: 'Reply with a count',
+      usage: 'ping <count> [loud]',
+      category: 'basic',
+      parameters: [
+        { name: 'count', type: 'number', required: true, description: 'How many' },
+        { name: 'loud', type: 'boolean', required: false, description: 'Shout' }
+      ],
+      handler: ({ name, params }) => ({
+        success: true,
+        output: `${name} ${params.count} ${params.loud ?? false}`
+      })
+    });
+
+    expect((await executeCommand('pong 3 yes', player)).output).toBe('pong 3 true');
+    expect((await executeCommand('ping three', player)).output).toMatch(/count must be a number/);
+  });
+
+  it('rejects names that clash with existing commands', () => {
+    expect(() => registerCommand({
+      name: 'ping',
+      aliases: ['r'],
+      description: 'Clashes with roll',
+      usage: 'ping',
+      category: 'basic'
+    })).toThrow(/already used by "roll"/);
+    expect(findCommand('ping')).toBeNull();
+  });
+
+  it('checks GM status and custom permission hooks', async () => {
+    registerCommand({
+      name: 'ping',
+      aliases: [],
+      description: 'Session only',
+      usage: 'ping',
+      category: 'game',
+      canExecute: context => context.sessionId ? true : 'Join a session first',
+      handler: () => ({ success: true, output: 'pong' })
+    });
+
+    expect((await executeCommand('summon Jonny ganger', player)).success).toBe(false);
+    expect((await executeCommand('summon Jonny ganger', { ...gm, session: new SessionStateManager('perm-test') })).success).toBe(true);
+    expect((await executeCommand('ping', gm)).output).toBe('Join a session first');
+    expect((await executeCommand('ping', { ...gm, sessionId: 's1' })).output).toBe('pong');
+  });
+
+  it('maps --flag=value options onto parameters', async () => {
+    expect((await executeCommand('echo --to=gm "on my way"', player)).output).toBe('📢 runner → gm: on my way');
+    expect(validateCommandArguments(findCommand('opposed')!, ['6'], { dice: '12' }).params).toEqual({ dice: 12, opposing_dice: 6 });
+    expect(validateCommandArguments(findCommand('echo')!, [], { volume: '11' }).error).toMatch(/Unknown option --volume/);
+  });
+
+  it('chains commands with ; and pipes results with |', async () => {
+    const chained = await executeCommand('echo one; echo two', player);
+    expect(chained.output).toBe('📢 runner: one\n\n📢 runner: two');
+
+    const piped = await executeCommand('roll 6 | echo', player);
+    expect(piped.output).toMatch(/^📢 runner: Rolling 6/);
+    expect(piped.data.piped.results.length).toBeGreaterThanOrEqual(6);
+
+    const edged = await executeCommand('roll 6 | edge hit', { ...player, edge: 3 });
+    expect(edged.data.bonusHits).toBe(1);
+  });
+
+  it('skips optional parameters that do not fit the argument', () => {
+    const edge = findCommand('edge')!;
+
+    expect(validateCommandArguments(edge, ['push']).params).toEqual({ action: 'pushTheLimit' });
+    expect(validateCommandArguments(edge, ['12', 'one', '2']).params).toEqual({ dice: 12, action: 'rerollOne', die: 2 });
+    expect(validateCommandArguments(edge, ['12', 'hit']).params).toEqual({ dice: 12, action: 'buyHit' });
+    expect(validateCommandArguments(findCommand('opposed')!, ['12', 'vs', '6']).params).toEqual({ dice: 12, vs: 'vs', opposing_dice: 6 });
+    expect(validateCommandArguments(findCommand('status')!, ['now']).error).toMatch(/Too many arguments/);
+  });
+});
+
+
+describe('Session Commands', () => {
+  let session: SessionStateManager;
+
+  beforeEach(() => {
+    session = new SessionStateManager('test');
+  });
+
+  it('persists the scene and lets players read it back', async () => {
+    const updateScene = vi.spyOn(sessionAPI, 'updateScene').mockResolvedValue();
+
+    expect((await executeCommand('scene Neon rain over Redmond', { ...player, session })).output).toMatch(/permission to set the scene/);
+    await executeCommand('scene Neon rain over Redmond', { ...gm, session, sessionId: 's1' });
+
+    expect(updateScene).toHaveBeenCalledWith('s1', { summary: 'Neon rain over Redmond' });
+    updateScene.mockRestore();
+    expect((await executeCommand('scene', { ...player, session })).output).toMatch(/Neon rain over Redmond/);
+
+    const saved = vi.mocked(localStorage.setItem).mock.calls.find(([key]) => key === 'shadowrun-session-test');
+    expect(JSON.parse(saved![1]).scene.setBy).toBe('gm');
+  });
+
+  it('runs the initiative tracker with summoned NPCs', async () => {
+    await executeCommand('summon Jonny ganger', { ...gm, session });
+    await executeCommand('initiative 30 1', { ...player, session });
+    expect((await executeCommand('initiative start', { ...player, session })).success).toBe(false);
+
+    await executeCommand('initiative start', { ...gm, session });
+    const combat = session.getState().combat;
+    expect(combat.order.map(entry => entry.name)).toEqual(['runner', 'Jonny']);
+    expect(combat.round).toBe(1);
+
+    await executeCommand('initiative next', { ...gm, session });
+    await executeCommand('initiative next', { ...gm, session });
+    expect(session.getState().combat).toMatchObject({ round: 2, turn: 0 });
+  });
+
+  it('tracks Edge spent from the session pool', async () => {
+    await executeCommand('edge 6 hit', { ...player, session });
+    expect((await executeCommand('edge', { ...player, session })).output).toBe('Edge: 0/3');
+    expect((await executeCommand('edge 6 hit', { ...player, session })).output).toMatch(/only 0 available/);
+    expect((await executeCommand('edge 100000000 hit', { ...player, session })).output).toMatch(/between 1 and 100 dice/);
+
+    await executeCommand('edge refresh', { ...player, session });
+    expect(session.getEdge('runner', 3).current).toBe(3);
+  });
+
+  it('places marks and raises Overwatch when hacking', async () => {
+    expect((await executeCommand('matrix hack 10 Ares host', { ...player, session })).output).toMatch(/Not in the Matrix/);
+
+    await executeCommand('matrix enter hot', { ...player, session });
+    const result = await executeCommand('matrix hack 10 4 Ares host', { ...player, session });
+    const presence = session.getMatrixPresence('runner')!;
+
+    expect(presence.hotSim).toBe(true);
+    expect(presence.overwatch).toBe(result.data.defender.hits);
+    expect(presence.marks['Ares host'] || 0).toBe(result.data.netHits > 0 ? 1 : 0);
+    expect((await executeCommand('matrix scan 100000000', { ...player, session })).output).toMatch(/between 1 and 100 dice/);
+  });
+});
+
+describe('Command History', () => {
+  it('searches newest first, substring matches before fuzzy ones', () => {
+    const history = new CommandHistoryManager({ sessionId: 'run-1' });
+    ['roll AGI+Firearms l7', 'echo ready', 'roll 12', 'opposed 12 6'].forEach(command => history.addCommand(command));
+    history.setSession('run-2');
+    history.addCommand('roll 12');
+
+    expect(history.search('roll').map(match => match.entry.command)).toEqual(['roll 12', 'roll AGI+Firearms l7']);
+    expect(history.search('rfire').map(match => match.exact)).toEqual([false]);
+    expect(history.search('12', { sessionId: 'run-1' }).map(match => match.entry.command)).toEqual(['opposed 12 6', 'roll 12']);
+  });
+
+  it('keeps each user\'s history apart', () => {
+    const history = new CommandHistoryManager({ userId: 'kit' });
+    history.addCommand('matrix enter');
+    expect(localStorage.setItem).toHaveBeenCalledWith('shadowrun-command-history-kit', expect.stringContaining('matrix enter'));
+
+    history.setUser('brick');
+    expect(localStorage.getItem).toHaveBeenCalledWith('shadowrun-command-history-brick');
+    expect(history.getHistory()).toEqual([]);
+  });
+
+  it('merges server history and uploads local commands', async () => {
+    const pushed: string[] = [];
+    const history = new CommandHistoryManager({
+      sync: {
+        fetch: async () => [{ command: 'roll 8 #last session', timestamp: '2020-01-01T00:00:00.000Z', synced: true }],
+        push: async entries => { pushed.push(...entries.map(entry => entry.command)); }
+      }
+    });
+    history.addCommand('status');
+    await Promise.resolve();
+
+    expect(await history.syncWithServer()).toBe(1);
+    expect(history.getHistory()).toEqual(['roll 8 #last session', 'status']);
+    expect(pushed).toEqual(['status']);
+  });
+
+  it('never uploads the same command twice when commands come quickly', async () => {
+    const batches: string[][] = [];
+    const history = new CommandHistoryManager({
+      sync: {
+        fetch: async () => [],
+        push: async entries => {
+          batches.push(entries.map(entry => entry.command));
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+      }
+    });
+    ['roll 6', 'roll 7', 'roll 8'].forEach(command => history.addCommand(command));
+    await history.syncWithServer();
+
+    expect(batches.flat()).toEqual(['roll 6', 'roll 7', 'roll 8']);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for console auto-completion
+ * Covers command names, enumerated options, character pools, scene NPCs,
+ * participants and --flags
+ */
+import { describe, it, expect } from 'vitest';
+import { getCompletions, applyCompletion, commonCompletionPrefix } from '@utils/completion';
+import { SessionStateManager } from '@utils/session';
+import type { ShadowrunCharacter } from '@components/CharacterSheet';
+
+const character = {
+  attributes: { body: 4, agility: 6, reaction: 5, strength: 3, charisma: 2, intuition: 4, logic: 5, willpower: 3, edge: 3 },
+  skills: { Firearms: { rating: 6 }, 'Heavy Weapons': { rating: 2 }, Cracking: { rating: 5 } }
+} as unknown as ShadowrunCharacter;
+
+const labels = (input: string, context = {}) => getCompletions(input, context).map(item => item.label);
+
+describe('Completion', () => {
+  it('completes command names with their descriptions', () => {
+    const [item] = getCompletions('opp');
+    expect(item).toMatchObject({ value: 'opposed', replaceFrom: 0 });
+    expect(item.description).toMatch(/opposed test/);
+  });
+
+  it('completes enumerated options and shows the parameter', () => {
+    expect(labels('matrix ')).toEqual(['enter', 'exit', 'hack', 'scan']);
+    expect(labels('edge 12 pu')).toEqual(['pushTheLimit']);
+    expect(getCompletions('edge 12 pu')[0]).toMatchObject({ parameter: 'action', description: expect.stringMatching(/Edge action/) });
+  });
+
+  it('completes skills and attributes in dice pools', () => {
+    expect(labels('roll AG', { character })).toEqual(['AGI']);
+    const [item] = getCompletions('roll AGI+Fire', { character });
+    expect(applyCompletion('roll AGI+Fire', item)).toBe('roll AGI+Firearms ');
+    expect(labels('roll Heavy', { character })).toEqual(['Heavy_Weapons']);
+  });
+
+  it('completes NPCs in the scene and session participants', () => {
+    const session = new SessionStateManager('completion');
+    session.summonNpc('Mr. Johnson', 'cop');
+
+    const [npc] = getCompletions('matrix hack 10 Mr', { session });
+    expect(applyCompletion('matrix hack 10 Mr', npc)).toBe('matrix hack 10 "Mr. Johnson" ');
+    expect(labels('echo --to=', { participants: ['Ghost', 'Gm'] })).toEqual(['Ghost', 'Gm']);
+  });
+
+  it('completes flag names and the last command of a pipeline', () => {
+    expect(getCompletions('echo --t').map(item => item.value)).toEqual(['--to=']);
+    expect(labels('roll 12 | edge ')).toContain('buyHit');
+    expect(commonCompletionPrefix(getCompletions('matrix e'))).toBe('e');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for dice utilities
+ * Covers seeded random sources, roll replay, the expression grammar,
+ * opposed and extended tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  rollShadowrunDice,
+  rollStandardDice,
+  parseDiceCommand,
+  getReplaySource,
+  opposedTest,
+  extendedTest
+} from '@utils/dice';
+import { createSeededRandom, createCryptoRandom, restoreRandom } from '@utils/random';
+import { DiceParseError, parseDiceExpression } from '@utils/diceExpression';
+
+describe('Random Sources', () => {
+  it('produces the same stream for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = Array.from({ length: 10 }, () => a.next());
+    const second = Array.from({ length: 10 }, () => b.next());
+
+    expect(first).toEqual(second);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('tracks draws so a stream can be restored mid-way', () => {
+    const source = createSeededRandom(7);
+    source.next();
+    source.next();
+    const restored = restoreRandom(7, source.draws);
+
+    expect(restored.next()).toBe(source.next());
+  });
+
+  it('seeds the default source from crypto', () => {
+    const source = createCryptoRandom();
+    expect(Number.isInteger(source.seed)).toBe(true);
+    expect(source.draws).toBe(0);
+  });
+});
+
+describe('Seeded Rolls', () => {
+  it('records the seed on every roll', () => {
+    expect(rollShadowrunDice(6).seed).toBeDefined();
+    expect(rollStandardDice('2d6').seed).toBeDefined();
+    expect(parseDiceCommand('init 8').seed).toBeDefined();
+    expect(rollShadowrunDice(6, { explodingDice: true }).seed).toBeDefined();
+  });
+
+  it('reproduces a Shadowrun roll from its seed', () => {
+    const original = rollShadowrunDice(12, { edge: true });
+    const replayed = rollShadowrunDice(12, { edge: true, rng: getReplaySource(original) });
+
+    expect(replayed.results).toEqual(original.results);
+    expect(replayed.hits).toBe(original.hits);
+  });
+
+  it('replays a roll taken part-way through a shared stream', () => {
+    const rng = createSeededRandom(1234);
+    parseDiceCommand('8', { rng });
+    const second = parseDiceCommand('3d6+2', { rng });
+
+    expect(second.seedOffset).toBe(8);
+    expect(rollStandardDice('3d6+2', getReplaySource(second)).results).toEqual(second.results);
+  });
+
+  it('refuses to replay a roll without a seed', () => {
+    const result = { ...rollShadowrunDice(4), seed: undefined };
+    expect(() => getReplaySource(result)).toThrow(/cannot be replayed/);
+  });
+});
+
+describe('Opposed Tests', () => {
+  it('reports net hits and glitches for both sides', () => {
+    const result = opposedTest(12, 6, { rng: createSeededRandom(99) });
+    const difference = result.attacker.hits - result.defender.hits;
+
+    expect(result.netHits).toBe(Math.max(0, difference));
+    expect(result.isTie).toBe(difference === 0);
+    expect(result.attackerGlitch).toBe(result.attacker.isGlitch);
+    expect(result.defenderGlitch).toBe(result.defender.isGlitch);
+  });
+
+  it('gives ties to the defender', () => {
+    const allOnes = { seed: 0, draws: 0, next: () => 0 };
+    const result = opposedTest(3, 3, { rng: allOnes });
+    expect(result.isTie).toBe(true);
+    expect(result.winner).toBe('defender');
+  });
+});
+
+describe('Extended Tests', () => {
+  it('loses a die per interval and accumulates hits', () => {
+    const result = extendedTest(8, 6, { rng: createSeededRandom(5), interval: { length: 10, unit: 'minute' } });
+
+    result.intervals.forEach((step, i) => {
+      expect(step.pool).toBe(8 - i);
+    });
+    expect(result.elapsed).toEqual({ length: result.intervals.length * 10, unit: 'minute' });
+    expect(result.success).toBe(!result.criticalGlitch && result.totalHits >= 6);
+  });
+
+  it('stops after the maximum number of intervals', () => {
+    const result = extendedTest(6, 100, { maxIntervals: 2, rng: createSeededRandom(11) });
+    expect(result.intervals).toHaveLength(2);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects empty and oversized pools', () => {
+    expect(() => extendedTest(0, 4)).toThrow(/at least one die/);
+    expect(() => extendedTest(100000, 4)).toThrow(/more than 100 dice/);
+    expect(() => opposedTest(100000000, 5)).toThrow(/between 1 and 100/);
+    expect(() => opposedTest(6, 0)).toThrow(/between 1 and 100/);
+  });
+});
+
+describe('Dice Expressions', () => {
+  const variables = { agi: 5, firearms: 6, heavyweapons: 2 };
+
+  it('parses pool arithmetic, suffixes and labels', () => {
+    const expression = parseDiceExpression('AGI+Firearms+2-3 l5 t3 e #sniper shot');
+
+    expect(expression.terms.map(term => term.kind)).toEqual(['variable', 'variable', 'number', 'number']);
+    expect(expression.limit).toBe(5);
+    expect(expression.threshold).toBe(3);
+    expect(expression.edge).toBe(true);
+    expect(expression.label).toBe('sniper shot');
+  });
+
+  it('rolls named pools from character variables', () => {
+    const result = parseDiceCommand('AGI+Firearms+2-3', { variables });
+    expect(result.dice).toBe(10);
+    expect(result.total).toBeUndefined();
+  });
+
+  it('matches skill names regardless of case and spacing', () => {
+    expect(parseDiceCommand('Heavy_Weapons + 1', { variables }).dice).toBe(3);
+  });
+
+  it('sums multiple dice groups and constants', () => {
+    const result = parseDiceCommand('2d6+1d6+2', { rng: createSeededRandom(8) });
+    expect(result.results).toHaveLength(3);
+    expect(result.total).toBe(result.results.reduce((sum, roll) => sum + roll, 0) + 2);
+  });
+
+  it('keeps the highest or lowest dice', () => {
+    const highest = parseDiceCommand('4d6kh3', { rng: createSeededRandom(21) });
+    const lowest = parseDiceCommand('4d6kl1', { rng: createSeededRandom(21) });
+
+    expect(highest.results).toHaveLength(3);
+    expect(highest.dropped).toHaveLength(1);
+    expect(Math.min(...highest.results)).toBeGreaterThanOrEqual(highest.dropped![0]);
+    expect(lowest.results[0]).toBe(Math.min(...highest.results, ...highest.dropped!));
+  });
+
+  it('records thresholds and labels on the result', () => {
+    const result = parseDiceCommand('12 t3 #sniper shot');
+    expect(result.threshold).toBe(3);
+    expect(result.label).toBe('sniper shot');
+  });
+
+  it('keeps the legacy syntax working', () => {
+    expect(parseDiceCommand('12 l5 e').edge_used).toBe(true);
+    expect(parseDiceCommand('12 limit 4').limit).toBe(4);
+    expect(parseDiceCommand('3d6+2').total).toBeGreaterThanOrEqual(5);
+  });
+
+  it('points parse errors at the offending column', () => {
+    const cases: Array<[string, number]> = [
+      ['12 x', 4],
+      ['12 + ', 6],
+      ['12 $', 4],
+      ['STR+2', 1],
+      ['2d6 l4', 5],
+      ['4d6kh9', 4]
+    ];
+
+    cases.forEach(([input, column]) => {
+      try {
+        parseDiceCommand(input, { variables });
+        throw new Error(`"${input}" should not parse`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(DiceParseError);
+        expect((error as DiceParseError).column).toBe(column);
+      }
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for the Edge action engine
+ */
+import { describe, it, expect } from 'vitest';
+import { ShadowrunDiceResult, tallyShadowrunDice, rollShadowrunDice, getReplaySource } from '@utils/dice';
+import { spendEdge, findEdgeAction, DEFAULT_EDGE_CAP } from '@utils/edge';
+import { createSeededRandom } from '@utils/random';
+
+const makeRoll = (dice: number[], limit?: number): ShadowrunDiceResult => ({
+  dice: dice.length,
+  ...tallyShadowrunDice(dice, [], { limit }),
+  exploded: [],
+  limit
+});
+
+describe('Edge Actions', () => {
+  it('finds actions by id and alias', () => {
+    expect(findEdgeAction('secondChance')?.id).toBe('secondChance');
+    expect(findEdgeAction('push')?.id).toBe('pushTheLimit');
+    expect(findEdgeAction('nonsense')).toBeNull();
+  });
+
+  it('adds 3 to the best non-hit die by default', () => {
+    const { result, cost } = spendEdge(makeRoll([1, 4, 2]), 'addThree');
+    expect(cost).toBe(2);
+    expect(result.results).toEqual([1, 6, 2]);
+    expect(result.hits).toBe(1);
+  });
+
+  it('targets a specific die when asked', () => {
+    const { result } = spendEdge(makeRoll([1, 4, 2]), 'addThree', { dieIndex: 2 });
+    expect(result.results).toEqual([1, 4, 5]);
+  });
+
+  it('buys an automatic hit on top of the limit', () => {
+    const { result } = spendEdge(makeRoll([5, 5, 6], 2), 'buyHit');
+    expect(result.hits).toBe(3);
+    expect(result.bonusHits).toBe(1);
+  });
+
+  it('rerolls only failed dice with Second Chance', () => {
+    const { result } = spendEdge(makeRoll([5, 1, 2, 6]), 'secondChance', { rng: createSeededRandom(3) });
+    expect(result.results[0]).toBe(5);
+    expect(result.results[3]).toBe(6);
+    expect(result.edgeActions).toEqual(['Reroll Failures (Second Chance)']);
+  });
+
+  it('adds Edge dice and drops the limit when pushing the limit', () => {
+    const { result } = spendEdge(makeRoll([5, 5, 5], 1), 'pushTheLimit', { availableEdge: 4, rng: createSeededRandom(9) });
+    expect(result.dice).toBe(7);
+    expect(result.limit).toBeUndefined();
+    expect(result.hits).toBeGreaterThanOrEqual(3);
+  });
+
+  it('tracks Edge spent and enforces the per-test cap', () => {
+    let roll = makeRoll([1, 2, 3, 4]);
+    roll = spendEdge(roll, 'secondChance').result;
+    expect(roll.edgeSpent).toBe(4);
+    expect(() => spendEdge(roll, 'pushTheLimit', { edgeRating: 3 })).toThrow(`capped at ${DEFAULT_EDGE_CAP}`);
+  });
+
+  it('refuses actions the character cannot afford', () => {
+    expect(() => spendEdge(makeRoll([1, 2]), 'buyHit', { availableEdge: 2 })).toThrow(/only 2 available/);
+    expect(spendEdge(makeRoll([1, 2]), 'rerollOne', { availableEdge: 2 }).edgeRemaining).toBe(1);
+  });
+
+  it('draws Edge dice from the roll\'s own stream so its seed still replays it', () => {
+    const original = rollShadowrunDice(8, { rng: createSeededRandom(42) });
+    const edged = spendEdge(original, 'secondChance').result;
+    expect(edged.seed).toBe(42);
+    expect(edged.seedEnd).toBeGreaterThan(original.seedEnd!);
+
+    const replayed = rollShadowrunDice(8, { rng: getReplaySource(edged) });
+    expect(spendEdge(replayed, 'secondChance').result.results).toEqual(edged.results);
+    expect(spendEdge(makeRoll([1, 2]), 'rerollOne', { rng: createSeededRandom(7) }).result.seed).toBeUndefined();
+  });
+});
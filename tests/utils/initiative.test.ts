@@ -0,0 +1,60 @@
+/**
+ * Tests for the shared initiative service
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getInitiativeProfile,
+  rollInitiative,
+  rollCharacterInitiative,
+  seizeInitiative,
+  sortInitiativeOrder
+} from '@utils/initiative';
+import { parseDiceCommand } from '@utils/dice';
+import { createSeededRandom } from '@utils/random';
+import type { ShadowrunCharacter } from '@components/CharacterSheet';
+
+const character = {
+  name: 'Kestrel',
+  initiatives: { physical: 9, astral: 8, matrix: 10, dice: { physical: 3 } }
+} as ShadowrunCharacter;
+
+describe('Initiative', () => {
+  it('reads base and dice from the character sheet', () => {
+    expect(getInitiativeProfile(character)).toEqual({ type: 'physical', base: 9, dice: 3 });
+    expect(getInitiativeProfile(character, 'astral')).toEqual({ type: 'astral', base: 8, dice: 2 });
+    expect(getInitiativeProfile(character, 'matrix', { hotSim: true }).dice).toBe(3);
+    expect(() => getInitiativeProfile(character, 'rigging')).toThrow(/no rigging initiative/);
+  });
+
+  it('rolls base + Nd6 with one Minor Action per die', () => {
+    const result = rollCharacterInitiative(character, 'physical', { rng: createSeededRandom(4) });
+    expect(result.rolls).toHaveLength(3);
+    expect(result.score).toBe(9 + result.rolls.reduce((sum, roll) => sum + roll, 0));
+    expect(result.minorActions).toBe(4);
+  });
+
+  it('clamps initiative dice to 1-5', () => {
+    expect(rollInitiative(10, 9).dice).toBe(5);
+    expect(rollInitiative(10, 0).dice).toBe(1);
+  });
+
+  it('lets a seized initiative act first', () => {
+    const { result, edgeRemaining } = seizeInitiative(rollInitiative(5), 2);
+    expect(result.seized).toBe(true);
+    expect(edgeRemaining).toBe(1);
+    expect(() => seizeInitiative(rollInitiative(5), 0)).toThrow(/costs 1 Edge/);
+
+    const order = sortInitiativeOrder([
+      { id: 'a', initiativeScore: 20 },
+      { id: 'b', initiativeScore: 8, seizedInitiative: true },
+      { id: 'c', initiativeScore: 20, initiativeBase: 12 }
+    ]);
+    expect(order.map(c => c.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('drives the init dice command', () => {
+    expect(parseDiceCommand('init 10+3d6').results).toHaveLength(3);
+    expect(parseDiceCommand('init astral', { character }).results).toHaveLength(2);
+    expect(() => parseDiceCommand('init')).toThrow(/No character loaded/);
+  });
+});
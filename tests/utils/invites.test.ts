@@ -0,0 +1,64 @@
+/**
+ * Tests for session invite links
+ * Covers roles, expiry, use limits, revoking and who may manage invites
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { sessionAPI, inviteAPI } from '@utils/api';
+import { inviteLink, describeInvite } from '@utils/invites';
+import { as, useMockBackend } from '@/tests/mockBackend';
+
+describe('Invite links', () => {
+  useMockBackend();
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('joins the session in the invite role, past its password', async () => {
+    const session = await sessionAPI.createSession('Black Op', { isPrivate: true, password: 'hoi' });
+    const invite = await inviteAPI.createInvite(session.id, { role: 'observer' });
+    expect(inviteLink(invite.token, 'https://sr.example')).toBe(`https://sr.example/join/${invite.token}`);
+
+    as('streamer');
+    const joined = await inviteAPI.redeemInvite(invite.token);
+    expect(joined).toMatchObject({ id: session.id, name: 'Black Op', role: 'observer', isGM: false, playerCount: 0 });
+  });
+
+  it('stops working once used up or revoked', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    const invite = await inviteAPI.createInvite(session.id, { maxUses: 1 });
+
+    as('kit');
+    await inviteAPI.redeemInvite(invite.token);
+    await inviteAPI.redeemInvite(invite.token); // Members can follow the link again
+    as('brick');
+    await expect(inviteAPI.redeemInvite(invite.token)).rejects.toMatchObject({ status: 410, message: 'This invite has been used up' });
+
+    as('gm');
+    const open = await inviteAPI.createInvite(session.id);
+    await inviteAPI.revokeInvite(session.id, open.token);
+    expect(describeInvite((await inviteAPI.getInvites(session.id))[1])).toBe('Player · 0 uses · revoked');
+    as('brick');
+    await expect(inviteAPI.redeemInvite(open.token)).rejects.toThrow('This invite was revoked');
+    await expect(inviteAPI.redeemInvite('nope')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const session = await sessionAPI.createSession('Milk Run');
+    const invite = await inviteAPI.createInvite(session.id, { expiresInMinutes: 60, maxUses: 5 });
+    expect(describeInvite(invite)).toBe('Player · 0/5 uses · expires in 1h');
+
+    vi.setSystemTime(Date.now() + 61 * 60000);
+    as('kit');
+    await expect(inviteAPI.redeemInvite(invite.token)).rejects.toThrow('This invite has expired');
+  });
+
+  it('lets only the GM manage invites', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    as('kit');
+    await sessionAPI.joinSession(session.id);
+    await expect(inviteAPI.createInvite(session.id)).rejects.toMatchObject({ status: 403 });
+    await expect(inviteAPI.getInvites(session.id)).rejects.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the session lobby
+ * Covers listing, passwords, capacity, private sessions and leaving
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { sessionAPI, ShadowrunWebSocket } from '@utils/api';
+import { as, useMockBackend } from '@/tests/mockBackend';
+
+describe('Session lobby', () => {
+  const mock = useMockBackend();
+
+  it('lists public sessions only', async () => {
+    await sessionAPI.createSession('Milk Run', { maxPlayers: 4, password: 'hoi' });
+    const secret = await sessionAPI.createSession('Black Op', { isPrivate: true });
+
+    const sessions = await sessionAPI.getActiveSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ name: 'Milk Run', maxPlayers: 4, hasPassword: true, isGM: true, playerCount: 0 });
+    expect(secret.inviteCode).toBeTruthy();
+  });
+
+  it('checks passwords and capacity', async () => {
+    const session = await sessionAPI.createSession('Milk Run', { maxPlayers: 1, password: 'hoi' });
+
+    as('kit');
+    await expect(sessionAPI.joinSession(session.id)).rejects.toMatchObject({ status: 403, message: 'Wrong session password' });
+    expect(await sessionAPI.joinSession(session.id, { password: 'hoi' })).toMatchObject({ playerCount: 1, isGM: false });
+
+    as('brick');
+    await expect(sessionAPI.joinSession(session.id, { password: 'hoi' })).rejects.toMatchObject({ status: 409, message: 'Session is full' });
+  });
+
+  it('lets only invited players into private sessions', async () => {
+    const session = await sessionAPI.createSession('Black Op', { isPrivate: true });
+    expect((await sessionAPI.getSessionInfo(session.id)).inviteCode).toBe(session.inviteCode);
+
+    as('kit');
+    await expect(sessionAPI.joinSession(session.id)).rejects.toThrow(/private/);
+    const joined = await sessionAPI.joinSession(session.id, { inviteCode: session.inviteCode });
+    expect(joined.inviteCode).toBeUndefined();
+  });
+
+  it('tells other clients when a player leaves', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    const gmSocket = new ShadowrunWebSocket();
+    const left = vi.fn();
+    gmSocket.on('player_left', left);
+    gmSocket.connect(session.id);
+
+    as('kit');
+    await sessionAPI.joinSession(session.id);
+    await sessionAPI.leaveSession(session.id);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ username: 'kit' }));
+    as('gm');
+    expect((await sessionAPI.getSessionInfo(session.id)).participants).toEqual(['gm']);
+    expect(mock.backend.getSession(session.id)?.users).toHaveLength(1);
+    gmSocket.disconnect();
+  });
+
+  it('keeps the GM in the session they run', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    await expect(sessionAPI.leaveSession(session.id)).rejects.toMatchObject({ status: 400 });
+    expect((await sessionAPI.getSessionInfo(session.id)).isGM).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for user macros
+ * Covers expansion, registration in the command registry, per-character sets
+ * and import/export
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MacroManager, expandMacro } from '@utils/macros';
+import { executeCommand, autoCompleteCommand, generateGeneralHelp, findCommand, CommandContext } from '@utils/commands';
+
+describe('Macros', () => {
+  let macros: MacroManager;
+  let context: CommandContext;
+
+  beforeEach(() => {
+    macros = new MacroManager('runner-1');
+    context = { userId: 'runner', isGM: false, macros };
+  });
+
+  afterEach(() => {
+    macros.getMacros().forEach(macro => macros.removeMacro(macro.name));
+  });
+
+  it('expands positional and rest placeholders', () => {
+    expect(expandMacro({ name: 'hit', command: 'opposed $1 $2' }, ['12', '6'])).toBe('opposed 12 6');
+    expect(expandMacro({ name: 'npc', command: 'summon $1 ganger' }, ['Mr. Johnson'])).toBe('summon "Mr. Johnson" ganger');
+    expect(expandMacro({ name: 's', command: 'scene' }, ['Rain', 'falls'])).toBe('scene Rain falls');
+    expect(() => expandMacro({ name: 'hit', command: 'opposed $1 $2' }, ['12'])).toThrow(/needs 2 arguments/);
+  });
+
+  it('runs macros defined from the console', async () => {
+    await executeCommand('macro add volley "roll $1 t$2"', context);
+    const result = await executeCommand('volley 8 3', context);
+
+    expect(result.success).toBe(true);
+    expect(result.data.dice).toBe(8);
+    expect(result.data.threshold).toBe(3);
+  });
+
+  it('shows macros in help and auto-completion', async () => {
+    await executeCommand('macro add sniper "roll 12 l7" --description="Sniper rifle shot"', context);
+
+    expect(autoCompleteCommand('sni')).toContain('sniper');
+    expect(generateGeneralHelp()).toMatch(/MACRO COMMANDS:\n  sniper - Sniper rifle shot/);
+  });
+
+  it('refuses to shadow built-in commands', async () => {
+    expect((await executeCommand('alias roll echo', context)).output).toMatch(/already a command/);
+  });
+
+  it('stops macros that call each other in a loop', async () => {
+    macros.addMacro('ping', 'echo ping');
+    macros.addMacro('pong', 'ping');
+    macros.addMacro('ping', 'pong');
+    expect((await executeCommand('ping', context)).output).toMatch(/nests more than 5 macros deep/);
+  });
+
+  it('keeps a separate macro set per character', () => {
+    macros.addMacro('sniper', 'roll 12 l7');
+    macros.setCharacter('runner-2');
+
+    expect(findCommand('sniper')).toBeNull();
+    expect(macros.getMacros()).toEqual([]);
+  });
+
+  it('imports exported macro sets', () => {
+    const source = new MacroManager('runner-3');
+    source.addMacro('sniper', 'roll 12 l7');
+    const exported = source.exportMacros();
+    source.removeMacro('sniper');
+
+    expect(macros.importMacros(exported)).toEqual({ imported: ['sniper'], skipped: [] });
+    expect(macros.importMacros('[{"name":"roll","command":"echo"}]').skipped).toEqual(['roll']);
+    expect(() => macros.importMacros('not json')).toThrow(/must be JSON/);
+  });
+
+  it('round-trips chained macros through export and import on the console', async () => {
+    macros.addMacro('combo', 'roll 3; roll 4 | edge hit');
+    macros.addMacro('shout', 'echo "two  spaces"');
+    const exported = (await executeCommand('macro export', context)).output;
+    macros.getMacros().forEach(macro => macros.removeMacro(macro.name));
+
+    const result = await executeCommand(`macro import ${exported}`, context);
+    expect(result.output).toBe('Imported 2 macros: combo, shout');
+    expect(macros.getMacro('combo')?.command).toBe('roll 3; roll 4 | edge hit');
+    expect(macros.getMacro('shout')?.command).toBe('echo "two  spaces"');
+  });
+});
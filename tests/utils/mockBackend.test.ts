@@ -0,0 +1,171 @@
+/**
+ * Tests for the stand-in backend
+ * Runs the API client and session WebSocket against it end to end
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { demoSeed } from '@utils/mockBackend';
+import { configureApi, sessionAPI, reviewAPI, gmAPI, imageAPI, characterAPI, llmAPI, commandAPI, ShadowrunWebSocket } from '@utils/api';
+import { executeCommand } from '@utils/commands';
+import { SessionStateManager } from '@utils/session';
+import { createPrivateMessage, GM_ADDRESSEE } from '@utils/whispers';
+import { as, useMockBackend } from '@/tests/mockBackend';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Mock backend', () => {
+  const mock = useMockBackend(demoSeed, 'offline-runner');
+
+  it('serves the seeded session to the dashboards', async () => {
+    expect((await gmAPI.getCombatStatus('demo')).combatants).toHaveLength(2);
+    await expect(gmAPI.getMatrixGrid('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(sessionAPI.getEntities('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(gmAPI.getLiveMonitoring('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(reviewAPI.getNotifications('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(llmAPI.requestWithReview('demo', { context: 'I hack the van', requireReview: false })).rejects.toMatchObject({ status: 403 });
+
+    as('gm');
+    expect((await gmAPI.getMatrixGrid('demo')).overwatch).toBe(6);
+    expect(await sessionAPI.getEntities('demo')).toHaveLength(2);
+    expect((await gmAPI.getLiveMonitoring('demo')).players).toEqual([
+      { id: 'gm', name: 'Mr. Johnson', status: 'offline' },
+      { id: 'offline-runner', name: 'Kit', status: 'offline' }
+    ]);
+    expect((await characterAPI.getCharacters('demo')).map(character => character.name)).toEqual(['Kit', 'Brick']);
+    expect((await sessionAPI.getScene('demo')).summary).toMatch(/Puyallup/);
+    await expect(characterAPI.getCharacters('nowhere')).rejects.toMatchObject({ status: 404, message: 'Session nowhere not found' });
+
+    as('jonny');
+    await expect(gmAPI.getCombatStatus('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(characterAPI.getCharacters('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(sessionAPI.getScene('demo')).rejects.toMatchObject({ status: 403 });
+    await expect(commandAPI.executeCommand('demo', 'roll 6')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('keeps state between requests', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    configureApi({ userId: 'kit' });
+    await sessionAPI.joinSession(session.id);
+    expect((await sessionAPI.getSessionInfo(session.id)).playerCount).toBe(1);
+
+    const { character_id } = await characterAPI.createCharacter(session.id, { name: 'Slick' });
+    expect((await characterAPI.getCharacters(session.id))[0]).toMatchObject({ id: character_id, name: 'Slick' });
+
+    const image = await imageAPI.generate(session.id, { prompt: 'Neon alley' });
+    await imageAPI.setFavorite(session.id, image.image_id, true);
+    expect((await imageAPI.getImages(session.id))[0]).toMatchObject({ prompt: 'Neon alley', is_favorite: true });
+
+    const command = await commandAPI.executeCommand(session.id, 'roll 6');
+    expect(command.output).toMatch(/6/);
+    expect((await commandAPI.rollExpression('12', true)).result).toMatchObject({ dice: 12, edge_used: true });
+  });
+
+  it('runs the GM review queue', async () => {
+    const request = await llmAPI.requestWithReview('demo', { context: 'I hack the van' });
+    expect(request.status).toBe('pending_review');
+    await expect(reviewAPI.getPendingResponses('demo')).rejects.toMatchObject({ status: 403 });
+
+    configureApi({ userId: 'gm' });
+    expect((await reviewAPI.getPendingResponses('demo')).pagination.total).toBe(2);
+
+    await reviewAPI.review('demo', 'pr-1', { action: 'edit', finalResponse: 'The tag is dead.' });
+    await reviewAPI.bulkReview('demo', { action: 'reject', responseIds: [request.pending_response_id!] });
+
+    const analytics = await reviewAPI.getAnalytics('demo');
+    expect(analytics.queue_status.pending_count).toBe(0);
+    expect(analytics.review_stats).toMatchObject({ total_reviewed: 2, edited_count: 1, rejected_count: 1 });
+    expect(mock.backend.getSession('demo')?.pendingResponses[0].final_response).toBe('The tag is dead.');
+  });
+
+  it('relays session events over the WebSocket and replays missed ones', async () => {
+    const kit = new ShadowrunWebSocket();
+    const brick = new ShadowrunWebSocket();
+    const seen = vi.fn();
+    brick.on('command_result', seen);
+    kit.connect('demo');
+    brick.connect('demo');
+    await settle();
+
+    kit.send({ type: 'command', command: 'roll 6', result: '2 hits', userId: 'Kit' });
+    await settle();
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ output: '2 hits', seq: 1 }));
+
+    // Brick drops; what happens meanwhile arrives on reconnect
+    (brick as any).ws.close();
+    kit.send({ type: 'command', command: 'roll 8', result: '4 hits', userId: 'Kit' });
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    expect(brick.isConnected()).toBe(true);
+    expect(seen.mock.calls.map(([message]) => message.output)).toEqual(['2 hits', '4 hits']);
+
+    kit.disconnect();
+    brick.disconnect();
+  });
+
+  it('sends private messages only to their sender and recipients, live and on replay', async () => {
+    configureApi({ userId: 'jonny' });
+    await sessionAPI.joinSession('demo');
+    const jonny = new ShadowrunWebSocket({ name: 'Jonny' });
+    const jonnySaw = vi.fn();
+    jonny.on('private_message', jonnySaw);
+    jonny.connect('demo');
+    configureApi({ userId: 'gm' });
+    const gm = new ShadowrunWebSocket({ name: 'Mr. Johnson' });
+    const gmSaw = vi.fn();
+    gm.on('private_message', gmSaw);
+    gm.connect('demo');
+    configureApi({ userId: 'offline-runner' });
+    const kit = new ShadowrunWebSocket({ name: 'Kit' });
+    kit.connect('demo');
+    await settle();
+
+    kit.send({ type: 'command', command: 'roll 6', result: '2 hits', userId: 'offline-runner' });
+    await settle();
+    (jonny as any).ws.close();
+    // Claiming to be someone else doesn't work; the server stamps the sender
+    const note = createPrivateMessage('gm', { userId: 'jonny', name: 'Jonny' }, [GM_ADDRESSEE], 'I palm the chip');
+    kit.send({ type: 'private_message', to: note.to, message: note });
+    configureApi({ userId: 'jonny' }); // Jonny's socket reconnects under Jonny's id
+    await new Promise(resolve => setTimeout(resolve, 1200));
+
+    expect(jonny.isConnected()).toBe(true);
+    expect(gmSaw).toHaveBeenCalledWith(expect.objectContaining({
+      message: { ...note, from: 'offline-runner', fromName: 'Kit' }
+    }));
+    expect(jonnySaw).not.toHaveBeenCalled();
+
+    [jonny, gm, kit].forEach(socket => socket.disconnect());
+  });
+
+  it('shares the scene, NPCs and initiative with the table', async () => {
+    const tables = { gm: new SessionStateManager('demo'), 'offline-runner': new SessionStateManager('demo') };
+    const sockets = Object.entries(tables).map(([userId, table]) => {
+      as(userId);
+      const socket = new ShadowrunWebSocket({ name: userId });
+      socket.on('session_change', data => table.apply(data.change));
+      socket.connect('demo');
+      return socket;
+    });
+    await settle();
+
+    as('gm');
+    await executeCommand('summon Jonny ganger', { userId: 'gm', isGM: true, sessionId: 'demo', session: tables.gm });
+    as('offline-runner');
+    await executeCommand('initiative 30 1', { userId: 'offline-runner', isGM: false, sessionId: 'demo', session: tables['offline-runner'] });
+    await settle();
+    expect(tables['offline-runner'].getState().npcs.map(npc => npc.name)).toEqual(['Jonny']);
+
+    as('gm');
+    const start = await executeCommand('initiative start', { userId: 'gm', isGM: true, sessionId: 'demo', session: tables.gm });
+    expect(start.output).toMatch(/offline-runner/);
+    await settle();
+    expect(tables['offline-runner'].getState().combat).toMatchObject({ active: true, round: 1 });
+    const status = await gmAPI.getCombatStatus('demo');
+    expect(status.combatants?.map(combatant => combatant.name)).toEqual(['offline-runner', 'Jonny']);
+    expect(await sessionAPI.getSessionState('demo')).toMatchObject({ npcs: [{ name: 'Jonny' }], combat: { active: true } });
+
+    // Players can't summon or run combat, only roll for themselves
+    as('offline-runner');
+    await expect(sessionAPI.updateSessionState('demo', { kind: 'combat', combat: start.data })).rejects.toMatchObject({ status: 403 });
+
+    sockets.forEach(socket => socket.disconnect());
+  });
+});
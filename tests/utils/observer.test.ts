@@ -0,0 +1,123 @@
+/**
+ * Tests for observer mode
+ * Covers read-only commands, hidden GM content, recent rolls and the stream delay
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { observerCanSee, toRecentRoll, DelayBuffer } from '@utils/observer';
+import { executeCommand, CommandContext } from '@utils/commands';
+import { createPrivateMessage, GM_ADDRESSEE } from '@utils/whispers';
+import { installMockBackend } from '@utils/mockBackend';
+import { configureApi, commandAPI, inviteAPI, sessionAPI, ShadowrunWebSocket } from '@utils/api';
+
+describe('Observer mode', () => {
+  const observer: CommandContext = { userId: 'Streamer', isGM: false, isObserver: true };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only allows basic commands', async () => {
+    expect((await executeCommand('roll 6', observer)).output).toMatch(/Observers can only watch/);
+    expect((await executeCommand('whisper Kit hi', observer)).success).toBe(false);
+    expect((await executeCommand('help roll', observer)).success).toBe(true);
+  });
+
+  it('hides private messages and GM command results', () => {
+    const note = createPrivateMessage('gm', { userId: 'u-kit', name: 'Kit' }, [GM_ADDRESSEE], 'I palm the chip');
+    expect(observerCanSee({ type: 'private_message', to: ['@gm'], message: note })).toBe(false);
+    expect(observerCanSee({ type: 'command_result', command: 'summon ganger', output: 'Body 4', success: true })).toBe(false);
+    expect(observerCanSee({ type: 'command_result', command: 'r 6', output: '2 hits', success: true })).toBe(true);
+    expect(observerCanSee({ type: 'command_result', command: 'roll 3; summon ganger', output: 'Body 4', success: true })).toBe(false);
+    expect(observerCanSee({ type: 'command_result', command: 'roll 3 | summon ganger', output: 'Body 4', success: true })).toBe(false);
+    expect(observerCanSee({ type: 'command_result', command: 'roll 3 "summon', output: '', success: false })).toBe(false);
+    expect(observerCanSee({ type: 'session_change', change: { kind: 'combat', combat: { active: true, round: 1, turn: 0, order: [] } } })).toBe(true);
+    expect(observerCanSee({
+      type: 'session_change',
+      change: { kind: 'npc', npc: { id: 'n1', name: 'Jonny', archetype: 'ganger', dicePool: 7, condition: { current: 0, max: 10 }, initiativeBase: 6, initiativeDice: 1 } }
+    })).toBe(false);
+  });
+
+  it('picks dice results out for the overlay', () => {
+    const at = new Date('2026-01-01T00:00:00Z');
+    expect(toRecentRoll({ type: 'command_result', command: 'roll 8 t3', output: '3 hits', success: true, userId: 'Kit' }, at))
+      .toEqual({ userId: 'Kit', command: 'roll 8 t3', output: '3 hits', success: true, at: at.toISOString() });
+    expect(toRecentRoll({ type: 'command_result', command: 'say hoi', output: 'hoi', success: true })).toBeNull();
+  });
+
+  it('holds events back for the delay, in order', () => {
+    vi.useFakeTimers();
+    const shown: string[] = [];
+    const buffer = new DelayBuffer<string>(item => shown.push(item), 30000);
+
+    buffer.push('first');
+    vi.advanceTimersByTime(10000);
+    buffer.push('second');
+    vi.advanceTimersByTime(20000);
+    expect(shown).toEqual(['first']);
+    vi.advanceTimersByTime(10000);
+    expect(shown).toEqual(['first', 'second']);
+
+    buffer.push('dropped');
+    buffer.clear();
+    vi.advanceTimersByTime(30000);
+    expect(shown).toEqual(['first', 'second']);
+  });
+
+  it('is enforced by the backend too', async () => {
+    installMockBackend({});
+    configureApi({ userId: 'gm' });
+    const session = await sessionAPI.createSession('Milk Run');
+    const invite = await inviteAPI.createInvite(session.id, { role: 'observer' });
+
+    configureApi({ userId: 'streamer' });
+    await inviteAPI.redeemInvite(invite.token);
+    await expect(commandAPI.executeCommand(session.id, 'roll 6')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('gets only what it may see from the backend, and outsiders get nothing', async () => {
+    const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+    installMockBackend({});
+    configureApi({ userId: 'gm' });
+    const session = await sessionAPI.createSession('Milk Run');
+    const invite = await inviteAPI.createInvite(session.id, { role: 'observer' });
+    const gm = new ShadowrunWebSocket();
+    const gmSaw = vi.fn();
+    gm.on('command_result', gmSaw);
+    gm.on('private_message', gmSaw);
+    gm.connect(session.id);
+
+    configureApi({ userId: 'streamer' });
+    await inviteAPI.redeemInvite(invite.token);
+    const streamer = new ShadowrunWebSocket();
+    const seen = vi.fn();
+    const refused = vi.fn();
+    streamer.on('command_result', seen);
+    streamer.on('error', refused);
+    streamer.connect(session.id);
+
+    configureApi({ userId: 'jonny' });
+    const outsider = new ShadowrunWebSocket();
+    const outsiderSaw = vi.fn();
+    outsider.on('command_result', outsiderSaw);
+    outsider.connect(session.id);
+    await settle();
+
+    gm.send({ type: 'command', command: 'roll 3; summon ganger', result: 'Body 4', userId: 'gm' });
+    gm.send({ type: 'command', command: 'roll 6', result: '2 hits', userId: 'gm' });
+    await settle();
+
+    expect(seen.mock.calls.map(([message]) => message.command)).toEqual(['roll 6']);
+
+    // Nor can it post results or whisper over the socket
+    const note = createPrivateMessage('gm', { userId: 'streamer' }, [GM_ADDRESSEE], 'psst');
+    streamer.send({ type: 'command', command: 'roll 6', result: '6 hits', userId: 'streamer' });
+    streamer.send({ type: 'private_message', to: note.to, message: note });
+    await settle();
+    expect(refused).toHaveBeenCalledTimes(2);
+    expect(gmSaw.mock.calls.map(([message]) => message.output)).toEqual(['Body 4', '2 hits']);
+    expect(outsiderSaw).not.toHaveBeenCalled();
+    expect(outsider.isConnected()).toBe(false);
+    expect((outsider as any).reconnectTimer).toBeNull();
+    [gm, streamer, outsider].forEach(socket => socket.disconnect());
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for the offline outbound queue
+ * Covers ordering, dedupe by id, persistence and partial flushes
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { OutboundQueue, MemoryQueueStore } from '@utils/offlineQueue';
+
+describe('Outbound Queue', () => {
+  it('flushes a session\'s messages in order and dedupes by id', async () => {
+    const queue = new OutboundQueue(new MemoryQueueStore());
+    expect(await queue.enqueue('run-1', { id: 'a' })).toBe(true);
+    expect(await queue.enqueue('run-2', { id: 'b' })).toBe(true);
+    expect(await queue.enqueue('run-1', { id: 'c' })).toBe(true);
+    expect(await queue.enqueue('run-1', { id: 'a' })).toBe(false);
+
+    const sent: string[] = [];
+    expect(await queue.flush('run-1', payload => { sent.push(payload.id); return true; })).toBe(2);
+    expect(sent).toEqual(['a', 'c']);
+    expect(queue.getPending().map(message => message.id)).toEqual(['b']);
+  });
+
+  it('keeps messages queued when sending fails part way', async () => {
+    const queue = new OutboundQueue(new MemoryQueueStore());
+    await queue.enqueue('run-1', { id: 'a' });
+    await queue.enqueue('run-1', { id: 'b' });
+
+    expect(await queue.flush('run-1', payload => payload.id === 'a')).toBe(1);
+    expect(queue.getPending('run-1').map(message => message.id)).toEqual(['b']);
+  });
+
+  it('restores queued messages from its store after a reload', async () => {
+    const store = new MemoryQueueStore();
+    await new OutboundQueue(store).enqueue('run-1', { id: 'a' });
+
+    const reloaded = new OutboundQueue(store);
+    const listener = vi.fn();
+    reloaded.subscribe(listener);
+    await reloaded.load();
+
+    expect(reloaded.getPending('run-1')).toHaveLength(1);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(await reloaded.enqueue('run-1', { id: 'a' })).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for session roles and permissions
+ * Covers role defaults, grants and denies, and enforcement in commands and the backend
+ */
+import { describe, it, expect } from 'vitest';
+import { can, capabilitiesOf, withCapability, toRole } from '@utils/permissions';
+import { executeCommand, CommandContext } from '@utils/commands';
+import { SessionStateManager } from '@utils/session';
+import { demoSeed } from '@utils/mockBackend';
+import { sessionAPI, reviewAPI, commandAPI } from '@utils/api';
+import { as, useMockBackend } from '@/tests/mockBackend';
+
+describe('Permissions', () => {
+  it('gives each role its defaults, adjusted by grants and denies', () => {
+    expect(capabilitiesOf({ role: 'gm', denies: ['play'] })).toContain('play');
+    expect(can({ role: 'co-gm' }, 'edit_combat')).toBe(true);
+    expect(can({ role: 'co-gm' }, 'approve_ai_responses')).toBe(false);
+    expect(capabilitiesOf({ role: 'player', grants: ['see_npc_stats'] })).toEqual(['play', 'see_npc_stats']);
+    expect(can({ role: 'observer' }, 'play')).toBe(false);
+    expect(can(null, 'play')).toBe(false);
+    expect(toRole('co_gm')).toBe('co-gm');
+  });
+
+  it('records one capability change as the difference from the role', () => {
+    const combatOnly = withCapability({ role: 'co-gm' }, 'edit_scene', false);
+    expect(combatOnly).toEqual({ role: 'co-gm', grants: [], denies: ['edit_scene'] });
+    expect(withCapability(combatOnly, 'approve_ai_responses', true))
+      .toEqual({ role: 'co-gm', grants: ['approve_ai_responses'], denies: ['edit_scene'] });
+    expect(withCapability(combatOnly, 'edit_scene', true)).toEqual({ role: 'co-gm', grants: [], denies: [] });
+  });
+
+  it('lets a co-GM run combat and reveal, but not everything', async () => {
+    const session = new SessionStateManager('permissions-test');
+    const coGM: CommandContext = { userId: 'deckard', isGM: false, permissions: { role: 'co-gm' }, session };
+    const runner: CommandContext = { userId: 'runner', isGM: false, session };
+
+    await executeCommand('initiative 20 1', runner);
+    expect((await executeCommand('initiative start', runner)).output).toMatch(/May edit combat/);
+    expect((await executeCommand('initiative start', coGM)).success).toBe(true);
+
+    const denied = { ...coGM, permissions: { role: 'co-gm' as const, denies: ['edit_combat' as const] } };
+    expect((await executeCommand('initiative end', denied)).success).toBe(false);
+    expect((await executeCommand('reveal runner psst', { ...runner, permissions: { role: 'player', grants: ['reveal'] } })).output)
+      .not.toMatch(/permission/);
+  });
+});
+
+describe('Member permissions in the backend', () => {
+  const mock = useMockBackend(demoSeed);
+
+  it('keeps a co-GM out of the review queue unless granted', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    as('deckard');
+    await sessionAPI.joinSession(session.id);
+
+    as('gm');
+    await sessionAPI.setMemberPermissions(session.id, 'deckard', { role: 'co-gm' });
+    expect((await sessionAPI.getSessionInfo(session.id)).members).toContainEqual(expect.objectContaining({ userId: 'deckard', role: 'co-gm' }));
+
+    as('deckard');
+    expect(await sessionAPI.getSessionInfo(session.id)).toMatchObject({ role: 'co-gm', isGM: false });
+    await sessionAPI.updateScene(session.id, { summary: 'Rain on the Barrens' });
+    await expect(reviewAPI.getPendingResponses(session.id)).rejects.toMatchObject({ status: 403 });
+
+    as('gm');
+    await sessionAPI.setMemberPermissions(session.id, 'deckard', { role: 'co-gm', grants: ['approve_ai_responses'] });
+    as('deckard');
+    expect((await reviewAPI.getPendingResponses(session.id)).pagination.total).toBe(0);
+  });
+
+  it('lets only members with manage_session change roles', async () => {
+    const session = await sessionAPI.createSession('Milk Run');
+    as('kit');
+    await sessionAPI.joinSession(session.id);
+    await expect(sessionAPI.setMemberPermissions(session.id, 'kit', { role: 'co-gm' })).rejects.toMatchObject({ status: 403 });
+
+    as('gm');
+    await expect(sessionAPI.setMemberPermissions(session.id, 'gm', { role: 'player' })).rejects.toMatchObject({ status: 400 });
+    await sessionAPI.setMemberPermissions(session.id, 'kit', { role: 'player', denies: ['play'] });
+    as('kit');
+    await expect(commandAPI.executeCommand(session.id, 'roll 6')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('makes everyone who joins a player, whatever role they ask for', async () => {
+    const session = await sessionAPI.createSession('Milk Run', { maxPlayers: 1 });
+    as('kit');
+    await sessionAPI.joinSession(session.id);
+
+    const join = (userId: string) =>
+      mock.backend.handle({ method: 'post', path: `/api/session/${session.id}/join`, query: {}, body: { user_id: userId, role: 'co-gm' } });
+    expect(await join('deckard')).toMatchObject({ status: 409 });
+    await sessionAPI.leaveSession(session.id);
+    expect((await join('deckard')).data).toMatchObject({ role: 'player' });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for roll probability calculations
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  hitDistribution,
+  applyLimit,
+  glitchChance,
+  criticalGlitchChance,
+  calculateOdds
+} from '@utils/probability';
+import { executeCommand } from '@utils/commands';
+
+const sum = (values: number[]) => values.reduce((total, p) => total + p, 0);
+
+describe('Roll Probabilities', () => {
+  it('gives a binomial distribution for plain pools', () => {
+    const distribution = hitDistribution(2);
+    expect(distribution[0]).toBeCloseTo(4 / 9);
+    expect(distribution[1]).toBeCloseTo(4 / 9);
+    expect(distribution[2]).toBeCloseTo(1 / 9);
+  });
+
+  it('adds exploding sixes to the expected hits', () => {
+    const plain = calculateOdds(12);
+    const exploding = calculateOdds(12, { exploding: true });
+
+    expect(plain.expectedHits).toBeCloseTo(4);
+    expect(exploding.expectedHits).toBeCloseTo(4.8);
+    expect(sum(exploding.distribution)).toBeCloseTo(1, 9);
+  });
+
+  it('moves hits above the limit onto the limit', () => {
+    const capped = applyLimit(hitDistribution(6), 2);
+    expect(capped).toHaveLength(3);
+    expect(sum(capped)).toBeCloseTo(1);
+
+    const odds = calculateOdds(6, { limit: 2 });
+    expect(odds.limitedChance).toBeCloseTo(sum(hitDistribution(6).slice(3)));
+    expect(odds.expectedHitsLost).toBeGreaterThan(0);
+  });
+
+  it('computes threshold chances', () => {
+    const odds = calculateOdds(1, { threshold: 1 });
+    expect(odds.thresholdChance).toBeCloseTo(1 / 3);
+    expect(calculateOdds(4, { threshold: 3, limit: 2 }).thresholdChance).toBe(0);
+  });
+
+  it('rejects negative thresholds and limits', async () => {
+    expect(() => applyLimit(hitDistribution(6), -1)).toThrow('Limit cannot be negative');
+    expect(() => calculateOdds(6, { threshold: -2 })).toThrow('Threshold cannot be negative');
+    expect(await executeCommand('odds 6 2 -1', { userId: 'runner', isGM: false }))
+      .toMatchObject({ success: false, output: 'Threshold and limit cannot be negative' });
+  });
+
+  it('computes glitch and critical glitch chances', () => {
+    expect(glitchChance(1)).toBeCloseTo(1 / 6);
+    expect(criticalGlitchChance(1)).toBeCloseTo(1 / 6);
+    expect(glitchChance(2)).toBeCloseTo(1 / 36);
+    expect(criticalGlitchChance(3)).toBeCloseTo(3 * (1 / 36) * (1 / 2) + 1 / 216);
+  });
+});
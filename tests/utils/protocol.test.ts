@@ -0,0 +1,31 @@
+/**
+ * Tests for the WebSocket message protocol
+ * Covers validation of server messages, sequence numbers and the version check
+ */
+import { describe, it, expect } from 'vitest';
+import { parseServerMessage, checkProtocolVersion, ProtocolError, PROTOCOL_VERSION } from '@utils/protocol';
+import { createPrivateMessage } from '@utils/whispers';
+
+describe('WebSocket Protocol', () => {
+  it('accepts well-formed server messages', () => {
+    const message = parseServerMessage(JSON.stringify({ type: 'player_joined', username: 'Kit', id: 'm-1' }));
+    expect(message).toEqual({ type: 'player_joined', username: 'Kit', id: 'm-1' });
+
+    const whisper = createPrivateMessage('whisper', { userId: 'u-kit', name: 'Kit' }, [{ userId: 'u-jonny', name: 'Jonny' }], 'psst');
+    expect(parseServerMessage(JSON.stringify({ type: 'private_message', to: whisper.to, message: whisper })).type).toBe('private_message');
+  });
+
+  it('rejects malformed messages with the reason', () => {
+    expect(() => parseServerMessage('[1, 2]')).toThrow('message is not an object');
+    expect(() => parseServerMessage(JSON.stringify({ type: 'private_message', to: ['Jonny'], message: { from: 'Kit' } })))
+      .toThrow(/not a valid private message/);
+    expect(() => parseServerMessage(JSON.stringify({ type: 'player_left', username: 'Kit', id: 7 }))).toThrow(ProtocolError);
+    expect(() => parseServerMessage(JSON.stringify({ type: 'player_left', username: 'Kit', seq: 1.5 }))).toThrow('seq must be an integer');
+    expect(() => parseServerMessage(JSON.stringify({ type: 'replay', events: {} }))).toThrow('replay.events must be a list');
+  });
+
+  it('checks the server protocol version', () => {
+    expect(() => checkProtocolVersion({ type: 'hello', version: PROTOCOL_VERSION })).not.toThrow();
+    expect(() => checkProtocolVersion({ type: 'hello', version: PROTOCOL_VERSION + 1 })).toThrow(/speaks protocol/);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the theme registry
+ * Covers custom themes, contrast checks, sharing and the theme command
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ThemeManager, builtInThemes, checkThemeContrast, contrastRatio, themeStyle, ThemePalette } from '@utils/themes';
+import { executeCommand, CommandContext } from '@utils/commands';
+
+describe('Themes', () => {
+  const neon: ThemePalette = {
+    ...builtInThemes.matrix.palette,
+    background: '#0a0a0a',
+    text: '#1eeb4b',
+    secondaryText: '#222222'
+  };
+  let themes: ThemeManager;
+  let context: CommandContext;
+
+  beforeEach(() => {
+    themes = new ThemeManager('runner-1');
+    context = { userId: 'runner', isGM: false, themes };
+  });
+
+  it('computes WCAG contrast ratios', () => {
+    expect(contrastRatio('#ffffff', '#000000')).toBe(21);
+    expect(contrastRatio('#000', '#000')).toBe(1);
+
+    const checks = checkThemeContrast(neon);
+    expect(checks.find(check => check.label === 'Text on background')?.passes).toBe(true);
+    expect(checks.find(check => check.label === 'Secondary text on background')?.passes).toBe(false);
+  });
+
+  it('saves custom themes next to the built-in ones', () => {
+    const id = themes.saveTheme('Neon Rain', neon);
+    const theme = themes.getTheme(id)!;
+
+    expect(id).toBe('neon-rain');
+    expect(theme.custom).toBe(true);
+    expect(themeStyle(theme)).toMatchObject({ '--sr-background': '#0a0a0a', '--sr-secondary-text': '#222222' });
+    expect(Object.keys(themes.getThemes())).toEqual([...Object.keys(builtInThemes), 'neon-rain']);
+    expect(() => themes.saveTheme('Matrix', neon)).toThrow(/built-in/);
+    expect(() => themes.saveTheme('Bad', { ...neon, text: 'red' })).toThrow(/hex color/);
+  });
+
+  it('shares themes as JSON', () => {
+    const other = new ThemeManager('runner-2');
+    other.saveTheme('Neon Rain', neon);
+
+    expect(themes.importTheme(other.exportTheme('neon-rain'))).toBe('neon-rain');
+    expect(themes.getTheme('neon-rain')?.palette).toEqual(neon);
+    expect(() => themes.importTheme('nope')).toThrow(/must be JSON/);
+  });
+
+  it('lists and applies themes from the console', async () => {
+    themes.saveTheme('Neon Rain', neon);
+
+    const list = await executeCommand('theme', context);
+    expect(list.output).toContain('neon-rain - Neon Rain (custom)');
+
+    const apply = await executeCommand('theme neon-rain', context);
+    expect(apply).toMatchObject({ success: true, type: 'theme', data: { themeId: 'neon-rain' } });
+
+    expect((await executeCommand('theme vaporwave', context)).output).toMatch(/Theme not found/);
+    expect((await executeCommand('theme rm neon-rain', context)).success).toBe(true);
+    expect(themes.getTheme('neon-rain')).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for session transcripts
+ * Covers Markdown, HTML and JSON export, re-import and the export command
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  createTranscript,
+  formatTranscript,
+  transcriptToMarkdown,
+  transcriptToHtml,
+  transcriptToJson,
+  parseTranscriptJson,
+  TranscriptEntry
+} from '@utils/transcript';
+import { executeCommand } from '@utils/commands';
+
+describe('Transcripts', () => {
+  const roll = { dice: 3, results: [6, 5, 1], hits: 2, ones: 1, sixes: 1, isGlitch: false, isCriticalGlitch: false, exploded: [] };
+  const entries: TranscriptEntry[] = [
+    { command: 'roll 3', output: 'Rolling 3...', timestamp: '2026-10-19T20:15:00.000Z', userId: 'Jonny', broadcast: true, success: true, type: 'dice', data: roll },
+    { command: 'echo <b>hi</b>', output: '📢 Jonny: <b>hi</b>', timestamp: '2026-10-19T20:16:00.000Z', success: false }
+  ];
+  const transcript = createTranscript(entries, {
+    sessionId: 'abc',
+    sessionName: 'Redmond Run',
+    theme: { name: 'Matrix', palette: { background: '#000000', text: '#4ade80', secondaryText: '#16a34a', prompt: '#22c55e', error: '#f87171' } }
+  });
+
+  it('exports Markdown with metadata and roll summaries', () => {
+    const markdown = transcriptToMarkdown(transcript);
+
+    expect(markdown).toMatch(/^# Redmond Run/);
+    expect(markdown).toContain('**2026-10-19 20:15:00 · Jonny · broadcast**');
+    expect(markdown).toContain('```\n> roll 3\nRolling 3...\n```');
+    expect(markdown).toContain('_Dice: [6, 5, 1] 2 hits_');
+  });
+
+  it('exports standalone HTML in the theme colors, escaping output', () => {
+    const html = transcriptToHtml(transcript);
+
+    expect(html).toContain('background: #000000');
+    expect(html).toContain('color: #4ade80');
+    expect(html).toContain('&lt;b&gt;hi&lt;/b&gt;');
+    expect(html).not.toContain('<b>hi</b>');
+  });
+
+  it('round-trips through JSON', () => {
+    const imported = parseTranscriptJson(transcriptToJson(transcript));
+
+    expect(imported.entries).toEqual(entries);
+    expect(imported.sessionName).toBe('Redmond Run');
+    expect(() => parseTranscriptJson('{"entries": 1}')).toThrow(/Not a transcript/);
+  });
+
+  it('names files after the session and format', () => {
+    expect(formatTranscript(transcript, 'html').filename).toMatch(/^redmond-run-\d{4}-\d{2}-\d{2}\.html$/);
+  });
+
+  it('exports from the console command', async () => {
+    const result = await executeCommand('export md', { userId: 'Jonny', isGM: false, transcript: () => transcript });
+
+    expect(result.success).toBe(true);
+    expect(result.type).toBe('export');
+    expect(result.data.format).toBe('markdown');
+    expect(result.data.content).toContain('# Redmond Run');
+    expect((await executeCommand('export', { userId: 'Jonny', isGM: false })).success).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for private console messages
+ * Covers whisper, gm and reveal, and who gets to see each message
+ */
+import { describe, it, expect } from 'vitest';
+import { createPrivateMessage, describePrivateMessage, isRecipient, GM_ADDRESSEE, GM_RECIPIENT } from '@utils/whispers';
+import { executeCommand, CommandContext } from '@utils/commands';
+
+describe('Private messages', () => {
+  const members = [{ userId: 'u-jonny', name: 'Jonny' }, { userId: 'u-kit', name: 'Kit' }];
+  const player: CommandContext = { userId: 'u-jonny', userName: 'Jonny', isGM: false, members };
+  const gm: CommandContext = { userId: 'u-dana', userName: 'Dana', isGM: true, members };
+
+  it('delivers messages only to their sender and recipients', () => {
+    const whisper = createPrivateMessage('whisper', members[0], [members[1]], 'I pocket the credstick');
+    expect(isRecipient(whisper, 'u-kit', false)).toBe(true);
+    expect(isRecipient(whisper, 'u-jonny', false)).toBe(true);
+    expect(isRecipient(whisper, 'u-dana', true)).toBe(false);
+    // Ids, not names: someone who renames themselves Kit doesn't get Kit's whispers
+    expect(isRecipient(whisper, 'Kit', false)).toBe(false);
+
+    const note = createPrivateMessage('gm', members[0], [GM_ADDRESSEE], 'I pocket the credstick');
+    expect(isRecipient(note, 'u-dana', true)).toBe(true);
+    expect(isRecipient(note, 'u-kit', false)).toBe(false);
+  });
+
+  it('whispers to a player by name without broadcasting', async () => {
+    const result = await executeCommand('whisper kit I pocket the credstick', player);
+
+    expect(result).toMatchObject({ success: true, type: 'whisper', output: '🤫 Whisper to Kit: I pocket the credstick' });
+    expect(result.broadcast).toBeFalsy();
+    expect(result.privateMessages).toEqual([expect.objectContaining({ from: 'u-jonny', fromName: 'Jonny', to: ['u-kit'], message: 'I pocket the credstick' })]);
+    expect(describePrivateMessage(result.privateMessages![0], 'u-kit')).toBe('🤫 Jonny whispers');
+    expect((await executeCommand('whisper Brick psst', player)).output).toBe('Nobody called Brick is in this session');
+  });
+
+  it('sends notes to the GM', async () => {
+    const result = await executeCommand('gm I pocket the credstick', player);
+    expect(result.privateMessages?.[0]).toMatchObject({ channel: 'gm', to: [GM_RECIPIENT] });
+  });
+
+  it('lets the GM reveal a piped roll to one player', async () => {
+    const result = await executeCommand('roll 6 t2 | reveal Jonny', gm);
+
+    expect(result.broadcast).toBeFalsy();
+    expect(result.privateMessages?.[0]).toMatchObject({ channel: 'reveal', to: ['u-jonny'], dataType: 'dice' });
+    expect(result.privateMessages?.[0].data.dice).toBe(6);
+    expect((await executeCommand('reveal Jonny psst', player)).success).toBe(false);
+  });
+
+  it('does not broadcast chains that carry private messages', async () => {
+    const result = await executeCommand('roll 3; whisper Kit secret', player);
+
+    expect(result.broadcast).toBe(false);
+    expect(result.privateMessages).toHaveLength(1);
+  });
+});
@@ -1,8 +1,10 @@
 /**
  * Tests for WebSocket reconnection logic
+ * Covers backoff, heartbeats and replaying events missed while disconnected
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ShadowrunWebSocket } from '@utils/api';
+import { ShadowrunWebSocket, reconnectDelay } from '@utils/api';
+import { PROTOCOL_VERSION, ServerMessage } from '@utils/protocol';
 
 describe('WebSocket Reconnection', () => {
   let ws: ShadowrunWebSocket;
@@ -10,12 +12,37 @@ describe('WebSocket Reconnection', () => {
   const mockOnMessage = vi.fn();
   const mockOnConnection = vi.fn();
 
+  // Mock server state: the session's event log, what clients sent, and whether
+  // it accepts connections and answers pings
+  let events: ServerMessage[];
+  let sent: any[];
+  let acceptsConnections: boolean;
+  let answersPings: boolean;
+  let sockets: any[];
+
+  const publish = (event: ServerMessage) => {
+    const sequenced = { ...event, seq: events.length + 1 };
+    events.push(sequenced);
+    sockets.filter(socket => socket.readyState === WebSocket.OPEN).forEach(socket => socket.deliver(sequenced));
+    return sequenced;
+  };
+
   beforeEach(() => {
+    events = [];
+    sent = [];
+    acceptsConnections = true;
+    answersPings = true;
+    sockets = [];
     vi.clearAllMocks();
     vi.useFakeTimers();
 
     // Mock WebSocket
     class MockWebSocket {
+      static CONNECTING = 0;
+      static OPEN = 1;
+      static CLOSING = 2;
+      static CLOSED = 3;
+
       onopen: ((event: Event) => void) | null = null;
       onclose: ((event: CloseEvent) => void) | null = null;
       onmessage: ((event: MessageEvent) => void) | null = null;
@@ -23,21 +50,45 @@ describe('WebSocket Reconnection', () => {
       readyState: number = WebSocket.CONNECTING;
       
       constructor(public url: string) {
+        sockets.push(this);
         setTimeout(() => {
+          if (!acceptsConnections) {
+            this.close();
+            return;
+          }
           this.readyState = WebSocket.OPEN;
           if (this.onopen) this.onopen(new Event('open'));
         }, 100);
       }
-      
-      send(data: string) {
-        // Mock echo response
+
+      deliver(message: any) {
         setTimeout(() => {
-          if (this.onmessage) {
-            this.onmessage(new MessageEvent('message', { data }));
+          if (this.onmessage && this.readyState === WebSocket.OPEN) {
+            this.onmessage(new MessageEvent('message', { data: JSON.stringify(message) }));
           }
         }, 50);
       }
       
+      send(data: string) {
+        // Mock server: answer hellos, pings and resumes, publish commands as results
+        const message = JSON.parse(data);
+        sent.push(message);
+        switch (message.type) {
+          case 'hello':
+            this.deliver({ type: 'hello', version: PROTOCOL_VERSION });
+            break;
+          case 'ping':
+            if (answersPings) this.deliver({ type: 'pong', at: message.at });
+            break;
+          case 'resume':
+            this.deliver({ type: 'replay', events: events.filter(event => event.seq! > message.lastSeq) });
+            break;
+          case 'command':
+            publish({ type: 'command_result', id: message.id, command: message.command, output: message.result, success: true, userId: message.userId });
+            break;
+        }
+      }
+      
       close() {
         this.readyState = WebSocket.CLOSED;
         if (this.onclose) this.onclose(new CloseEvent('close'));
@@ -46,8 +97,10 @@ describe('WebSocket Reconnection', () => {
 
     global.WebSocket = MockWebSocket as any;
 
-    ws = new ShadowrunWebSocket();
-    ws.connect(mockSessionId, mockOnMessage, mockOnConnection);
+    // No jitter, so delays are predictable: half of 1s, 2s, 4s...
+    ws = new ShadowrunWebSocket({ random: () => 0, heartbeatInterval: 1000, heartbeatTimeout: 500 });
+    ws.on('command_result', mockOnMessage);
+    ws.connect(mockSessionId, mockOnConnection);
   });
 
   afterEach(() => {
@@ -80,25 +133,76 @@ describe('WebSocket Reconnection', () => {
     expect(mockOnConnection).toHaveBeenCalledWith(true);
   });
 
-  it('stops reconnection attempts after max retries', async () => {
-    // Wait for initial connection
+  it('backs off exponentially with jitter', async () => {
+    expect(reconnectDelay(1, 1000, 30000, () => 0)).toBe(500);
+    expect(reconnectDelay(3, 1000, 30000, () => 1)).toBe(4000);
+    expect(reconnectDelay(10, 1000, 30000, () => 0.5)).toBe(22500);
+
     await vi.advanceTimersByTimeAsync(100);
-    expect(ws.isConnected()).toBe(true);
 
-    // Simulate multiple disconnections
-    for (let i = 0; i < 5; i++) {
-      (ws as any).ws.close();
-      // Wait for reconnection attempt
-      await vi.advanceTimersByTimeAsync(1000 * (i + 1));
-      // Wait for connection attempt to fail
+    // Refuse connections, so every attempt fails after 100ms and the delay grows
+    acceptsConnections = false;
+    (ws as any).ws.close();
+    const attempts: number[] = [];
+    for (let elapsed = 100; elapsed <= 8000; elapsed += 100) {
+      const before = sockets.length;
       await vi.advanceTimersByTimeAsync(100);
+      if (sockets.length > before) attempts.push(elapsed);
     }
+    // Attempts 500ms, 1s, 2s and 4s after each failure
+    expect(attempts).toEqual([500, 1600, 3700, 7800]);
 
-    // One final disconnection that should not trigger a reconnect
-    (ws as any).ws.close();
+    // Once the server is back the next attempt succeeds and the backoff resets
+    acceptsConnections = true;
+    await vi.advanceTimersByTimeAsync(8000 + 100);
+    expect(ws.isConnected()).toBe(true);
+    expect((ws as any).reconnectAttempts).toBe(0);
+  });
+
+  it('reconnects when the server stops answering pings', async () => {
     await vi.advanceTimersByTimeAsync(100);
-    expect(ws.isConnected()).toBe(false);
+    const first = (ws as any).ws;
+
+    // Answered pings keep the connection up
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(ws.isConnected()).toBe(true);
+    expect((ws as any).ws).toBe(first);
+
+    // A ping left unanswered for the timeout drops the connection
+    answersPings = false;
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(first.readyState).toBe(WebSocket.CLOSED);
     expect(mockOnConnection).toHaveBeenCalledWith(false);
+
+    answersPings = true;
+    await vi.advanceTimersByTimeAsync(500 + 100);
+    expect(ws.isConnected()).toBe(true);
+    expect((ws as any).ws).not.toBe(first);
+  });
+
+  it('replays events missed while disconnected, once each', async () => {
+    await vi.advanceTimersByTimeAsync(100);
+    publish({ type: 'player_joined', username: 'Kit' });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ws.getLastSeq()).toBe(1);
+
+    // Two events happen while this client is offline
+    (ws as any).ws.close();
+    publish({ type: 'command_result', command: 'roll 6', output: '3 hits', success: true, userId: 'Kit' });
+    publish({ type: 'command_result', command: 'roll 8', output: '4 hits', success: true, userId: 'Kit' });
+    expect(mockOnMessage).not.toHaveBeenCalled();
+
+    // Resume asks for them, and they arrive in order
+    await vi.advanceTimersByTimeAsync(500 + 100);
+    expect(sent).toContainEqual({ type: 'resume', lastSeq: 1 });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(mockOnMessage.mock.calls.map(([message]) => message.output)).toEqual(['3 hits', '4 hits']);
+    expect(ws.getLastSeq()).toBe(3);
+
+    // Events already applied are ignored if they come again
+    const socket = (ws as any).ws;
+    socket.onmessage(new MessageEvent('message', { data: JSON.stringify({ type: 'replay', events: events.slice(1) }) }));
+    expect(mockOnMessage).toHaveBeenCalledTimes(2);
   });
 
   it('sends and receives messages', async () => {
@@ -107,12 +211,76 @@ describe('WebSocket Reconnection', () => {
     expect(ws.isConnected()).toBe(true);
 
     // Send message
-    const testMessage = { type: 'test', data: 'test message' };
-    ws.send(testMessage);
+    ws.send({ type: 'command', command: 'roll 6', result: 'Rolling 6...', userId: 'runner' });
     await vi.advanceTimersByTimeAsync(50);
 
     expect(mockOnMessage).toHaveBeenCalledWith(
-      expect.objectContaining(testMessage)
+      expect.objectContaining({ type: 'command_result', command: 'roll 6', output: 'Rolling 6...' })
     );
   });
+
+  it('queues messages while disconnected and sends them in order on reconnect', async () => {
+    await vi.advanceTimersByTimeAsync(100);
+    (ws as any).ws.close();
+
+    ws.send({ type: 'command', command: 'roll 6', result: '', userId: 'runner' });
+    ws.send({ type: 'command', command: 'edge reroll', result: '', userId: 'runner', id: 'edge-1' });
+    ws.send({ type: 'command', command: 'edge reroll', result: '', userId: 'runner', id: 'edge-1' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ws.getPendingCount()).toBe(2);
+    expect(mockOnMessage).not.toHaveBeenCalled();
+
+    // Reconnect, flush, then the mock echoes each message back
+    await vi.advanceTimersByTimeAsync(1100);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ws.getPendingCount()).toBe(0);
+    expect(mockOnMessage.mock.calls.map(([message]) => message.command)).toEqual(['roll 6', 'edge reroll']);
+  });
+
+  it('sends messages sent during the reconnect flush after the queued ones', async () => {
+    await vi.advanceTimersByTimeAsync(100);
+    (ws as any).ws.close();
+    ws.send({ type: 'command', command: 'roll 6', result: '', userId: 'runner' });
+    ws.send({ type: 'command', command: 'roll 8', result: '', userId: 'runner' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Sent as soon as the connection is back, before the queue has gone out
+    mockOnConnection.mockImplementation(connected => {
+      if (connected) ws.send({ type: 'command', command: 'status', result: '', userId: 'runner' });
+    });
+    await vi.advanceTimersByTimeAsync(1100);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(sent.filter(message => message.type === 'command').map(message => message.command)).toEqual(['roll 6', 'roll 8', 'status']);
+    expect(ws.getPendingCount()).toBe(0);
+  });
+
+  it('quarantines and reports malformed messages', async () => {
+    await vi.advanceTimersByTimeAsync(100);
+    const onProtocolError = vi.fn();
+    ws.onProtocolError(onProtocolError);
+
+    const socket = (ws as any).ws;
+    socket.onmessage(new MessageEvent('message', { data: 'not json' }));
+    socket.onmessage(new MessageEvent('message', { data: JSON.stringify({ type: 'command_result', command: 'roll 6' }) }));
+    socket.onmessage(new MessageEvent('message', { data: JSON.stringify({ type: 'mystery' }) }));
+
+    expect(mockOnMessage).not.toHaveBeenCalled();
+    expect(onProtocolError).toHaveBeenCalledTimes(3);
+    expect(ws.getQuarantine().map(entry => entry.reason)).toEqual([
+      'Message is not valid JSON',
+      'command_result.output must be a string; command_result.success must be a boolean',
+      'unknown message type "mystery"'
+    ]);
+  });
+
+  it('stops talking to a server with another protocol version', async () => {
+    await vi.advanceTimersByTimeAsync(100);
+    (ws as any).ws.onmessage(new MessageEvent('message', { data: JSON.stringify({ type: 'hello', version: PROTOCOL_VERSION + 1 }) }));
+
+    expect(ws.isConnected()).toBe(false);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(ws.isConnected()).toBe(false);
+    expect(ws.getQuarantine()[0].reason).toMatch(`protocol v${PROTOCOL_VERSION + 1}`);
+  });
 }); 
\ No newline at end of file
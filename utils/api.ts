@@ -1,37 +1,198 @@
-import axios from 'axios';
+import axios, { AxiosAdapter, AxiosError, AxiosRequestConfig } from 'axios';
+import type { CommandHistoryEntry } from './commands';
+import type { ShadowrunDiceResult } from './dice';
+import type { SessionChange, SharedSessionState } from './session';
+import { SessionCharacter, toSessionCharacter } from './characters';
+import { OutboundQueue, createMessageId } from './offlineQueue';
+import { Role, Capability, Permissions, toRole, toCapabilities } from './permissions';
+import {
+  PROTOCOL_VERSION,
+  CLOSE_REFUSED,
+  parseServerMessage,
+  validateServerMessage,
+  checkProtocolVersion,
+  ProtocolError,
+  ClientMessage,
+  ServerMessage,
+  ServerMessageType,
+  ServerMessageOf,
+  QuarantinedMessage
+} from './protocol';
 
-// API Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+// API client for the Shadowrun backend
+//
+// Everything the UI asks of the backend goes through here. The base URL,
+// credentials and transport come from configureApi, so the app can point at
+// staging or a local stand-in without code changes. Failed reads are retried
+// with backoff, and every call takes an AbortSignal so components can cancel
+// requests they no longer need.
 
-const api = axios.create({
-  baseURL: API_BASE_URL,
+export interface ApiConfig {
+  baseUrl: string;
+  timeout: number; // Per attempt, in ms
+  retries: number; // Extra attempts for reads that fail on the network or with a 5xx
+  retryDelay: number; // Before the first retry, in ms; doubles each time
+  getToken?: () => Promise<string | null> | string | null; // Bearer token, e.g. Clerk's getToken
+  userId?: string | null; // Signed-in user, sent where the backend asks for user_id
+  adapter?: AxiosAdapter; // Transport override for tests and stand-ins
+  createSocket?: (url: string) => WebSocket; // Likewise for the session WebSocket
+  createEventSource?: (url: string) => EventSource; // And for server-sent events
+}
+
+// Set at build time to play against the in-page stand-in backend (utils/mockBackend)
+export const MOCK_BACKEND = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true';
+
+const apiConfig: ApiConfig = {
+  baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000',
   timeout: 10000,
+  retries: 2,
+  retryDelay: 500
+};
+
+export const api = axios.create({
+  baseURL: apiConfig.baseUrl,
+  timeout: apiConfig.timeout,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Add request interceptor for auth
+export function configureApi(config: Partial<ApiConfig>) {
+  Object.assign(apiConfig, config);
+  api.defaults.baseURL = apiConfig.baseUrl;
+  api.defaults.timeout = apiConfig.timeout;
+  if (config.adapter) {
+    api.defaults.adapter = config.adapter;
+  }
+}
+
+export function getApiConfig(): Readonly<ApiConfig> {
+  return apiConfig;
+}
+
+// Absolute URL for an API path, for EventSource and links
+export function apiUrl(path: string, params?: Record<string, string | undefined>): string {
+  const query = new URLSearchParams(
+    Object.entries(params || {}).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  ).toString();
+  return `${apiConfig.baseUrl.replace(/\/$/, '')}${path}${query ? `?${query}` : ''}`;
+}
+
+export function openEventSource(url: string): EventSource {
+  return apiConfig.createEventSource ? apiConfig.createEventSource(url) : new EventSource(url);
+}
+
+// Fails with the reason the backend gave, or how the request went wrong
+export class ApiError extends Error {
+  status?: number; // HTTP status, if the server answered
+  data?: any; // Response body, if any
+  canceled: boolean; // Aborted by the caller
+
+  constructor(message: string, status?: number, data?: any, canceled = false) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.canceled = canceled;
+  }
+}
+
+export function isCanceled(error: unknown): boolean {
+  return error instanceof ApiError && error.canceled;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+// The signed-in user; endpoints acting for a user can't be called without one
+function currentUserId(): string {
+  if (!apiConfig.userId) {
+    throw new ApiError('Not signed in');
+  }
+  return apiConfig.userId;
+}
+
+// Add auth to every request
 api.interceptors.request.use(
-  (config) => {
-    const sessionToken = localStorage.getItem('shadowrun-session-token');
-    if (sessionToken) {
-      config.headers.Authorization = `Bearer ${sessionToken}`;
+  async (config) => {
+    const token = apiConfig.getToken
+      ? await apiConfig.getToken()
+      : typeof window !== 'undefined' ? localStorage.getItem('shadowrun-session-token') : null;
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
     }
     return config;
   },
   (error) => Promise.reject(error)
 );
 
-// Add response interceptor for error handling
+const wasCanceled = (error: AxiosError) => error.code === AxiosError.ERR_CANCELED;
+
+type RetryableConfig = AxiosRequestConfig & { retryCount?: number };
+
+const idempotentMethods = ['get', 'head', 'options', 'put', 'delete'];
+
+// Only retry requests that are safe to repeat and failed for a passing reason
+function shouldRetry(error: AxiosError): boolean {
+  const config = error.config as RetryableConfig | undefined;
+  if (!config || wasCanceled(error) || (config.retryCount ?? 0) >= apiConfig.retries) return false;
+  if (!idempotentMethods.includes((config.method || 'get').toLowerCase())) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('Request canceled', undefined, undefined, true));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.('abort', () => {
+      clearTimeout(timer);
+      reject(new ApiError('Request canceled', undefined, undefined, true));
+    }, { once: true });
+  });
+}
+
+function toApiError(error: AxiosError<any>): ApiError {
+  if (wasCanceled(error)) {
+    return new ApiError('Request canceled', undefined, undefined, true);
+  }
+  const data = error.response?.data;
+  const message = data?.error || data?.message || error.message;
+  return new ApiError(typeof message === 'string' ? message : 'Request failed', error.response?.status, data);
+}
+
+// Retry, then turn failures into ApiErrors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    console.error('API Error:', error.response?.data || error.message);
-    return Promise.reject(error);
+  async (error: AxiosError) => {
+    if (shouldRetry(error)) {
+      const config = error.config as RetryableConfig;
+      config.retryCount = (config.retryCount ?? 0) + 1;
+      await wait(apiConfig.retryDelay * Math.pow(2, config.retryCount - 1), config.signal as AbortSignal | undefined);
+      return api.request(config);
+    }
+    const apiError = toApiError(error);
+    if (!apiError.canceled) {
+      console.error('API Error:', error.response?.data || error.message);
+    }
+    return Promise.reject(apiError);
   }
 );
 
+async function get<T>(path: string, params?: Record<string, unknown>, options: RequestOptions = {}): Promise<T> {
+  const response = await api.get<T>(path, { params, signal: options.signal });
+  return response.data;
+}
+
+async function post<T>(path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+  const response = await api.post<T>(path, body, { signal: options.signal });
+  return response.data;
+}
+
 // API Types
 export interface SessionInfo {
   id: string;
@@ -40,6 +201,88 @@ export interface SessionInfo {
   maxPlayers: number;
   gameState: 'waiting' | 'active' | 'paused';
   isGM: boolean;
+  participants?: string[]; // Display names of the users in the session
+  isPrivate?: boolean; // Left out of the lobby; joining needs the invite code
+  hasPassword?: boolean;
+  inviteCode?: string; // Only sent to the GM
+  role?: Role; // The user's role, when the backend says
+  grants?: Capability[]; // The user's capabilities beyond their role's
+  denies?: Capability[]; // Capabilities of their role they don't have
+  members?: SessionMember[];
+}
+
+export interface SessionMember extends Permissions {
+  userId: string;
+  name?: string;
+}
+
+function toSessionMember(data: any): SessionMember {
+  return {
+    userId: data.user_id,
+    name: data.name,
+    role: toRole(data.role) ?? 'player',
+    grants: toCapabilities(data.grants),
+    denies: toCapabilities(data.denies)
+  };
+}
+
+export interface CreateSessionSettings {
+  maxPlayers?: number; // Players, not counting the GM
+  password?: string;
+  isPrivate?: boolean;
+}
+
+export interface JoinCredentials {
+  password?: string;
+  inviteCode?: string;
+}
+
+function toSessionInfo(data: any, isGM: boolean): SessionInfo {
+  return {
+    id: data.session_id,
+    name: data.name || 'Session',
+    playerCount: data.player_count ?? 0,
+    maxPlayers: data.max_players ?? 6,
+    gameState: data.game_state || 'waiting',
+    isGM,
+    participants: data.users?.map((entry: any) => entry.name || entry.user_id || String(entry)),
+    isPrivate: !!data.is_private,
+    hasPassword: !!data.has_password,
+    inviteCode: data.invite_code,
+    role: toRole(data.role),
+    grants: data.grants ? toCapabilities(data.grants) : undefined,
+    denies: data.denies ? toCapabilities(data.denies) : undefined,
+    members: data.users?.filter((entry: any) => entry?.user_id).map(toSessionMember)
+  };
+}
+
+// A shareable join link; see utils/invites.ts
+export interface Invite {
+  token: string;
+  sessionId: string;
+  role: 'player' | 'observer'; // Role given to whoever joins with it
+  expiresAt: string; // ISO 8601
+  maxUses: number | null; // null for no limit
+  uses: number;
+  revoked: boolean;
+}
+
+export interface InviteSettings {
+  role?: Invite['role'];
+  expiresInMinutes?: number;
+  maxUses?: number | null;
+}
+
+function toInvite(data: any): Invite {
+  return {
+    token: data.token,
+    sessionId: data.session_id,
+    role: data.role === 'observer' ? 'observer' : 'player',
+    expiresAt: data.expires_at,
+    maxUses: data.max_uses ?? null,
+    uses: data.uses ?? 0,
+    revoked: !!data.revoked
+  };
 }
 
 export interface CommandResponse {
@@ -58,178 +301,938 @@ export interface DiceRoll {
   criticalGlitch?: boolean;
 }
 
+export interface SceneUpdate {
+  summary?: string;
+  name?: string;
+  description?: string;
+  location?: string;
+  tone?: string;
+  timeOfDay?: string;
+  tags?: string[];
+}
+
+export interface SceneInfo extends SceneUpdate {
+  summary: string;
+}
+
+// AI response waiting for the GM to approve, reject or edit it
+export interface PendingResponse {
+  id: string;
+  session_id?: string;
+  user_id: string;
+  context: string;
+  ai_response: string;
+  response_type: string;
+  status?: 'pending' | 'approved' | 'rejected' | 'edited';
+  dm_notes?: string;
+  final_response?: string;
+  priority: number;
+  created_at: string;
+}
+
+export interface Pagination {
+  page: number;
+  per_page: number;
+  total: number;
+  pages: number;
+  has_next: boolean;
+  has_prev: boolean;
+}
+
+export interface PendingResponsesPage {
+  items: PendingResponse[];
+  pagination: Pagination;
+}
+
+export interface DmNotification {
+  id: number;
+  pending_response_id: string;
+  notification_type: string;
+  message: string;
+  created_at: string;
+}
+
+export interface ReviewAnalytics {
+  queue_status: {
+    pending_count: number;
+    high_priority_count: number;
+  };
+  review_stats: {
+    total_reviewed: number;
+    approved_count: number;
+    rejected_count: number;
+    edited_count: number;
+    approval_rate: number;
+    avg_review_time_minutes: number;
+  };
+  notifications: {
+    unread_count: number;
+  };
+}
+
+export type ReviewAction = 'approve' | 'reject' | 'edit';
+
+export interface LlmReviewResult {
+  status: 'pending_review' | 'success' | string;
+  pending_response_id?: string;
+  choices?: { message?: { content?: string } }[];
+}
+
+export interface LlmResponse {
+  response: string;
+  status: 'success' | 'error';
+  error?: string;
+}
+
+export interface CombatInfo {
+  id?: string;
+  name: string;
+  status?: string; // e.g. active, paused
+}
+
+// Fields past initiative are only sent by backends that track them
+export interface CombatantStatus {
+  id: string;
+  name: string;
+  initiative: number;
+  type?: 'player' | 'npc' | 'spirit' | 'drone';
+  status?: string; // active, unconscious, dead...
+  edge?: number;
+  currentEdge?: number;
+  actions?: number;
+  physicalDamage?: number;
+  stunDamage?: number;
+  physicalMonitor?: number;
+  stunMonitor?: number;
+}
+
+export interface CombatStatus {
+  combat: CombatInfo | null; // null when nobody is fighting
+  combatants?: CombatantStatus[]; // In initiative order
+  round?: number;
+  activeIndex?: number; // Index into combatants of whoever is acting
+}
+
+export interface MatrixGridInfo {
+  id?: string;
+  name: string;
+  security_rating?: number; // Out of 10
+  noise_level?: number;
+}
+
+export interface MatrixNode {
+  id: string;
+  name: string;
+  node_type: 'host' | 'file' | 'device' | 'ice' | 'data' | string;
+  position_x: number; // -1 to 1 from the centre of the grid
+  position_y: number;
+  rating?: number;
+  discovered?: boolean;
+  compromised?: boolean;
+  encrypted?: boolean;
+}
+
+export interface IceProgram {
+  id: string;
+  name: string;
+  ice_type?: string;
+  rating: number;
+  status?: 'active' | 'alerted' | 'inactive' | string;
+}
+
+export interface MatrixGrid {
+  grid: MatrixGridInfo | null; // null when nobody is in the Matrix
+  nodes?: MatrixNode[];
+  ice?: IceProgram[];
+  overwatch?: number;
+}
+
+export interface PlayerEngagement {
+  id: string; // User id
+  name: string;
+  engagement: number; // Percent
+}
+
+export interface SessionAnalytics {
+  stats: Record<string, number>;
+  engagement: PlayerEngagement[];
+  combat: Record<string, number>;
+}
+
+export interface CampaignEvent {
+  id: string;
+  title: string;
+  date: string;
+  description: string;
+  tags?: string[];
+}
+
+export interface PlotThread {
+  id: string;
+  name: string;
+  status: string;
+}
+
+export interface NpcRelationship {
+  id: string;
+  name: string;
+  faction?: string;
+  mood?: string;
+  allegiances?: string[];
+}
+
+export interface CampaignTimeline {
+  events: CampaignEvent[];
+  threads: PlotThread[];
+  relationships: NpcRelationship[];
+}
+
+export interface LivePlayer {
+  id: string; // User id
+  name: string;
+  status: 'online' | 'idle' | 'offline';
+  lastSeen?: string;
+}
+
+export interface LiveMonitoring {
+  players: LivePlayer[];
+  connections: number;
+}
+
+// A character sheet found in an outside source, ready to import
+export interface DiscoveredSheet {
+  reference: string; // Passed back to importSheet
+  name: string;
+  url?: string;
+}
+
+export interface SheetIntegration {
+  connected: boolean;
+  last_sync?: string;
+  error?: string;
+}
+
+export interface SheetImportResult {
+  status: string;
+  character_id: number;
+}
+
+export interface SheetSyncResult {
+  status: string;
+  synced: number; // Characters updated
+}
+
+export interface GeneratedImage {
+  id: string;
+  prompt: string;
+  image_url: string;
+  provider: string;
+  status: string;
+  created_at: string;
+  is_favorite: boolean;
+  tags: string[];
+}
+
+export interface ImageRequest {
+  prompt: string;
+  provider?: string;
+  style?: string;
+  stylePreferences?: Record<string, string>;
+}
+
+export interface ImageResult {
+  image_id: string;
+  image_url: string;
+  provider: string;
+}
+
+export interface ImageProviders {
+  providers: string[];
+  default?: string;
+}
+
 // Session Management
 export const sessionAPI = {
-  async createSession(name: string, maxPlayers: number = 6): Promise<SessionInfo> {
-    const response = await api.post('/api/session', { name, gm_user_id: 'current-user' });
-    return {
-      id: response.data.session_id,
-      name: response.data.name,
-      playerCount: 1,
-      maxPlayers,
-      gameState: 'waiting',
-      isGM: true
-    };
+  async createSession(name: string, settings: CreateSessionSettings = {}, options?: RequestOptions): Promise<SessionInfo> {
+    const data = await post<any>('/api/session', {
+      name,
+      gm_user_id: currentUserId(),
+      max_players: settings.maxPlayers ?? 6,
+      password: settings.password || undefined,
+      is_private: settings.isPrivate ?? false
+    }, options);
+    return toSessionInfo({
+      name,
+      max_players: settings.maxPlayers ?? 6,
+      is_private: settings.isPrivate ?? false,
+      has_password: !!settings.password,
+      ...data
+    }, true);
   },
 
-  async joinSession(sessionId: string, password?: string): Promise<SessionInfo> {
-    const response = await api.post(`/api/session/${sessionId}/join`, { 
-      user_id: 'current-user',
-      role: 'player'
-    });
-    return {
-      id: response.data.session_id,
-      name: 'Session',
-      playerCount: 1,
-      maxPlayers: 6,
-      gameState: 'active',
-      isGM: false
-    };
+  // Private sessions need their invite code; password-protected ones the password
+  async joinSession(sessionId: string, credentials: JoinCredentials = {}, options?: RequestOptions): Promise<SessionInfo> {
+    const data = await post<any>(`/api/session/${sessionId}/join`, { 
+      user_id: currentUserId(),
+      role: 'player',
+      password: credentials.password || undefined,
+      invite_code: credentials.inviteCode || undefined
+    }, options);
+    return toSessionInfo({ session_id: sessionId, ...data }, data.role === 'gm');
   },
 
-  async leaveSession(sessionId: string): Promise<void> {
-    // Backend doesn't have a leave endpoint yet, so this is a no-op for now
-    console.log('Leave session not implemented yet');
+  // Other players see a player_left event
+  async leaveSession(sessionId: string, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/leave`, { user_id: currentUserId() }, options);
   },
 
-  async getActiveSessions(): Promise<SessionInfo[]> {
-    // Backend doesn't have a list sessions endpoint, return empty for now
-    return [];
+  // Public sessions; private ones are reachable only by invite
+  async getActiveSessions(options?: RequestOptions): Promise<SessionInfo[]> {
+    const data = await get<{ sessions?: any[] }>('/api/sessions', undefined, options);
+    return (data.sessions || []).map(session => toSessionInfo(session, session.gm_user_id === apiConfig.userId));
   },
 
-  async getSessionInfo(sessionId: string): Promise<SessionInfo> {
-    const response = await api.get(`/api/session/${sessionId}/users`);
-    return {
-      id: sessionId,
-      name: 'Active Session',
-      playerCount: response.data.length,
-      maxPlayers: 6,
-      gameState: 'active',
-      isGM: false
-    };
+  async getSessionInfo(sessionId: string, options?: RequestOptions): Promise<SessionInfo> {
+    const data = await get<any>(`/api/session/${sessionId}`, { user_id: apiConfig.userId || undefined }, options);
+    return toSessionInfo({ session_id: sessionId, ...data }, data.gm_user_id === apiConfig.userId);
+  },
+
+  // Change a member's role and grants; needs the manage_session capability
+  async setMemberPermissions(sessionId: string, userId: string, permissions: Permissions, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/users/${encodeURIComponent(userId)}/permissions`, {
+      user_id: currentUserId(),
+      role: permissions.role,
+      grants: permissions.grants || [],
+      denies: permissions.denies || []
+    }, options);
+  },
+
+  async getScene(sessionId: string, options?: RequestOptions): Promise<SceneInfo> {
+    const data = await get<Partial<SceneInfo>>(`/api/session/${sessionId}/scene`, { user_id: currentUserId() }, options);
+    return { ...data, summary: data.summary || '' };
+  },
+
+  async updateScene(sessionId: string, scene: SceneUpdate, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/scene`, { ...scene, user_id: currentUserId() }, options);
+  },
+
+  async getEntities(sessionId: string, options?: RequestOptions): Promise<any[]> {
+    return get<any[]>(`/api/session/${sessionId}/entities`, { user_id: currentUserId() }, options);
+  },
+
+  // Scene, NPCs and initiative as the whole table sees them. NPCs are left
+  // out for those who can't see NPC stats.
+  async getSessionState(sessionId: string, options?: RequestOptions): Promise<SharedSessionState> {
+    return get<SharedSessionState>(`/api/session/${sessionId}/state`, { user_id: currentUserId() }, options);
+  },
+
+  // Everyone in the session gets the change as a session_change event
+  async updateSessionState(sessionId: string, change: SessionChange, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/state`, { user_id: currentUserId(), change }, options);
+  }
+};
+
+// Invite links. Only the session's GM can create, list or revoke them; anyone
+// signed in can redeem one, which skips the password and private checks.
+export const inviteAPI = {
+  async createInvite(sessionId: string, settings: InviteSettings = {}, options?: RequestOptions): Promise<Invite> {
+    const data = await post<any>(`/api/session/${sessionId}/invites`, {
+      user_id: currentUserId(),
+      role: settings.role ?? 'player',
+      expires_in_minutes: settings.expiresInMinutes ?? 24 * 60,
+      max_uses: settings.maxUses ?? null
+    }, options);
+    return toInvite(data);
+  },
+
+  async getInvites(sessionId: string, options?: RequestOptions): Promise<Invite[]> {
+    const data = await get<{ invites?: any[] }>(`/api/session/${sessionId}/invites`, { user_id: currentUserId() }, options);
+    return (data.invites || []).map(toInvite);
+  },
+
+  async revokeInvite(sessionId: string, token: string, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/invites/${encodeURIComponent(token)}/revoke`, { user_id: currentUserId() }, options);
+  },
+
+  // Joins the invite's session in the invite's role
+  async redeemInvite(token: string, options?: RequestOptions): Promise<SessionInfo> {
+    const data = await post<any>(`/api/invites/${encodeURIComponent(token)}/redeem`, { user_id: currentUserId() }, options);
+    return toSessionInfo(data, data.role === 'gm');
   }
 };
 
 // Command Processing
 export const commandAPI = {
-  async executeCommand(sessionId: string, command: string): Promise<CommandResponse> {
-    const response = await api.post('/api/command', { 
+  async executeCommand(sessionId: string, command: string, options?: RequestOptions): Promise<CommandResponse> {
+    const data = await post<any>('/api/command', { 
       session_id: sessionId,
       command: command,
-      user_id: 'current-user'
-    });
+      user_id: currentUserId()
+    }, options);
     return {
       success: true,
-      output: response.data.output || response.data.response,
-      data: response.data,
+      output: data.output || data.response,
+      data,
       broadcast: false
     };
   },
 
-  async rollDice(sessionId: string, notation: string): Promise<DiceRoll> {
-    const response = await api.post('/api/command', { 
+  async rollDice(sessionId: string, notation: string, options?: RequestOptions): Promise<DiceRoll> {
+    const data = await post<any>('/api/command', { 
       session_id: sessionId,
       command: `roll ${notation}`,
-      user_id: 'current-user'
-    });
+      user_id: currentUserId()
+    }, options);
     return {
       dice: notation,
-      results: response.data.results || [],
-      total: response.data.total || 0,
-      hits: response.data.hits,
-      glitches: response.data.glitches,
-      criticalGlitch: response.data.criticalGlitch
+      results: data.results || [],
+      total: data.total || 0,
+      hits: data.hits,
+      glitches: data.glitches,
+      criticalGlitch: data.criticalGlitch
     };
+  },
+
+  // Roll for the dice roller, outside any session; edge explodes sixes
+  async rollExpression(command: string, edge: boolean, options?: RequestOptions): Promise<{ result?: ShadowrunDiceResult }> {
+    return post('/api/roll', { command, edge }, options);
+  },
+
+  // Roll through the standalone dice service used by the basic console
+  async roll(command: string, options?: RequestOptions): Promise<any> {
+    return post('/roll', { command, userId: currentUserId() }, options);
+  },
+
+  // Server-sent events for the basic console
+  eventsUrl(): string {
+    return apiUrl('/events');
+  },
+
+  openEvents(): EventSource {
+    return openEventSource(this.eventsUrl());
+  }
+};
+
+// AI narration
+export const llmAPI = {
+  async send(sessionId: string, input: string, options?: RequestOptions): Promise<LlmResponse> {
+    return post<LlmResponse>('/api/llm', { input, session_id: sessionId, user_id: currentUserId() }, options);
+  },
+
+  // Players' requests wait for GM review unless requireReview is false
+  async requestWithReview(
+    sessionId: string,
+    request: { context: string; responseType?: string; priority?: number; requireReview?: boolean },
+    options?: RequestOptions
+  ): Promise<LlmReviewResult> {
+    return post<LlmReviewResult>(`/api/session/${sessionId}/llm-with-review`, {
+      user_id: currentUserId(),
+      context: request.context,
+      response_type: request.responseType || 'narrative',
+      priority: request.priority ?? 1,
+      require_review: request.requireReview ?? true
+    }, options);
+  },
+
+  createChatStream(sessionId: string, input: string, role: string): EventSource {
+    return openEventSource(apiUrl('/api/chat', { input, session_id: sessionId, user_id: currentUserId(), role }));
+  },
+
+  // The same stream through the backend's proxy, which the home page terminal uses
+  createChatStreamProxy(sessionId: string, input: string, role: string): EventSource {
+    return openEventSource(apiUrl('/api/chat/stream-proxy', { input, session_id: sessionId, user_id: currentUserId(), role }));
   }
 };
 
-// WebSocket connection for real-time updates
+// GM review of AI responses
+export const reviewAPI = {
+  async getPendingResponses(
+    sessionId: string,
+    filters: { page?: number; perPage?: number; priority?: number | null; responseType?: string } = {},
+    options?: RequestOptions
+  ): Promise<PendingResponsesPage> {
+    return get<PendingResponsesPage>(`/api/session/${sessionId}/pending-responses`, {
+      user_id: currentUserId(),
+      page: filters.page,
+      per_page: filters.perPage,
+      priority: filters.priority || undefined,
+      response_type: filters.responseType || undefined
+    }, options);
+  },
+
+  async review(
+    sessionId: string,
+    responseId: string,
+    review: { action: ReviewAction; finalResponse?: string; dmNotes?: string },
+    options?: RequestOptions
+  ): Promise<void> {
+    await post(`/api/session/${sessionId}/pending-response/${responseId}/review`, {
+      user_id: currentUserId(),
+      action: review.action,
+      final_response: review.finalResponse,
+      dm_notes: review.dmNotes
+    }, options);
+  },
+
+  async bulkReview(
+    sessionId: string,
+    review: { action: Exclude<ReviewAction, 'edit'>; responseIds: string[]; dmNotes?: string },
+    options?: RequestOptions
+  ): Promise<void> {
+    await post(`/api/session/${sessionId}/pending-responses/bulk`, {
+      user_id: currentUserId(),
+      action: review.action,
+      response_ids: review.responseIds,
+      dm_notes: review.dmNotes
+    }, options);
+  },
+
+  async getNotifications(sessionId: string, options?: RequestOptions): Promise<DmNotification[]> {
+    return get<DmNotification[]>(`/api/session/${sessionId}/dm/notifications`, { user_id: currentUserId() }, options);
+  },
+
+  async markNotificationRead(sessionId: string, notificationId: number, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/dm/notifications/${notificationId}/mark-read`, { user_id: currentUserId() }, options);
+  },
+
+  async getAnalytics(sessionId: string, options?: RequestOptions): Promise<ReviewAnalytics> {
+    return get<ReviewAnalytics>(`/api/session/${sessionId}/dm/analytics`, { user_id: currentUserId() }, options);
+  }
+};
+
+// GM dashboard data
+export const gmAPI = {
+  async getCombatStatus(sessionId: string, options?: RequestOptions): Promise<CombatStatus> {
+    return get<CombatStatus>(`/api/session/${sessionId}/combat/status`, { user_id: currentUserId() }, options);
+  },
+
+  async getMatrixGrid(sessionId: string, options?: RequestOptions): Promise<MatrixGrid> {
+    return get<MatrixGrid>(`/api/session/${sessionId}/matrix/grid`, { user_id: currentUserId() }, options);
+  },
+
+  async getAnalytics(sessionId: string, options?: RequestOptions): Promise<SessionAnalytics> {
+    return get<SessionAnalytics>(`/api/session/${sessionId}/analytics/summary`, { user_id: currentUserId() }, options);
+  },
+
+  async getTimeline(sessionId: string, options?: RequestOptions): Promise<CampaignTimeline> {
+    return get<CampaignTimeline>(`/api/session/${sessionId}/timeline/events`, { user_id: currentUserId() }, options);
+  },
+
+  async getLiveMonitoring(sessionId: string, options?: RequestOptions): Promise<LiveMonitoring> {
+    return get<LiveMonitoring>(`/api/session/${sessionId}/monitoring/live`, { user_id: currentUserId() }, options);
+  }
+};
+
+// Character sheets and character creation
+export const characterAPI = {
+  // Every character in the session, players' and GM's
+  async getCharacters(sessionId: string, options?: RequestOptions): Promise<SessionCharacter[]> {
+    const data = await get<any[]>(`/api/session/${sessionId}/characters`, { user_id: currentUserId() }, options);
+    return data.map(toSessionCharacter);
+  },
+
+  async createCharacter(sessionId: string, character: object, options?: RequestOptions): Promise<{ character_id: number }> {
+    return post(`/api/session/${sessionId}/character`, character, options);
+  },
+
+  async discoverSheets(sessionId: string, options?: RequestOptions): Promise<{ discovered_sheets: Record<string, DiscoveredSheet[]> }> {
+    return get(`/api/session/${sessionId}/character-sheets/discover`, { user_id: currentUserId() }, options);
+  },
+
+  async getIntegrationStatus(options?: RequestOptions): Promise<{ integrations: Record<string, SheetIntegration> }> {
+    return get('/api/character-sheet/integration-status', undefined, options);
+  },
+
+  async importSheet(sessionId: string, sourceType: string, sourceReference: string, options?: RequestOptions): Promise<SheetImportResult> {
+    return post(`/api/session/${sessionId}/character-sheets/import`, {
+      user_id: currentUserId(),
+      source_type: sourceType,
+      source_reference: sourceReference
+    }, options);
+  },
+
+  async syncAllSheets(sessionId: string, options?: RequestOptions): Promise<SheetSyncResult> {
+    return post(`/api/session/${sessionId}/character-sheets/sync-all`, { user_id: currentUserId() }, options);
+  },
+
+  async createWrenCopy(sessionId: string, characterId: number, options?: RequestOptions): Promise<SheetImportResult> {
+    return post(`/api/session/${sessionId}/character/${characterId}/create-wren-copy`, { user_id: currentUserId() }, options);
+  }
+};
+
+// Scene images
+export const imageAPI = {
+  async getImages(sessionId: string, limit = 20, options?: RequestOptions): Promise<GeneratedImage[]> {
+    const data = await get<{ images?: GeneratedImage[] }>(`/api/session/${sessionId}/images`, { user_id: currentUserId(), limit }, options);
+    return data.images || [];
+  },
+
+  async getProviders(sessionId: string, options?: RequestOptions): Promise<ImageProviders> {
+    const data = await get<Partial<ImageProviders>>(`/api/session/${sessionId}/image-providers`, undefined, options);
+    return { providers: data.providers || [], default: data.default };
+  },
+
+  async generate(sessionId: string, request: ImageRequest, options?: RequestOptions): Promise<ImageResult> {
+    return post<ImageResult>(`/api/session/${sessionId}/generate-image-instant`, {
+      user_id: currentUserId(),
+      prompt: request.prompt,
+      provider: request.provider,
+      style: request.style,
+      style_preferences: request.stylePreferences
+    }, options);
+  },
+
+  async setFavorite(sessionId: string, imageId: string, isFavorite: boolean, options?: RequestOptions): Promise<void> {
+    await post(`/api/session/${sessionId}/image/${imageId}/favorite`, { user_id: currentUserId(), is_favorite: isFavorite }, options);
+  }
+};
+
+// Command history, kept per user so it follows players between devices
+export const historyAPI = {
+  async getHistory(userId: string, options: RequestOptions & { sessionId?: string; limit?: number } = {}): Promise<CommandHistoryEntry[]> {
+    const data = await get<{ history?: any[] }>(`/api/user/${userId}/command-history`, {
+      session_id: options.sessionId,
+      limit: options.limit
+    }, options);
+    return (data.history || []).map((entry: any) => ({
+      command: entry.command,
+      timestamp: entry.timestamp,
+      sessionId: entry.session_id || undefined,
+      synced: true
+    }));
+  },
+
+  async appendHistory(userId: string, entries: CommandHistoryEntry[], options?: RequestOptions): Promise<void> {
+    await post(`/api/user/${userId}/command-history`, {
+      entries: entries.map(entry => ({
+        command: entry.command,
+        timestamp: entry.timestamp,
+        session_id: entry.sessionId || null
+      }))
+    }, options);
+  }
+};
+
+export interface ShadowrunWebSocketOptions {
+  queue?: OutboundQueue; // Where sends wait while offline
+  baseDelay?: number; // First reconnect delay in ms; doubles each attempt
+  maxDelay?: number; // Longest reconnect delay in ms
+  heartbeatInterval?: number; // How often to ping, in ms
+  heartbeatTimeout?: number; // How long a ping may go unanswered before the connection counts as dead
+  random?: () => number; // Jitter source, for tests
+  name?: string; // Display name, which the server puts on the private messages the user sends
+}
+
+// Exponential backoff with equal jitter: half the delay is fixed, half random,
+// so clients that dropped together don't all come back at the same moment
+export function reconnectDelay(attempt: number, baseDelay: number, maxDelay: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+// WebSocket connection for real-time updates. Reconnects with backoff until
+// disconnect() is called, pings to notice dead connections, and resumes from
+// the last event it saw so nothing that happened in between is lost.
 export class ShadowrunWebSocket {
   private ws: WebSocket | null = null;
   private sessionId: string | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
   private connected = false;
+  private incompatible = false; // Server speaks another protocol version
+  private refused = false; // Server turned the connection away
+  private lastSeq: number | null = null; // Last session event applied
+  private queue: OutboundQueue;
+  private quarantine: QuarantinedMessage[] = [];
+  private maxQuarantine = 50;
+  private options: Required<Omit<ShadowrunWebSocketOptions, 'queue' | 'name'>>;
+  private name?: string;
 
-  private onMessageCallback?: (data: any) => void;
+  private handlers = new Map<ServerMessageType, Set<(message: any) => void>>();
+  private protocolErrorListeners = new Set<(error: ProtocolError) => void>();
   private onConnectionCallback?: (connected: boolean) => void;
 
-  connect(sessionId: string, onMessage: (data: any) => void, onConnection?: (connected: boolean) => void) {
+  constructor(options: ShadowrunWebSocketOptions = {}) {
+    this.queue = options.queue || new OutboundQueue();
+    this.queue.load();
+    this.options = {
+      baseDelay: options.baseDelay ?? 1000,
+      maxDelay: options.maxDelay ?? 30000,
+      heartbeatInterval: options.heartbeatInterval ?? 15000,
+      heartbeatTimeout: options.heartbeatTimeout ?? 10000,
+      random: options.random ?? Math.random
+    };
+    this.name = options.name;
+  }
+
+  connect(sessionId: string, onConnection?: (connected: boolean) => void) {
+    if (sessionId !== this.sessionId) {
+      this.lastSeq = null;
+    }
     this.sessionId = sessionId;
-    this.onMessageCallback = onMessage;
     this.onConnectionCallback = onConnection;
+    this.incompatible = false;
+    this.refused = false;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
 
-    const wsUrl = `${API_BASE_URL.replace('http', 'ws')}/ws/${sessionId}`;
+    // The server delivers private messages by who is on the connection
+    const wsUrl = apiUrl(`/ws/${sessionId}`, { user_id: apiConfig.userId || undefined, name: this.name }).replace(/^http/, 'ws');
     
     try {
-      this.ws = new WebSocket(wsUrl);
+      const ws = apiConfig.createSocket ? apiConfig.createSocket(wsUrl) : new WebSocket(wsUrl);
+      this.ws = ws;
       
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('WebSocket connected');
         this.reconnectAttempts = 0;
         this.connected = true;
+        this.trySend({ type: 'hello', version: PROTOCOL_VERSION, sessionId });
+        if (this.lastSeq !== null) {
+          this.trySend({ type: 'resume', lastSeq: this.lastSeq });
+        }
+        this.startHeartbeat();
         this.onConnectionCallback?.(true);
+        this.flushQueue();
       };
 
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          this.onMessageCallback?.(data);
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
-        }
+      ws.onmessage = (event) => {
+        this.handleMessage(String(event.data));
       };
 
-      this.ws.onclose = () => {
+      ws.onclose = (event) => {
         console.log('WebSocket disconnected');
-        this.connected = false;
-        this.onConnectionCallback?.(false);
-        this.attemptReconnect();
+        this.refused = event?.code === CLOSE_REFUSED;
+        this.handleClose();
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('WebSocket error:', error);
         this.connected = false;
         this.onConnectionCallback?.(false);
       };
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
-      this.connected = false;
-      this.onConnectionCallback?.(false);
+      this.handleClose();
     }
   }
 
-  private attemptReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts && this.sessionId) {
-      this.reconnectAttempts++;
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-      
-      setTimeout(() => {
-        if (this.sessionId && this.onMessageCallback) {
-          this.connect(this.sessionId, this.onMessageCallback, this.onConnectionCallback);
+  private handleClose() {
+    this.connected = false;
+    this.stopHeartbeat();
+    this.onConnectionCallback?.(false);
+    this.attemptReconnect();
+  }
+
+  // Ping regularly; a ping with no reply means the connection is dead even if
+  // the browser hasn't noticed yet
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.trySend({ type: 'ping', at: Date.now() })) return;
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => this.dropConnection(), this.options.heartbeatTimeout);
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.heartbeatTimer = null;
+    this.pongTimer = null;
+  }
+
+  // Give up on an unresponsive socket and reconnect
+  private dropConnection() {
+    console.warn('WebSocket heartbeat timed out');
+    const ws = this.ws;
+    if (ws) {
+      ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+      ws.close();
+    }
+    this.ws = null;
+    this.handleClose();
+  }
+
+  // Validate a message and hand it to the handlers for its type
+  private handleMessage(raw: string) {
+    // Anything from the server shows the connection is alive
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(raw);
+      if (message.type === 'hello') {
+        checkProtocolVersion(message);
+      }
+    } catch (error) {
+      this.handleProtocolError(error, raw);
+      return;
+    }
+
+    if (message.type === 'replay') {
+      message.events.forEach(event => {
+        try {
+          this.dispatch(validateServerMessage(event));
+        } catch (error) {
+          this.handleProtocolError(error, JSON.stringify(event));
         }
-      }, this.reconnectDelay * this.reconnectAttempts);
+      });
+      return;
+    }
+    this.dispatch(message);
+  }
+
+  private dispatch(message: ServerMessage) {
+    // Events at or before the last one seen were already applied
+    if (message.seq !== undefined) {
+      if (this.lastSeq !== null && message.seq <= this.lastSeq) return;
+      this.lastSeq = message.seq;
+    }
+
+    this.handlers.get(message.type)?.forEach(handler => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`WebSocket ${message.type} handler failed:`, error);
+      }
+    });
+  }
+
+  private handleProtocolError(error: unknown, raw: string) {
+    const protocolError = error instanceof ProtocolError ? error : new ProtocolError(String(error), raw);
+    this.reportProtocolError(protocolError);
+    if (protocolError.code === 'version') {
+      this.incompatible = true;
+      this.ws?.close();
     }
   }
 
-  send(data: any) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data));
-    } else {
-      console.warn('WebSocket not connected, cannot send message');
+  private reportProtocolError(error: ProtocolError) {
+    console.warn('Quarantined WebSocket message:', error.message);
+    this.quarantine = [...this.quarantine, { raw: error.raw, reason: error.message, receivedAt: new Date().toISOString() }]
+      .slice(-this.maxQuarantine);
+    this.protocolErrorListeners.forEach(listener => listener(error));
+  }
+
+  // Subscribe to one type of server message; returns an unsubscribe function
+  on<T extends ServerMessageType>(type: T, handler: (message: ServerMessageOf<T>) => void): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
     }
+    this.handlers.get(type)!.add(handler);
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+
+  // Listen for messages that were quarantined or a protocol version mismatch
+  onProtocolError(listener: (error: ProtocolError) => void): () => void {
+    this.protocolErrorListeners.add(listener);
+    return () => {
+      this.protocolErrorListeners.delete(listener);
+    };
+  }
+
+  // Recently rejected messages, oldest first
+  getQuarantine(): QuarantinedMessage[] {
+    return [...this.quarantine];
+  }
+
+  // Sequence number of the last session event applied
+  getLastSeq(): number | null {
+    return this.lastSeq;
+  }
+
+  private attemptReconnect() {
+    if (!this.sessionId || this.incompatible || this.refused || this.reconnectTimer) return;
+    this.reconnectAttempts++;
+    const delay = reconnectDelay(this.reconnectAttempts, this.options.baseDelay, this.options.maxDelay, this.options.random);
+    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.sessionId) {
+        this.connect(this.sessionId, this.onConnectionCallback);
+      }
+    }, delay);
+  }
+
+  // Retry as soon as the network comes back instead of waiting out the backoff
+  private handleOnline = () => {
+    if (!this.connected && this.ws?.readyState !== WebSocket.CONNECTING && this.sessionId && !this.incompatible && !this.refused) {
+      if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.reconnectAttempts = 0;
+      this.connect(this.sessionId, this.onConnectionCallback);
+    }
+  };
+
+  // Send a message, queueing it while disconnected or while earlier messages
+  // are still queued, so messages go out in the order they were sent. Messages
+  // get an id so the queue can tell repeats apart; returns the id.
+  send(data: ClientMessage): string {
+    const message = { ...data, id: data.id ?? createMessageId() };
+    const behindQueue = this.sessionId !== null && this.queue.isBusy(this.sessionId);
+    if (behindQueue || !this.trySend(message)) {
+      if (this.sessionId) {
+        const sessionId = this.sessionId;
+        this.queue.enqueue(sessionId, message).then(() => {
+          if (this.connected && this.sessionId === sessionId) this.flushQueue();
+        });
+      } else {
+        console.warn('WebSocket not connected to a session, cannot send message');
+      }
+    }
+    return message.id;
+  }
+
+  private trySend(message: ClientMessage): boolean {
+    if (this.connected && this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }
+
+  // Send what was queued while offline, oldest first
+  private flushQueue() {
+    if (!this.sessionId) return;
+    this.queue.flush(this.sessionId, message => this.trySend(message)).catch(error => {
+      console.warn('Failed to send queued messages:', error);
+    });
+  }
+
+  // Messages waiting for the connection to come back
+  getPendingCount(): number {
+    return this.sessionId ? this.queue.getPending(this.sessionId).length : 0;
+  }
+
+  // Listen for changes in the number of queued messages
+  onPendingChange(listener: (pending: number) => void): () => void {
+    return this.queue.subscribe(() => listener(this.getPendingCount()));
   }
 
   disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
     }
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopHeartbeat();
+    const ws = this.ws;
+    this.ws = null;
     this.connected = false;
     this.sessionId = null;
-    this.onMessageCallback = undefined;
     this.onConnectionCallback = undefined;
+    ws?.close();
   }
 
   isConnected(): boolean {
@@ -0,0 +1,96 @@
+// Session characters
+//
+// Characters are stored the way character creation builds them: a name, some
+// identity fields and whatever attributes and skills the player filled in,
+// which older backends send as JSON text. Commands need a full
+// ShadowrunCharacter, so the console converts the character it plays with,
+// working out what SR6 derives from attributes (initiative, condition
+// monitors) and defaulting what the sheet leaves out.
+import type { ShadowrunCharacter } from '../components/CharacterSheet';
+
+export interface SessionCharacter {
+  id: number;
+  name: string;
+  handle?: string;
+  metatype?: string;
+  archetype?: string;
+  user_id?: string; // Player the character belongs to
+  attributes?: Record<string, number>;
+  skills?: Record<string, { rating: number; specialization?: string }>;
+  qualities?: Record<string, string[]>;
+}
+
+const METATYPES: ShadowrunCharacter['metatype'][] = ['Human', 'Elf', 'Dwarf', 'Ork', 'Troll'];
+
+// Rating for attributes the sheet doesn't give; SR6 attributes start at 1
+const DEFAULT_ATTRIBUTE = 1;
+
+// A JSON text field, or the value itself if it was sent as an object
+function parseField(value: unknown): any {
+  if (typeof value !== 'string') return value ?? undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// A character as the backend sent it
+export function toSessionCharacter(data: any): SessionCharacter {
+  const skills = parseField(data.skills);
+  return {
+    id: data.id,
+    name: data.name || data.handle || 'Unnamed runner',
+    handle: data.handle || undefined,
+    metatype: data.metatype || undefined,
+    archetype: data.archetype || undefined,
+    user_id: data.user_id || undefined,
+    attributes: parseField(data.attributes),
+    // Skills may be bare ratings or { rating, specialization }
+    skills: skills && Object.fromEntries(Object.entries(skills).map(([name, skill]: [string, any]) => [
+      name,
+      typeof skill === 'number' ? { rating: skill } : { rating: Number(skill?.rating) || 0, specialization: skill?.specialization }
+    ])),
+    qualities: parseField(data.qualities)
+  };
+}
+
+// The sheet commands use for named dice pools and initiative
+export function toShadowrunCharacter(character: SessionCharacter): ShadowrunCharacter {
+  const stored = character.attributes || {};
+  const attribute = (name: string) => Number(stored[name]) || DEFAULT_ATTRIBUTE;
+  const attributes: ShadowrunCharacter['attributes'] = {
+    body: attribute('body'),
+    agility: attribute('agility'),
+    reaction: attribute('reaction'),
+    strength: attribute('strength'),
+    charisma: attribute('charisma'),
+    intuition: attribute('intuition'),
+    logic: attribute('logic'),
+    willpower: attribute('willpower'),
+    edge: attribute('edge'),
+    magic: stored.magic || undefined,
+    resonance: stored.resonance || undefined
+  };
+
+  return {
+    id: String(character.id),
+    name: character.name,
+    metatype: METATYPES.find(metatype => metatype.toLowerCase() === character.metatype?.toLowerCase()) ?? 'Human',
+    attributes,
+    skills: Object.fromEntries(Object.entries(character.skills || {}).filter(([, skill]) => skill.rating > 0)),
+    initiatives: {
+      physical: attributes.reaction + attributes.intuition,
+      astral: attributes.magic ? attributes.intuition * 2 : undefined
+    },
+    condition: {
+      physical: { current: 0, max: 8 + Math.ceil(attributes.body / 2) },
+      stun: { current: 0, max: 8 + Math.ceil(attributes.willpower / 2) }
+    },
+    armor: 0,
+    essence: Number(stored.essence) || 6,
+    nuyen: 0,
+    gear: [],
+    background: { archetype: character.archetype || '', concept: '', notes: '' }
+  };
+}
@@ -0,0 +1,188 @@
+// Console command line tokenizer and parser
+//
+// Shell-like syntax:
+//   - whitespace separates arguments; "double" or 'single' quotes group them
+//   - a quote only opens at the start of an argument (or right after "--name="),
+//     so apostrophes like "roll 12 #Jonny's shot" stay literal
+//   - backslash escapes the next character, except inside single quotes
+//   - --name=value and bare --name (true) set parameters by name; "--" ends options
+//   - ";" runs commands one after another, "|" pipes a result into the next command
+//
+// Examples: summon "Mr. Johnson" fixer, echo --to=gm "on my way", roll 12 | edge hit
+
+type CommandTokenType = 'word' | 'pipe' | 'separator';
+
+interface CommandToken {
+  type: CommandTokenType;
+  text: string;
+  quoted: boolean;
+  start: number; // Offset of the token in the input
+  end: number;
+}
+
+export interface ParsedCommand {
+  command: string;
+  args: string[];
+  rawArgs: string; // Everything after the command name, as typed
+  flags: Record<string, string>; // --name=value options by lowercase name
+}
+
+// Commands joined by "|"; each one receives the previous result
+export type CommandPipeline = ParsedCommand[];
+
+// Parse error that knows which column of the input it came from
+export class CommandLineError extends Error {
+  column: number;
+
+  constructor(message: string, column: number) {
+    super(`${message} at column ${column}`);
+    this.name = 'CommandLineError';
+    this.column = column;
+  }
+}
+
+// Split the input into words and operators. With partial set, an unterminated
+// quote is closed at the end of input instead of throwing.
+export function tokenizeCommandLine(input: string, options: { partial?: boolean } = {}): CommandToken[] {
+  const tokens: CommandToken[] = [];
+  const isBreak = (ch: string) => /\s/.test(ch) || ch === ';' || ch === '|';
+  let pos = 0;
+
+  while (pos < input.length) {
+    const ch = input[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === ';' || ch === '|') {
+      tokens.push({ type: ch === '|' ? 'pipe' : 'separator', text: ch, quoted: false, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    let text = '';
+    let quoted = false;
+
+    while (pos < input.length && !isBreak(input[pos])) {
+      const current = input[pos];
+
+      if (current === '\\' && pos + 1 < input.length) {
+        text += input[pos + 1];
+        pos += 2;
+        continue;
+      }
+
+      const opensQuote = (current === '"' || current === "'") && (text === '' || /^--[^=]+=$/.test(text));
+      if (opensQuote) {
+        const quoteStart = pos;
+        quoted = quoted || text === '';
+        pos++;
+        while (pos < input.length && input[pos] !== current) {
+          if (current === '"' && input[pos] === '\\' && pos + 1 < input.length) {
+            text += input[pos + 1];
+            pos += 2;
+            continue;
+          }
+          text += input[pos];
+          pos++;
+        }
+        if (pos >= input.length) {
+          if (!options.partial) {
+            throw new CommandLineError(`Unterminated ${current === '"' ? 'double' : 'single'} quote`, quoteStart + 1);
+          }
+          break;
+        }
+        pos++; // Closing quote
+        continue;
+      }
+
+      text += current;
+      pos++;
+    }
+
+    tokens.push({ type: 'word', text, quoted, start, end: pos });
+  }
+
+  return tokens;
+}
+
+// Turn one command's tokens into its name, arguments and options
+function buildCommand(tokens: CommandToken[], input: string): ParsedCommand {
+  const [name, ...rest] = tokens;
+  const args: string[] = [];
+  const flags: Record<string, string> = {};
+  let optionsEnded = false;
+
+  rest.forEach(token => {
+    if (!token.quoted && !optionsEnded && token.text === '--') {
+      optionsEnded = true;
+      return;
+    }
+    const flag = !token.quoted && !optionsEnded ? token.text.match(/^--([a-z][\w-]*)(?:=([\s\S]*))?$/i) : null;
+    if (flag) {
+      flags[flag[1].toLowerCase()] = flag[2] ?? 'true';
+    } else {
+      args.push(token.text);
+    }
+  });
+
+  return {
+    command: name.text.toLowerCase(),
+    args,
+    rawArgs: rest.length > 0 ? input.slice(rest[0].start, rest[rest.length - 1].end) : '',
+    flags
+  };
+}
+
+// Parse a full command line into ";"-separated pipelines of "|"-joined commands.
+// With partial set, unfinished input (open quotes, dangling "|") is accepted.
+export function parseCommandChain(input: string, options: { partial?: boolean } = {}): CommandPipeline[] {
+  const tokens = tokenizeCommandLine(input, options);
+  const chain: CommandPipeline[] = [];
+  let pipeline: CommandPipeline = [];
+  let segment: CommandToken[] = [];
+  let pipeToken: CommandToken | null = null;
+
+  const endSegment = (operator: CommandToken | null) => {
+    if (segment.length === 0) {
+      if (!options.partial && (pipeToken || operator?.type === 'pipe')) {
+        const at = operator?.type === 'pipe' ? operator : pipeToken!;
+        throw new CommandLineError('Missing command around "|"', at.start + 1);
+      }
+      return;
+    }
+    pipeline.push(buildCommand(segment, input));
+    segment = [];
+  };
+
+  tokens.forEach(token => {
+    if (token.type === 'word') {
+      segment.push(token);
+      return;
+    }
+    endSegment(token);
+    if (token.type === 'pipe') {
+      pipeToken = token;
+    } else {
+      pipeToken = null;
+      if (pipeline.length > 0) chain.push(pipeline);
+      pipeline = [];
+    }
+  });
+
+  endSegment(null);
+  if (pipeline.length > 0) chain.push(pipeline);
+
+  return chain;
+}
+
+// Quote an argument so it parses back to the same single word
+export function quoteCommandArgument(arg: string): string {
+  if (arg !== '' && !/[\s"'\\;|]/.test(arg)) {
+    return arg;
+  }
+  return `"${arg.replace(/["\\]/g, '\\$&')}"`;
+}
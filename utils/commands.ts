@@ -1,4 +1,27 @@
-import { parseDiceCommand, formatDiceResult, testDifficulties } from './dice';
+import {
+  parseDiceCommand,
+  formatDiceResult,
+  testDifficulties,
+  rollShadowrunDice,
+  opposedTest,
+  extendedTest,
+  formatOpposedResult,
+  formatExtendedResult,
+  ShadowrunDiceResult
+} from './dice';
+import { spendEdge, edgeActions, findEdgeAction } from './edge';
+import { MAX_DICE, getCharacterDiceVariables, normalizeVariableName } from './diceExpression';
+import { calculateOdds, formatOdds } from './probability';
+import { rollInitiative, rollCharacterInitiative, formatInitiative } from './initiative';
+import { SessionStateManager, SessionChange, npcArchetypes, formatInitiativeOrder, CONVERGENCE_THRESHOLD } from './session';
+import { sessionAPI } from './api';
+import { parseCommandChain, ParsedCommand, CommandPipeline } from './commandLine';
+import { formatTranscript, TRANSCRIPT_FORMATS, Transcript, TranscriptFormat } from './transcript';
+import { createPrivateMessage, describePrivateMessage, Addressee, GM_ADDRESSEE, PrivateChannel, PrivateMessage } from './whispers';
+import { Capability, Permissions, CAPABILITY_LABELS, ROLE_LABELS, can } from './permissions';
+import type { MacroManager } from './macros';
+import type { ThemeManager } from './themes';
+import type { ShadowrunCharacter } from '../components/CharacterSheet';
 
 // Command structure
 export interface Command {
@@ -6,9 +29,12 @@ export interface Command {
   aliases: string[];
   description: string;
   usage: string;
-  category: 'basic' | 'game' | 'dice' | 'character' | 'gm' | 'matrix';
-  requiresGM?: boolean;
+  category: 'basic' | 'game' | 'dice' | 'character' | 'gm' | 'matrix' | 'macro';
+  requires?: Capability; // Needed to run it at all; basic commands need nothing, others need "play"
   parameters?: CommandParameter[];
+  handler?: CommandHandler;
+  canExecute?: (context: CommandContext) => true | string; // Extra permission check; a string is the denial reason
+  verbatimAfter?: string[]; // Actions whose argument is the rest of the line as typed, ";" and "|" included
 }
 
 export interface CommandParameter {
@@ -17,13 +43,27 @@ export interface CommandParameter {
   required: boolean;
   description: string;
   options?: string[];
+  optionAliases?: Record<string, string>; // Alternate spellings mapped onto options
+  rest?: boolean; // Consumes the rest of the line
+  suggestions?: string[]; // Completion hints that, unlike options, aren't enforced
+  completeFrom?: CompletionSource; // Where argument completions come from
 }
 
+// Context-dependent completion sources
+export type CompletionSource = 'commands' | 'characterPool' | 'npcs' | 'participants' | 'themes';
+
 export interface CommandResult {
   success: boolean;
   output: string;
   broadcast?: boolean;
+  type?: string; // Kind of data, used to pick a renderer ('dice', 'test', 'help', ...)
   data?: any;
+  privateMessages?: PrivateMessage[]; // Sent only to their recipients, never broadcast
+}
+
+export interface HelpSection {
+  title: string;
+  entries: Array<{ term: string; description: string }>;
 }
 
 export interface CommandHistory {
@@ -32,6 +72,43 @@ export interface CommandHistory {
   result: CommandResult;
 }
 
+export interface CommandContext {
+  userId: string;
+  userName?: string; // Display name; userId when missing
+  sessionId?: string;
+  isGM: boolean;
+  isObserver?: boolean; // Watching only; limited to basic commands like help and theme
+  permissions?: Permissions; // Role and grants; worked out from isGM and isObserver when missing
+  lastRoll?: ShadowrunDiceResult;
+  edge?: number; // Current Edge points, if known
+  character?: ShadowrunCharacter; // Active character, for named dice pools
+  session?: SessionStateManager; // Scene, NPCs, initiative, Edge and Matrix state
+  macros?: MacroManager; // The active character's macros
+  macroDepth?: number; // How many macros deep this command is running
+  participants?: string[]; // Names of the players in the session
+  members?: Addressee[]; // Who is in the session, for addressing private messages
+  transcript?: () => Transcript; // The console's output history, for export
+  themes?: ThemeManager; // Built-in and the user's custom themes
+}
+
+export type CommandParamValue = string | number | boolean | undefined;
+
+export interface CommandInvocation {
+  name: string; // Name or alias as typed
+  args: string[];
+  rawArgs: string;
+  flags: Record<string, string>; // --name=value options as typed
+  params: Record<string, CommandParamValue>; // Validated against the command's parameters
+  piped?: CommandResult; // Result of the previous command in a "|" pipeline
+}
+
+export type CommandHandler = (invocation: CommandInvocation, context: CommandContext) => CommandResult | Promise<CommandResult>;
+
+// Edge pool when no character is loaded
+const DEFAULT_EDGE_POOL = 3;
+// Defense pool for matrix hacks when the GM doesn't give one
+const DEFAULT_MATRIX_DEFENSE = 6;
+
 // Command registry
 export const commands: Record<string, Command> = {
   help: {
@@ -41,46 +118,166 @@ export const commands: Record<string, Command> = {
     usage: 'help [command]',
     category: 'basic',
     parameters: [
-      { name: 'command', type: 'string', required: false, description: 'Specific command to get help for' }
-    ]
+      { name: 'command', type: 'string', required: false, description: 'Specific command to get help for', completeFrom: 'commands' }
+    ],
+    handler: ({ params }) => {
+      if (params.command === undefined) {
+        return { success: true, output: generateGeneralHelp(), type: 'help', data: { sections: getGeneralHelpSections() } };
+      }
+      const helpCmd = findCommand(String(params.command));
+      if (!helpCmd) {
+        return { success: false, output: `No help available for "${params.command}"` };
+      }
+      return { success: true, output: generateCommandHelp(helpCmd), type: 'help', data: { sections: getCommandHelpSections(helpCmd) } };
+    }
   },
   clear: {
     name: 'clear',
     aliases: ['cls', 'clr'],
     description: 'Clear the console output',
     usage: 'clear',
-    category: 'basic'
+    category: 'basic',
+    handler: () => ({ success: true, output: 'CLEAR_CONSOLE' }) // Special marker for console clearing
   },
   roll: {
     name: 'roll',
     aliases: ['r'],
     description: 'Roll dice using Shadowrun or standard notation',
-    usage: 'roll <dice> [limit] [edge] | roll <standard_dice>',
+    usage: 'roll <pool> [l<limit>] [t<threshold>] [e] [#label] | roll <standard_dice>',
     category: 'dice',
     parameters: [
-      { name: 'dice', type: 'string', required: true, description: 'Dice to roll (e.g., "12", "3d6", "init 8")' }
-    ]
+      { name: 'dice', type: 'string', required: true, rest: true, completeFrom: 'characterPool', description: 'Dice to roll (e.g., "12", "AGI+Firearms-2 l5", "2d6+1d6", "4d6kh3", "12 t3 #sniper shot", "init 10+2d6", "init astral")' }
+    ],
+    handler: ({ rawArgs }, context) => {
+      try {
+        const result = parseDiceCommand(rawArgs, { character: context.character });
+        const output = formatDiceResult(result, rawArgs);
+        return { success: true, output, broadcast: true, type: 'dice', data: result };
+      } catch (error) {
+        return { success: false, output: `Dice error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   scene: {
     name: 'scene',
     aliases: ['s'],
     description: 'Set or describe the current scene',
-    usage: 'scene <description>',
+    usage: 'scene [description]',
     category: 'gm',
-    requiresGM: true,
     parameters: [
-      { name: 'description', type: 'string', required: true, description: 'Scene description' }
-    ]
+      { name: 'description', type: 'string', required: false, rest: true, description: 'Scene description (GM only); omit to show the current scene' }
+    ],
+    handler: async ({ params }, context) => {
+      try {
+        const session = requireSession(context);
+        const description = params.description as string | undefined;
+        if (!description) {
+          const scene = session.getState().scene;
+          return {
+            success: true,
+            output: scene ? `🎬 Current Scene: ${scene.description}\n(set by ${scene.setBy})` : 'No scene has been set yet.',
+            data: scene
+          };
+        }
+        if (!can(contextPermissions(context), 'edit_scene')) {
+          return { success: false, output: permissionDenied('edit_scene', 'set the scene') };
+        }
+        
+        const scene = session.setScene(description, displayName(context));
+        const output = `🎬 Scene Set: ${description}\n\nThe GM is describing the scene...`
+          + await shareWithSession(context, sessionId => sessionAPI.updateScene(sessionId, { summary: description }));
+        return { success: true, output, broadcast: true, data: scene };
+      } catch (error) {
+        return { success: false, output: `Scene error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   echo: {
     name: 'echo',
     aliases: ['say', 'broadcast'],
     description: 'Send a message to all players in the session',
-    usage: 'echo <message>',
+    usage: 'echo [--to=<player>] <message> | <command> | echo',
+    category: 'game',
+    parameters: [
+      { name: 'message', type: 'string', required: false, rest: true, description: 'Message to broadcast; defaults to the piped output' },
+      { name: 'to', type: 'string', required: false, description: 'Address the message to one player (--to=name)', completeFrom: 'participants' }
+    ],
+    handler: ({ params, piped }, context) => {
+      const message = (params.message as string | undefined) ?? piped?.output;
+      if (!message) {
+        return { success: false, output: 'Missing message. Usage: echo <message>' };
+      }
+      const to = params.to as string | undefined;
+      return {
+        success: true,
+        output: `📢 ${displayName(context)}${to ? ` → ${to}` : ''}: ${message}`,
+        broadcast: true,
+        data: { message, to, piped: piped?.data }
+      };
+    }
+  },
+  whisper: {
+    name: 'whisper',
+    aliases: ['w', 'tell', 'msg'],
+    description: 'Send a private message to one player',
+    usage: 'whisper <player> <message>',
     category: 'game',
     parameters: [
-      { name: 'message', type: 'string', required: true, description: 'Message to broadcast' }
-    ]
+      { name: 'player', type: 'string', required: true, description: 'Player to whisper to', completeFrom: 'participants' },
+      { name: 'message', type: 'string', required: false, rest: true, description: 'Message; defaults to the piped output' }
+    ],
+    handler: ({ params, piped }, context) =>
+      sendPrivateMessage('whisper', String(params.player), params.message as string | undefined, piped, context)
+  },
+  gm: {
+    name: 'gm',
+    aliases: ['togm'],
+    description: 'Send a private message to the GM',
+    usage: 'gm <message>',
+    category: 'game',
+    parameters: [
+      { name: 'message', type: 'string', required: false, rest: true, description: 'Message; defaults to the piped output' }
+    ],
+    handler: ({ params, piped }, context) =>
+      sendPrivateMessage('gm', GM_ADDRESSEE, params.message as string | undefined, piped, context)
+  },
+  reveal: {
+    name: 'reveal',
+    aliases: [],
+    description: 'Show a player a secret result, e.g. roll 6 | reveal <player>',
+    usage: 'reveal <player> [message] | <command> | reveal <player>',
+    category: 'gm',
+    requires: 'reveal',
+    parameters: [
+      { name: 'player', type: 'string', required: true, description: 'Player to reveal to', completeFrom: 'participants' },
+      { name: 'message', type: 'string', required: false, rest: true, description: 'Message; defaults to the piped output' }
+    ],
+    handler: ({ params, piped }, context) =>
+      sendPrivateMessage('reveal', String(params.player), params.message as string | undefined, piped, context)
+  },
+  export: {
+    name: 'export',
+    aliases: ['transcript'],
+    description: 'Export the session transcript as Markdown, HTML or JSON',
+    usage: 'export [markdown|html|json]',
+    category: 'basic',
+    parameters: [
+      { name: 'format', type: 'string', required: false, description: 'Export format (default markdown)', options: TRANSCRIPT_FORMATS, optionAliases: { md: 'markdown' } }
+    ],
+    handler: ({ params }, context) => {
+      if (!context.transcript) {
+        return { success: false, output: 'Export error: No transcript is available here' };
+      }
+      const transcript = context.transcript();
+      const format = (params.format as TranscriptFormat | undefined) ?? 'markdown';
+      const file = formatTranscript(transcript, format);
+      return {
+        success: true,
+        output: `📄 Exported ${transcript.entries.length} entries to ${file.filename}`,
+        type: 'export',
+        data: { format, ...file }
+      };
+    }
   },
   summon: {
     name: 'summon',
@@ -88,32 +285,174 @@ export const commands: Record<string, Command> = {
     description: 'Summon an NPC to the scene',
     usage: 'summon <name> [archetype]',
     category: 'gm',
-    requiresGM: true,
+    requires: 'manage_npcs',
     parameters: [
       { name: 'name', type: 'string', required: true, description: 'NPC name' },
-      { name: 'archetype', type: 'string', required: false, description: 'NPC archetype' }
-    ]
+      { name: 'archetype', type: 'string', required: false, description: `NPC archetype (${Object.keys(npcArchetypes).join(', ')}; default ganger)`, suggestions: Object.keys(npcArchetypes) }
+    ],
+    handler: async ({ params }, context) => {
+      try {
+        const session = requireSession(context);
+        const npc = session.summonNpc(String(params.name), params.archetype !== undefined ? String(params.archetype) : undefined);
+        const archetype = npcArchetypes[npc.archetype];
+        let output = `👤 ${npc.name} (${archetype.name}) enters the scene\n`;
+        output += `Dice pool: ${npc.dicePool} | Condition: ${npc.condition.max} | Initiative: ${npc.initiativeBase} + ${npc.initiativeDice}d6`;
+        
+        const changes: SessionChange[] = [{ kind: 'npc', npc }];
+        // NPCs arriving mid-fight roll straight into the order
+        if (session.getState().combat.active) {
+          const result = rollInitiative(npc.initiativeBase, npc.initiativeDice);
+          const entry = { id: npc.id, name: npc.name, kind: 'npc' as const, result };
+          session.setInitiative(entry);
+          changes.push({ kind: 'initiative', entry });
+          output += `\nJoins combat on ${result.score}`;
+        }
+        output += await shareChanges(context, changes);
+        
+        return { success: true, output, broadcast: true, data: npc };
+      } catch (error) {
+        return { success: false, output: `Summon error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   initiative: {
     name: 'initiative',
     aliases: ['init'],
     description: 'Roll initiative or manage initiative order',
-    usage: 'initiative [bonus] | initiative start | initiative next',
+    usage: 'initiative [base] [dice] | initiative order | initiative start | initiative next | initiative end',
     category: 'game',
     parameters: [
-      { name: 'action', type: 'string', required: false, description: 'init action or bonus' }
-    ]
+      { name: 'action', type: 'string', required: false, description: 'Tracker action (start, next and end are GM only)', options: ['order', 'start', 'next', 'end'] },
+      { name: 'base', type: 'number', required: false, description: 'Initiative base; defaults to your character sheet' },
+      { name: 'dice', type: 'number', required: false, description: 'Initiative dice (1-5)' }
+    ],
+    handler: async ({ params }, context) => {
+      try {
+        const session = requireSession(context);
+        const action = params.action as string | undefined;
+        
+        if (action === 'order') {
+          const combat = session.getState().combat;
+          return { success: true, output: formatInitiativeOrder(combat), data: combat };
+        }
+        
+        if (action) {
+          if (!can(contextPermissions(context), 'edit_combat')) {
+            return { success: false, output: permissionDenied('edit_combat', `use "initiative ${action}"`) };
+          }
+          if (action === 'end') {
+            const combat = session.endCombat();
+            return { success: true, output: '🏁 Combat ended' + await shareChanges(context, [{ kind: 'combat', combat }]), broadcast: true };
+          }
+          if (action === 'start') {
+            const combat = session.startCombat();
+            return {
+              success: true,
+              output: `⚔️ Combat started\n${formatInitiativeOrder(combat)}` + await shareChanges(context, [{ kind: 'combat', combat }]),
+              broadcast: true,
+              data: combat
+            };
+          }
+          const combat = session.nextTurn();
+          const acting = combat.order[combat.turn];
+          return {
+            success: true,
+            output: `▶ Round ${combat.round}: ${acting.name} acts\n${formatInitiativeOrder(combat)}` + await shareChanges(context, [{ kind: 'combat', combat }]),
+            broadcast: true,
+            data: combat
+          };
+        }
+        
+        let result;
+        if (params.base !== undefined) {
+          result = rollInitiative(params.base as number, (params.dice as number | undefined) ?? 1);
+        } else if (context.character) {
+          result = rollCharacterInitiative(context.character);
+        } else {
+          return { success: false, output: 'No character loaded. Use: initiative <base> [dice]' };
+        }
+        
+        const entry = { id: context.userId, name: context.character?.name || displayName(context), kind: 'player' as const, result };
+        session.setInitiative(entry);
+        return {
+          success: true,
+          output: `${formatInitiative(result)}\n\n${formatInitiativeOrder(session.getState().combat)}`
+            + await shareChanges(context, [{ kind: 'initiative', entry }]),
+          broadcast: true,
+          data: result
+        };
+      } catch (error) {
+        return { success: false, output: `Initiative error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   edge: {
     name: 'edge',
     aliases: ['e'],
-    description: 'Spend edge on a dice roll',
-    usage: 'edge <dice> <action>',
+    description: 'Spend Edge on your last roll, or roll a pool and spend Edge on it',
+    usage: 'edge | edge refresh | edge <action> [die] | edge <dice> <action> [die] | <roll> | edge <action>',
     category: 'dice',
     parameters: [
-      { name: 'dice', type: 'number', required: true, description: 'Number of dice to roll' },
-      { name: 'action', type: 'string', required: true, description: 'Edge action', options: ['reroll', 'explode', 'pushLimit'] }
-    ]
+      { name: 'dice', type: 'number', required: false, description: 'Dice pool to roll first (defaults to your last roll)' },
+      {
+        name: 'action',
+        type: 'string',
+        required: false,
+        description: 'Edge action, or refresh to refill your Edge; omit to show your Edge',
+        options: [...Object.keys(edgeActions), 'refresh'],
+        optionAliases: Object.values(edgeActions).reduce<Record<string, string>>((aliases, action) => {
+          action.aliases.forEach(alias => { aliases[alias] = action.id; });
+          return aliases;
+        }, {})
+      },
+      { name: 'die', type: 'number', required: false, description: 'Die to target (1-based) for single-die actions' }
+    ],
+    handler: ({ params, piped }, context) => {
+      try {
+        const maxEdge = context.character?.attributes.edge ?? DEFAULT_EDGE_POOL;
+        const edgePool = context.session?.getEdge(context.userId, maxEdge);
+        
+        if (params.action === undefined || params.action === 'refresh') {
+          if (params.dice !== undefined) {
+            return { success: false, output: 'Missing action. Usage: edge <dice> <action> [die]' };
+          }
+          if (params.action === 'refresh') {
+            const refreshed = requireSession(context).setEdge(context.userId, maxEdge, maxEdge);
+            return { success: true, output: `Edge refreshed: ${refreshed.current}/${refreshed.max}`, data: refreshed };
+          }
+          const current = edgePool || { current: context.edge ?? maxEdge, max: maxEdge };
+          return { success: true, output: `Edge: ${current.current}/${current.max}`, data: current };
+        }
+        
+        const action = findEdgeAction(String(params.action))!;
+        const pool = params.dice as number | undefined;
+        if (pool !== undefined && (pool < 1 || pool > MAX_DICE)) {
+          return { success: false, output: `Pool must be between 1 and ${MAX_DICE} dice` };
+        }
+        const pipedRoll = isShadowrunRoll(piped?.data) ? piped!.data : undefined;
+        const roll = pool !== undefined ? rollShadowrunDice(pool) : pipedRoll || context.lastRoll;
+        if (!roll) {
+          return { success: false, output: 'No roll to spend Edge on. Roll first, or use: edge <dice> <action>' };
+        }
+        
+        const spent = spendEdge(roll, action.id, {
+          dieIndex: params.die !== undefined ? (params.die as number) - 1 : undefined,
+          availableEdge: context.edge ?? edgePool?.current
+        });
+        if (context.session && spent.edgeRemaining !== undefined) {
+          context.session.setEdge(context.userId, spent.edgeRemaining, edgePool?.max ?? maxEdge);
+        }
+        const label = pool !== undefined ? `${pool} dice + ${action.name}` : action.name;
+        let output = formatDiceResult(spent.result, label);
+        if (spent.edgeRemaining !== undefined) {
+          output += `\nEdge remaining: ${spent.edgeRemaining}`;
+        }
+        
+        return { success: true, output, broadcast: true, type: 'dice', data: spent.result };
+      } catch (error) {
+        return { success: false, output: `Edge error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   test: {
     name: 'test',
@@ -124,37 +463,453 @@ export const commands: Record<string, Command> = {
     parameters: [
       { name: 'dice', type: 'number', required: true, description: 'Dice pool' },
       { name: 'threshold', type: 'number', required: true, description: 'Success threshold' }
-    ]
+    ],
+    handler: ({ params }) => {
+      try {
+        const dice = params.dice as number;
+        const threshold = params.threshold as number;
+        const result = parseDiceCommand(dice.toString());
+        const success = result.hits >= threshold;
+        const netHits = result.hits - threshold;
+        
+        let output = formatDiceResult(result, `${dice} dice vs threshold ${threshold}`);
+        output += `\n${success ? '✅' : '❌'} ${success ? `Success (${netHits} net hits)` : 'Failure'}`;
+        
+        return { success: true, output, broadcast: true, type: 'test', data: { ...result, threshold, success, netHits } };
+      } catch (error) {
+        return { success: false, output: `Test error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
+  },
+  odds: {
+    name: 'odds',
+    aliases: ['prob', 'chance'],
+    description: 'Show the odds for a dice pool, with and without exploding 6s',
+    usage: 'odds <pool> [threshold] [limit]',
+    category: 'dice',
+    parameters: [
+      { name: 'pool', type: 'number', required: true, description: 'Dice pool' },
+      { name: 'threshold', type: 'number', required: false, description: 'Hits needed' },
+      { name: 'limit', type: 'number', required: false, description: 'Limit on hits' }
+    ],
+    handler: ({ params }) => {
+      const pool = params.pool as number;
+      const threshold = params.threshold as number | undefined;
+      const limit = params.limit as number | undefined;
+      if (pool < 1 || pool > MAX_DICE) {
+        return { success: false, output: `Pool must be between 1 and ${MAX_DICE} dice` };
+      }
+      if ((threshold ?? 0) < 0 || (limit ?? 0) < 0) {
+        return { success: false, output: 'Threshold and limit cannot be negative' };
+      }
+      const normal = calculateOdds(pool, { threshold, limit });
+      const exploding = calculateOdds(pool, { threshold, limit, exploding: true });
+      return {
+        success: true,
+        output: `${formatOdds(normal)}\n\n${formatOdds(exploding)}`,
+        data: { normal, exploding }
+      };
+    }
+  },
+  opposed: {
+    name: 'opposed',
+    aliases: ['vs', 'contest'],
+    description: 'Roll an opposed test, e.g. attack vs defense',
+    usage: 'opposed <dice> [vs] <opposing_dice>',
+    category: 'dice',
+    parameters: [
+      { name: 'dice', type: 'number', required: true, description: 'Acting dice pool' },
+      { name: 'vs', type: 'string', required: false, description: 'Optional separator', options: ['vs'] },
+      { name: 'opposing_dice', type: 'number', required: true, description: 'Opposing dice pool' }
+    ],
+    handler: ({ params }) => {
+      const attackerPool = params.dice as number;
+      const defenderPool = params.opposing_dice as number;
+      if ([attackerPool, defenderPool].some(pool => pool < 1 || pool > MAX_DICE)) {
+        return { success: false, output: `Pools must be between 1 and ${MAX_DICE} dice` };
+      }
+      const result = opposedTest(attackerPool, defenderPool);
+      return { success: true, output: formatOpposedResult(result, attackerPool, defenderPool), broadcast: true, type: 'opposed', data: result };
+    }
+  },
+  extended: {
+    name: 'extended',
+    aliases: ['ext'],
+    description: 'Roll an extended test until the threshold is reached',
+    usage: 'extended <dice> <threshold> [interval]',
+    category: 'dice',
+    parameters: [
+      { name: 'dice', type: 'number', required: true, description: 'Starting dice pool' },
+      { name: 'threshold', type: 'number', required: true, description: 'Cumulative hits needed' },
+      { name: 'interval', type: 'string', required: false, rest: true, description: 'Time per roll (e.g. "1 hour", "10 minute")' }
+    ],
+    handler: ({ params }) => {
+      const pool = params.dice as number;
+      if (pool < 1 || pool > MAX_DICE) {
+        return { success: false, output: `Pool must be between 1 and ${MAX_DICE} dice` };
+      }
+      const intervalMatch = params.interval !== undefined ? String(params.interval).match(/^(\d+)?\s*([a-z]+)?$/i) : null;
+      const interval = intervalMatch
+        ? { length: intervalMatch[1] ? parseInt(intervalMatch[1]) : 1, unit: (intervalMatch[2] || 'turn').replace(/s$/i, '') }
+        : undefined;
+      try {
+        const result = extendedTest(pool, params.threshold as number, { interval });
+        return { success: true, output: formatExtendedResult(result, pool), broadcast: true, type: 'extended', data: result };
+      } catch (error) {
+        return { success: false, output: `Test error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   matrix: {
     name: 'matrix',
     aliases: ['hack', 'deck'],
     description: 'Enter the Matrix or perform matrix actions',
-    usage: 'matrix <action>',
+    usage: 'matrix enter [hot] | matrix exit | matrix hack [pool] [defense] <target> | matrix scan [pool]',
     category: 'matrix',
     parameters: [
-      { name: 'action', type: 'string', required: true, description: 'Matrix action', options: ['enter', 'exit', 'hack', 'scan'] }
-    ]
+      { name: 'action', type: 'string', required: true, description: 'Matrix action', options: ['enter', 'exit', 'hack', 'scan'] },
+      { name: 'pool', type: 'number', required: false, description: 'Dice pool; defaults to Cracking + Logic (hack) or Electronics + Intuition (scan)' },
+      { name: 'defense', type: 'number', required: false, description: `Target's defense pool for hack (default ${DEFAULT_MATRIX_DEFENSE})` },
+      { name: 'target', type: 'string', required: false, rest: true, description: 'Icon to hack, or "hot" to enter in hot sim', suggestions: ['hot'], completeFrom: 'npcs' }
+    ],
+    handler: ({ params }, context) => {
+      try {
+        const session = requireSession(context);
+        const target = params.target as string | undefined;
+        const givenPool = params.pool as number | undefined;
+        if (givenPool !== undefined && (givenPool < 1 || givenPool > MAX_DICE)) {
+          return { success: false, output: `Pool must be between 1 and ${MAX_DICE} dice` };
+        }
+        
+        if (params.action === 'enter') {
+          const hotSim = target?.toLowerCase() === 'hot';
+          session.enterMatrix(context.userId, hotSim);
+          return { success: true, output: `🌐 Jacked into the Matrix (${hotSim ? 'hot' : 'cold'} sim)`, broadcast: true };
+        }
+        if (params.action === 'exit') {
+          session.exitMatrix(context.userId);
+          return { success: true, output: '🔌 Jacked out of the Matrix', broadcast: true };
+        }
+        
+        const presence = session.getMatrixPresence(context.userId);
+        if (!presence?.connected) {
+          return { success: false, output: 'Not in the Matrix. Use "matrix enter" first' };
+        }
+        
+        if (params.action === 'scan') {
+          const pool = givenPool ?? getCharacterPool(context, ['electronics', 'intuition']);
+          const result = rollShadowrunDice(pool);
+          let output = formatDiceResult(result, `Matrix Perception (${pool} dice)`);
+          output += `\n👁️ Spotted up to ${result.hits} icon${result.hits === 1 ? '' : 's'}`;
+          const marked = Object.entries(presence.marks);
+          if (marked.length > 0) {
+            output += `\nMarks held: ${marked.map(([icon, marks]) => `${icon} (${marks})`).join(', ')}`;
+          }
+          return { success: true, output, type: 'dice', data: result };
+        }
+        
+        // Hack: Brute Force against the target's defense; every defender hit raises Overwatch
+        if (!target) {
+          return { success: false, output: 'Missing target. Usage: matrix hack [pool] [defense] <target>' };
+        }
+        const pool = givenPool ?? getCharacterPool(context, ['cracking', 'logic']);
+        const defense = (params.defense as number | undefined) ?? DEFAULT_MATRIX_DEFENSE;
+        const result = opposedTest(pool, defense);
+        const marks = result.netHits > 0 ? 1 : 0;
+        const converged = session.recordMatrixAction(context.userId, result.defender.hits, target, marks);
+        const overwatch = session.getMatrixPresence(context.userId)!.overwatch;
+        
+        let output = formatOpposedResult(result, pool, defense);
+        output += marks > 0
+          ? `\n💻 Mark placed on ${target} (${session.getMatrixPresence(context.userId)!.marks[target] || 0} total)`
+          : `\n🛡️ ${target} held`;
+        output += `\nOverwatch Score: ${overwatch}/${CONVERGENCE_THRESHOLD}`;
+        if (converged) {
+          output += '\n🚨 CONVERGENCE! GOD has found you. Dumped from the Matrix, all marks lost.';
+        }
+        
+        return { success: true, output, broadcast: true, type: 'opposed', data: { ...result, overwatch, converged } };
+      } catch (error) {
+        return { success: false, output: `Matrix error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   status: {
     name: 'status',
     aliases: ['stat', 'info'],
     description: 'Show current session and character status',
     usage: 'status',
-    category: 'game'
+    category: 'game',
+    handler: (_, context) => {
+      const state = context.session?.getState();
+      const maxEdge = context.character?.attributes.edge ?? DEFAULT_EDGE_POOL;
+      const edge = context.session?.getEdge(context.userId, maxEdge) || { current: context.edge ?? maxEdge, max: maxEdge };
+      const matrix = context.session?.getMatrixPresence(context.userId);
+      const initiative = state?.combat.order.find(entry => entry.id === context.userId);
+      
+      const statusInfo = [
+        `User: ${displayName(context)}`,
+        `Session: ${context.sessionId || 'None'}`,
+        `Role: ${ROLE_LABELS[contextPermissions(context).role]}`,
+        `Scene: ${state?.scene?.description || 'Not set'}`,
+        `Matrix Status: ${matrix?.connected ? `Connected (${matrix.hotSim ? 'hot' : 'cold'} sim, Overwatch ${matrix.overwatch})` : 'Disconnected'}`,
+        `Edge: ${edge.current}/${edge.max}`,
+        `Initiative: ${initiative ? initiative.result.score : 'Not rolled'}${state?.combat.active ? ` (round ${state.combat.round})` : ''}`
+      ];
+      return { success: true, output: statusInfo.join('\n') };
+    }
+  },
+  macro: {
+    name: 'macro',
+    aliases: ['macros', 'm'],
+    description: 'Define and manage macros for your character',
+    usage: 'macro list | macro add <name> "<command>" | macro remove <name> | macro show <name> | macro export | macro import <json>',
+    category: 'basic',
+    verbatimAfter: ['import'],
+    parameters: [
+      { name: 'action', type: 'string', required: false, description: 'Macro action', options: ['list', 'add', 'remove', 'show', 'export', 'import'], optionAliases: { rm: 'remove', delete: 'remove', ls: 'list' } },
+      { name: 'name', type: 'string', required: false, description: 'Macro name (or the JSON to import)' },
+      { name: 'command', type: 'string', required: false, rest: true, description: 'Command line to run; $1..$9 and $* take arguments' },
+      { name: 'description', type: 'string', required: false, description: 'Help text for the macro (--description=...)' }
+    ],
+    handler: ({ params, rawArgs }, context) => {
+      try {
+        const macros = requireMacros(context);
+        const name = params.name as string | undefined;
+        const action = (params.action as string | undefined) || 'list';
+        
+        switch (action) {
+          case 'add': {
+            if (!name || !params.command) {
+              return { success: false, output: 'Usage: macro add <name> "<command>"' };
+            }
+            const macro = macros.addMacro(name, String(params.command), params.description as string | undefined);
+            return { success: true, output: `Macro ${macro.name} = ${macro.command}`, data: macro };
+          }
+          case 'remove':
+            if (!name) return { success: false, output: 'Usage: macro remove <name>' };
+            macros.removeMacro(name);
+            return { success: true, output: `Macro ${name.toLowerCase()} removed` };
+          case 'show': {
+            const macro = name ? macros.getMacro(name) : undefined;
+            if (!macro) return { success: false, output: `No macro named "${name || ''}"` };
+            return { success: true, output: `${macro.name} = ${macro.command}${macro.description ? `\n${macro.description}` : ''}`, data: macro };
+          }
+          case 'export':
+            return { success: true, output: macros.exportMacros(), data: macros.getMacros() };
+          case 'import': {
+            const json = rawArgs.replace(/^\S+\s*/, '');
+            const { imported, skipped } = macros.importMacros(json);
+            let output = `Imported ${imported.length} macro${imported.length === 1 ? '' : 's'}${imported.length ? `: ${imported.join(', ')}` : ''}`;
+            if (skipped.length > 0) output += `\nSkipped: ${skipped.join(', ')}`;
+            return { success: true, output, data: { imported, skipped } };
+          }
+          default: {
+            const list = macros.getMacros();
+            if (list.length === 0) {
+              return { success: true, output: 'No macros defined. Try: macro add sniper "roll AGI+Firearms l7"' };
+            }
+            return { success: true, output: list.map(macro => `  ${macro.name} = ${macro.command}`).join('\n'), data: list };
+          }
+        }
+      } catch (error) {
+        return { success: false, output: `Macro error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
+  },
+  alias: {
+    name: 'alias',
+    aliases: [],
+    description: 'Give a command a shorter name; arguments are passed through',
+    usage: 'alias | alias <name> <command>',
+    category: 'basic',
+    parameters: [
+      { name: 'name', type: 'string', required: false, description: 'Alias name' },
+      { name: 'command', type: 'string', required: false, rest: true, description: 'Command it stands for' }
+    ],
+    handler: ({ params }, context) => {
+      try {
+        const macros = requireMacros(context);
+        if (params.name === undefined) {
+          const list = macros.getMacros();
+          return { success: true, output: list.length ? list.map(macro => `  ${macro.name} = ${macro.command}`).join('\n') : 'No aliases defined', data: list };
+        }
+        if (params.command === undefined) {
+          const macro = macros.getMacro(String(params.name));
+          return macro
+            ? { success: true, output: `${macro.name} = ${macro.command}`, data: macro }
+            : { success: false, output: `No alias named "${params.name}"` };
+        }
+        const macro = macros.addMacro(String(params.name), String(params.command));
+        return { success: true, output: `Alias ${macro.name} = ${macro.command}`, data: macro };
+      } catch (error) {
+        return { success: false, output: `Alias error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   },
   theme: {
     name: 'theme',
     aliases: ['skin'],
-    description: 'Change console theme',
-    usage: 'theme <theme_name>',
+    description: 'List, apply, share and remove console themes',
+    usage: 'theme [<theme>] | theme export <theme> | theme import <json> | theme remove <theme>',
     category: 'basic',
     parameters: [
-      { name: 'theme', type: 'string', required: true, description: 'Theme name', options: ['shadowrunBarren', 'matrix', 'cyberpunk', 'terminal'] }
-    ]
+      { name: 'action', type: 'string', required: false, description: 'Theme action', options: ['list', 'export', 'import', 'remove'], optionAliases: { ls: 'list', rm: 'remove', delete: 'remove' } },
+      { name: 'theme', type: 'string', required: false, rest: true, description: 'Theme id, or JSON for import', completeFrom: 'themes' }
+    ],
+    handler: ({ params }, context) => {
+      try {
+        const themes = requireThemes(context);
+        const theme = params.theme as string | undefined;
+        const action = (params.action as string | undefined) ?? (theme ? 'apply' : 'list');
+
+        switch (action) {
+          case 'list': {
+            const lines = Object.entries(themes.getThemes()).map(([id, t]) => `  ${id} - ${t.name}${t.custom ? ' (custom)' : ''}`);
+            return { success: true, output: `🎨 Themes:\n${lines.join('\n')}\nUse "theme <id>" to apply one.` };
+          }
+          case 'export':
+            if (!theme) throw new Error('Usage: theme export <theme>');
+            return { success: true, output: themes.exportTheme(theme) };
+          case 'import': {
+            if (!theme) throw new Error('Usage: theme import <json>');
+            const id = themes.importTheme(theme);
+            return { success: true, output: `🎨 Imported theme ${id}. Use "theme ${id}" to apply it.` };
+          }
+          case 'remove':
+            if (!theme) throw new Error('Usage: theme remove <theme>');
+            themes.removeTheme(theme);
+            return { success: true, output: `🗑️ Removed theme ${theme}` };
+          default: {
+            const selected = themes.getTheme(theme!);
+            if (!selected) {
+              throw new Error(`Theme not found. Available themes: ${Object.keys(themes.getThemes()).join(', ')}`);
+            }
+            return { success: true, output: `Theme changed to ${selected.name}`, type: 'theme', data: { themeId: theme } };
+          }
+        }
+      } catch (error) {
+        return { success: false, output: `Theme error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+    }
   }
 };
 
+// Session state for stateful commands
+function requireSession(context: CommandContext): SessionStateManager {
+  if (!context.session) {
+    throw new Error('No session state available');
+  }
+  return context.session;
+}
+
+// Save a change to the session on the server, which passes it on to everyone
+// else. Returns a warning to add to the output if that failed; without a
+// session there is nobody to tell.
+async function shareWithSession(context: CommandContext, save: (sessionId: string) => Promise<void>): Promise<string> {
+  if (!context.sessionId) return '';
+  try {
+    await save(context.sessionId);
+    return '';
+  } catch (error) {
+    return `\n⚠️ Saved locally only: ${error instanceof Error ? error.message : 'server unavailable'}`;
+  }
+}
+
+function shareChanges(context: CommandContext, changes: SessionChange[]): Promise<string> {
+  return shareWithSession(context, async sessionId => {
+    for (const change of changes) {
+      await sessionAPI.updateSessionState(sessionId, change);
+    }
+  });
+}
+
+// Macro store for the macro and alias commands
+function requireMacros(context: CommandContext): MacroManager {
+  if (!context.macros) {
+    throw new Error('Macros are not available here');
+  }
+  return context.macros;
+}
+
+const displayName = (context: CommandContext) => context.userName || context.userId;
+
+// The session member a player name (or id) means. Without a member list the
+// name is taken as given.
+function findMember(context: CommandContext, player: string): Addressee | undefined {
+  if (!context.members) return { userId: player, name: player };
+  return context.members.find(member => member.userId === player)
+    ?? context.members.find(member => member.name?.toLowerCase() === player.toLowerCase());
+}
+
+// Build the result for whisper, gm and reveal. The message is shown locally
+// and handed to the console to send to its recipients only.
+function sendPrivateMessage(
+  channel: PrivateChannel,
+  recipient: string | Addressee, // Player name as typed, or who to send to
+  text: string | undefined,
+  piped: CommandResult | undefined,
+  context: CommandContext
+): CommandResult {
+  const message = text ?? piped?.output;
+  if (!message) {
+    return { success: false, output: `Missing message. Usage: ${commands[channel].usage}` };
+  }
+  const to = typeof recipient === 'string' ? findMember(context, recipient) : recipient;
+  if (!to) {
+    return { success: false, output: `Nobody called ${recipient} is in this session` };
+  }
+  const from = { userId: context.userId, name: displayName(context) };
+  const privateMessage = createPrivateMessage(channel, from, [to], message, text === undefined ? piped : undefined);
+  return {
+    success: true,
+    output: `${describePrivateMessage(privateMessage, context.userId)}: ${message}`,
+    type: channel,
+    data: privateMessage,
+    privateMessages: [privateMessage]
+  };
+}
+
+// Theme registry for the theme command
+function requireThemes(context: CommandContext): ThemeManager {
+  if (!context.themes) {
+    throw new Error('Themes are not available here');
+  }
+  return context.themes;
+}
+
+// A Shadowrun pool result that Edge can be spent on
+function isShadowrunRoll(data: any): data is ShadowrunDiceResult {
+  return !!data && Array.isArray(data.results) && data.total === undefined;
+}
+
+// Sum skills and attributes from the active character into a dice pool
+function getCharacterPool(context: CommandContext, names: string[]): number {
+  if (!context.character) {
+    throw new Error('No character loaded; give a dice pool');
+  }
+  const variables = getCharacterDiceVariables(context.character);
+  return names.reduce((sum, name) => sum + (variables[normalizeVariableName(name)] || 0), 0);
+}
+
+// Register a command so it shows up in help, completion and execution
+export function registerCommand(command: Command): void {
+  const names = [command.name, ...command.aliases].map(name => name.toLowerCase());
+  Object.values(commands).forEach(existing => {
+    if (existing.name === command.name) return;
+    const taken = names.find(name => name === existing.name || existing.aliases.includes(name));
+    if (taken) {
+      throw new Error(`Command name "${taken}" is already used by "${existing.name}"`);
+    }
+  });
+  commands[command.name] = command;
+}
+
+// Remove a registered command
+export function unregisterCommand(name: string): void {
+  delete commands[name];
+}
+
 // Get all command names and aliases for auto-completion
 export function getAllCommandNames(): string[] {
   const names: string[] = [];
@@ -184,15 +939,123 @@ export function findCommand(name: string): Command | null {
   return null;
 }
 
-// Parse command line into command and arguments
-export function parseCommandLine(input: string): { command: string; args: string[]; rawArgs: string } {
-  const trimmed = input.trim();
-  const parts = trimmed.split(/\s+/);
-  const command = parts[0].toLowerCase();
-  const args = parts.slice(1);
-  const rawArgs = trimmed.substring(command.length).trim();
+// Parse a single command line into command and arguments.
+// Use parseCommandChain for lines with ";" or "|".
+export function parseCommandLine(input: string, options: { partial?: boolean } = {}): ParsedCommand {
+  const [pipeline] = parseCommandChain(input, options);
+  return pipeline ? pipeline[0] : { command: '', args: [], rawArgs: '', flags: {} };
+}
+
+// Convert one raw argument to a parameter's type and options
+export function convertParameterValue(param: CommandParameter, raw: string): { value?: CommandParamValue; error?: string } {
+  let value: CommandParamValue;
+  
+  if (param.type === 'number') {
+    if (!/^-?\d+$/.test(raw)) {
+      return { error: `${param.name} must be a number, got "${raw}"` };
+    }
+    value = parseInt(raw);
+  } else if (param.type === 'boolean') {
+    const lower = raw.toLowerCase();
+    if (['true', 'yes', 'on', '1'].includes(lower)) {
+      value = true;
+    } else if (['false', 'no', 'off', '0'].includes(lower)) {
+      value = false;
+    } else {
+      return { error: `${param.name} must be yes or no, got "${raw}"` };
+    }
+  } else {
+    value = raw;
+  }
+  
+  if (param.options && typeof value === 'string') {
+    const lower = value.toLowerCase();
+    const option = param.options.find(o => o.toLowerCase() === lower) || param.optionAliases?.[lower];
+    if (!option) {
+      return { error: `Invalid ${param.name} "${value}". Options: ${param.options.join(', ')}` };
+    }
+    value = option;
+  }
+  
+  return { value };
+}
+
+// Check arguments against a command's parameters and convert them to typed values.
+// --name=value flags are matched first (dashes match underscores), then the positional
+// arguments fill the rest. Optional parameters whose type or options don't match the
+// next argument are skipped, so "edge push" and "edge 12 push" both fit [dice?, action, die?].
+export function validateCommandArguments(
+  cmd: Command,
+  args: string[],
+  flags: Record<string, string> = {}
+): { params: Record<string, CommandParamValue>; error?: string } {
+  const params: Record<string, CommandParamValue> = {};
+  const parameters = cmd.parameters || [];
   
-  return { command, args, rawArgs };
+  for (const [flag, raw] of Object.entries(flags)) {
+    const name = flag.replace(/-/g, '_');
+    const param = parameters.find(p => p.name.toLowerCase() === name);
+    if (!param) {
+      return { params, error: `Unknown option --${flag}. Usage: ${cmd.usage}` };
+    }
+    const { value, error } = convertParameterValue(param, raw);
+    if (error) {
+      return { params, error: `${error} (--${flag})` };
+    }
+    params[param.name] = value;
+  }
+  
+  let index = 0;
+  for (const param of parameters) {
+    if (param.name in params) continue;
+    
+    if (index >= args.length) {
+      if (param.required) {
+        return { params, error: `Missing ${param.name}. Usage: ${cmd.usage}` };
+      }
+      continue;
+    }
+    
+    const raw = param.rest ? args.slice(index).join(' ') : args[index];
+    const { value, error } = convertParameterValue(param, raw);
+    if (error) {
+      if (!param.required) continue;
+      return { params, error: `${error}. Usage: ${cmd.usage}` };
+    }
+    
+    params[param.name] = value;
+    index = param.rest ? args.length : index + 1;
+  }
+  
+  if (index < args.length) {
+    return { params, error: `Too many arguments. Usage: ${cmd.usage}` };
+  }
+  
+  return { params };
+}
+
+// The user's role and grants. Contexts that only say isGM or isObserver get
+// that role's defaults.
+export function contextPermissions(context: CommandContext): Permissions {
+  return context.permissions ?? { role: context.isGM ? 'gm' : context.isObserver ? 'observer' : 'player' };
+}
+
+function permissionDenied(capability: Capability, action: string): string {
+  return `You don't have permission to ${action} (${CAPABILITY_LABELS[capability]}).`;
+}
+
+// Check whether the current user may run a command; returns the denial reason if not
+export function checkCommandPermission(cmd: Command, context: CommandContext): true | string {
+  const permissions = contextPermissions(context);
+  if (cmd.category !== 'basic' && !can(permissions, 'play')) {
+    return permissions.role === 'observer'
+      ? `Observers can only watch; "${cmd.name}" is not available.`
+      : permissionDenied('play', `run "${cmd.name}"`);
+  }
+  if (cmd.requires && !can(permissions, cmd.requires)) {
+    return permissionDenied(cmd.requires, `run "${cmd.name}"`);
+  }
+  return cmd.canExecute ? cmd.canExecute(context) : true;
 }
 
 // Auto-complete commands based on input
@@ -205,7 +1068,7 @@ export function autoCompleteCommand(input: string): string[] {
 
 // Get command suggestions based on partial input
 export function getCommandSuggestions(input: string): Command[] {
-  const { command } = parseCommandLine(input);
+  const { command } = parseCommandLine(input, { partial: true });
   const suggestions: Command[] = [];
   
   Object.values(commands).forEach(cmd => {
@@ -217,6 +1080,44 @@ export function getCommandSuggestions(input: string): Command[] {
   return suggestions.slice(0, 5); // Limit to 5 suggestions
 }
 
+// Structured help for a command, for rich rendering
+export function getCommandHelpSections(cmd: Command): HelpSection[] {
+  const details = [
+    { term: 'Usage', description: cmd.usage },
+    { term: 'Category', description: cmd.category }
+  ];
+  if (cmd.aliases.length > 0) details.push({ term: 'Aliases', description: cmd.aliases.join(', ') });
+  if (cmd.requires) details.push({ term: 'Access', description: CAPABILITY_LABELS[cmd.requires] });
+  
+  const sections: HelpSection[] = [{ title: `${cmd.name.toUpperCase()} - ${cmd.description}`, entries: details }];
+  if (cmd.parameters && cmd.parameters.length > 0) {
+    sections.push({
+      title: 'Parameters',
+      entries: cmd.parameters.map(param => ({
+        term: param.name,
+        description: `(${param.type}, ${param.required ? 'required' : 'optional'}) ${param.description}${param.options ? ` Options: ${param.options.join(', ')}` : ''}`
+      }))
+    });
+  }
+  return sections;
+}
+
+// Structured general help, one section per category
+export function getGeneralHelpSections(): HelpSection[] {
+  const categories = ['basic', 'game', 'dice', 'character', 'gm', 'matrix', 'macro'] as const;
+  return categories
+    .map(category => ({
+      title: `${category.toUpperCase()} COMMANDS`,
+      entries: Object.values(commands)
+        .filter(cmd => cmd.category === category)
+        .map(cmd => ({
+          term: cmd.aliases.length > 0 ? `${cmd.name} (${cmd.aliases.join(', ')})` : cmd.name,
+          description: cmd.description
+        }))
+    }))
+    .filter(section => section.entries.length > 0);
+}
+
 // Generate help text for a command
 export function generateCommandHelp(cmd: Command): string {
   let help = `${cmd.name.toUpperCase()}\n`;
@@ -228,8 +1129,12 @@ export function generateCommandHelp(cmd: Command): string {
     help += `Aliases: ${cmd.aliases.join(', ')}\n`;
   }
   
-  if (cmd.requiresGM) {
-    help += `⚠️ GM Only command\n`;
+  if (cmd.requires) {
+    help += `⚠️ Access: ${CAPABILITY_LABELS[cmd.requires]}\n`;
+  }
+  
+  if (!cmd.handler) {
+    help += `🚧 Not yet implemented\n`;
   }
   
   if (cmd.parameters && cmd.parameters.length > 0) {
@@ -248,7 +1153,7 @@ export function generateCommandHelp(cmd: Command): string {
 
 // Generate general help text
 export function generateGeneralHelp(): string {
-  const categories = ['basic', 'game', 'dice', 'character', 'gm', 'matrix'] as const;
+  const categories = ['basic', 'game', 'dice', 'character', 'gm', 'matrix', 'macro'] as const;
   let help = 'SHADOWRUN INTERFACE COMMANDS\n\n';
   
   categories.forEach(category => {
@@ -269,120 +1174,100 @@ export function generateGeneralHelp(): string {
   return help;
 }
 
-// Execute a command
+// Run one parsed command, optionally with the result piped in from the previous one
+async function runCommand(parsed: ParsedCommand, context: CommandContext, piped?: CommandResult): Promise<CommandResult> {
+  const { command, args, rawArgs, flags } = parsed;
+  const cmd = findCommand(command);
+  
+  if (!cmd) {
+    return {
+      success: false,
+      output: `Unknown command: ${command}\nType "help" for available commands.`
+    };
+  }
+  
+  // Check permissions
+  const permission = checkCommandPermission(cmd, context);
+  if (permission !== true) {
+    return { success: false, output: permission };
+  }
+  
+  if (!cmd.handler) {
+    return {
+      success: false,
+      output: `Command "${cmd.name}" not yet implemented.`
+    };
+  }
+  
+  // Validate arguments against the command's parameters
+  const { params, error } = validateCommandArguments(cmd, args, flags);
+  if (error) {
+    return { success: false, output: error };
+  }
+  
+  return await cmd.handler({ name: command, args, rawArgs, flags, params, piped }, context);
+}
+
+// Run a "|" pipeline, stopping at the first failure
+async function runPipeline(pipeline: CommandPipeline, context: CommandContext): Promise<CommandResult> {
+  let result: CommandResult | undefined;
+  for (const parsed of pipeline) {
+    result = await runCommand(parsed, context, result);
+    if (!result.success) break;
+  }
+  return result!;
+}
+
+// A line like "macro import <json>", whose argument is taken as typed rather
+// than split into words, commands and pipes; null for any other line
+function parseVerbatimLine(commandLine: string): ParsedCommand | null {
+  const match = commandLine.match(/^\s*(\S+)\s+(\S+)(?:\s+([\s\S]*?))?\s*$/);
+  const cmd = match ? findCommand(match[1]) : null;
+  if (!match || !cmd?.verbatimAfter?.includes(match[2].toLowerCase())) {
+    return null;
+  }
+  const argument = match[3] || '';
+  return {
+    command: match[1].toLowerCase(),
+    args: argument ? [match[2], argument] : [match[2]],
+    rawArgs: argument ? `${match[2]} ${argument}` : match[2],
+    flags: {}
+  };
+}
+
+// Execute a command line. Commands separated by ";" all run, and their outputs
+// are joined; the data of the last one is returned.
 export async function executeCommand(
   commandLine: string,
-  context: {
-    userId: string;
-    sessionId?: string;
-    isGM: boolean;
-    apiCall?: (endpoint: string, data: any) => Promise<any>;
-  }
+  context: CommandContext
 ): Promise<CommandResult> {
   try {
-    const { command, args, rawArgs } = parseCommandLine(commandLine);
-    const cmd = findCommand(command);
-    
-    if (!cmd) {
-      return {
-        success: false,
-        output: `Unknown command: ${command}\nType "help" for available commands.`
-      };
+    const verbatim = parseVerbatimLine(commandLine);
+    if (verbatim) {
+      return await runCommand(verbatim, context);
     }
-    
-    // Check GM permissions
-    if (cmd.requiresGM && !context.isGM) {
-      return {
-        success: false,
-        output: `Command "${cmd.name}" requires GM privileges.`
-      };
+
+    const chain = parseCommandChain(commandLine);
+    if (chain.length === 0) {
+      return await runCommand(parseCommandLine(commandLine), context);
     }
     
-    // Execute command
-    switch (cmd.name) {
-      case 'help':
-        if (args.length > 0) {
-          const helpCmd = findCommand(args[0]);
-          if (helpCmd) {
-            return { success: true, output: generateCommandHelp(helpCmd) };
-          } else {
-            return { success: false, output: `No help available for "${args[0]}"` };
-          }
-        } else {
-          return { success: true, output: generateGeneralHelp() };
-        }
-      
-      case 'clear':
-        return { success: true, output: 'CLEAR_CONSOLE' }; // Special marker for console clearing
-      
-      case 'roll':
-        if (args.length === 0) {
-          return { success: false, output: 'Usage: roll <dice>\nExamples: roll 12, roll 3d6, roll init 8' };
-        }
-        try {
-          const result = parseDiceCommand(rawArgs);
-          const output = formatDiceResult(result, rawArgs);
-          return { success: true, output, broadcast: true, data: result };
-        } catch (error) {
-          return { success: false, output: `Dice error: ${error instanceof Error ? error.message : 'Unknown error'}` };
-        }
-      
-      case 'echo':
-        if (rawArgs.length === 0) {
-          return { success: false, output: 'Usage: echo <message>' };
-        }
-        return { 
-          success: true, 
-          output: `📢 ${context.userId}: ${rawArgs}`,
-          broadcast: true 
-        };
-      
-      case 'scene':
-        if (rawArgs.length === 0) {
-          return { success: false, output: 'Usage: scene <description>' };
-        }
-        return {
-          success: true,
-          output: `🎬 Scene Set: ${rawArgs}\n\nThe GM is describing the scene...`,
-          broadcast: true
-        };
-      
-      case 'status':
-        const statusInfo = [
-          `User: ${context.userId}`,
-          `Session: ${context.sessionId || 'None'}`,
-          `Role: ${context.isGM ? 'Game Master' : 'Player'}`,
-          `Matrix Status: Disconnected`,
-          `Edge: 3/3`,
-          `Initiative: Not rolled`
-        ];
-        return { success: true, output: statusInfo.join('\n') };
-      
-      case 'test':
-        if (args.length < 2) {
-          return { success: false, output: 'Usage: test <dice> <threshold>' };
-        }
-        try {
-          const dice = parseInt(args[0]);
-          const threshold = parseInt(args[1]);
-          const result = parseDiceCommand(dice.toString());
-          const success = result.hits >= threshold;
-          const netHits = result.hits - threshold;
-          
-          let output = formatDiceResult(result, `${dice} dice vs threshold ${threshold}`);
-          output += `\n${success ? '✅' : '❌'} ${success ? `Success (${netHits} net hits)` : 'Failure'}`;
-          
-          return { success: true, output, broadcast: true, data: { ...result, threshold, success, netHits } };
-        } catch (error) {
-          return { success: false, output: `Test error: ${error instanceof Error ? error.message : 'Unknown error'}` };
-        }
-      
-      default:
-        return {
-          success: false,
-          output: `Command "${cmd.name}" not yet implemented.`
-        };
+    const results: CommandResult[] = [];
+    for (const pipeline of chain) {
+      results.push(await runPipeline(pipeline, context));
+    }
+    if (results.length === 1) {
+      return results[0];
     }
+    
+    return {
+      success: results.every(result => result.success),
+      output: results.map(result => result.output).filter(output => output !== 'CLEAR_CONSOLE').join('\n\n'),
+      // The joined output may include private messages, so it is only broadcast without them
+      broadcast: results.some(result => result.broadcast) && !results.some(result => result.privateMessages),
+      data: results[results.length - 1].data,
+      privateMessages: results.flatMap(result => result.privateMessages || [])
+    };
   } catch (error) {
     return {
       success: false,
@@ -392,69 +1277,196 @@ export async function executeCommand(
 }
 
 // Command history management
+export interface CommandHistoryEntry {
+  command: string;
+  timestamp: string; // ISO date
+  sessionId?: string; // Session the command was typed in
+  synced?: boolean; // Stored on the server
+}
+
+export interface HistorySearchMatch {
+  entry: CommandHistoryEntry;
+  exact: boolean; // Query appears as a substring, not just as a subsequence
+}
+
+// Where history is kept beyond this device
+export interface HistorySyncAdapter {
+  fetch: (options: { sessionId?: string; limit: number }) => Promise<CommandHistoryEntry[]>;
+  push: (entries: CommandHistoryEntry[]) => Promise<void>;
+}
+
+// Fuzzy match: 2 for a substring, 1 for an in-order subsequence, 0 for no match
+function fuzzyMatchScore(query: string, text: string): number {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (t.includes(q)) return 2;
+  let position = 0;
+  for (const ch of q) {
+    position = t.indexOf(ch, position);
+    if (position === -1) return 0;
+    position++;
+  }
+  return 1;
+}
+
 export class CommandHistoryManager {
-  private history: string[] = [];
+  private entries: CommandHistoryEntry[] = [];
   private currentIndex = -1;
-  private maxHistory = 100;
+  private maxHistory = 1000;
+  private userId?: string;
+  private sessionId?: string;
+  private sync?: HistorySyncAdapter;
+  private pushQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: { userId?: string; sessionId?: string; sync?: HistorySyncAdapter } = {}) {
+    this.userId = options.userId;
+    this.sessionId = options.sessionId;
+    this.sync = options.sync;
+  }
+
+  // Signed-out history keeps the key it had before history was per user
+  private get storageKey(): string {
+    return this.userId ? `shadowrun-command-history-${this.userId}` : 'shadowrun-command-history';
+  }
+
+  // Switch to another user's history, so nobody sees or uploads anyone else's
+  setUser(userId?: string) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.entries = [];
+    this.currentIndex = -1;
+    this.loadFromStorage();
+  }
+
+  // Tag new commands with the session they were typed in
+  setSession(sessionId?: string) {
+    this.sessionId = sessionId;
+  }
+
+  setSync(sync?: HistorySyncAdapter) {
+    this.sync = sync;
+  }
 
   addCommand(command: string) {
     // Don't add empty commands or duplicates of the last command
-    if (!command.trim() || command === this.history[this.history.length - 1]) {
+    if (!command.trim() || command === this.entries[this.entries.length - 1]?.command) {
       return;
     }
     
-    this.history.push(command);
+    this.entries.push({ command, timestamp: new Date().toISOString(), sessionId: this.sessionId });
     
     // Limit history size
-    if (this.history.length > this.maxHistory) {
-      this.history.shift();
+    if (this.entries.length > this.maxHistory) {
+      this.entries.shift();
     }
     
-    this.currentIndex = this.history.length;
+    this.currentIndex = this.entries.length;
     
     // Save to localStorage
     this.saveToStorage();
+    
+    this.pushUnsynced().catch(error => console.warn('Failed to sync command history:', error));
   }
 
   getPrevious(): string | null {
-    if (this.history.length === 0) return null;
+    if (this.entries.length === 0) return null;
     
     if (this.currentIndex > 0) {
       this.currentIndex--;
     }
     
-    return this.history[this.currentIndex] || null;
+    return this.entries[this.currentIndex]?.command || null;
   }
 
   getNext(): string | null {
-    if (this.history.length === 0) return null;
+    if (this.entries.length === 0) return null;
     
-    if (this.currentIndex < this.history.length - 1) {
+    if (this.currentIndex < this.entries.length - 1) {
       this.currentIndex++;
-      return this.history[this.currentIndex];
+      return this.entries[this.currentIndex].command;
     } else {
-      this.currentIndex = this.history.length;
+      this.currentIndex = this.entries.length;
       return '';
     }
   }
 
   reset() {
-    this.currentIndex = this.history.length;
+    this.currentIndex = this.entries.length;
   }
 
   getHistory(): string[] {
-    return [...this.history];
+    return this.entries.map(entry => entry.command);
+  }
+
+  getEntries(): CommandHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  // Reverse search, newest first: substring matches, then fuzzy ones.
+  // Each distinct command is returned once.
+  search(query: string, options: { sessionId?: string } = {}): HistorySearchMatch[] {
+    const seen = new Set<string>();
+    const exact: HistorySearchMatch[] = [];
+    const fuzzy: HistorySearchMatch[] = [];
+    
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (seen.has(entry.command)) continue;
+      if (options.sessionId && entry.sessionId !== options.sessionId) continue;
+      
+      const score = query ? fuzzyMatchScore(query, entry.command) : 2;
+      if (score === 0) continue;
+      seen.add(entry.command);
+      (score === 2 ? exact : fuzzy).push({ entry, exact: score === 2 });
+    }
+    
+    return [...exact, ...fuzzy];
+  }
+
+  // Merge the server's history with ours and upload anything it hasn't seen
+  async syncWithServer(): Promise<number> {
+    if (!this.sync) return 0;
+    
+    const remote = await this.sync.fetch({ limit: this.maxHistory });
+    const known = new Set(this.entries.map(entry => `${entry.timestamp}|${entry.command}`));
+    const added = remote.filter(entry => !known.has(`${entry.timestamp}|${entry.command}`));
+    
+    this.entries = [...this.entries, ...added.map(entry => ({ ...entry, synced: true }))]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-this.maxHistory);
+    this.currentIndex = this.entries.length;
+    this.saveToStorage();
+    
+    await this.pushUnsynced();
+    return added.length;
+  }
+
+  // Uploads run one at a time, each sending whatever is still unsynced when it
+  // starts, so commands typed in quick succession are never sent twice
+  private pushUnsynced(): Promise<void> {
+    const push = this.pushQueue.catch(() => undefined).then(() => this.pushBatch());
+    this.pushQueue = push;
+    return push;
+  }
+
+  private async pushBatch() {
+    const unsynced = this.entries.filter(entry => !entry.synced);
+    if (!this.sync || unsynced.length === 0) return;
+    
+    await this.sync.push(unsynced);
+    unsynced.forEach(entry => { entry.synced = true; });
+    this.saveToStorage();
   }
 
   clearHistory() {
-    this.history = [];
+    this.entries = [];
     this.currentIndex = -1;
-    localStorage.removeItem('shadowrun-command-history');
+    localStorage.removeItem(this.storageKey);
   }
 
   private saveToStorage() {
     try {
-      localStorage.setItem('shadowrun-command-history', JSON.stringify(this.history));
+      localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
     } catch (error) {
       console.warn('Failed to save command history:', error);
     }
@@ -462,13 +1474,17 @@ export class CommandHistoryManager {
 
   loadFromStorage() {
     try {
-      const saved = localStorage.getItem('shadowrun-command-history');
+      const saved = localStorage.getItem(this.storageKey);
       if (saved) {
-        this.history = JSON.parse(saved);
-        this.currentIndex = this.history.length;
+        // Older versions stored plain command strings
+        const parsed: Array<string | CommandHistoryEntry> = JSON.parse(saved);
+        this.entries = parsed.map(entry =>
+          typeof entry === 'string' ? { command: entry, timestamp: new Date(0).toISOString() } : entry
+        );
+        this.currentIndex = this.entries.length;
       }
     } catch (error) {
       console.warn('Failed to load command history:', error);
     }
   }
-}
\ No newline at end of file
+}
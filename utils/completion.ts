@@ -0,0 +1,176 @@
+// Console auto-completion
+//
+// Completes the word at the end of the input: command names first, then
+// arguments by working out which parameter the word fills. Values come from the
+// parameter's options and suggestions, plus context sources (character skills and
+// attributes, NPCs in the scene, session participants, themes). --flags complete too.
+import {
+  commands,
+  findCommand,
+  convertParameterValue,
+  Command,
+  CommandParameter,
+  CommandContext
+} from './commands';
+import { tokenizeCommandLine, quoteCommandArgument } from './commandLine';
+import { attributeAbbreviations } from './diceExpression';
+
+export interface CompletionItem {
+  value: string; // Text that replaces the input from replaceFrom on
+  replaceFrom: number;
+  label: string; // What to show in the list
+  parameter?: string; // Parameter the completion fills, if any
+  description: string;
+}
+
+export type CompletionContext = Pick<CommandContext, 'character' | 'session' | 'participants' | 'themes'>;
+
+const startsWith = (value: string, prefix: string) => value.toLowerCase().startsWith(prefix.toLowerCase());
+
+// Raw values a parameter can take in this context
+function parameterValues(param: CommandParameter, context: CompletionContext): string[] {
+  const values = [...(param.options || []), ...(param.suggestions || [])];
+
+  switch (param.completeFrom) {
+    case 'commands':
+      values.push(...Object.keys(commands));
+      break;
+    case 'npcs':
+      values.push(...(context.session?.getState().npcs.map(npc => npc.name) || []));
+      break;
+    case 'participants':
+      values.push(...(context.participants || []));
+      break;
+    case 'themes':
+      values.push(...Object.keys(context.themes?.getThemes() || {}));
+      break;
+    case 'characterPool':
+      if (context.character) {
+        const character = context.character;
+        values.push(...Object.keys(character.skills).map(skill => skill.replace(/\s+/g, '_')));
+        Object.entries(attributeAbbreviations).forEach(([abbreviation, attribute]) => {
+          if (character.attributes[attribute] !== undefined) values.push(abbreviation.toUpperCase());
+        });
+      }
+      break;
+  }
+
+  return Array.from(new Set(values));
+}
+
+// Parameters the next positional argument could fill, given the ones before it.
+// Optional parameters can be skipped, so there may be several.
+function candidateParameters(cmd: Command, prior: string[], flagged: Set<string>): CommandParameter[] {
+  const parameters = (cmd.parameters || []).filter(param => !flagged.has(param.name));
+  const candidates: CommandParameter[] = [];
+  let index = 0;
+
+  for (const param of parameters) {
+    if (index < prior.length) {
+      if (param.rest) return [param];
+      const { error } = convertParameterValue(param, prior[index]);
+      if (error && !param.required) continue;
+      index++;
+      continue;
+    }
+    candidates.push(param);
+    if (param.required) break;
+  }
+
+  return index < prior.length ? [] : candidates;
+}
+
+// Complete the values of one parameter against a partial word
+function completeParameter(
+  param: CommandParameter,
+  partial: string,
+  replaceFrom: number,
+  context: CompletionContext,
+  prefix: string = ''
+): CompletionItem[] {
+  // Dice pools complete the last term: "AGI+Fire" -> "AGI+Firearms"
+  const termStart = param.completeFrom === 'characterPool' ? Math.max(partial.lastIndexOf('+'), partial.lastIndexOf('-')) + 1 : 0;
+  const head = partial.slice(0, termStart);
+  const term = partial.slice(termStart);
+
+  return parameterValues(param, context)
+    .filter(value => startsWith(value, term) && value !== term)
+    .map(value => ({
+      value: prefix + quoteCommandArgument(head + value),
+      replaceFrom,
+      label: value,
+      parameter: param.name,
+      description: param.description
+    }));
+}
+
+// Completions for the word at the end of the input
+export function getCompletions(input: string, context: CompletionContext = {}): CompletionItem[] {
+  // Only the last command of a chain or pipeline matters
+  const tokens = tokenizeCommandLine(input, { partial: true });
+  let lastOperator = -1;
+  tokens.forEach((token, i) => {
+    if (token.type !== 'word') lastOperator = i;
+  });
+  const words = tokens.slice(lastOperator + 1);
+
+  const endsWord = words.length > 0 && words[words.length - 1].end === input.length;
+  const current = endsWord ? words[words.length - 1] : null;
+  const before = endsWord ? words.slice(0, -1) : words;
+  const partial = current?.text ?? '';
+  const replaceFrom = current?.start ?? input.length;
+
+  // Command names
+  if (before.length === 0) {
+    return Object.values(commands)
+      .flatMap(cmd => [cmd.name, ...cmd.aliases].map(name => ({ name, cmd })))
+      .filter(({ name }) => startsWith(name, partial))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ name, cmd }) => ({ value: name, replaceFrom, label: name, description: cmd.description }));
+  }
+
+  const cmd = findCommand(before[0].text);
+  if (!cmd || !cmd.parameters) return [];
+
+  const isFlag = (token: { text: string; quoted: boolean }) => !token.quoted && token.text.startsWith('--');
+  const flagged = new Set(
+    before.slice(1).filter(isFlag).map(token => token.text.slice(2).split('=')[0].replace(/-/g, '_').toLowerCase())
+  );
+  const flagParam = (name: string) => cmd.parameters!.find(param => param.name.toLowerCase() === name);
+
+  // --name=value and --name
+  if (current && isFlag(current)) {
+    const [rawName, ...value] = current.text.slice(2).split('=');
+    if (value.length > 0) {
+      const param = flagParam(rawName.replace(/-/g, '_').toLowerCase());
+      return param ? completeParameter(param, value.join('='), replaceFrom, context, `--${rawName}=`) : [];
+    }
+    return cmd.parameters
+      .filter(param => !flagged.has(param.name.toLowerCase()))
+      .map(param => `--${param.name.replace(/_/g, '-')}`)
+      .filter(flag => startsWith(flag, current.text))
+      .map(flag => {
+        const param = flagParam(flag.slice(2).replace(/-/g, '_'))!;
+        return { value: `${flag}=`, replaceFrom, label: flag, parameter: param.name, description: param.description };
+      });
+  }
+
+  const prior = before.slice(1).filter(token => !isFlag(token)).map(token => token.text);
+  return candidateParameters(cmd, prior, flagged).flatMap(param => completeParameter(param, partial, replaceFrom, context));
+}
+
+// Apply a completion to the input
+export function applyCompletion(input: string, item: CompletionItem): string {
+  const completed = input.slice(0, item.replaceFrom) + item.value;
+  return item.value.endsWith('=') ? completed : `${completed} `;
+}
+
+// Longest prefix the items share, for completing as far as is unambiguous
+export function commonCompletionPrefix(items: CompletionItem[]): string {
+  if (items.length === 0) return '';
+  return items.map(item => item.value).reduce((prefix, value) => {
+    let i = 0;
+    while (i < prefix.length && i < value.length && prefix[i].toLowerCase() === value[i].toLowerCase()) i++;
+    return prefix.slice(0, i);
+  });
+}
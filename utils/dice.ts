@@ -1,4 +1,17 @@
 // Shadowrun Dice Utilities
+import { RandomSource, createCryptoRandom, restoreRandom, rollDie } from './random';
+import {
+  DiceExpression,
+  DiceParseError,
+  DiceVariables,
+  MAX_DICE,
+  getCharacterDiceVariables,
+  parseDiceExpression,
+  resolveVariable
+} from './diceExpression';
+import { InitiativeType, rollCharacterInitiative, rollInitiative } from './initiative';
+import type { ShadowrunCharacter } from '../components/CharacterSheet';
+
 export interface ShadowrunDiceResult {
   dice: number;
   results: number[];
@@ -10,6 +23,16 @@ export interface ShadowrunDiceResult {
   total?: number; // For non-shadowrun dice
   exploded: number[]; // Exploding 6s for edge
   edge_used?: boolean; // Whether Edge was used in this roll
+  limit?: number; // Limit the hits were capped at
+  bonusHits?: number; // Automatic hits bought with Edge
+  edgeSpent?: number; // Edge points spent on this test
+  edgeActions?: string[]; // Edge actions applied, in order
+  dropped?: number[]; // Dice discarded by keep-highest/lowest
+  threshold?: number; // Threshold or target number from the expression
+  label?: string; // Free text label from the expression
+  seed?: number; // Seed of the random stream the roll was drawn from
+  seedOffset?: number; // Draws taken from that stream before this roll
+  seedEnd?: number; // Draws taken once the roll (and any Edge spent on it) was done
 }
 
 export interface DiceModifiers {
@@ -18,68 +41,107 @@ export interface DiceModifiers {
   explodingDice?: boolean;
   rerollOnes?: boolean;
   pushTheLimit?: boolean;
+  rng?: RandomSource; // Defaults to a fresh crypto-seeded source per roll
+}
+
+// Record where in the random stream a roll starts so it can be replayed
+function streamPosition(rng: RandomSource): { seed: number; seedOffset: number } {
+  return { seed: rng.seed, seedOffset: rng.draws };
+}
+
+// Get a random source that reproduces a recorded roll
+export function getReplaySource(result: ShadowrunDiceResult): RandomSource {
+  if (result.seed === undefined) {
+    throw new Error('Roll has no recorded seed and cannot be replayed');
+  }
+  return restoreRandom(result.seed, result.seedOffset || 0);
+}
+
+// Roll an extra die for every 6, repeating while the extra dice keep showing 6s
+export function explodeSixes(dice: number[], rng: RandomSource): number[] {
+  const exploded: number[] = [];
+  let sixesCount = dice.filter(r => r === 6).length;
+  while (sixesCount > 0) {
+    const wave: number[] = [];
+    for (let i = 0; i < sixesCount; i++) {
+      wave.push(rollDie(rng));
+    }
+    exploded.push(...wave);
+    sixesCount = wave.filter(r => r === 6).length;
+  }
+  return exploded;
 }
 
 // Roll standard Shadowrun dice (d6s counting 5s and 6s as hits)
 export function rollShadowrunDice(diceCount: number, modifiers: DiceModifiers = {}): ShadowrunDiceResult {
+  const rng = modifiers.rng || createCryptoRandom();
+  const position = streamPosition(rng);
   const results: number[] = [];
   const exploded: number[] = [];
   
   // Initial roll
   for (let i = 0; i < diceCount; i++) {
-    results.push(Math.floor(Math.random() * 6) + 1);
+    results.push(rollDie(rng));
   }
   
   // Handle edge effects (exploding 6s)
   if (modifiers.edge || modifiers.explodingDice) {
-    let sixesCount = results.filter(r => r === 6).length;
-    while (sixesCount > 0) {
-      for (let i = 0; i < sixesCount; i++) {
-        const newRoll = Math.floor(Math.random() * 6) + 1;
-        exploded.push(newRoll);
-      }
-      sixesCount = exploded.filter(r => r === 6).length;
-    }
+    exploded.push(...explodeSixes(results, rng));
   }
   
   // Handle reroll ones (some edge effects)
   if (modifiers.rerollOnes) {
     for (let i = 0; i < results.length; i++) {
       if (results[i] === 1) {
-        results[i] = Math.floor(Math.random() * 6) + 1;
+        results[i] = rollDie(rng);
       }
     }
   }
   
-  const allDice = [...results, ...exploded];
+  return {
+    dice: diceCount,
+    ...tallyShadowrunDice(results, exploded, modifiers),
+    exploded,
+    limit: modifiers.limit,
+    edge_used: modifiers.edge || modifiers.explodingDice,
+    ...position,
+    seedEnd: rng.draws
+  };
+}
+
+// Count hits, ones and glitches for a set of base and exploded dice
+export function tallyShadowrunDice(
+  baseDice: number[],
+  exploded: number[],
+  options: { limit?: number; pushTheLimit?: boolean; bonusHits?: number } = {}
+): Pick<ShadowrunDiceResult, 'results' | 'hits' | 'ones' | 'sixes' | 'isGlitch' | 'isCriticalGlitch'> {
+  const allDice = [...baseDice, ...exploded];
   const hits = allDice.filter(r => r >= 5).length;
-  const ones = results.filter(r => r === 1).length; // Only count ones from original dice for glitch
+  const ones = baseDice.filter(r => r === 1).length; // Only count ones from original dice for glitch
   const sixes = allDice.filter(r => r === 6).length;
   
   // Apply limit
-  const finalHits = modifiers.limit && !modifiers.pushTheLimit 
-    ? Math.min(hits, modifiers.limit) 
+  const limitedHits = options.limit && !options.pushTheLimit 
+    ? Math.min(hits, options.limit) 
     : hits;
+  const finalHits = limitedHits + (options.bonusHits || 0);
   
   // Glitch rules: More than half the dice show 1s
-  const isGlitch = ones > Math.floor(diceCount / 2);
+  const isGlitch = ones > Math.floor(baseDice.length / 2);
   const isCriticalGlitch = isGlitch && finalHits === 0;
   
   return {
-    dice: diceCount,
     results: allDice,
     hits: finalHits,
     ones,
     sixes,
     isGlitch,
-    isCriticalGlitch,
-    exploded,
-    edge_used: modifiers.edge || modifiers.explodingDice
+    isCriticalGlitch
   };
 }
 
 // Roll standard dice (for damage, initiative, etc.)
-export function rollStandardDice(notation: string): ShadowrunDiceResult {
+export function rollStandardDice(notation: string, rng: RandomSource = createCryptoRandom()): ShadowrunDiceResult {
   const match = notation.match(/(\d+)d(\d+)([+-]\d+)?/i);
   if (!match) {
     throw new Error('Invalid dice notation. Use format like "3d6" or "2d8+2"');
@@ -89,9 +151,10 @@ export function rollStandardDice(notation: string): ShadowrunDiceResult {
   const diceSize = parseInt(match[2]);
   const modifier = match[3] ? parseInt(match[3]) : 0;
   
+  const position = streamPosition(rng);
   const results: number[] = [];
   for (let i = 0; i < diceCount; i++) {
-    results.push(Math.floor(Math.random() * diceSize) + 1);
+    results.push(rollDie(rng, diceSize));
   }
   
   const total = results.reduce((sum, roll) => sum + roll, 0) + modifier;
@@ -106,50 +169,139 @@ export function rollStandardDice(notation: string): ShadowrunDiceResult {
     isCriticalGlitch: false,
     total,
     exploded: [],
-    edge_used: false
+    edge_used: false,
+    ...position
   };
 }
 
+export interface ParseDiceOptions {
+  rng?: RandomSource;
+  variables?: DiceVariables; // Attribute and skill values for named pools
+  character?: ShadowrunCharacter; // Active character; supplies variables and initiative
+}
+
 // Parse and execute various dice commands
-export function parseDiceCommand(command: string): ShadowrunDiceResult {
-  const cmd = command.toLowerCase().trim();
-  
-  // Shadowrun dice patterns
-  const srDiceMatch = cmd.match(/^(\d+)(?:\s*(?:limit|l)\s*(\d+))?(?:\s*(edge|e))?$/);
-  if (srDiceMatch) {
-    const diceCount = parseInt(srDiceMatch[1]);
-    const limit = srDiceMatch[2] ? parseInt(srDiceMatch[2]) : undefined;
-    const hasEdge = !!srDiceMatch[3];
-    
-    return rollShadowrunDice(diceCount, { limit, edge: hasEdge });
-  }
-  
-  // Standard dice patterns (3d6, 2d8+2, etc.)
-  const standardMatch = cmd.match(/^\d+d\d+([+-]\d+)?$/);
-  if (standardMatch) {
-    return rollStandardDice(cmd);
-  }
+export function parseDiceCommand(command: string, options: ParseDiceOptions = {}): ShadowrunDiceResult {
+  const rng = options.rng || createCryptoRandom();
+  const cmd = command.trim();
   
-  // Initiative roll (1d6+REA+INT)
-  const initMatch = cmd.match(/^init(?:iative)?(?:\s+(\d+))?$/);
+  // Initiative: "init", "init astral", "init matrix hot", "init 10", "init 10+3d6"
+  const initMatch = cmd.toLowerCase().match(/^init(?:iative)?(?:\s+(physical|astral|matrix|rigging))?(?:\s+(hot))?(?:\s+(\d+))?(?:\s*\+?\s*(\d+)d6)?$/);
   if (initMatch) {
-    const bonus = initMatch[1] ? parseInt(initMatch[1]) : 8; // Default REA+INT
-    const diceRoll = Math.floor(Math.random() * 6) + 1;
+    const type = (initMatch[1] || 'physical') as InitiativeType;
+    let initiative;
+    if (initMatch[3]) {
+      initiative = rollInitiative(parseInt(initMatch[3]), initMatch[4] ? parseInt(initMatch[4]) : 1, { type, rng });
+    } else if (options.character) {
+      initiative = rollCharacterInitiative(options.character, type, { hotSim: !!initMatch[2], rng });
+    } else {
+      throw new Error('No character loaded. Use "init <base> [dice]d6", e.g. "init 10+2d6"');
+    }
     return {
-      dice: 1,
-      results: [diceRoll],
+      dice: initiative.dice,
+      results: initiative.rolls,
       hits: 0,
       ones: 0,
       sixes: 0,
       isGlitch: false,
       isCriticalGlitch: false,
-      total: diceRoll + bonus,
+      total: initiative.score,
       exploded: [],
-      edge_used: false
+      edge_used: false,
+      label: `${type} initiative, ${initiative.minorActions} Minor Actions`,
+      seed: initiative.seed,
+      seedOffset: initiative.seedOffset
     };
   }
   
-  throw new Error('Invalid dice command. Try: "12" (SR dice), "3d6" (standard), or "init 12" (initiative)');
+  if (!cmd) {
+    throw new Error('Invalid dice command. Try: "12" (SR dice), "3d6" (standard), or "init 12" (initiative)');
+  }
+  
+  // Parse the untrimmed command so error columns match what was typed
+  const variables = options.variables || (options.character ? getCharacterDiceVariables(options.character) : undefined);
+  return rollDiceExpression(parseDiceExpression(command), { rng, variables });
+}
+
+// Roll a parsed expression: Shadowrun pool if it has no dice groups, standard dice otherwise
+export function rollDiceExpression(expression: DiceExpression, options: ParseDiceOptions = {}): ShadowrunDiceResult {
+  const rng = options.rng || createCryptoRandom();
+  const variables = options.variables || {};
+  const { source, suffixColumns } = expression;
+  
+  let modifier = 0;
+  expression.terms.forEach(term => {
+    if (term.kind === 'number') {
+      modifier += term.sign * term.value;
+    } else if (term.kind === 'variable') {
+      modifier += term.sign * resolveVariable(term, variables, source);
+    }
+  });
+  
+  const groups = expression.terms.filter((term): term is Extract<typeof term, { kind: 'dice' }> => term.kind === 'dice');
+  const annotations = { threshold: expression.threshold, label: expression.label };
+  
+  // Shadowrun dice pool
+  if (groups.length === 0) {
+    if (modifier < 1) {
+      throw new DiceParseError(`Dice pool comes to ${modifier}; need at least 1 die`, source, expression.terms[0].column);
+    }
+    if (modifier > MAX_DICE) {
+      throw new DiceParseError(`Dice pool comes to ${modifier}; the maximum is ${MAX_DICE}`, source, expression.terms[0].column);
+    }
+    return {
+      ...rollShadowrunDice(modifier, { limit: expression.limit, edge: expression.edge, rng }),
+      ...annotations
+    };
+  }
+  
+  if (suffixColumns.limit !== undefined) {
+    throw new DiceParseError('Limits only apply to Shadowrun dice pools', source, suffixColumns.limit);
+  }
+  if (suffixColumns.edge !== undefined) {
+    throw new DiceParseError('Edge only applies to Shadowrun dice pools', source, suffixColumns.edge);
+  }
+  
+  // Standard dice groups
+  const position = streamPosition(rng);
+  const results: number[] = [];
+  const dropped: number[] = [];
+  let total = modifier;
+  
+  groups.forEach(group => {
+    const rolls: number[] = [];
+    for (let i = 0; i < group.count; i++) {
+      rolls.push(rollDie(rng, group.sides));
+    }
+    
+    let kept = rolls;
+    if (group.keep) {
+      const order = rolls.map((value, i) => ({ value, i }))
+        .sort((a, b) => group.keep!.mode === 'highest' ? b.value - a.value : a.value - b.value);
+      const keptIndexes = new Set(order.slice(0, group.keep.count).map(entry => entry.i));
+      kept = rolls.filter((_, i) => keptIndexes.has(i));
+      dropped.push(...rolls.filter((_, i) => !keptIndexes.has(i)));
+    }
+    
+    results.push(...kept);
+    total += group.sign * kept.reduce((sum, roll) => sum + roll, 0);
+  });
+  
+  return {
+    dice: groups.reduce((sum, group) => sum + group.count, 0),
+    results,
+    hits: 0,
+    ones: 0,
+    sixes: 0,
+    isGlitch: false,
+    isCriticalGlitch: false,
+    total,
+    exploded: [],
+    edge_used: false,
+    ...(dropped.length > 0 ? { dropped } : {}),
+    ...annotations,
+    ...position
+  };
 }
 
 // Format dice results for display
@@ -166,7 +318,13 @@ export function formatDiceResult(result: ShadowrunDiceResult, command: string):
     if (result.results && Array.isArray(result.results)) {
       output += `Results: [${result.results.join(', ')}]\n`;
     }
+    if (result.dropped && result.dropped.length > 0) {
+      output += `Dropped: [${result.dropped.join(', ')}]\n`;
+    }
     output += `Total: ${result.total}`;
+    if (result.threshold !== undefined) {
+      output += `\n🎯 Target ${result.threshold}: ${result.total >= result.threshold ? 'Success' : 'Failure'}`;
+    }
   } else {
     // Shadowrun dice
     if (result.results && Array.isArray(result.results)) {
@@ -196,26 +354,20 @@ export function formatDiceResult(result: ShadowrunDiceResult, command: string):
     }
   }
   
-  return output;
-}
-
-// Edge actions
-export function spendEdge(diceCount: number, edgeAction: 'reroll' | 'explode' | 'pushLimit'): ShadowrunDiceResult {
-  const modifiers: DiceModifiers = { edge: true };
+  if (result.threshold !== undefined && result.total === undefined) {
+    output += `\n🎯 Threshold ${result.threshold}: ${evaluateTest(result.hits || 0, result.threshold)}`;
+  }
+  
+  if (result.edgeSpent) {
+    output += `\n✨ Edge spent: ${result.edgeSpent}${result.edgeActions && result.edgeActions.length > 0 ? ` (${result.edgeActions.join(', ')})` : ''}`;
+  }
   
-  switch (edgeAction) {
-    case 'reroll':
-      modifiers.rerollOnes = true;
-      break;
-    case 'explode':
-      modifiers.explodingDice = true;
-      break;
-    case 'pushLimit':
-      modifiers.pushTheLimit = true;
-      break;
+  // Seed lets the GM replay a disputed roll
+  if (result.seed !== undefined) {
+    output += `\nSeed: ${result.seed}${result.seedOffset ? `@${result.seedOffset}` : ''}`;
   }
   
-  return rollShadowrunDice(diceCount, modifiers);
+  return output;
 }
 
 // Common Shadowrun test difficulties
@@ -241,4 +393,154 @@ export function evaluateTest(hits: number, threshold: number): string {
   } else {
     return `Success (${netHits} net hits)`;
   }
-}
\ No newline at end of file
+}
+
+export interface OpposedTestOptions {
+  attackerLimit?: number;
+  defenderLimit?: number;
+  rng?: RandomSource;
+}
+
+export interface OpposedTestResult {
+  attacker: ShadowrunDiceResult;
+  defender: ShadowrunDiceResult;
+  netHits: number; // Attacker hits minus defender hits, never below 0
+  isTie: boolean;
+  winner: 'attacker' | 'defender';
+  attackerGlitch: boolean;
+  defenderGlitch: boolean;
+}
+
+// Opposed test: both sides roll, ties go to the defender
+export function opposedTest(attackerPool: number, defenderPool: number, options: OpposedTestOptions = {}): OpposedTestResult {
+  [attackerPool, defenderPool].forEach(pool => {
+    if (pool < 1 || pool > MAX_DICE) {
+      throw new Error(`Opposed test pools must be between 1 and ${MAX_DICE} dice`);
+    }
+  });
+  const rng = options.rng || createCryptoRandom();
+  const attacker = rollShadowrunDice(attackerPool, { limit: options.attackerLimit, rng });
+  const defender = rollShadowrunDice(defenderPool, { limit: options.defenderLimit, rng });
+  const difference = attacker.hits - defender.hits;
+  
+  return {
+    attacker,
+    defender,
+    netHits: Math.max(0, difference),
+    isTie: difference === 0,
+    winner: difference > 0 ? 'attacker' : 'defender',
+    attackerGlitch: attacker.isGlitch,
+    defenderGlitch: defender.isGlitch
+  };
+}
+
+export interface ExtendedTestOptions {
+  limit?: number;
+  interval?: { length: number; unit: string };
+  maxIntervals?: number;
+  rng?: RandomSource;
+}
+
+export interface ExtendedTestInterval {
+  interval: number;
+  pool: number;
+  result: ShadowrunDiceResult;
+  cumulativeHits: number;
+}
+
+export interface ExtendedTestResult {
+  threshold: number;
+  intervals: ExtendedTestInterval[];
+  totalHits: number;
+  success: boolean;
+  criticalGlitch: boolean;
+  glitches: number;
+  elapsed: { length: number; unit: string };
+}
+
+// Extended test: roll every interval, losing a die each time, until the threshold is met
+export function extendedTest(pool: number, threshold: number, options: ExtendedTestOptions = {}): ExtendedTestResult {
+  if (pool < 1) {
+    throw new Error('Extended test needs at least one die');
+  }
+  if (pool > MAX_DICE) {
+    throw new Error(`Extended test pool can't be more than ${MAX_DICE} dice`);
+  }
+  if (threshold < 1) {
+    throw new Error('Extended test threshold must be at least 1');
+  }
+  
+  const rng = options.rng || createCryptoRandom();
+  const interval = options.interval || { length: 1, unit: 'turn' };
+  const maxIntervals = options.maxIntervals || pool;
+  const intervals: ExtendedTestInterval[] = [];
+  let totalHits = 0;
+  let criticalGlitch = false;
+  
+  for (let i = 0; i < maxIntervals && pool - i > 0 && totalHits < threshold; i++) {
+    const result = rollShadowrunDice(pool - i, { limit: options.limit, rng });
+    
+    // A critical glitch ruins the whole extended test
+    if (result.isCriticalGlitch) {
+      criticalGlitch = true;
+      totalHits = 0;
+    } else {
+      totalHits += result.hits;
+    }
+    
+    intervals.push({ interval: i + 1, pool: pool - i, result, cumulativeHits: totalHits });
+    if (criticalGlitch) break;
+  }
+  
+  return {
+    threshold,
+    intervals,
+    totalHits,
+    success: !criticalGlitch && totalHits >= threshold,
+    criticalGlitch,
+    glitches: intervals.filter(i => i.result.isGlitch).length,
+    elapsed: { length: intervals.length * interval.length, unit: interval.unit }
+  };
+}
+
+// Format an opposed test for display
+export function formatOpposedResult(result: OpposedTestResult, attackerPool: number, defenderPool: number): string {
+  let output = `Opposed test: ${attackerPool} dice vs ${defenderPool} dice\n`;
+  output += `Attacker: [${result.attacker.results.join(', ')}] = ${result.attacker.hits} hits`;
+  if (result.attackerGlitch) output += result.attacker.isCriticalGlitch ? ' 💀 CRITICAL GLITCH' : ' ⚠️ Glitch';
+  output += `\nDefender: [${result.defender.results.join(', ')}] = ${result.defender.hits} hits`;
+  if (result.defenderGlitch) output += result.defender.isCriticalGlitch ? ' 💀 CRITICAL GLITCH' : ' ⚠️ Glitch';
+  
+  if (result.isTie) {
+    output += '\n⚖️ Tie - defender holds';
+  } else if (result.winner === 'attacker') {
+    output += `\n✅ Attacker wins (${result.netHits} net hits)`;
+  } else {
+    output += `\n🛡️ Defender wins by ${result.defender.hits - result.attacker.hits}`;
+  }
+  
+  return output;
+}
+
+// Format an extended test with its per-interval breakdown
+export function formatExtendedResult(result: ExtendedTestResult, pool: number): string {
+  let output = `Extended test: ${pool} dice, threshold ${result.threshold}\n`;
+  result.intervals.forEach(step => {
+    let line = `  #${step.interval} (${step.pool} dice): ${step.result.hits} hits → ${step.cumulativeHits}/${result.threshold}`;
+    if (step.result.isCriticalGlitch) {
+      line += ' 💀 CRITICAL GLITCH';
+    } else if (step.result.isGlitch) {
+      line += ' ⚠️ Glitch';
+    }
+    output += `${line}\n`;
+  });
+  
+  output += `Time: ${result.elapsed.length} ${result.elapsed.unit}${result.elapsed.length === 1 ? '' : 's'}\n`;
+  output += result.success
+    ? `✅ Success after ${result.intervals.length} interval${result.intervals.length === 1 ? '' : 's'}`
+    : result.criticalGlitch
+      ? '❌ Failure - critical glitch wiped out the progress'
+      : `❌ Failure (${result.totalHits}/${result.threshold} hits)`;
+  
+  return output;
+}
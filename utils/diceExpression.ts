@@ -0,0 +1,263 @@
+// Dice expression tokenizer and parser
+//
+// Grammar (case-insensitive, whitespace between tokens is optional):
+//   command    := expression suffix* label?
+//   expression := term (('+' | '-') term)*
+//   term       := NUMBER | VARIABLE | NUMBER 'd' NUMBER (('kh' | 'kl') NUMBER)?
+//   suffix     := ('l' | 'limit') NUMBER | ('t' | 'threshold') NUMBER | 'e' | 'edge'
+//   label      := '#' <rest of line>
+//
+// Examples: "12", "AGI+Firearms+2-3 l5 e", "2d6+1d6+2", "4d6kh3", "12 t3 #sniper shot"
+import type { ShadowrunCharacter } from '../components/CharacterSheet';
+
+type TokenType = 'number' | 'word' | 'dice' | 'plus' | 'minus' | 'label' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  column: number; // 1-based column in the original input
+}
+
+export type DiceTerm =
+  | { kind: 'number'; sign: 1 | -1; value: number; column: number }
+  | { kind: 'variable'; sign: 1 | -1; name: string; column: number }
+  | {
+      kind: 'dice';
+      sign: 1 | -1;
+      count: number;
+      sides: number;
+      keep?: { mode: 'highest' | 'lowest'; count: number };
+      column: number;
+    };
+
+export interface DiceExpression {
+  source: string;
+  terms: DiceTerm[];
+  limit?: number;
+  threshold?: number;
+  edge: boolean;
+  label?: string;
+  suffixColumns: { limit?: number; threshold?: number; edge?: number };
+}
+
+// Dice variables by normalized name (lowercase, letters and digits only)
+export type DiceVariables = Record<string, number>;
+
+export const MAX_DICE = 100;
+
+// Parse error that knows which column of the input it came from
+export class DiceParseError extends Error {
+  column: number;
+  source: string;
+
+  constructor(message: string, source: string, column: number) {
+    const pointer = `${' '.repeat(Math.max(0, column - 1))}^`;
+    super(`${message} at column ${column}\n  ${source}\n  ${pointer}`);
+    this.name = 'DiceParseError';
+    this.column = column;
+    this.source = source;
+  }
+}
+
+// Normalize a variable or skill name so "Heavy Weapons", "heavy_weapons" and "HEAVYWEAPONS" match
+export function normalizeVariableName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Split the input into tokens
+export function tokenizeDiceExpression(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const rest = source.slice(pos);
+    const column = pos + 1;
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      pos += space[0].length;
+      continue;
+    }
+
+    if (rest[0] === '#') {
+      tokens.push({ type: 'label', text: rest.slice(1).trim(), column });
+      pos = source.length;
+      break;
+    }
+
+    if (rest[0] === '+' || rest[0] === '-') {
+      tokens.push({ type: rest[0] === '+' ? 'plus' : 'minus', text: rest[0], column });
+      pos++;
+      continue;
+    }
+
+    const dice = rest.match(/^\d+d\d+(?:k[hl]\d+)?(?![a-z0-9_])/i);
+    if (dice) {
+      tokens.push({ type: 'dice', text: dice[0], column });
+      pos += dice[0].length;
+      continue;
+    }
+
+    const num = rest.match(/^\d+/);
+    if (num) {
+      tokens.push({ type: 'number', text: num[0], column });
+      pos += num[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[a-z_][a-z0-9_]*/i);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], column });
+      pos += word[0].length;
+      continue;
+    }
+
+    throw new DiceParseError(`Unexpected character "${rest[0]}"`, source, column);
+  }
+
+  tokens.push({ type: 'end', text: '', column: source.length + 1 });
+  return tokens;
+}
+
+// Parse an expression into terms, suffixes and label
+export function parseDiceExpression(source: string): DiceExpression {
+  const tokens = tokenizeDiceExpression(source);
+  const expression: DiceExpression = { source, terms: [], edge: false, suffixColumns: {} };
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const advance = () => tokens[index++];
+
+  const expectNumber = (what: string): number => {
+    const token = advance();
+    if (token.type !== 'number') {
+      throw new DiceParseError(`Expected ${what}`, source, token.column);
+    }
+    return parseInt(token.text);
+  };
+
+  const parseTerm = (sign: 1 | -1) => {
+    const token = advance();
+    if (token.type === 'number') {
+      expression.terms.push({ kind: 'number', sign, value: parseInt(token.text), column: token.column });
+    } else if (token.type === 'dice') {
+      const [, count, sides, keepMode, keepCount] = token.text.match(/^(\d+)d(\d+)(?:k([hl])(\d+))?$/i)!;
+      const term: DiceTerm = {
+        kind: 'dice',
+        sign,
+        count: parseInt(count),
+        sides: parseInt(sides),
+        column: token.column
+      };
+      if (term.count < 1 || term.count > MAX_DICE) {
+        throw new DiceParseError(`Dice count must be between 1 and ${MAX_DICE}`, source, token.column);
+      }
+      if (term.sides < 2) {
+        throw new DiceParseError('Dice need at least 2 sides', source, token.column + count.length + 1);
+      }
+      if (keepMode) {
+        term.keep = { mode: keepMode.toLowerCase() === 'h' ? 'highest' : 'lowest', count: parseInt(keepCount) };
+        if (term.keep.count < 1 || term.keep.count > term.count) {
+          throw new DiceParseError(`Can only keep 1 to ${term.count} dice`, source, token.column + token.text.toLowerCase().indexOf('k'));
+        }
+      }
+      expression.terms.push(term);
+    } else if (token.type === 'word') {
+      expression.terms.push({ kind: 'variable', sign, name: token.text, column: token.column });
+    } else {
+      const found = token.type === 'end' ? 'end of input' : `"${token.text}"`;
+      throw new DiceParseError(`Expected a number, dice group or variable but found ${found}`, source, token.column);
+    }
+  };
+
+  // Expression
+  parseTerm(1);
+  while (peek().type === 'plus' || peek().type === 'minus') {
+    const op = advance();
+    parseTerm(op.type === 'plus' ? 1 : -1);
+  }
+
+  // Suffixes
+  while (peek().type === 'word') {
+    const token = advance();
+    const match = token.text.match(/^(limit|l|threshold|t|edge|e|kh|kl)(\d*)$/i);
+    if (!match) {
+      throw new DiceParseError(`Unknown modifier "${token.text}"`, source, token.column);
+    }
+    const name = match[1].toLowerCase();
+    const value = () => (match[2] ? parseInt(match[2]) : expectNumber(`a number after "${match[1]}"`));
+
+    if (name === 'edge' || name === 'e') {
+      if (match[2]) {
+        throw new DiceParseError(`"${match[1]}" does not take a value`, source, token.column + match[1].length);
+      }
+      expression.edge = true;
+      expression.suffixColumns.edge = token.column;
+    } else if (name === 'limit' || name === 'l') {
+      expression.limit = value();
+      expression.suffixColumns.limit = token.column;
+    } else if (name === 'threshold' || name === 't') {
+      expression.threshold = value();
+      expression.suffixColumns.threshold = token.column;
+    } else {
+      throw new DiceParseError('Keep modifiers attach to a dice group, e.g. "4d6kh3"', source, token.column);
+    }
+  }
+
+  const next = advance();
+  if (next.type === 'label') {
+    expression.label = next.text;
+  } else if (next.type !== 'end') {
+    throw new DiceParseError(`Unexpected "${next.text}"`, source, next.column);
+  }
+
+  return expression;
+}
+
+// Look up a variable, throwing with the column where it was used
+export function resolveVariable(term: Extract<DiceTerm, { kind: 'variable' }>, variables: DiceVariables, source: string): number {
+  const value = variables[normalizeVariableName(term.name)];
+  if (value === undefined) {
+    throw new DiceParseError(`Unknown variable "${term.name}"`, source, term.column);
+  }
+  return value;
+}
+
+// Attribute abbreviations usable in dice expressions
+export const attributeAbbreviations: Record<string, keyof ShadowrunCharacter['attributes']> = {
+  bod: 'body',
+  agi: 'agility',
+  rea: 'reaction',
+  str: 'strength',
+  cha: 'charisma',
+  int: 'intuition',
+  log: 'logic',
+  wil: 'willpower',
+  edg: 'edge',
+  mag: 'magic',
+  res: 'resonance'
+};
+
+// Build the variables for a character: attributes (full and abbreviated) and skill ratings
+export function getCharacterDiceVariables(character: ShadowrunCharacter): DiceVariables {
+  const variables: DiceVariables = {};
+
+  Object.entries(character.skills).forEach(([skill, { rating }]) => {
+    variables[normalizeVariableName(skill)] = rating;
+  });
+
+  Object.entries(character.attributes).forEach(([attribute, value]) => {
+    if (value !== undefined) {
+      variables[normalizeVariableName(attribute)] = value;
+    }
+  });
+
+  Object.entries(attributeAbbreviations).forEach(([abbreviation, attribute]) => {
+    const value = character.attributes[attribute];
+    if (value !== undefined) {
+      variables[abbreviation] = value;
+    }
+  });
+
+  return variables;
+}
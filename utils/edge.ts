@@ -0,0 +1,242 @@
+// Shadowrun Edge Actions
+import { ShadowrunDiceResult, tallyShadowrunDice, explodeSixes } from './dice';
+import { RandomSource, createCryptoRandom, restoreRandom, rollDie } from './random';
+
+export type EdgeActionId = 'rerollOne' | 'addThree' | 'buyHit' | 'secondChance' | 'pushTheLimit';
+
+// Dice of a roll split back into the original pool and the exploded extras
+export interface EdgeDicePool {
+  base: number[];
+  exploded: number[];
+  bonusHits: number;
+  pushTheLimit: boolean;
+}
+
+export interface EdgeActionContext {
+  rng: RandomSource;
+  dieIndex?: number; // Index into the base dice for single-die actions
+  edgeRating: number;
+}
+
+export interface EdgeAction {
+  id: EdgeActionId;
+  name: string;
+  aliases: string[];
+  cost: number;
+  description: string;
+  targetsDie: boolean;
+  apply: (pool: EdgeDicePool, context: EdgeActionContext) => EdgeDicePool;
+}
+
+export interface EdgeSpendOptions {
+  rng?: RandomSource;
+  dieIndex?: number;
+  availableEdge?: number; // Edge left in the character's pool
+  edgeRating?: number; // Used by Push the Limit, defaults to availableEdge
+  edgeCap?: number; // Max Edge that may be spent on one test
+}
+
+export interface EdgeSpendResult {
+  result: ShadowrunDiceResult;
+  action: EdgeAction;
+  cost: number;
+  edgeRemaining?: number;
+}
+
+// SR6 caps Edge at 7, so no single test can take more than that
+export const DEFAULT_EDGE_CAP = 7;
+
+// Pick the die to work on: an explicit index, or the best candidate from the pool
+function resolveDieIndex(base: number[], context: EdgeActionContext, pick: (dice: number[]) => number): number {
+  if (context.dieIndex !== undefined) {
+    if (context.dieIndex < 0 || context.dieIndex >= base.length) {
+      throw new Error(`Die ${context.dieIndex + 1} is not part of this roll`);
+    }
+    return context.dieIndex;
+  }
+  const index = pick(base);
+  if (index === -1) {
+    throw new Error('No die in this roll would benefit from that Edge action');
+  }
+  return index;
+}
+
+// Lowest die that is not already a hit
+function lowestMiss(dice: number[]): number {
+  let best = -1;
+  dice.forEach((die, i) => {
+    if (die < 5 && (best === -1 || die < dice[best])) best = i;
+  });
+  return best;
+}
+
+// Highest die that is not already a hit (the cheapest to turn into one)
+function highestMiss(dice: number[]): number {
+  let best = -1;
+  dice.forEach((die, i) => {
+    if (die < 5 && (best === -1 || die > dice[best])) best = i;
+  });
+  return best;
+}
+
+// Edge action table
+export const edgeActions: Record<EdgeActionId, EdgeAction> = {
+  rerollOne: {
+    id: 'rerollOne',
+    name: 'Reroll One Die',
+    aliases: ['reroll1', 'one'],
+    cost: 1,
+    description: 'Reroll a single die',
+    targetsDie: true,
+    apply: (pool, context) => {
+      const index = resolveDieIndex(pool.base, context, lowestMiss);
+      const base = [...pool.base];
+      base[index] = rollDie(context.rng);
+      return { ...pool, base };
+    }
+  },
+  addThree: {
+    id: 'addThree',
+    name: 'Add 3 to One Die',
+    aliases: ['add3', '+3'],
+    cost: 2,
+    description: 'Add 3 to a single die (to a maximum of 6)',
+    targetsDie: true,
+    apply: (pool, context) => {
+      const index = resolveDieIndex(pool.base, context, highestMiss);
+      const base = [...pool.base];
+      base[index] = Math.min(6, base[index] + 3);
+      return { ...pool, base };
+    }
+  },
+  buyHit: {
+    id: 'buyHit',
+    name: 'Buy a Hit',
+    aliases: ['hit', 'buy'],
+    cost: 3,
+    description: 'Add one automatic hit',
+    targetsDie: false,
+    apply: pool => ({ ...pool, bonusHits: pool.bonusHits + 1 })
+  },
+  secondChance: {
+    id: 'secondChance',
+    name: 'Reroll Failures (Second Chance)',
+    aliases: ['reroll', 'second', 'failures'],
+    cost: 4,
+    description: 'Reroll every die that did not score a hit',
+    targetsDie: false,
+    apply: (pool, context) => ({
+      ...pool,
+      base: pool.base.map(die => (die >= 5 ? die : rollDie(context.rng)))
+    })
+  },
+  pushTheLimit: {
+    id: 'pushTheLimit',
+    name: 'Push the Limit',
+    aliases: ['push', 'pushlimit', 'explode'],
+    cost: 4,
+    description: 'Add your Edge rating in dice, explode 6s and ignore the limit',
+    targetsDie: false,
+    apply: (pool, context) => {
+      const extra: number[] = [];
+      for (let i = 0; i < context.edgeRating; i++) {
+        extra.push(rollDie(context.rng));
+      }
+      return {
+        ...pool,
+        base: [...pool.base, ...extra],
+        exploded: [...pool.exploded, ...explodeSixes(extra, context.rng)],
+        pushTheLimit: true
+      };
+    }
+  }
+};
+
+// Find an Edge action by id, name alias or display name
+export function findEdgeAction(name: string): EdgeAction | null {
+  const lowerName = name.toLowerCase();
+  for (const action of Object.values(edgeActions)) {
+    if (action.id.toLowerCase() === lowerName || action.aliases.includes(lowerName)) {
+      return action;
+    }
+  }
+  return null;
+}
+
+// Where Edge dice for a roll come from: the roll's own random stream, picking
+// up after its last draw, so the recorded seed replays the roll with its Edge
+function edgeSource(roll: ShadowrunDiceResult): RandomSource {
+  if (roll.seed === undefined) return createCryptoRandom();
+  return restoreRandom(roll.seed, roll.seedEnd ?? (roll.seedOffset || 0) + roll.results.length);
+}
+
+// Apply an Edge action to an existing roll
+export function spendEdge(
+  roll: ShadowrunDiceResult,
+  actionName: EdgeActionId | string,
+  options: EdgeSpendOptions = {}
+): EdgeSpendResult {
+  const action = findEdgeAction(actionName);
+  if (!action) {
+    throw new Error(`Unknown Edge action "${actionName}". Options: ${Object.keys(edgeActions).join(', ')}`);
+  }
+  if (roll.total !== undefined) {
+    throw new Error('Edge can only be spent on Shadowrun dice pools');
+  }
+
+  const alreadySpent = roll.edgeSpent || 0;
+  const edgeCap = options.edgeCap ?? DEFAULT_EDGE_CAP;
+  if (alreadySpent + action.cost > edgeCap) {
+    throw new Error(`${action.name} costs ${action.cost} Edge; this test is capped at ${edgeCap} (${alreadySpent} already spent)`);
+  }
+  if (options.availableEdge !== undefined && action.cost > options.availableEdge) {
+    throw new Error(`${action.name} costs ${action.cost} Edge, only ${options.availableEdge} available`);
+  }
+
+  const edgeRating = options.edgeRating ?? options.availableEdge ?? 0;
+  if (action.id === 'pushTheLimit' && edgeRating <= 0) {
+    throw new Error('Push the Limit needs an Edge rating');
+  }
+
+  const rng = options.rng || edgeSource(roll);
+  const exploded = roll.exploded || []; // Some servers leave it out when nothing exploded
+  const pool = action.apply(
+    {
+      base: roll.results.slice(0, roll.results.length - exploded.length),
+      exploded: [...exploded],
+      bonusHits: roll.bonusHits || 0,
+      pushTheLimit: false
+    },
+    {
+      rng,
+      dieIndex: options.dieIndex,
+      edgeRating
+    }
+  );
+
+  const result: ShadowrunDiceResult = {
+    ...roll,
+    dice: pool.base.length,
+    ...tallyShadowrunDice(pool.base, pool.exploded, {
+      limit: pool.pushTheLimit ? undefined : roll.limit,
+      bonusHits: pool.bonusHits
+    }),
+    exploded: pool.exploded,
+    limit: pool.pushTheLimit ? undefined : roll.limit,
+    bonusHits: pool.bonusHits,
+    edge_used: true,
+    edgeSpent: alreadySpent + action.cost,
+    edgeActions: [...(roll.edgeActions || []), action.name],
+    // Dice from another stream can't be replayed from the roll's seed
+    ...(roll.seed !== undefined && rng.seed === roll.seed
+      ? { seedEnd: rng.draws }
+      : { seed: undefined, seedOffset: undefined, seedEnd: undefined })
+  };
+
+  return {
+    result,
+    action,
+    cost: action.cost,
+    edgeRemaining: options.availableEdge !== undefined ? options.availableEdge - action.cost : undefined
+  };
+}
@@ -0,0 +1,143 @@
+// Shadowrun Initiative
+//
+// SR6 initiative score = base + Nd6, where N is 1-5 initiative dice.
+// Base and dice depend on how the character is acting:
+//   physical: REA + INT, 1d6 (+ augmentations)
+//   astral:   INT x 2, 2d6
+//   matrix:   Data Processing + INT, 2d6 cold sim / 3d6 hot sim (AR uses physical)
+//   rigging:  Data Processing + INT, 2d6 cold sim / 3d6 hot sim
+// Each character gets 1 Minor Action plus one per initiative die.
+import type { ShadowrunCharacter } from '../components/CharacterSheet';
+import { RandomSource, createCryptoRandom, rollDie } from './random';
+
+export type InitiativeType = 'physical' | 'astral' | 'matrix' | 'rigging';
+
+export interface InitiativeProfile {
+  type: InitiativeType;
+  base: number;
+  dice: number;
+}
+
+export interface InitiativeResult extends InitiativeProfile {
+  rolls: number[];
+  score: number;
+  minorActions: number;
+  seized: boolean; // Seize the Initiative: acts first regardless of score
+  seed: number;
+  seedOffset: number;
+}
+
+export const MIN_INITIATIVE_DICE = 1;
+export const MAX_INITIATIVE_DICE = 5;
+export const SEIZE_THE_INITIATIVE_COST = 1;
+
+export const initiativeTypes: InitiativeType[] = ['physical', 'astral', 'matrix', 'rigging'];
+
+const defaultDice: Record<InitiativeType, number> = {
+  physical: 1,
+  astral: 2,
+  matrix: 2,
+  rigging: 2
+};
+
+function clampDice(dice: number): number {
+  return Math.max(MIN_INITIATIVE_DICE, Math.min(MAX_INITIATIVE_DICE, Math.floor(dice)));
+}
+
+// Look up base and dice for a character from their sheet
+export function getInitiativeProfile(
+  character: ShadowrunCharacter,
+  type: InitiativeType = 'physical',
+  options: { hotSim?: boolean } = {}
+): InitiativeProfile {
+  const base = character.initiatives[type];
+  if (base === undefined) {
+    throw new Error(`${character.name} has no ${type} initiative`);
+  }
+
+  let dice = character.initiatives.dice?.[type] ?? defaultDice[type];
+  if (options.hotSim && (type === 'matrix' || type === 'rigging')) {
+    dice += 1;
+  }
+
+  return { type, base, dice: clampDice(dice) };
+}
+
+// Roll initiative for a base score and number of dice
+export function rollInitiative(
+  base: number,
+  dice: number = 1,
+  options: { type?: InitiativeType; rng?: RandomSource } = {}
+): InitiativeResult {
+  const rng = options.rng || createCryptoRandom();
+  const seed = rng.seed;
+  const seedOffset = rng.draws;
+  const diceCount = clampDice(dice);
+
+  const rolls: number[] = [];
+  for (let i = 0; i < diceCount; i++) {
+    rolls.push(rollDie(rng));
+  }
+
+  return {
+    type: options.type || 'physical',
+    base,
+    dice: diceCount,
+    rolls,
+    score: base + rolls.reduce((sum, roll) => sum + roll, 0),
+    minorActions: 1 + diceCount,
+    seized: false,
+    seed,
+    seedOffset
+  };
+}
+
+// Roll initiative straight from a character sheet
+export function rollCharacterInitiative(
+  character: ShadowrunCharacter,
+  type: InitiativeType = 'physical',
+  options: { hotSim?: boolean; rng?: RandomSource } = {}
+): InitiativeResult {
+  const profile = getInitiativeProfile(character, type, options);
+  return rollInitiative(profile.base, profile.dice, { type, rng: options.rng });
+}
+
+// Seize the Initiative: spend Edge to act first in the round
+export function seizeInitiative(result: InitiativeResult, availableEdge: number): { result: InitiativeResult; edgeRemaining: number } {
+  if (result.seized) {
+    throw new Error('Initiative has already been seized');
+  }
+  if (availableEdge < SEIZE_THE_INITIATIVE_COST) {
+    throw new Error(`Seize the Initiative costs ${SEIZE_THE_INITIATIVE_COST} Edge, only ${availableEdge} available`);
+  }
+  return {
+    result: { ...result, seized: true },
+    edgeRemaining: availableEdge - SEIZE_THE_INITIATIVE_COST
+  };
+}
+
+// Sort into acting order: seized first, then by score, ties broken by base
+export function sortInitiativeOrder<T extends { initiativeScore: number; initiativeBase?: number; seizedInitiative?: boolean }>(
+  combatants: T[]
+): T[] {
+  return [...combatants].sort((a, b) => {
+    if (!!a.seizedInitiative !== !!b.seizedInitiative) {
+      return a.seizedInitiative ? -1 : 1;
+    }
+    if (b.initiativeScore !== a.initiativeScore) {
+      return b.initiativeScore - a.initiativeScore;
+    }
+    return (b.initiativeBase || 0) - (a.initiativeBase || 0);
+  });
+}
+
+// Format an initiative roll for display
+export function formatInitiative(result: InitiativeResult): string {
+  const label = result.type.charAt(0).toUpperCase() + result.type.slice(1);
+  let output = `${label} initiative: ${result.base} + ${result.dice}d6 [${result.rolls.join(', ')}] = ${result.score}`;
+  output += `\nMinor Actions: ${result.minorActions}`;
+  if (result.seized) {
+    output += '\n⚡ Initiative seized - acting first';
+  }
+  return output;
+}
@@ -0,0 +1,63 @@
+// Session invite links
+//
+// Instead of pasting raw session ids around, a GM hands out links to
+// /join/<token>. The backend knows each token's session, the role it grants
+// (player or observer), when it expires and how many times it can be used.
+// Opening the link signs the user in and redeems the token.
+import type { Invite } from './api';
+
+// Expiry choices offered to the GM, in minutes
+export const INVITE_EXPIRY_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '1 week', minutes: 7 * 24 * 60 }
+];
+
+// Hard to guess, safe in a URL path
+export function createInviteToken(): string {
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => {
+      bytes[index] = Math.floor(Math.random() * 256);
+    });
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function inviteLink(token: string, origin: string = typeof window !== 'undefined' ? window.location.origin : ''): string {
+  return `${origin}/join/${encodeURIComponent(token)}`;
+}
+
+export type InviteState = 'usable' | 'revoked' | 'expired' | 'used up';
+
+export function inviteState(invite: Invite, now: number = Date.now()): InviteState {
+  if (invite.revoked) return 'revoked';
+  if (Date.parse(invite.expiresAt) <= now) return 'expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'used up';
+  return 'usable';
+}
+
+// What the backend answers when someone redeems an unusable invite
+export const INVITE_ERRORS: Record<Exclude<InviteState, 'usable'>, string> = {
+  revoked: 'This invite was revoked',
+  expired: 'This invite has expired',
+  'used up': 'This invite has been used up'
+};
+
+function describeTimeLeft(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+// One line for the GM's invite list, e.g. "Player · 1/5 uses · expires in 3h"
+export function describeInvite(invite: Invite, now: number = Date.now()): string {
+  const role = invite.role === 'observer' ? 'Observer' : 'Player';
+  const uses = invite.maxUses === null ? `${invite.uses} uses` : `${invite.uses}/${invite.maxUses} uses`;
+  const state = inviteState(invite, now);
+  const status = state === 'usable' ? `expires in ${describeTimeLeft(Date.parse(invite.expiresAt) - now)}` : state;
+  return `${role} · ${uses} · ${status}`;
+}
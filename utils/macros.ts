@@ -0,0 +1,205 @@
+// User-defined macros and aliases
+//
+// A macro names a command line, e.g. sniper = "roll AGI+Firearms l7". Macros can
+// take arguments: $1..$9 are replaced by positional arguments and $* by all of
+// them. A macro without placeholders appends whatever arguments it is given, which
+// makes it an alias ("alias s scene" turns "s Rain" into "scene Rain").
+//
+// Macro sets are stored per character in localStorage. The active set is
+// registered in the command registry so help and auto-completion pick it up.
+import { registerCommand, unregisterCommand, executeCommand, findCommand, parseCommandLine, CommandResult } from './commands';
+import { quoteCommandArgument } from './commandLine';
+
+export interface Macro {
+  name: string;
+  command: string;
+  description?: string;
+}
+
+// Guards against macros that call themselves
+export const MAX_MACRO_DEPTH = 5;
+
+const MACRO_NAME = /^[a-z][\w-]*$/i;
+
+// Expand a macro's placeholders with the given arguments
+export function expandMacro(macro: Macro, args: string[]): string {
+  const quoted = args.map(quoteCommandArgument);
+  if (!/\$([1-9*])/.test(macro.command)) {
+    return [macro.command, ...quoted].join(' ');
+  }
+
+  let highest = 0;
+  const expanded = macro.command.replace(/\$([1-9*])/g, (_, index: string) => {
+    if (index === '*') return quoted.join(' ');
+    highest = Math.max(highest, parseInt(index));
+    return quoted[parseInt(index) - 1] ?? '';
+  });
+
+  if (args.length < highest) {
+    throw new Error(`${macro.name} needs ${highest} argument${highest === 1 ? '' : 's'}, got ${args.length}`);
+  }
+  return expanded;
+}
+
+// Macro management
+export class MacroManager {
+  private characterId: string;
+  private macros: Macro[] = [];
+  private registered: string[] = [];
+
+  constructor(characterId: string = 'default') {
+    this.characterId = characterId;
+  }
+
+  private get storageKey(): string {
+    return `shadowrun-macros-${this.characterId}`;
+  }
+
+  getCharacterId(): string {
+    return this.characterId;
+  }
+
+  getMacros(): Macro[] {
+    return [...this.macros];
+  }
+
+  getMacro(name: string): Macro | undefined {
+    return this.macros.find(macro => macro.name === name.toLowerCase());
+  }
+
+  // Add or replace a macro
+  addMacro(name: string, command: string, description?: string): Macro {
+    const macroName = name.toLowerCase();
+    if (!MACRO_NAME.test(macroName)) {
+      throw new Error(`Invalid macro name "${name}". Use letters, digits, - and _`);
+    }
+    const target = findCommand(parseCommandLine(command).command);
+    if (!target) {
+      throw new Error(`Unknown command in macro: ${command}`);
+    }
+
+    const existing = findCommand(macroName);
+    if (existing && !this.registered.includes(existing.name)) {
+      throw new Error(`"${macroName}" is already a command`);
+    }
+
+    const macro: Macro = { name: macroName, command, description };
+    this.unregister(macroName);
+    this.macros = [...this.macros.filter(m => m.name !== macroName), macro];
+    this.register(macro);
+    this.saveToStorage();
+    return macro;
+  }
+
+  removeMacro(name: string) {
+    const macroName = name.toLowerCase();
+    if (!this.getMacro(macroName)) {
+      throw new Error(`No macro named "${name}"`);
+    }
+    this.unregister(macroName);
+    this.macros = this.macros.filter(macro => macro.name !== macroName);
+    this.saveToStorage();
+  }
+
+  // Serialize the macro set for sharing or backup
+  exportMacros(): string {
+    return JSON.stringify(this.macros);
+  }
+
+  // Add macros from an export; returns the names imported and the ones rejected
+  importMacros(json: string): { imported: string[]; skipped: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Macro import must be JSON from "macro export"');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('Macro import must be a list of macros');
+    }
+
+    const imported: string[] = [];
+    const skipped: string[] = [];
+    parsed.forEach(entry => {
+      if (!entry || typeof entry.name !== 'string' || typeof entry.command !== 'string') {
+        skipped.push(String(entry?.name ?? '?'));
+        return;
+      }
+      try {
+        imported.push(this.addMacro(entry.name, entry.command, typeof entry.description === 'string' ? entry.description : undefined).name);
+      } catch {
+        skipped.push(entry.name);
+      }
+    });
+    return { imported, skipped };
+  }
+
+  // Switch to another character's macro set
+  setCharacter(characterId: string) {
+    if (characterId === this.characterId) return;
+    this.registered.forEach(name => unregisterCommand(name));
+    this.registered = [];
+    this.characterId = characterId;
+    this.macros = [];
+    this.loadFromStorage();
+  }
+
+  private register(macro: Macro) {
+    registerCommand({
+      name: macro.name,
+      aliases: [],
+      description: macro.description || `Macro: ${macro.command}`,
+      usage: `${macro.name} [args...]`,
+      category: 'macro',
+      parameters: [
+        { name: 'args', type: 'string', required: false, rest: true, description: 'Arguments for $1..$9 and $*' }
+      ],
+      handler: async ({ args }, context): Promise<CommandResult> => {
+        const depth = context.macroDepth ?? 0;
+        if (depth >= MAX_MACRO_DEPTH) {
+          return { success: false, output: `Macro error: ${macro.name} nests more than ${MAX_MACRO_DEPTH} macros deep` };
+        }
+        try {
+          return await executeCommand(expandMacro(macro, args), { ...context, macroDepth: depth + 1 });
+        } catch (error) {
+          return { success: false, output: `Macro error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+      }
+    });
+    this.registered.push(macro.name);
+  }
+
+  private unregister(name: string) {
+    if (this.registered.includes(name)) {
+      unregisterCommand(name);
+      this.registered = this.registered.filter(registered => registered !== name);
+    }
+  }
+
+  private saveToStorage() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.macros));
+    } catch (error) {
+      console.warn('Failed to save macros:', error);
+    }
+  }
+
+  loadFromStorage() {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      if (saved) {
+        this.registered.forEach(name => unregisterCommand(name));
+        this.registered = [];
+        this.macros = [];
+        (JSON.parse(saved) as Macro[]).forEach(macro => {
+          // Skip macros that now clash with a built-in command
+          if (findCommand(macro.name)) return;
+          this.macros.push(macro);
+          this.register(macro);
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load macros:', error);
+    }
+  }
+}
@@ -0,0 +1,980 @@
+// Local stand-in for the Shadowrun backend
+//
+// Implements the endpoints the UI calls, plus the session WebSocket and the
+// server-sent event stream, against state kept in memory. It plugs into the API
+// client's transport hooks, so nothing leaves the page: tests install it with
+// installMockBackend(seed), and `next dev` does the same when
+// NEXT_PUBLIC_MOCK_BACKEND is "true". Seeds are plain fixtures; demoSeed() has a
+// session with characters, a fight, a Matrix host and a review queue.
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { configureApi, getApiConfig } from './api';
+import type {
+  SceneInfo,
+  PendingResponse,
+  DmNotification,
+  ReviewAnalytics,
+  CombatStatus,
+  MatrixGrid,
+  GeneratedImage,
+  Invite
+} from './api';
+import { executeCommand } from './commands';
+import { parseDiceCommand, rollShadowrunDice } from './dice';
+import { createInviteToken, inviteState, INVITE_ERRORS } from './invites';
+import { Capability, Permissions, can, isGameMaster, toRole, toCapabilities } from './permissions';
+import { observerCanSee } from './observer';
+import { SessionChange, SharedSessionState, applySessionChange } from './session';
+import { PROTOCOL_VERSION, CLOSE_REFUSED, ClientMessage, ServerMessage } from './protocol';
+import { isRecipient } from './whispers';
+
+export const MOCK_BASE_URL = 'http://mock.local';
+
+export interface MockSessionUser extends Partial<Pick<Permissions, 'grants' | 'denies'>> {
+  user_id: string;
+  role: Permissions['role'];
+  name?: string;
+}
+
+export interface MockSession {
+  id: string;
+  name: string;
+  gmUserId: string;
+  maxPlayers: number; // Not counting the GM
+  password?: string;
+  isPrivate: boolean;
+  inviteCode?: string; // Private sessions only
+  invites: Invite[];
+  gameState: 'waiting' | 'active' | 'paused';
+  users: MockSessionUser[];
+  scene: SceneInfo;
+  entities: any[];
+  characters: any[];
+  table: SharedSessionState; // Scene, NPCs and initiative from console commands
+  combat: CombatStatus;
+  matrix: MatrixGrid;
+  pendingResponses: PendingResponse[];
+  notifications: DmNotification[];
+  images: GeneratedImage[];
+  events: ServerMessage[]; // WebSocket events, in seq order
+}
+
+export interface MockBackendSeed {
+  sessions?: (Partial<MockSession> & Pick<MockSession, 'id' | 'name' | 'gmUserId'>)[];
+  history?: Record<string, { command: string; timestamp: string; session_id?: string | null }[]>; // By user id
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}
+
+export interface MockResponse {
+  status: number;
+  data: any;
+}
+
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type RouteHandler = (params: Record<string, string>, request: MockRequest) => any;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+// A fight, a host and a review queue to play with offline
+export function demoSeed(): MockBackendSeed {
+  const now = new Date().toISOString();
+  return {
+    sessions: [{
+      id: 'demo',
+      name: 'Demo Run',
+      gmUserId: 'gm',
+      users: [
+        { user_id: 'gm', role: 'gm', name: 'Mr. Johnson' },
+        { user_id: 'offline-runner', role: 'player', name: 'Kit' }
+      ],
+      scene: { summary: 'A rain-soaked dock in Puyallup. The Tamanous van is late.', location: 'Puyallup docks', tone: 'tense', timeOfDay: 'night' },
+      entities: [
+        { id: 'e1', name: 'Halloweener ganger', type: 'npc', status: 'hostile' },
+        { id: 'e2', name: 'Tamanous van', type: 'vehicle' }
+      ],
+      characters: [
+        { id: 1, name: 'Kit', metatype: 'Elf', archetype: 'Decker', user_id: 'offline-runner', attributes: { body: 3, agility: 4, reaction: 4, logic: 6 } },
+        { id: 2, name: 'Brick', metatype: 'Troll', archetype: 'Street Samurai', user_id: 'gm', attributes: { body: 9, agility: 5, reaction: 6, logic: 2 } }
+      ],
+      combat: {
+        combat: { id: 'c1', name: 'Dock ambush', status: 'active' },
+        combatants: [
+          { id: 'brick', name: 'Brick', initiative: 17, type: 'player', status: 'active' },
+          { id: 'ganger', name: 'Halloweener ganger', initiative: 11, type: 'npc', status: 'active' }
+        ],
+        round: 1,
+        activeIndex: 0
+      },
+      matrix: {
+        grid: { name: 'Public Grid', security_rating: 4, noise_level: 2 },
+        nodes: [{ id: 'host-1', name: 'Tamanous front host', node_type: 'host', position_x: 0.3, position_y: -0.2, rating: 4, discovered: true }],
+        ice: [{ id: 'ice-1', name: 'Patrol IC', ice_type: 'Patrol', rating: 4, status: 'active' }],
+        overwatch: 6
+      },
+      pendingResponses: [{
+        id: 'pr-1',
+        session_id: 'demo',
+        user_id: 'offline-runner',
+        context: 'I check the van for tracking tags',
+        ai_response: 'Under the rear bumper you find an Ares tag, still blinking.',
+        response_type: 'narrative',
+        status: 'pending',
+        priority: 2,
+        created_at: now
+      }],
+      notifications: [{ id: 1, pending_response_id: 'pr-1', notification_type: 'new_response', message: 'Kit is waiting for a review', created_at: now }]
+    }]
+  };
+}
+
+// A placeholder picture, so generated images have something to show
+function placeholderImage(prompt: string): string {
+  const label = prompt.replace(/[<>&"]/g, '').slice(0, 40);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#0a0a0a"/><text x="50%" y="50%" fill="#22c55e" font-family="monospace" font-size="18" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+export class MockBackend {
+  private sessions = new Map<string, MockSession>();
+  private history = new Map<string, { command: string; timestamp: string; session_id?: string | null }[]>();
+  private sockets = new Set<MockSocket>();
+  private eventSources = new Set<MockEventSource>();
+  private routes: Route[] = [];
+  private nextId = 1;
+
+  constructor(seed: MockBackendSeed = {}) {
+    this.seed(seed);
+    this.defineRoutes();
+  }
+
+  // Add fixtures; sessions with an existing id are replaced
+  seed(seed: MockBackendSeed) {
+    seed.sessions?.forEach(session => {
+      this.sessions.set(session.id, {
+        maxPlayers: 6,
+        isPrivate: false,
+        invites: [],
+        gameState: 'waiting',
+        users: [{ user_id: session.gmUserId, role: 'gm' }],
+        scene: { summary: '' },
+        entities: [],
+        characters: [],
+        table: { npcs: [], combat: { active: false, round: 0, turn: 0, order: [] } },
+        combat: { combat: null, combatants: [], round: 1, activeIndex: 0 },
+        matrix: { grid: null, nodes: [], ice: [], overwatch: 0 },
+        pendingResponses: [],
+        notifications: [],
+        images: [],
+        events: [],
+        ...session
+      });
+    });
+    Object.entries(seed.history || {}).forEach(([userId, entries]) => {
+      this.history.set(userId, [...entries]);
+    });
+  }
+
+  getSession(sessionId: string): MockSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  // New ids never clash with seeded ones: strings get their own infix,
+  // numbers continue after the largest in use
+  private id(prefix: string): string {
+    return `${prefix}-m${this.nextId++}`;
+  }
+
+  private nextNumber(items: { id: unknown }[]): number {
+    return Math.max(0, ...items.map(item => Number(item.id)).filter(Number.isFinite)) + 1;
+  }
+
+  private requireSession(sessionId: string): MockSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new MockHttpError(404, `Session ${sessionId} not found`);
+    }
+    return session;
+  }
+
+  private playerCount(session: MockSession): number {
+    return session.users.filter(user => user.role === 'player').length;
+  }
+
+  // What the backend says about a session to a user; the invite code only goes to its GM
+  private sessionSummary(session: MockSession, userId?: string) {
+    return {
+      session_id: session.id,
+      name: session.name,
+      gm_user_id: session.gmUserId,
+      player_count: this.playerCount(session),
+      max_players: session.maxPlayers,
+      game_state: session.gameState,
+      is_private: session.isPrivate,
+      has_password: !!session.password,
+      users: session.users,
+      invite_code: userId === session.gmUserId ? session.inviteCode : undefined,
+      ...this.permissionsOf(session, userId) ?? {}
+    };
+  }
+
+  private permissionsOf(session: MockSession, userId: string | undefined): Permissions | null {
+    const member = session.users.find(user => user.user_id === userId);
+    return member ? { role: member.role, grants: member.grants, denies: member.denies } : null;
+  }
+
+  private requireMember(session: MockSession, userId: string | undefined) {
+    if (!this.permissionsOf(session, userId)) {
+      throw new MockHttpError(403, `${userId || 'Anonymous'} is not in this session`);
+    }
+  }
+
+  private requireCapability(session: MockSession, userId: string | undefined, capability: Capability) {
+    if (!can(this.permissionsOf(session, userId), capability)) {
+      throw new MockHttpError(403, `You don't have the ${capability} permission in this session`);
+    }
+  }
+
+  // Who may make a change: the GM's helpers for NPCs and combat, and players
+  // for their own initiative rolls
+  private requireChangeAllowed(session: MockSession, userId: string | undefined, change: SessionChange) {
+    switch (change.kind) {
+      case 'scene':
+        return this.requireCapability(session, userId, 'edit_scene');
+      case 'npc':
+        return this.requireCapability(session, userId, 'manage_npcs');
+      case 'combat':
+        return this.requireCapability(session, userId, 'edit_combat');
+      case 'initiative':
+        return this.requireCapability(session, userId, change.entry.kind === 'player' && change.entry.id === userId ? 'play' : 'edit_combat');
+    }
+  }
+
+  // Apply a change to the table and tell the session; the combat status the
+  // dashboards and overlay read follows the initiative order
+  private changeTable(session: MockSession, change: SessionChange) {
+    session.table = applySessionChange(session.table, change);
+    if (change.kind === 'initiative' || change.kind === 'combat') {
+      const { active, round, turn, order } = session.table.combat;
+      session.combat = {
+        ...session.combat,
+        combat: active ? { ...session.combat.combat, name: session.combat.combat?.name || 'Combat', status: 'active' } : null,
+        combatants: order.map(entry => ({ id: entry.id, name: entry.name, initiative: entry.result.score, type: entry.kind })),
+        round,
+        activeIndex: turn
+      };
+    }
+    this.publish(session.id, { type: 'session_change', change });
+  }
+
+  private inviteSummary(invite: Invite) {
+    return {
+      token: invite.token,
+      session_id: invite.sessionId,
+      role: invite.role,
+      expires_at: invite.expiresAt,
+      max_uses: invite.maxUses,
+      uses: invite.uses,
+      revoked: invite.revoked
+    };
+  }
+
+  private route(method: string, path: string, handler: RouteHandler) {
+    const keys: string[] = [];
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}$`);
+    this.routes.push({ method, pattern, keys, handler });
+  }
+
+  private defineRoutes() {
+    // Sessions
+    this.route('GET', '/api/sessions', () => ({
+      sessions: Array.from(this.sessions.values())
+        .filter(session => !session.isPrivate)
+        .map(session => this.sessionSummary(session))
+    }));
+    this.route('POST', '/api/session', (_, { body }) => {
+      if (!body?.name) throw new MockHttpError(400, 'Session name is required');
+      const id = this.id('session');
+      this.seed({ sessions: [{
+        id,
+        name: body.name,
+        gmUserId: body.gm_user_id,
+        maxPlayers: body.max_players ?? 6,
+        password: body.password || undefined,
+        isPrivate: !!body.is_private,
+        inviteCode: body.is_private ? Math.random().toString(36).slice(2, 10) : undefined
+      }] });
+      return this.sessionSummary(this.requireSession(id), body.gm_user_id);
+    });
+    this.route('GET', '/api/session/:sessionId', ({ sessionId }, { query }) =>
+      this.sessionSummary(this.requireSession(sessionId), query.user_id));
+    this.route('POST', '/api/session/:sessionId/join', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      const userId = body?.user_id;
+      const member = session.users.find(user => user.user_id === userId);
+      if (member) {
+        return { ...this.sessionSummary(session, userId), role: member.role };
+      }
+
+      if (session.isPrivate && body?.invite_code !== session.inviteCode) {
+        throw new MockHttpError(403, 'This session is private; ask the GM for an invite');
+      }
+      if (session.password && body?.password !== session.password) {
+        throw new MockHttpError(403, 'Wrong session password');
+      }
+      // Joining makes a player; other roles come from invites or the GM
+      const role = 'player';
+      if (this.playerCount(session) >= session.maxPlayers) {
+        throw new MockHttpError(409, 'Session is full');
+      }
+      session.users.push({ user_id: userId, role });
+      session.gameState = 'active';
+      this.publish(sessionId, { type: 'player_joined', username: userId });
+      return { ...this.sessionSummary(session, userId), role };
+    });
+    this.route('POST', '/api/session/:sessionId/leave', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      if (body?.user_id === session.gmUserId) {
+        throw new MockHttpError(400, "The GM can't leave the session they run");
+      }
+      if (session.users.some(user => user.user_id === body?.user_id)) {
+        session.users = session.users.filter(user => user.user_id !== body?.user_id);
+        this.publish(sessionId, { type: 'player_left', username: body?.user_id });
+      }
+      return { status: 'success' };
+    });
+
+    // Invite links
+    this.route('POST', '/api/session/:sessionId/invites', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'manage_session');
+      const invite: Invite = {
+        token: createInviteToken(),
+        sessionId,
+        role: body?.role === 'observer' ? 'observer' : 'player',
+        expiresAt: new Date(Date.now() + Number(body?.expires_in_minutes ?? 24 * 60) * 60000).toISOString(),
+        maxUses: body?.max_uses ?? null,
+        uses: 0,
+        revoked: false
+      };
+      session.invites.push(invite);
+      return this.inviteSummary(invite);
+    });
+    this.route('GET', '/api/session/:sessionId/invites', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'manage_session');
+      return { invites: session.invites.map(invite => this.inviteSummary(invite)) };
+    });
+    this.route('POST', '/api/session/:sessionId/invites/:token/revoke', ({ sessionId, token }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'manage_session');
+      const invite = session.invites.find(candidate => candidate.token === token);
+      if (!invite) throw new MockHttpError(404, 'Invite not found');
+      invite.revoked = true;
+      return { status: 'success' };
+    });
+    this.route('POST', '/api/invites/:token/redeem', ({ token }, { body }) => {
+      const userId = body?.user_id;
+      const session = Array.from(this.sessions.values()).find(candidate => candidate.invites.some(invite => invite.token === token));
+      const invite = session?.invites.find(candidate => candidate.token === token);
+      if (!session || !invite) throw new MockHttpError(404, 'Invite not found');
+
+      const member = session.users.find(user => user.user_id === userId);
+      if (member) {
+        return { ...this.sessionSummary(session, userId), role: member.role };
+      }
+      const state = inviteState(invite);
+      if (state !== 'usable') throw new MockHttpError(410, INVITE_ERRORS[state]);
+      if (invite.role === 'player' && this.playerCount(session) >= session.maxPlayers) {
+        throw new MockHttpError(409, 'Session is full');
+      }
+      invite.uses++;
+      session.users.push({ user_id: userId, role: invite.role });
+      this.publish(session.id, { type: 'player_joined', username: userId });
+      return { ...this.sessionSummary(session, userId), role: invite.role };
+    });
+
+    this.route('POST', '/api/session/:sessionId/users/:userId/permissions', ({ sessionId, userId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'manage_session');
+      const member = session.users.find(user => user.user_id === userId);
+      const role = toRole(body?.role);
+      if (!member) throw new MockHttpError(404, `${userId} is not in this session`);
+      if (userId === session.gmUserId || role === 'gm') throw new MockHttpError(400, 'The session has one GM, its creator');
+      if (!role) throw new MockHttpError(400, `Unknown role ${body?.role}`);
+      if (role === 'player' && member.role !== 'player' && this.playerCount(session) >= session.maxPlayers) {
+        throw new MockHttpError(409, 'Session is full');
+      }
+      member.role = role;
+      member.grants = toCapabilities(body?.grants);
+      member.denies = toCapabilities(body?.denies);
+      return { status: 'success' };
+    });
+    this.route('GET', '/api/session/:sessionId/users', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireMember(session, query.user_id);
+      return session.users;
+    });
+    this.route('GET', '/api/session/:sessionId/scene', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireMember(session, query.user_id);
+      return session.scene;
+    });
+    this.route('POST', '/api/session/:sessionId/scene', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'edit_scene');
+      const { user_id, ...scene } = body || {};
+      session.scene = { ...scene, summary: scene.summary ?? scene.description ?? '' };
+      const setBy = session.users.find(user => user.user_id === user_id)?.name || user_id;
+      this.changeTable(session, { kind: 'scene', scene: { description: session.scene.summary, setBy, setAt: new Date().toISOString() } });
+      return { status: 'success' };
+    });
+    // Observers don't see NPCs; summoning them can give away their stats
+    this.route('GET', '/api/session/:sessionId/state', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireMember(session, query.user_id);
+      const observing = this.permissionsOf(session, query.user_id)?.role === 'observer';
+      return observing ? { ...session.table, npcs: [] } : session.table;
+    });
+    this.route('POST', '/api/session/:sessionId/state', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      const change = body?.change as SessionChange | undefined;
+      if (!change || !['scene', 'npc', 'initiative', 'combat'].includes(change.kind)) {
+        throw new MockHttpError(400, 'A scene, npc, initiative or combat change is required');
+      }
+      this.requireMember(session, body?.user_id);
+      this.requireChangeAllowed(session, body?.user_id, change);
+      this.changeTable(session, change);
+      return { status: 'success' };
+    });
+    this.route('GET', '/api/session/:sessionId/entities', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'see_npc_stats');
+      return session.entities;
+    });
+
+    // Commands and dice
+    this.route('POST', '/api/command', async (_, { body }) => {
+      const session = this.requireSession(body?.session_id);
+      this.requireMember(session, body?.user_id);
+      this.requireCapability(session, body?.user_id, 'play');
+      const result = await executeCommand(String(body?.command || ''), {
+        userId: body?.user_id,
+        sessionId: session.id,
+        isGM: session.gmUserId === body?.user_id,
+        permissions: this.permissionsOf(session, body?.user_id) ?? undefined
+      });
+      return { output: result.output, success: result.success, type: result.type, ...(result.data || {}) };
+    });
+    this.route('POST', '/api/roll', (_, { body }) => {
+      const command = String(body?.command || '');
+      try {
+        return { result: parseDiceCommand(body?.edge ? `${command} edge` : command) };
+      } catch (error) {
+        throw new MockHttpError(400, error instanceof Error ? error.message : 'Invalid dice command');
+      }
+    });
+    this.route('POST', '/roll', (_, { body }) => {
+      const count = Number(String(body?.command || '').match(/\d+/)?.[0] || 1);
+      const roll = rollShadowrunDice(Math.min(Math.max(count, 1), 100));
+      return {
+        type: 'roll_result',
+        result: { rolls: roll.results, total: roll.hits, glitch: roll.isGlitch, critical_glitch: roll.isCriticalGlitch }
+      };
+    });
+    this.route('GET', '/api/user/:userId/command-history', ({ userId }, { query }) => {
+      const entries = (this.history.get(userId) || [])
+        .filter(entry => !query.session_id || entry.session_id === query.session_id);
+      return { history: query.limit ? entries.slice(-Number(query.limit)) : entries };
+    });
+    this.route('POST', '/api/user/:userId/command-history', ({ userId }, { body }) => {
+      this.history.set(userId, [...(this.history.get(userId) || []), ...(body?.entries || [])]);
+      return { status: 'success' };
+    });
+
+    // AI narration and the GM review queue
+    this.route('POST', '/api/llm', (_, { body }) => ({ status: 'success', response: `[mock] ${body?.input}` }));
+    this.route('POST', '/api/session/:sessionId/llm-with-review', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      const text = `[mock] The shadows answer: ${body?.context}`;
+      if (body?.require_review === false) {
+        // Skipping review is for those who could approve the response anyway
+        this.requireCapability(session, body?.user_id, 'approve_ai_responses');
+        return { status: 'success', choices: [{ message: { content: text } }] };
+      }
+      const pending: PendingResponse = {
+        id: this.id('pr'),
+        session_id: sessionId,
+        user_id: body?.user_id,
+        context: body?.context,
+        ai_response: text,
+        response_type: body?.response_type || 'narrative',
+        status: 'pending',
+        priority: body?.priority ?? 1,
+        created_at: new Date().toISOString()
+      };
+      session.pendingResponses.push(pending);
+      session.notifications.push({
+        id: this.nextNumber(session.notifications),
+        pending_response_id: pending.id,
+        notification_type: 'new_response',
+        message: `${pending.user_id} is waiting for a review`,
+        created_at: pending.created_at
+      });
+      return { status: 'pending_review', pending_response_id: pending.id };
+    });
+    this.route('GET', '/api/session/:sessionId/pending-responses', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'approve_ai_responses');
+      const pending = session.pendingResponses.filter(response =>
+        response.status === 'pending'
+        && (!query.priority || response.priority === Number(query.priority))
+        && (!query.response_type || response.response_type === query.response_type));
+      const page = Number(query.page || 1);
+      const perPage = Number(query.per_page || 20);
+      const pages = Math.ceil(pending.length / perPage);
+      return {
+        items: pending.slice((page - 1) * perPage, page * perPage),
+        pagination: { page, per_page: perPage, total: pending.length, pages, has_next: page < pages, has_prev: page > 1 }
+      };
+    });
+    this.route('POST', '/api/session/:sessionId/pending-response/:responseId/review', ({ sessionId, responseId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'approve_ai_responses');
+      this.review(session, responseId, body?.action, body?.final_response, body?.dm_notes);
+      return { status: 'success' };
+    });
+    this.route('POST', '/api/session/:sessionId/pending-responses/bulk', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'approve_ai_responses');
+      (body?.response_ids || []).forEach((id: string) => this.review(session, id, body.action, undefined, body.dm_notes));
+      return { status: 'success', processed: (body?.response_ids || []).length };
+    });
+    this.route('GET', '/api/session/:sessionId/dm/notifications', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'view_analytics');
+      return session.notifications;
+    });
+    this.route('POST', '/api/session/:sessionId/dm/notifications/:notificationId/mark-read', ({ sessionId, notificationId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, body?.user_id, 'view_analytics');
+      session.notifications = session.notifications.filter(notification => notification.id !== Number(notificationId));
+      return { status: 'success' };
+    });
+    this.route('GET', '/api/session/:sessionId/dm/analytics', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'view_analytics');
+      return this.reviewAnalytics(session);
+    });
+
+    // GM dashboard
+    this.route('GET', '/api/session/:sessionId/characters', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireMember(session, query.user_id);
+      return session.characters;
+    });
+    this.route('POST', '/api/session/:sessionId/character', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      if (!body?.name) throw new MockHttpError(400, 'Character name is required');
+      const character = { ...body, id: this.nextNumber(session.characters) };
+      session.characters.push(character);
+      return { status: 'success', character_id: character.id };
+    });
+    // Everyone at the table, observers included, sees the initiative order
+    this.route('GET', '/api/session/:sessionId/combat/status', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireMember(session, query.user_id);
+      return session.combat;
+    });
+    this.route('GET', '/api/session/:sessionId/matrix/grid', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'see_npc_stats');
+      return session.matrix;
+    });
+    this.route('GET', '/api/session/:sessionId/analytics/summary', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'view_analytics');
+      return {
+        stats: { players: session.users.length, events: session.events.length },
+        engagement: session.users.map(user => ({
+          id: user.user_id,
+          name: user.name || user.user_id,
+          // Share of the session's events this user caused
+          engagement: session.events.length
+            ? Math.round(100 * session.events.filter(event => 'userId' in event && event.userId === user.user_id).length / session.events.length)
+            : 0
+        })),
+        combat: { rounds: session.combat.round || 0 }
+      };
+    });
+    this.route('GET', '/api/session/:sessionId/timeline/events', ({ sessionId }, { query }) => {
+      this.requireCapability(this.requireSession(sessionId), query.user_id, 'view_analytics');
+      return { events: [], threads: [], relationships: [] };
+    });
+    this.route('GET', '/api/session/:sessionId/monitoring/live', ({ sessionId }, { query }) => {
+      const session = this.requireSession(sessionId);
+      this.requireCapability(session, query.user_id, 'view_analytics');
+      const sockets = Array.from(this.sockets).filter(socket => socket.sessionId === sessionId);
+      return {
+        players: session.users.map(user => ({
+          id: user.user_id,
+          name: user.name || user.user_id,
+          status: sockets.some(socket => socket.userId === user.user_id) ? 'online' : 'offline'
+        })),
+        connections: sockets.length
+      };
+    });
+    this.route('GET', '/api/session/:sessionId/character-sheets/discover', ({ sessionId }) => {
+      this.requireSession(sessionId);
+      return { discovered_sheets: {} };
+    });
+    this.route('GET', '/api/character-sheet/integration-status', () => ({ integrations: {} }));
+    this.route('POST', '/api/session/:sessionId/character-sheets/import', () => {
+      throw new MockHttpError(501, 'Character sheet import is not available offline');
+    });
+    this.route('POST', '/api/session/:sessionId/character-sheets/sync-all', ({ sessionId }) => {
+      this.requireSession(sessionId);
+      return { status: 'success', synced: 0 };
+    });
+    this.route('POST', '/api/session/:sessionId/character/:characterId/create-wren-copy', ({ sessionId, characterId }) => {
+      const session = this.requireSession(sessionId);
+      const original = session.characters.find(character => String(character.id) === characterId);
+      if (!original) throw new MockHttpError(404, `Character ${characterId} not found`);
+      const copy = { ...original, id: this.nextNumber(session.characters), name: `${original.name} (WREN)` };
+      session.characters.push(copy);
+      return { status: 'success', character_id: copy.id };
+    });
+
+    // Images
+    this.route('GET', '/api/session/:sessionId/images', ({ sessionId }, { query }) =>
+      ({ images: this.requireSession(sessionId).images.slice(0, Number(query.limit || 20)) }));
+    this.route('GET', '/api/session/:sessionId/image-providers', () => ({ providers: ['mock'], default: 'mock' }));
+    this.route('POST', '/api/session/:sessionId/generate-image-instant', ({ sessionId }, { body }) => {
+      const session = this.requireSession(sessionId);
+      if (!body?.prompt) throw new MockHttpError(400, 'Prompt is required');
+      const image: GeneratedImage = {
+        id: this.id('image'),
+        prompt: body.prompt,
+        image_url: placeholderImage(body.prompt),
+        provider: 'mock',
+        status: 'completed',
+        created_at: new Date().toISOString(),
+        is_favorite: false,
+        tags: []
+      };
+      session.images.unshift(image);
+      return { image_id: image.id, image_url: image.image_url, provider: image.provider };
+    });
+    this.route('POST', '/api/session/:sessionId/image/:imageId/favorite', ({ sessionId, imageId }, { body }) => {
+      const image = this.requireSession(sessionId).images.find(candidate => candidate.id === imageId);
+      if (!image) throw new MockHttpError(404, `Image ${imageId} not found`);
+      image.is_favorite = !!body?.is_favorite;
+      return { status: 'success' };
+    });
+  }
+
+  private review(session: MockSession, responseId: string, action: string, finalResponse?: string, dmNotes?: string) {
+    const response = session.pendingResponses.find(candidate => candidate.id === responseId);
+    if (!response) throw new MockHttpError(404, `Pending response ${responseId} not found`);
+    if (!['approve', 'reject', 'edit'].includes(action)) throw new MockHttpError(400, `Unknown review action "${action}"`);
+    response.status = action === 'approve' ? 'approved' : action === 'reject' ? 'rejected' : 'edited';
+    response.final_response = action === 'edit' ? finalResponse : undefined;
+    response.dm_notes = dmNotes;
+  }
+
+  private reviewAnalytics(session: MockSession): ReviewAnalytics {
+    const count = (status: PendingResponse['status']) => session.pendingResponses.filter(response => response.status === status).length;
+    const reviewed = session.pendingResponses.length - count('pending');
+    return {
+      queue_status: {
+        pending_count: count('pending'),
+        high_priority_count: session.pendingResponses.filter(response => response.status === 'pending' && response.priority >= 3).length
+      },
+      review_stats: {
+        total_reviewed: reviewed,
+        approved_count: count('approved'),
+        rejected_count: count('rejected'),
+        edited_count: count('edited'),
+        approval_rate: reviewed ? (count('approved') + count('edited')) / reviewed : 0,
+        avg_review_time_minutes: 0
+      },
+      notifications: { unread_count: session.notifications.length }
+    };
+  }
+
+  // Answer one HTTP request
+  async handle(request: MockRequest): Promise<MockResponse> {
+    const methodRoutes = this.routes.filter(route => route.method === request.method.toUpperCase());
+    for (const route of methodRoutes) {
+      const match = route.pattern.exec(request.path);
+      if (!match) continue;
+      const params = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+      try {
+        return { status: 200, data: await route.handler(params, request) };
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          return { status: error.status, data: { status: 'error', error: error.message } };
+        }
+        return { status: 500, data: { status: 'error', error: error instanceof Error ? error.message : String(error) } };
+      }
+    }
+    return { status: 404, data: { status: 'error', error: `No mock for ${request.method.toUpperCase()} ${request.path}` } };
+  }
+
+  // Axios transport for the API client
+  adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    if (config.signal?.aborted) {
+      throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+    }
+    const url = new URL(config.url || '/', MOCK_BASE_URL);
+    const query: Record<string, string> = Object.fromEntries(url.searchParams);
+    Object.entries(config.params || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) query[key] = String(value);
+    });
+    const body = typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+
+    const { status, data } = await this.handle({ method: config.method || 'get', path: url.pathname, query, body });
+    const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response);
+    }
+    return response;
+  };
+
+  // Record a session event and send it to the session's sockets
+  publish(sessionId: string, event: ServerMessage): ServerMessage {
+    const session = this.requireSession(sessionId);
+    const sequenced = { ...event, seq: session.events.length + 1 } as ServerMessage;
+    session.events.push(sequenced);
+    this.sockets.forEach(socket => {
+      if (socket.sessionId === sessionId && this.canSee(socket, sequenced)) socket.deliver(sequenced);
+    });
+    return sequenced;
+  }
+
+  // Whether a socket's user may be sent an event, live or replayed: observers
+  // get only what observerCanSee allows, and private messages only go to their
+  // sender and recipients
+  private canSee(socket: MockSocket, event: ServerMessage): boolean {
+    const session = this.sessions.get(socket.sessionId);
+    const permissions = session ? this.permissionsOf(session, socket.userId) : null;
+    if (permissions?.role === 'observer' && !observerCanSee(event)) return false;
+    if (event.type !== 'private_message') return true;
+    return isRecipient(event.message, socket.userId || '', isGameMaster(permissions));
+  }
+
+  // Push a message down every open server-sent event stream
+  broadcastEvent(data: any) {
+    this.eventSources.forEach(source => source.emit(data));
+  }
+
+  // Results and private messages are only taken from those who may play;
+  // anyone else gets an error back
+  private mayPlay(socket: MockSocket, id?: string): boolean {
+    const session = this.sessions.get(socket.sessionId);
+    const permissions = session ? this.permissionsOf(session, socket.userId) : null;
+    if (can(permissions, 'play')) return true;
+    const message = permissions?.role === 'observer' ? 'Observers can only watch' : 'You don\'t have the play permission in this session';
+    socket.deliver({ type: 'error', id, message, code: 'forbidden' });
+    return false;
+  }
+
+  // Handle a message from a socket, as the real server would
+  receive(socket: MockSocket, message: ClientMessage) {
+    switch (message.type) {
+      case 'hello':
+        socket.deliver({ type: 'hello', version: PROTOCOL_VERSION, sessionId: socket.sessionId });
+        break;
+      case 'ping':
+        socket.deliver({ type: 'pong', at: message.at });
+        break;
+      case 'resume': {
+        const events = this.sessions.get(socket.sessionId)?.events || [];
+        socket.deliver({ type: 'replay', events: events.filter(event => (event.seq ?? 0) > message.lastSeq && this.canSee(socket, event)) });
+        break;
+      }
+      case 'command':
+        if (!this.mayPlay(socket, message.id)) break;
+        this.publish(socket.sessionId, {
+          type: 'command_result',
+          id: message.id,
+          command: message.command,
+          output: message.result,
+          success: true,
+          userId: message.userId
+        });
+        break;
+      case 'private_message': {
+        if (!this.mayPlay(socket, message.id)) break;
+        // The sender is whoever the socket belongs to, whatever the message says
+        const sent = { ...message.message, from: socket.userId || '', fromName: socket.name || socket.userId };
+        this.publish(socket.sessionId, { type: 'private_message', id: message.id, to: message.to, message: sent });
+        break;
+      }
+    }
+  }
+
+  createSocket = (url: string): WebSocket => {
+    const { pathname, searchParams } = new URL(url);
+    const sessionId = decodeURIComponent(pathname.split('/ws/')[1] || '');
+    if (!this.sessions.has(sessionId)) {
+      this.seed({ sessions: [{ id: sessionId, name: sessionId, gmUserId: getApiConfig().userId || 'gm' }] });
+    }
+    const userId = searchParams.get('user_id') || undefined;
+    const socket = new MockSocket(this, sessionId, url, userId, searchParams.get('name') || userId || '');
+    // Only members hear a session's events
+    if (this.permissionsOf(this.requireSession(sessionId), userId)) {
+      this.sockets.add(socket);
+    } else {
+      socket.refuse(`${userId || 'Anonymous'} is not in session ${sessionId}`);
+    }
+    return socket as unknown as WebSocket;
+  };
+
+  createEventSource = (url: string): EventSource => {
+    const source = new MockEventSource(this, url);
+    this.eventSources.add(source);
+    return source as unknown as EventSource;
+  };
+
+  // Forget a closed socket or stream
+  detach(connection: MockSocket | MockEventSource) {
+    if (connection instanceof MockSocket) {
+      this.sockets.delete(connection);
+    } else {
+      this.eventSources.delete(connection);
+    }
+  }
+
+  // Drop every connection, as if the server went away
+  disconnectAll() {
+    this.sockets.forEach(socket => socket.close());
+  }
+}
+
+// In-page WebSocket connected to a MockBackend. Messages are delivered on a
+// later tick, like a real network.
+export class MockSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  readyState = MockSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private refusal: string | null = null;
+
+  constructor(
+    private backend: MockBackend,
+    public sessionId: string,
+    public url: string,
+    public userId?: string, // Signed-in user the socket was opened for
+    public name = '' // Display name, shown on the user's private messages
+  ) {
+    setTimeout(() => {
+      if (this.readyState !== MockSocket.CONNECTING) return;
+      if (this.refusal !== null) {
+        this.readyState = MockSocket.CLOSED;
+        this.onclose?.(new CloseEvent('close', { code: CLOSE_REFUSED, reason: this.refusal }));
+        return;
+      }
+      this.readyState = MockSocket.OPEN;
+      this.onopen?.(new Event('open'));
+    }, 0);
+  }
+
+  // Close instead of opening, as the server does for someone not in the session
+  refuse(reason: string) {
+    this.refusal = reason;
+  }
+
+  send(data: string) {
+    if (this.readyState !== MockSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.backend.receive(this, JSON.parse(data));
+  }
+
+  deliver(message: ServerMessage) {
+    setTimeout(() => {
+      if (this.readyState === MockSocket.OPEN) {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) }));
+      }
+    }, 0);
+  }
+
+  close() {
+    if (this.readyState === MockSocket.CLOSED) return;
+    this.readyState = MockSocket.CLOSED;
+    this.backend.detach(this);
+    this.onclose?.(new CloseEvent('close'));
+  }
+}
+
+// In-page EventSource fed by MockBackend.broadcastEvent
+export class MockEventSource {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 2;
+
+  readyState = MockEventSource.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(private backend: MockBackend, public url: string) {
+    setTimeout(() => {
+      if (this.readyState !== MockEventSource.CONNECTING) return;
+      this.readyState = MockEventSource.OPEN;
+      this.onopen?.(new Event('open'));
+    }, 0);
+  }
+
+  emit(data: any) {
+    if (this.readyState === MockEventSource.OPEN) {
+      this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+    }
+  }
+
+  close() {
+    this.readyState = MockEventSource.CLOSED;
+    this.backend.detach(this);
+  }
+}
+
+// Point the API client at a fresh mock backend; returns it for inspection
+export function installMockBackend(seed: MockBackendSeed = demoSeed()): MockBackend {
+  const backend = new MockBackend(seed);
+  configureApi({
+    baseUrl: MOCK_BASE_URL,
+    adapter: backend.adapter,
+    createSocket: backend.createSocket,
+    createEventSource: backend.createEventSource,
+    retries: 0,
+    userId: getApiConfig().userId || 'offline-runner' // Offline there may be nobody signed in
+  });
+  return backend;
+}
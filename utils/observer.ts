@@ -0,0 +1,100 @@
+// Observer (spectator) mode
+//
+// Observers watch a session without taking part: they can't roll or run game
+// commands, never see private messages, and don't see the results of GM-only
+// commands or the NPCs the GM summons, which can give away NPC stats. The
+// server holds those back from observers, and clients check again. Because
+// observers are often streaming the game, what they see can run on a delay so
+// nobody can watch the stream to learn what's happening at the table right now.
+import { findCommand } from './commands';
+import { parseCommandChain } from './commandLine';
+import type { ServerMessage, CommandResultMessage } from './protocol';
+
+// Delay choices, in seconds
+export const OBSERVER_DELAYS = [0, 15, 30, 60, 120];
+
+// How many rolls the streamer overlay keeps
+export const RECENT_ROLL_LIMIT = 5;
+
+export interface RecentRoll {
+  userId?: string;
+  command: string;
+  output: string;
+  success: boolean;
+  at: string; // ISO 8601
+}
+
+const commandOf = (line: string) => findCommand(line.trim().split(/\s+/)[0] || '');
+
+// Every command a line runs, through ";" and "|"; null if it doesn't parse
+function commandsOf(line: string) {
+  try {
+    return parseCommandChain(line).flat().map(parsed => findCommand(parsed.command));
+  } catch {
+    return null;
+  }
+}
+
+// Whether a session event may be shown to an observer
+export function observerCanSee(message: ServerMessage): boolean {
+  switch (message.type) {
+    case 'private_message':
+      return false;
+    case 'session_change':
+      return message.change.kind !== 'npc';
+    case 'command_result': {
+      // One GM-only command anywhere in the line hides the whole result
+      const commands = commandsOf(message.command);
+      return !!commands && commands.every(command => !command?.requires);
+    }
+    default:
+      return true;
+  }
+}
+
+// A dice command's result, for the overlay's recent rolls; null for anything else
+export function toRecentRoll(message: CommandResultMessage, at: Date = new Date()): RecentRoll | null {
+  if (commandOf(message.command)?.category !== 'dice') return null;
+  return {
+    userId: message.userId,
+    command: message.command,
+    output: message.output,
+    success: message.success,
+    at: at.toISOString()
+  };
+}
+
+// Holds items back for a while before handing them on, in arrival order.
+// Changing the delay only affects items pushed afterwards.
+export class DelayBuffer<T> {
+  private release: (item: T) => void;
+  private delayMs: number;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(release: (item: T) => void, delayMs = 0) {
+    this.release = release;
+    this.delayMs = delayMs;
+  }
+
+  setDelay(delayMs: number) {
+    this.delayMs = delayMs;
+  }
+
+  push(item: T) {
+    if (this.delayMs <= 0) {
+      this.release(item);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.release(item);
+    }, this.delayMs);
+    this.timers.add(timer);
+  }
+
+  // Drop everything still held back
+  clear() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
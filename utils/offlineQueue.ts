@@ -0,0 +1,200 @@
+// Outbound message queue for flaky connections
+//
+// Messages sent while the session WebSocket is down are queued instead of being
+// dropped, and sent in order once it reconnects. The queue is kept in IndexedDB
+// so it survives a page reload; where IndexedDB is missing (tests, old browsers)
+// it falls back to memory. Every message carries an id, and a message whose id
+// is already queued is not queued twice.
+
+export interface QueuedMessage {
+  id: string;
+  sessionId: string;
+  payload: any;
+  seq: number; // Send order
+  queuedAt: string; // ISO 8601
+}
+
+// Where queued messages are kept
+export interface QueueStore {
+  load(): Promise<QueuedMessage[]>;
+  put(message: QueuedMessage): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export class MemoryQueueStore implements QueueStore {
+  private messages = new Map<string, QueuedMessage>();
+
+  async load(): Promise<QueuedMessage[]> {
+    return Array.from(this.messages.values());
+  }
+
+  async put(message: QueuedMessage): Promise<void> {
+    this.messages.set(message.id, message);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.messages.delete(id);
+  }
+}
+
+const DB_NAME = 'shadowrun-offline';
+const STORE_NAME = 'outbound';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBQueueStore implements QueueStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async load(): Promise<QueuedMessage[]> {
+    return requestToPromise((await this.store('readonly')).getAll());
+  }
+
+  async put(message: QueuedMessage): Promise<void> {
+    await requestToPromise((await this.store('readwrite')).put(message));
+  }
+
+  async remove(id: string): Promise<void> {
+    await requestToPromise((await this.store('readwrite')).delete(id));
+  }
+}
+
+export function createQueueStore(): QueueStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBQueueStore() : new MemoryQueueStore();
+}
+
+export function createMessageId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class OutboundQueue {
+  private store: QueueStore;
+  private messages: QueuedMessage[] = [];
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<number> = Promise.resolve(0);
+  private flushes = 0; // Running or waiting their turn
+  private nextSeq = 0;
+  private listeners = new Set<(pending: number) => void>();
+
+  constructor(store: QueueStore = createQueueStore()) {
+    this.store = store;
+  }
+
+  // Read messages queued before a reload; safe to call more than once
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load()
+        .then(saved => {
+          const known = new Set(this.messages.map(message => message.id));
+          this.messages = [...this.messages, ...saved.filter(message => !known.has(message.id))]
+            .sort((a, b) => a.seq - b.seq);
+          this.nextSeq = Math.max(this.nextSeq, ...this.messages.map(message => message.seq + 1));
+          this.notify();
+        })
+        .catch(error => {
+          console.warn('Failed to load offline queue:', error);
+        });
+    }
+    return this.loading;
+  }
+
+  // Queue a message with an id; returns false if that id is already queued
+  async enqueue(sessionId: string, payload: { id: string }): Promise<boolean> {
+    await this.load();
+    if (this.messages.some(message => message.id === payload.id)) {
+      return false;
+    }
+
+    const message: QueuedMessage = {
+      id: payload.id,
+      sessionId,
+      payload,
+      seq: this.nextSeq++,
+      queuedAt: new Date().toISOString()
+    };
+    this.messages.push(message);
+    this.notify();
+    try {
+      await this.store.put(message);
+    } catch (error) {
+      console.warn('Failed to persist queued message:', error);
+    }
+    return true;
+  }
+
+  getPending(sessionId?: string): QueuedMessage[] {
+    return this.messages.filter(message => sessionId === undefined || message.sessionId === sessionId);
+  }
+
+  // Whether a session has messages waiting or being sent; new messages
+  // should be queued behind them rather than sent straight away
+  isBusy(sessionId: string): boolean {
+    return this.flushes > 0 || this.getPending(sessionId).length > 0;
+  }
+
+  // Send a session's queued messages in order. Stops at the first one send()
+  // refuses, leaving it and the rest queued. Flushes run one after another,
+  // each sending what is queued when its turn comes. Returns how many were sent.
+  flush(sessionId: string, send: (payload: any) => boolean): Promise<number> {
+    this.flushes++;
+    const flush = this.flushing.catch(() => 0).then(() => this.sendQueued(sessionId, send)).finally(() => {
+      this.flushes--;
+    });
+    this.flushing = flush;
+    return flush;
+  }
+
+  private async sendQueued(sessionId: string, send: (payload: any) => boolean): Promise<number> {
+    await this.load();
+    let sent = 0;
+    // Messages queued while this runs are sent too
+    let message = this.getPending(sessionId)[0];
+    while (message && send(message.payload)) {
+      const { id } = message;
+      this.messages = this.messages.filter(queued => queued.id !== id);
+      sent++;
+      this.notify();
+      try {
+        await this.store.remove(id);
+      } catch (error) {
+        console.warn('Failed to remove sent message from offline queue:', error);
+      }
+      message = this.getPending(sessionId)[0];
+    }
+    return sent;
+  }
+
+  // Listen for changes in the number of pending messages
+  subscribe(listener: (pending: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.messages.length));
+  }
+}
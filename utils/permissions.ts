@@ -0,0 +1,121 @@
+// Session roles and permissions
+//
+// Every session member has a role: the GM who owns the session, co-GMs who
+// help run it, players and observers. A role comes with a set of capabilities,
+// and the GM can grant a member extra ones or take some of their role's away,
+// e.g. a co-GM who runs combat but stays out of the AI review queue. Code asks
+// can(permissions, capability) instead of checking roles, so grants apply
+// everywhere: the command registry, the dashboards and the combat manager.
+import type { SessionInfo } from './api';
+
+export type Role = 'gm' | 'co-gm' | 'player' | 'observer';
+
+export type Capability =
+  | 'play' // Roll dice and run game commands
+  | 'edit_scene'
+  | 'manage_npcs' // Summon NPCs and see the NPC roster
+  | 'see_npc_stats'
+  | 'edit_combat' // Start, advance and end combat, change the order
+  | 'reveal' // Show players secret results
+  | 'approve_ai_responses' // The AI review queue
+  | 'view_analytics' // Analytics, live monitoring and the campaign timeline
+  | 'manage_session'; // Invites, member roles and session tools
+
+export const CAPABILITIES: Capability[] = [
+  'play',
+  'edit_scene',
+  'manage_npcs',
+  'see_npc_stats',
+  'edit_combat',
+  'reveal',
+  'approve_ai_responses',
+  'view_analytics',
+  'manage_session'
+];
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  play: 'May roll and run game commands',
+  edit_scene: 'May edit the scene',
+  manage_npcs: 'May manage NPCs',
+  see_npc_stats: 'May see NPC stats',
+  edit_combat: 'May edit combat',
+  reveal: 'May reveal secrets to players',
+  approve_ai_responses: 'May approve AI responses',
+  view_analytics: 'May view analytics',
+  manage_session: 'May manage the session'
+};
+
+export const ROLES: Role[] = ['gm', 'co-gm', 'player', 'observer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  gm: 'Game Master',
+  'co-gm': 'Co-GM',
+  player: 'Player',
+  observer: 'Observer'
+};
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  gm: CAPABILITIES,
+  'co-gm': ['play', 'edit_scene', 'manage_npcs', 'see_npc_stats', 'edit_combat', 'reveal', 'view_analytics'],
+  player: ['play'],
+  observer: []
+};
+
+export interface Permissions {
+  role: Role;
+  grants?: Capability[]; // On top of the role's
+  denies?: Capability[]; // Taken away from the role's; the GM can't lose any
+}
+
+// Role names as the backend spells them
+export function toRole(value: unknown): Role | undefined {
+  if (value === 'co_gm' || value === 'cogm') return 'co-gm';
+  return ROLES.includes(value as Role) ? (value as Role) : undefined;
+}
+
+export function toCapabilities(values: unknown): Capability[] {
+  return Array.isArray(values) ? values.filter((value): value is Capability => CAPABILITIES.includes(value)) : [];
+}
+
+export function capabilitiesOf(permissions: Permissions): Capability[] {
+  if (permissions.role === 'gm') return [...CAPABILITIES];
+  const denied = new Set(permissions.denies || []);
+  return CAPABILITIES.filter(capability =>
+    !denied.has(capability)
+    && (ROLE_CAPABILITIES[permissions.role].includes(capability) || !!permissions.grants?.includes(capability)));
+}
+
+export function can(permissions: Permissions | null | undefined, capability: Capability): boolean {
+  return !!permissions && capabilitiesOf(permissions).includes(capability);
+}
+
+// Turn one capability on or off for a member, keeping their role and
+// recording the difference from the role's defaults as grants and denies
+export function withCapability(permissions: Permissions, capability: Capability, enabled: boolean): Permissions {
+  const defaults = ROLE_CAPABILITIES[permissions.role];
+  const wanted = new Set(capabilitiesOf(permissions));
+  if (enabled) {
+    wanted.add(capability);
+  } else {
+    wanted.delete(capability);
+  }
+  return {
+    role: permissions.role,
+    grants: CAPABILITIES.filter(item => wanted.has(item) && !defaults.includes(item)),
+    denies: CAPABILITIES.filter(item => !wanted.has(item) && defaults.includes(item))
+  };
+}
+
+// GMs and co-GMs both get notes sent to the GM
+export function isGameMaster(permissions: Permissions | null | undefined): boolean {
+  return permissions?.role === 'gm' || permissions?.role === 'co-gm';
+}
+
+// The signed-in user's permissions in a session; older backends only say isGM
+export function sessionPermissions(session: SessionInfo): Permissions {
+  return {
+    role: session.role ?? (session.isGM ? 'gm' : 'player'),
+    grants: session.grants,
+    denies: session.denies
+  };
+}
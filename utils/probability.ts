@@ -0,0 +1,172 @@
+// Shadowrun Roll Probabilities
+//
+// Exact odds for a dice pool: every die hits on 5-6 (1/3), rolls a 1 on 1/6,
+// and with exploding sixes a 6 adds another die that can explode in turn.
+
+export interface OddsOptions {
+  threshold?: number;
+  limit?: number;
+  exploding?: boolean;
+}
+
+export interface RollOdds {
+  pool: number;
+  threshold?: number;
+  limit?: number;
+  exploding: boolean;
+  distribution: number[]; // distribution[k] = chance of exactly k hits, after the limit
+  expectedHits: number;
+  thresholdChance?: number; // Chance to get at least threshold hits
+  glitchChance: number;
+  criticalGlitchChance: number;
+  limitedChance: number; // Chance the limit cuts off at least one hit
+  expectedHitsLost: number; // Average hits lost to the limit
+}
+
+// Probabilities below this are dropped from exploding tails
+const TAIL_EPSILON = 1e-12;
+
+// Binomial coefficient, computed in floating point to stay exact enough for large pools
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= Math.min(k, n - k); i++) {
+    result = (result * (n - i + 1)) / i;
+  }
+  return result;
+}
+
+// Hits from a single die
+function singleDieHits(exploding: boolean): number[] {
+  if (!exploding) {
+    return [2 / 3, 1 / 3];
+  }
+  // P(0) = 2/3, P(k) = 5/3 * (1/6)^k for k >= 1
+  const distribution = [2 / 3];
+  for (let k = 1; ; k++) {
+    const p = (5 / 3) * Math.pow(1 / 6, k);
+    if (p < TAIL_EPSILON) break;
+    distribution.push(p);
+  }
+  return distribution;
+}
+
+function convolve(a: number[], b: number[]): number[] {
+  const result = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((pa, i) => {
+    b.forEach((pb, j) => {
+      result[i + j] += pa * pb;
+    });
+  });
+  // Trim negligible tail mass
+  while (result.length > 1 && result[result.length - 1] < TAIL_EPSILON) {
+    result.pop();
+  }
+  return result;
+}
+
+// Exact distribution of hits for a pool, before any limit
+export function hitDistribution(pool: number, exploding: boolean = false): number[] {
+  if (pool < 0) {
+    throw new Error('Dice pool cannot be negative');
+  }
+  const die = singleDieHits(exploding);
+  let distribution = [1];
+  for (let i = 0; i < pool; i++) {
+    distribution = convolve(distribution, die);
+  }
+  return distribution;
+}
+
+// Cap a distribution at the limit, moving all higher results onto the limit
+export function applyLimit(distribution: number[], limit?: number): number[] {
+  if (limit !== undefined && limit < 0) {
+    throw new Error('Limit cannot be negative');
+  }
+  if (limit === undefined || limit >= distribution.length - 1) {
+    return [...distribution];
+  }
+  const capped = distribution.slice(0, limit + 1);
+  capped[limit] = distribution.slice(limit).reduce((sum, p) => sum + p, 0);
+  return capped;
+}
+
+// Chance that more than half the dice show 1s (exploded dice never glitch)
+export function glitchChance(pool: number): number {
+  let chance = 0;
+  for (let ones = Math.floor(pool / 2) + 1; ones <= pool; ones++) {
+    chance += choose(pool, ones) * Math.pow(1 / 6, ones) * Math.pow(5 / 6, pool - ones);
+  }
+  return chance;
+}
+
+// Chance of a glitch with no hits at all: every other die shows 2-4
+export function criticalGlitchChance(pool: number): number {
+  let chance = 0;
+  for (let ones = Math.floor(pool / 2) + 1; ones <= pool; ones++) {
+    chance += choose(pool, ones) * Math.pow(1 / 6, ones) * Math.pow(1 / 2, pool - ones);
+  }
+  return chance;
+}
+
+function expectation(distribution: number[]): number {
+  return distribution.reduce((sum, p, hits) => sum + p * hits, 0);
+}
+
+// Full odds for a pool with optional threshold, limit and exploding sixes
+export function calculateOdds(pool: number, options: OddsOptions = {}): RollOdds {
+  if (options.threshold !== undefined && options.threshold < 0) {
+    throw new Error('Threshold cannot be negative');
+  }
+  const exploding = !!options.exploding;
+  const raw = hitDistribution(pool, exploding);
+  const distribution = applyLimit(raw, options.limit);
+  const rawExpected = expectation(raw);
+  const expectedHits = expectation(distribution);
+
+  const limitedChance = options.limit === undefined
+    ? 0
+    : raw.slice(options.limit + 1).reduce((sum, p) => sum + p, 0);
+
+  return {
+    pool,
+    threshold: options.threshold,
+    limit: options.limit,
+    exploding,
+    distribution,
+    expectedHits,
+    thresholdChance: options.threshold !== undefined
+      ? distribution.slice(options.threshold).reduce((sum, p) => sum + p, 0)
+      : undefined,
+    glitchChance: glitchChance(pool),
+    criticalGlitchChance: criticalGlitchChance(pool),
+    limitedChance,
+    expectedHitsLost: rawExpected - expectedHits
+  };
+}
+
+function percent(chance: number): string {
+  const value = chance * 100;
+  if (value > 0 && value < 0.1) return '<0.1%';
+  if (value < 100 && value > 99.9) return '>99.9%';
+  return `${value.toFixed(1)}%`;
+}
+
+// Format odds for display
+export function formatOdds(odds: RollOdds): string {
+  let output = `Odds for ${odds.pool} dice${odds.exploding ? ' (exploding 6s)' : ''}`;
+  if (odds.limit !== undefined) output += `, limit ${odds.limit}`;
+  output += `\nExpected hits: ${odds.expectedHits.toFixed(2)}`;
+
+  if (odds.threshold !== undefined && odds.thresholdChance !== undefined) {
+    output += `\nChance of ${odds.threshold}+ hits: ${percent(odds.thresholdChance)}`;
+  }
+
+  output += `\nGlitch: ${percent(odds.glitchChance)} | Critical glitch: ${percent(odds.criticalGlitchChance)}`;
+
+  if (odds.limit !== undefined) {
+    output += `\nLimit cuts hits: ${percent(odds.limitedChance)} (avg ${odds.expectedHitsLost.toFixed(2)} hits lost)`;
+  }
+
+  return output;
+}
@@ -0,0 +1,226 @@
+// Session WebSocket protocol
+//
+// Every message is a JSON object with a "type" that picks its shape. Messages
+// from the server are validated before anything sees them; ones that don't
+// parse, have an unknown type or are missing fields are rejected with a
+// ProtocolError so the socket can quarantine and report them.
+//
+// On connect both sides send a hello with their protocol version. The major
+// version must match; the server's hello is checked with checkProtocolVersion.
+//
+// Session events from the server carry an increasing "seq". After a reconnect
+// the client sends resume with the last seq it saw, and the server answers with
+// a replay of the events it missed. ping/pong keeps the connection honest.
+//
+// The connection URL names the user (user_id, and their display name), so the
+// server can deliver private messages to their recipients only and stamp
+// the sender on the ones they send.
+import type { SessionChange } from './session';
+import { isPrivateMessage, PrivateMessage } from './whispers';
+
+export const PROTOCOL_VERSION = 2;
+
+// Close code for a connection the server turns away, e.g. from someone who
+// isn't in the session; clients don't reconnect after it
+export const CLOSE_REFUSED = 1008; // Policy violation
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  sessionId?: string;
+}
+
+// A player's command result, to broadcast to the session
+export interface CommandMessage {
+  type: 'command';
+  command: string;
+  result: string;
+  userId: string;
+}
+
+// Another player's command result
+export interface CommandResultMessage {
+  type: 'command_result';
+  command: string;
+  output: string;
+  success: boolean;
+  userId?: string;
+}
+
+export interface PlayerJoinedMessage {
+  type: 'player_joined';
+  username: string;
+}
+
+export interface PlayerLeftMessage {
+  type: 'player_left';
+  username: string;
+}
+
+// Whisper, GM note or reveal; the server delivers it to its sender and "to" only
+export interface PrivateMessageEnvelope {
+  type: 'private_message';
+  to: string[];
+  message: PrivateMessage;
+}
+
+// A change to the scene, NPCs or initiative, to apply to the session state
+export interface SessionChangeMessage {
+  type: 'session_change';
+  change: SessionChange;
+}
+
+// Liveness check; the server answers a ping with a pong
+export interface PingMessage {
+  type: 'ping';
+  at: number; // Client clock, echoed back in the pong
+}
+
+export interface PongMessage {
+  type: 'pong';
+  at: number;
+}
+
+// Ask for the events after lastSeq
+export interface ResumeMessage {
+  type: 'resume';
+  lastSeq: number;
+}
+
+// Events missed while disconnected, oldest first
+export interface ReplayMessage {
+  type: 'replay';
+  events: ServerMessage[];
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+// Messages may carry an id, used to dedupe queued sends
+type WithId<T> = T & { id?: string };
+
+export type ClientMessage = WithId<HelloMessage | CommandMessage | PrivateMessageEnvelope | PingMessage | ResumeMessage>;
+
+// Session events also carry their sequence number
+export type ServerMessage = WithId<
+  | HelloMessage
+  | CommandResultMessage
+  | PlayerJoinedMessage
+  | PlayerLeftMessage
+  | PrivateMessageEnvelope
+  | SessionChangeMessage
+  | PongMessage
+  | ReplayMessage
+  | ErrorMessage
+> & { seq?: number };
+
+export type ServerMessageType = ServerMessage['type'];
+
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+export class ProtocolError extends Error {
+  raw: string;
+  code: 'invalid' | 'version'; // Bad message, or a server we can't talk to
+
+  constructor(message: string, raw: string, code: 'invalid' | 'version' = 'invalid') {
+    super(message);
+    this.name = 'ProtocolError';
+    this.raw = raw;
+    this.code = code;
+  }
+}
+
+// A server message that failed validation, kept for reporting
+export interface QuarantinedMessage {
+  raw: string;
+  reason: string;
+  receivedAt: string; // ISO 8601
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'array' | 'object';
+
+const isType = (value: unknown, type: FieldType) =>
+  type === 'string[]' ? Array.isArray(value) && value.every(item => typeof item === 'string') :
+  type === 'array' ? Array.isArray(value) :
+  type === 'object' ? !!value && typeof value === 'object' && !Array.isArray(value) :
+  typeof value === type;
+
+const describeType = (type: FieldType) =>
+  type === 'string[]' ? 'a list of strings' : type === 'array' ? 'a list' : type === 'object' ? 'an object' : `a ${type}`;
+
+// Fields each server message needs; a trailing ? marks optional ones
+const serverMessageFields: Record<ServerMessageType, Record<string, FieldType>> = {
+  hello: { version: 'number', 'sessionId?': 'string' },
+  command_result: { command: 'string', output: 'string', success: 'boolean', 'userId?': 'string' },
+  player_joined: { username: 'string' },
+  player_left: { username: 'string' },
+  private_message: { to: 'string[]' },
+  session_change: { change: 'object' },
+  pong: { at: 'number' },
+  replay: { events: 'array' },
+  error: { message: 'string', 'code?': 'string' }
+};
+
+// Problems with a decoded message, empty if it is valid
+function serverMessageProblems(data: any): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['message is not an object'];
+  }
+  const fields = serverMessageFields[data.type as ServerMessageType];
+  if (!fields) {
+    return [`unknown message type "${data.type}"`];
+  }
+
+  const problems: string[] = [];
+  Object.entries(fields).forEach(([key, type]) => {
+    const optional = key.endsWith('?');
+    const name = optional ? key.slice(0, -1) : key;
+    if (data[name] === undefined ? !optional : !isType(data[name], type)) {
+      problems.push(`${data.type}.${name} must be ${describeType(type)}`);
+    }
+  });
+  if (data.id !== undefined && typeof data.id !== 'string') {
+    problems.push('id must be a string');
+  }
+  if (data.seq !== undefined && !Number.isInteger(data.seq)) {
+    problems.push('seq must be an integer');
+  }
+  if (data.type === 'private_message' && !isPrivateMessage(data.message)) {
+    problems.push('private_message.message is not a valid private message');
+  }
+  return problems;
+}
+
+// Decode and validate a message from the server
+export function parseServerMessage(raw: string): ServerMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON', raw);
+  }
+  return validateServerMessage(data, raw);
+}
+
+// Validate an already decoded message, such as one event of a replay
+export function validateServerMessage(data: unknown, raw: string = JSON.stringify(data)): ServerMessage {
+  const problems = serverMessageProblems(data);
+  if (problems.length > 0) {
+    throw new ProtocolError(problems.join('; '), raw);
+  }
+  return data as ServerMessage;
+}
+
+// Check the server's hello; throws if we can't talk to it
+export function checkProtocolVersion(hello: HelloMessage) {
+  if (Math.floor(hello.version) !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      `Server speaks protocol v${hello.version}, this client speaks v${PROTOCOL_VERSION}`,
+      JSON.stringify(hello),
+      'version'
+    );
+  }
+}
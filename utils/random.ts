@@ -0,0 +1,60 @@
+// Random sources for dice rolls
+//
+// Every roll draws from a RandomSource. A source is a deterministic stream
+// started from a 32-bit seed, so recording the seed (and how many draws were
+// taken before the roll) is enough to replay a roll exactly.
+
+export interface RandomSource {
+  seed: number;
+  draws: number; // Number of values taken from the stream so far
+  next(): number; // Float in [0, 1)
+}
+
+// Mulberry32 - small, fast and good enough for tabletop dice
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  const source: RandomSource = {
+    seed: seed >>> 0,
+    draws: 0,
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      source.draws++;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+  };
+  return source;
+}
+
+// Generate an unpredictable seed from the platform CSPRNG
+export function generateSeed(): number {
+  const cryptoApi = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    const buffer = new Uint32Array(1);
+    cryptoApi.getRandomValues(buffer);
+    return buffer[0];
+  }
+  // Environments without Web Crypto still get a usable (if weaker) seed
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Default source: a seeded stream whose seed comes from crypto
+export function createCryptoRandom(): RandomSource {
+  return createSeededRandom(generateSeed());
+}
+
+// Recreate a source positioned exactly where a recorded roll started
+export function restoreRandom(seed: number, offset: number = 0): RandomSource {
+  const source = createSeededRandom(seed);
+  for (let i = 0; i < offset; i++) {
+    source.next();
+  }
+  return source;
+}
+
+// Roll a single die with the given number of sides
+export function rollDie(source: RandomSource, sides: number = 6): number {
+  return Math.floor(source.next() * sides) + 1;
+}
@@ -0,0 +1,333 @@
+// Shadowrun Session State
+//
+// Client-side state that console commands change: the current scene, summoned
+// NPCs, the initiative tracker, Edge pools and who is in the Matrix.
+// State is kept per session in localStorage so a reload doesn't lose the run.
+//
+// The scene, NPCs and initiative are shared by the whole table. Commands send
+// each change to the server as a SessionChange, and the server passes it on to
+// everyone in the session, who apply it to their own copy. Edge and Matrix
+// state belong to each player and stay local.
+import { InitiativeResult, rollInitiative, sortInitiativeOrder } from './initiative';
+import { RandomSource } from './random';
+
+export interface SceneState {
+  description: string;
+  setBy: string;
+  setAt: string;
+}
+
+export interface NpcArchetype {
+  name: string;
+  initiativeBase: number;
+  initiativeDice: number;
+  dicePool: number; // Typical combat pool
+  conditionMonitor: number;
+  professionalRating: number;
+}
+
+export interface SessionNpc {
+  id: string;
+  name: string;
+  archetype: string;
+  dicePool: number;
+  condition: { current: number; max: number };
+  initiativeBase: number;
+  initiativeDice: number;
+}
+
+export interface InitiativeEntry {
+  id: string;
+  name: string;
+  kind: 'player' | 'npc';
+  result: InitiativeResult;
+}
+
+export interface CombatState {
+  active: boolean;
+  round: number;
+  turn: number; // Index into order of whoever is acting
+  order: InitiativeEntry[];
+}
+
+export interface EdgePool {
+  current: number;
+  max: number;
+}
+
+export interface MatrixPresence {
+  connected: boolean;
+  hotSim: boolean;
+  overwatch: number;
+  marks: Record<string, number>; // Marks placed, by target name
+}
+
+export interface SessionState {
+  scene?: SceneState;
+  npcs: SessionNpc[];
+  combat: CombatState;
+  edge: Record<string, EdgePool>;
+  matrix: Record<string, MatrixPresence>;
+}
+
+// The part of the state everyone in the session shares
+export type SharedSessionState = Pick<SessionState, 'scene' | 'npcs' | 'combat'>;
+
+export type SessionChange =
+  | { kind: 'scene'; scene: SceneState }
+  | { kind: 'npc'; npc: SessionNpc } // Summoned, or changed
+  | { kind: 'initiative'; entry: InitiativeEntry } // Rolled, or rerolled
+  | { kind: 'combat'; combat: CombatState }; // Started, advanced or ended
+
+// Overwatch Score at which GOD converges on a decker
+export const CONVERGENCE_THRESHOLD = 40;
+export const MAX_MARKS = 3;
+
+// NPC archetypes for summon, loosely following SR6 grunt stat blocks
+export const npcArchetypes: Record<string, NpcArchetype> = {
+  ganger: { name: 'Ganger', initiativeBase: 6, initiativeDice: 1, dicePool: 7, conditionMonitor: 10, professionalRating: 1 },
+  security: { name: 'Corporate Security', initiativeBase: 8, initiativeDice: 1, dicePool: 9, conditionMonitor: 10, professionalRating: 3 },
+  cop: { name: 'Street Cop', initiativeBase: 7, initiativeDice: 1, dicePool: 8, conditionMonitor: 10, professionalRating: 2 },
+  mage: { name: 'Combat Mage', initiativeBase: 8, initiativeDice: 1, dicePool: 10, conditionMonitor: 9, professionalRating: 4 },
+  decker: { name: 'Decker', initiativeBase: 9, initiativeDice: 1, dicePool: 10, conditionMonitor: 9, professionalRating: 4 },
+  spirit: { name: 'Spirit', initiativeBase: 10, initiativeDice: 2, dicePool: 10, conditionMonitor: 11, professionalRating: 4 },
+  specops: { name: 'Special Forces', initiativeBase: 10, initiativeDice: 2, dicePool: 13, conditionMonitor: 12, professionalRating: 6 }
+};
+
+export function createEmptySessionState(): SessionState {
+  return {
+    npcs: [],
+    combat: { active: false, round: 0, turn: 0, order: [] },
+    edge: {},
+    matrix: {}
+  };
+}
+
+// Record an initiative roll, replacing any earlier one for the same combatant
+function withInitiative(combat: CombatState, entry: InitiativeEntry): CombatState {
+  const acting = combat.active ? combat.order[combat.turn] : undefined;
+  const order = sortInitiativeOrder(
+    [...combat.order.filter(e => e.id !== entry.id), entry].map(e => ({
+      ...e,
+      initiativeScore: e.result.score,
+      initiativeBase: e.result.base,
+      seizedInitiative: e.result.seized
+    }))
+  ).map(({ id, name, kind, result }) => ({ id, name, kind, result }));
+  // Keep the turn on whoever was acting
+  const turn = acting ? Math.max(0, order.findIndex(e => e.id === acting.id)) : combat.turn;
+  return { ...combat, order, turn };
+}
+
+// Apply a change made here or by someone else. Applying the same change twice
+// leaves the state as applying it once, so echoes of our own changes are harmless.
+export function applySessionChange<T extends SharedSessionState>(state: T, change: SessionChange): T {
+  switch (change.kind) {
+    case 'scene':
+      return { ...state, scene: change.scene };
+    case 'npc':
+      return { ...state, npcs: [...state.npcs.filter(npc => npc.id !== change.npc.id), change.npc] };
+    case 'initiative':
+      return { ...state, combat: withInitiative(state.combat, change.entry) };
+    case 'combat':
+      return { ...state, combat: change.combat };
+  }
+}
+
+// Session state management
+export class SessionStateManager {
+  readonly sessionId: string;
+  private state: SessionState;
+
+  constructor(sessionId: string = 'local') {
+    this.sessionId = sessionId;
+    this.state = createEmptySessionState();
+  }
+
+  private get storageKey(): string {
+    return `shadowrun-session-${this.sessionId}`;
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  // A change from the server, made here or by someone else in the session
+  apply(change: SessionChange) {
+    this.state = applySessionChange(this.state, change);
+    this.saveToStorage();
+  }
+
+  // Take the server's copy of the shared state, e.g. on joining
+  setShared(shared: SharedSessionState) {
+    this.state = { ...this.state, scene: shared.scene, npcs: shared.npcs, combat: shared.combat };
+    this.saveToStorage();
+  }
+
+  // Scene
+  setScene(description: string, setBy: string): SceneState {
+    const scene = { description, setBy, setAt: new Date().toISOString() };
+    this.apply({ kind: 'scene', scene });
+    return scene;
+  }
+
+  // NPCs
+  summonNpc(name: string, archetypeId: string = 'ganger'): SessionNpc {
+    const archetype = npcArchetypes[archetypeId.toLowerCase()];
+    if (!archetype) {
+      throw new Error(`Unknown archetype "${archetypeId}". Options: ${Object.keys(npcArchetypes).join(', ')}`);
+    }
+    if (this.state.npcs.some(npc => npc.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`${name} is already in the scene`);
+    }
+
+    const npc: SessionNpc = {
+      id: `npc-${Date.now()}-${this.state.npcs.length}`,
+      name,
+      archetype: archetypeId.toLowerCase(),
+      dicePool: archetype.dicePool,
+      condition: { current: 0, max: archetype.conditionMonitor },
+      initiativeBase: archetype.initiativeBase,
+      initiativeDice: archetype.initiativeDice
+    };
+    this.apply({ kind: 'npc', npc });
+    return npc;
+  }
+
+  // Initiative: record a roll, replacing any earlier one for the same combatant
+  setInitiative(entry: InitiativeEntry): void {
+    this.apply({ kind: 'initiative', entry });
+  }
+
+  // Start combat, rolling initiative for any NPC that hasn't rolled
+  startCombat(rng?: RandomSource): CombatState {
+    if (this.state.combat.active) {
+      throw new Error('Combat has already started');
+    }
+    this.state.npcs.forEach(npc => {
+      if (!this.state.combat.order.some(e => e.id === npc.id)) {
+        this.setInitiative({
+          id: npc.id,
+          name: npc.name,
+          kind: 'npc',
+          result: rollInitiative(npc.initiativeBase, npc.initiativeDice, { rng })
+        });
+      }
+    });
+    if (this.state.combat.order.length === 0) {
+      throw new Error('Nobody has rolled initiative yet');
+    }
+    this.apply({ kind: 'combat', combat: { ...this.state.combat, active: true, round: 1, turn: 0 } });
+    return this.state.combat;
+  }
+
+  // Move to the next combatant, starting a new round after the last one
+  nextTurn(): CombatState {
+    const combat = this.state.combat;
+    if (!combat.active) {
+      throw new Error('Combat has not started. Use "initiative start" first');
+    }
+    const newRound = combat.turn + 1 >= combat.order.length;
+    this.apply({
+      kind: 'combat',
+      combat: { ...combat, round: newRound ? combat.round + 1 : combat.round, turn: newRound ? 0 : combat.turn + 1 }
+    });
+    return this.state.combat;
+  }
+
+  endCombat(): CombatState {
+    this.apply({ kind: 'combat', combat: { active: false, round: 0, turn: 0, order: [] } });
+    return this.state.combat;
+  }
+
+  // Edge
+  getEdge(userId: string, max: number): EdgePool {
+    return this.state.edge[userId] || { current: max, max };
+  }
+
+  setEdge(userId: string, current: number, max: number): EdgePool {
+    this.state.edge[userId] = { current: Math.max(0, Math.min(max, current)), max };
+    this.saveToStorage();
+    return this.state.edge[userId];
+  }
+
+  // Matrix
+  getMatrixPresence(userId: string): MatrixPresence | undefined {
+    return this.state.matrix[userId];
+  }
+
+  enterMatrix(userId: string, hotSim: boolean = false): MatrixPresence {
+    if (this.state.matrix[userId]?.connected) {
+      throw new Error('Already in the Matrix');
+    }
+    const presence: MatrixPresence = { connected: true, hotSim, overwatch: 0, marks: {} };
+    this.state.matrix[userId] = presence;
+    this.saveToStorage();
+    return presence;
+  }
+
+  exitMatrix(userId: string): void {
+    if (!this.state.matrix[userId]?.connected) {
+      throw new Error('Not in the Matrix');
+    }
+    this.state.matrix[userId] = { ...this.state.matrix[userId], connected: false, marks: {} };
+    this.saveToStorage();
+  }
+
+  // Record the outcome of an illegal action; returns true if GOD converged
+  recordMatrixAction(userId: string, overwatch: number, target?: string, marks: number = 0): boolean {
+    const presence = this.state.matrix[userId];
+    if (!presence?.connected) {
+      throw new Error('Not in the Matrix. Use "matrix enter" first');
+    }
+    if (target && marks > 0) {
+      presence.marks[target] = Math.min(MAX_MARKS, (presence.marks[target] || 0) + marks);
+    }
+    presence.overwatch += overwatch;
+
+    const converged = presence.overwatch >= CONVERGENCE_THRESHOLD;
+    if (converged) {
+      this.state.matrix[userId] = { ...presence, connected: false, marks: {} };
+    }
+    this.saveToStorage();
+    return converged;
+  }
+
+  clear() {
+    this.state = createEmptySessionState();
+    localStorage.removeItem(this.storageKey);
+  }
+
+  private saveToStorage() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to save session state:', error);
+    }
+  }
+
+  loadFromStorage() {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      if (saved) {
+        this.state = { ...createEmptySessionState(), ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.warn('Failed to load session state:', error);
+    }
+  }
+}
+
+// Format the initiative order for display
+export function formatInitiativeOrder(combat: CombatState): string {
+  if (combat.order.length === 0) {
+    return 'No initiative rolled yet';
+  }
+  const header = combat.active ? `Combat round ${combat.round}` : 'Initiative order (combat not started)';
+  const lines = combat.order.map((entry, i) => {
+    const marker = combat.active && i === combat.turn ? '▶' : ' ';
+    const seized = entry.result.seized ? ' ⚡' : '';
+    return `${marker} ${entry.result.score.toString().padStart(2)} ${entry.name}${entry.kind === 'npc' ? ' (NPC)' : ''}${seized}`;
+  });
+  return [header, ...lines].join('\n');
+}
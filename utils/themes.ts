@@ -0,0 +1,311 @@
+// Console themes
+//
+// Built-in themes use Tailwind classes. Custom themes are plain CSS colors: their
+// classes read CSS variables that themeStyle() sets from the palette, so any
+// color works without generating new Tailwind classes at runtime.
+//
+// Custom themes are stored per user in localStorage and can be shared as JSON.
+import type { CSSProperties } from 'react';
+
+export interface ThemePalette {
+  background: string;
+  secondaryBackground: string;
+  text: string;
+  secondaryText: string;
+  prompt: string;
+  accent: string;
+  accentText: string;
+  inputText: string;
+  border: string;
+  error: string;
+}
+
+export interface Theme {
+  name: string;
+  background: string;
+  text: string;
+  secondaryText: string;
+  accent: string;
+  prompt: string;
+  input: string;
+  inputText: string;
+  secondaryBackground: string;
+  highlight: string;
+  palette: ThemePalette; // The same colors as CSS values
+  custom?: boolean;
+}
+
+export const DEFAULT_THEME = 'shadowrunBarren';
+
+// WCAG AA contrast for normal text
+export const MIN_CONTRAST = 4.5;
+
+export const paletteFields: Array<{ key: keyof ThemePalette; label: string }> = [
+  { key: 'background', label: 'Background' },
+  { key: 'secondaryBackground', label: 'Panel background' },
+  { key: 'text', label: 'Text' },
+  { key: 'secondaryText', label: 'Secondary text' },
+  { key: 'prompt', label: 'Prompt' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'accentText', label: 'Accent text' },
+  { key: 'inputText', label: 'Input text' },
+  { key: 'border', label: 'Border' },
+  { key: 'error', label: 'Error' }
+];
+
+export const builtInThemes: Record<string, Theme> = {
+  shadowrunBarren: {
+    name: 'Shadowrun Barren',
+    background: 'bg-gray-950',
+    text: 'text-red-300',
+    secondaryText: 'text-gray-400',
+    accent: 'bg-red-900 text-red-100',
+    prompt: 'text-green-500',
+    input: 'bg-gray-900 border-red-900 border',
+    inputText: 'text-red-200',
+    secondaryBackground: 'bg-gray-900',
+    highlight: 'bg-red-900 bg-opacity-30',
+    palette: {
+      background: '#030712', secondaryBackground: '#111827', text: '#fca5a5', secondaryText: '#9ca3af', prompt: '#22c55e',
+      accent: '#7f1d1d', accentText: '#fee2e2', inputText: '#fecaca', border: '#7f1d1d', error: '#f87171'
+    }
+  },
+  matrix: {
+    name: 'Matrix',
+    background: 'bg-black',
+    text: 'text-green-400',
+    secondaryText: 'text-green-600',
+    accent: 'bg-green-700 text-green-200',
+    prompt: 'text-green-500',
+    input: 'bg-black border-green-700 border',
+    inputText: 'text-green-400',
+    secondaryBackground: 'bg-green-900 bg-opacity-20',
+    highlight: 'bg-green-700 bg-opacity-30',
+    palette: {
+      background: '#000000', secondaryBackground: '#04140a', text: '#4ade80', secondaryText: '#16a34a', prompt: '#22c55e',
+      accent: '#15803d', accentText: '#bbf7d0', inputText: '#4ade80', border: '#15803d', error: '#f87171'
+    }
+  },
+  cyberpunk: {
+    name: 'Cyberpunk',
+    background: 'bg-purple-900',
+    text: 'text-pink-300',
+    secondaryText: 'text-blue-300',
+    accent: 'bg-pink-600 text-blue-200',
+    prompt: 'text-yellow-300',
+    input: 'bg-purple-800 border-pink-500 border',
+    inputText: 'text-pink-300',
+    secondaryBackground: 'bg-purple-800',
+    highlight: 'bg-pink-600 bg-opacity-30',
+    palette: {
+      background: '#581c87', secondaryBackground: '#6b21a8', text: '#f9a8d4', secondaryText: '#93c5fd', prompt: '#fde047',
+      accent: '#db2777', accentText: '#bfdbfe', inputText: '#f9a8d4', border: '#ec4899', error: '#fca5a5'
+    }
+  },
+  terminal: {
+    name: 'Terminal',
+    background: 'bg-black',
+    text: 'text-amber-400',
+    secondaryText: 'text-amber-600',
+    accent: 'bg-amber-800 text-amber-200',
+    prompt: 'text-amber-500',
+    input: 'bg-black border-amber-700 border',
+    inputText: 'text-amber-400',
+    secondaryBackground: 'bg-amber-900 bg-opacity-20',
+    highlight: 'bg-amber-700 bg-opacity-30',
+    palette: {
+      background: '#000000', secondaryBackground: '#180d03', text: '#fbbf24', secondaryText: '#d97706', prompt: '#f59e0b',
+      accent: '#92400e', accentText: '#fde68a', inputText: '#fbbf24', border: '#b45309', error: '#f87171'
+    }
+  }
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Build a theme from colors; its classes read the variables set by themeStyle()
+export function createCustomTheme(name: string, palette: ThemePalette): Theme {
+  return {
+    name,
+    background: 'bg-[var(--sr-background)]',
+    text: 'text-[color:var(--sr-text)]',
+    secondaryText: 'text-[color:var(--sr-secondary-text)]',
+    accent: 'bg-[var(--sr-accent)] text-[color:var(--sr-accent-text)]',
+    prompt: 'text-[color:var(--sr-prompt)]',
+    input: 'bg-[var(--sr-secondary-background)] border-[color:var(--sr-border)] border',
+    inputText: 'text-[color:var(--sr-input-text)]',
+    secondaryBackground: 'bg-[var(--sr-secondary-background)]',
+    highlight: 'bg-[var(--sr-accent)] bg-opacity-30',
+    palette,
+    custom: true
+  };
+}
+
+// CSS variables for a theme's palette, to put on the themed element
+export function themeStyle(theme: Theme): CSSProperties {
+  const variables: Record<string, string> = {};
+  paletteFields.forEach(({ key }) => {
+    variables[`--sr-${key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`] = theme.palette[key];
+  });
+  return variables as CSSProperties;
+}
+
+function relativeLuminance(color: string): number {
+  let hex = color.slice(1);
+  if (hex.length === 3) hex = hex.split('').map(digit => digit + digit).join('');
+  const [r, g, b] = [0, 2, 4].map(i => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// WCAG contrast ratio between two hex colors, from 1 to 21
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return Math.round(((lighter + 0.05) / (darker + 0.05)) * 100) / 100;
+}
+
+export interface ContrastCheck {
+  label: string;
+  ratio: number;
+  passes: boolean;
+}
+
+// Contrast of the color pairs the console actually draws
+export function checkThemeContrast(palette: ThemePalette): ContrastCheck[] {
+  const pairs: Array<[string, keyof ThemePalette, keyof ThemePalette]> = [
+    ['Text on background', 'text', 'background'],
+    ['Secondary text on background', 'secondaryText', 'background'],
+    ['Prompt on background', 'prompt', 'background'],
+    ['Text on panels', 'text', 'secondaryBackground'],
+    ['Input text on panels', 'inputText', 'secondaryBackground'],
+    ['Accent text on accent', 'accentText', 'accent'],
+    ['Errors on background', 'error', 'background']
+  ];
+  return pairs.map(([label, foreground, background]) => {
+    const ratio = contrastRatio(palette[foreground], palette[background]);
+    return { label, ratio, passes: ratio >= MIN_CONTRAST };
+  });
+}
+
+// Check a palette from user input or an import
+export function validatePalette(palette: any): ThemePalette {
+  if (!palette || typeof palette !== 'object') {
+    throw new Error('Theme palette is missing');
+  }
+  paletteFields.forEach(({ key, label }) => {
+    if (typeof palette[key] !== 'string' || !HEX_COLOR.test(palette[key])) {
+      throw new Error(`${label} must be a hex color like #1eeb4b`);
+    }
+  });
+  return paletteFields.reduce((checked, { key }) => ({ ...checked, [key]: palette[key].toLowerCase() }), {} as ThemePalette);
+}
+
+// Theme id for a name: "Neon Rain" -> "neon-rain"
+export function themeId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Theme management
+export class ThemeManager {
+  private userId: string;
+  private custom: Record<string, { name: string; palette: ThemePalette }> = {};
+
+  constructor(userId: string = 'default') {
+    this.userId = userId;
+  }
+
+  private get storageKey(): string {
+    return `shadowrun-themes-${this.userId}`;
+  }
+
+  // Built-in and custom themes by id
+  getThemes(): Record<string, Theme> {
+    const themes = { ...builtInThemes };
+    Object.entries(this.custom).forEach(([id, { name, palette }]) => {
+      themes[id] = createCustomTheme(name, palette);
+    });
+    return themes;
+  }
+
+  getTheme(id: string): Theme | undefined {
+    return this.getThemes()[id];
+  }
+
+  // Add or replace a custom theme; returns its id
+  saveTheme(name: string, palette: ThemePalette): string {
+    const id = themeId(name);
+    if (!id) {
+      throw new Error('Theme name needs at least one letter or digit');
+    }
+    if (builtInThemes[id]) {
+      throw new Error(`"${id}" is a built-in theme`);
+    }
+    this.custom = { ...this.custom, [id]: { name: name.trim(), palette: validatePalette(palette) } };
+    this.saveToStorage();
+    return id;
+  }
+
+  removeTheme(id: string) {
+    if (builtInThemes[id]) {
+      throw new Error(`"${id}" is a built-in theme`);
+    }
+    if (!this.custom[id]) {
+      throw new Error(`No custom theme named "${id}"`);
+    }
+    const custom = { ...this.custom };
+    delete custom[id];
+    this.custom = custom;
+    this.saveToStorage();
+  }
+
+  // Serialize a theme for sharing
+  exportTheme(id: string): string {
+    const theme = this.getTheme(id);
+    if (!theme) {
+      throw new Error(`No theme named "${id}"`);
+    }
+    return JSON.stringify({ name: theme.name, palette: theme.palette });
+  }
+
+  // Add a theme shared as JSON; returns its id
+  importTheme(json: string): string {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Theme import must be JSON from "theme export"');
+    }
+    if (!parsed || typeof parsed.name !== 'string') {
+      throw new Error('Theme import needs a name');
+    }
+    return this.saveTheme(parsed.name, parsed.palette);
+  }
+
+  // Switch to another user's themes
+  setUser(userId: string) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.custom = {};
+    this.loadFromStorage();
+  }
+
+  private saveToStorage() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.custom));
+    } catch (error) {
+      console.warn('Failed to save themes:', error);
+    }
+  }
+
+  loadFromStorage() {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      if (saved) {
+        this.custom = JSON.parse(saved);
+      }
+    } catch (error) {
+      console.warn('Failed to load themes:', error);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+// Session transcripts
+//
+// The console keeps its output history as a transcript that can be exported as
+// Markdown (for posting run recaps), standalone HTML in the active theme's colors,
+// or JSON that can be imported back into the console. Each entry keeps the
+// structured result data (dice, tests) alongside the text output.
+//
+// The console saves the transcript per session in localStorage so other views,
+// like the GM dashboard, can export it too.
+import type { ShadowrunDiceResult, OpposedTestResult, ExtendedTestResult } from './dice';
+
+export interface TranscriptEntry {
+  command: string;
+  output: string;
+  timestamp: string; // ISO 8601
+  userId?: string;
+  broadcast?: boolean;
+  success?: boolean;
+  type?: string; // CommandResult type
+  data?: any;
+}
+
+// Plain CSS colors for standalone HTML
+export interface TranscriptPalette {
+  background: string;
+  text: string;
+  secondaryText: string;
+  prompt: string;
+  error: string;
+}
+
+export interface Transcript {
+  version: 1;
+  sessionId?: string;
+  sessionName?: string;
+  exportedAt: string;
+  theme?: { name: string; palette: TranscriptPalette };
+  entries: TranscriptEntry[];
+}
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['markdown', 'html', 'json'];
+
+export const MAX_TRANSCRIPT_ENTRIES = 1000;
+
+const defaultPalette: TranscriptPalette = {
+  background: '#030712',
+  text: '#fca5a5',
+  secondaryText: '#9ca3af',
+  prompt: '#22c55e',
+  error: '#f87171'
+};
+
+const formatDetails: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' }
+};
+
+export function createTranscript(
+  entries: TranscriptEntry[],
+  options: { sessionId?: string; sessionName?: string; theme?: Transcript['theme'] } = {}
+): Transcript {
+  return {
+    version: 1,
+    sessionId: options.sessionId,
+    sessionName: options.sessionName,
+    exportedAt: new Date().toISOString(),
+    theme: options.theme,
+    entries
+  };
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function summarizeRoll(roll: ShadowrunDiceResult): string {
+  const dice = `[${roll.results.join(', ')}]`;
+  if (roll.total !== undefined) return `${dice} = ${roll.total}`;
+  const glitch = roll.isCriticalGlitch ? ', critical glitch' : roll.isGlitch ? ', glitch' : '';
+  return `${dice} ${roll.hits} hit${roll.hits === 1 ? '' : 's'}${glitch}`;
+}
+
+// One-line summary of an entry's structured result, if it has one
+export function summarizeResult(entry: TranscriptEntry): string | null {
+  const data = entry.data;
+  if (!data) return null;
+
+  switch (entry.type) {
+    case 'dice':
+      return `Dice: ${summarizeRoll(data)}`;
+    case 'test':
+      return `Test: ${summarizeRoll(data)} vs ${data.threshold}, ${data.success ? `pass with ${data.netHits} net hits` : 'fail'}`;
+    case 'opposed': {
+      const result = data as OpposedTestResult;
+      return `Opposed: ${summarizeRoll(result.attacker)} vs ${summarizeRoll(result.defender)}, ${result.winner} wins`;
+    }
+    case 'extended': {
+      const result = data as ExtendedTestResult;
+      return `Extended: ${result.totalHits}/${result.threshold} hits after ${result.intervals.length} interval${result.intervals.length === 1 ? '' : 's'}, ${result.success ? 'pass' : 'fail'}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function title(transcript: Transcript): string {
+  return transcript.sessionName || transcript.sessionId || 'Shadowrun session';
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines = [`# ${title(transcript)}`, '', `Exported ${formatTime(transcript.exportedAt)}`, ''];
+
+  transcript.entries.forEach(entry => {
+    const meta = [formatTime(entry.timestamp), entry.userId, entry.broadcast ? 'broadcast' : undefined, entry.success === false ? 'failed' : undefined]
+      .filter(Boolean)
+      .join(' · ');
+    lines.push(`**${meta}**`, '');
+    const block = [entry.command && `> ${entry.command}`, entry.output].filter(Boolean).join('\n');
+    if (block) {
+      // Fence with more backticks than the output contains
+      const fence = '`'.repeat(Math.max(3, ...(block.match(/`+/g) || []).map(run => run.length + 1)));
+      lines.push(fence, block, fence, '');
+    }
+    const summary = summarizeResult(entry);
+    if (summary) lines.push(`_${summary}_`, '');
+  });
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function transcriptToHtml(transcript: Transcript): string {
+  const palette = transcript.theme?.palette || defaultPalette;
+  const entries = transcript.entries.map(entry => {
+    const summary = summarizeResult(entry);
+    return [
+      `<section class="entry${entry.success === false ? ' failed' : ''}${entry.broadcast ? ' broadcast' : ''}">`,
+      `<div class="meta">${escapeHtml(formatTime(entry.timestamp))}${entry.userId ? ` · ${escapeHtml(entry.userId)}` : ''}${entry.broadcast ? ' · 📡' : ''}</div>`,
+      entry.command ? `<div class="command">&gt; ${escapeHtml(entry.command)}</div>` : '',
+      entry.output ? `<pre class="output">${escapeHtml(entry.output)}</pre>` : '',
+      summary ? `<div class="summary">${escapeHtml(summary)}</div>` : '',
+      '</section>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title(transcript))}</title>
+<style>
+body { background: ${palette.background}; color: ${palette.text}; font-family: ui-monospace, Menlo, Consolas, monospace; margin: 2rem; }
+h1 { color: ${palette.prompt}; }
+.meta, .summary { color: ${palette.secondaryText}; font-size: 0.8rem; }
+.command { color: ${palette.prompt}; }
+.output { color: ${palette.text}; white-space: pre-wrap; margin: 0.25rem 0 0 1rem; }
+.failed .output { color: ${palette.error}; }
+.entry { margin-bottom: 1rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title(transcript))}</h1>
+<p class="meta">Exported ${escapeHtml(formatTime(transcript.exportedAt))}${transcript.theme ? ` · ${escapeHtml(transcript.theme.name)} theme` : ''}</p>
+${entries.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+// Read a transcript exported as JSON
+export function parseTranscriptJson(json: string): Transcript {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Transcript import must be JSON from "export json"');
+  }
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a transcript export');
+  }
+
+  const entries = parsed.entries.filter(
+    (entry: any) => entry && typeof entry.command === 'string' && typeof entry.output === 'string' && typeof entry.timestamp === 'string'
+  );
+  return { ...parsed, entries };
+}
+
+// Render a transcript in the given format, with a suggested file name
+export function formatTranscript(
+  transcript: Transcript,
+  format: TranscriptFormat
+): { content: string; filename: string; mimeType: string } {
+  const content =
+    format === 'markdown' ? transcriptToMarkdown(transcript) :
+    format === 'html' ? transcriptToHtml(transcript) :
+    transcriptToJson(transcript);
+
+  const { extension, mimeType } = formatDetails[format];
+  const slug = title(transcript).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  const date = transcript.exportedAt.slice(0, 10);
+  return { content, filename: `${slug}-${date}.${extension}`, mimeType };
+}
+
+// Save the console transcript for a session
+export function saveTranscript(sessionId: string | undefined, entries: TranscriptEntry[]) {
+  try {
+    localStorage.setItem(`shadowrun-transcript-${sessionId || 'local'}`, JSON.stringify(entries.slice(-MAX_TRANSCRIPT_ENTRIES)));
+  } catch (error) {
+    console.warn('Failed to save transcript:', error);
+  }
+}
+
+export function loadTranscript(sessionId: string | undefined): TranscriptEntry[] {
+  try {
+    const saved = localStorage.getItem(`shadowrun-transcript-${sessionId || 'local'}`);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to load transcript:', error);
+    return [];
+  }
+}
+
+// Offer content as a file download in the browser
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,91 @@
+// Private console messages
+//
+// Whispers go from one player to another, "gm" messages go to the session's GMs,
+// and reveals let the GM show a player something only they should see (usually
+// a piped roll). They are sent over the session WebSocket addressed to their
+// recipients, and the server delivers each one only to its sender and
+// recipients; "@gm" reaches every GM and co-GM. Clients check isRecipient as well,
+// in case a server gets it wrong.
+//
+// Messages are addressed by user id, which stays the same when someone changes
+// their name; the names travel alongside for display. The server stamps the
+// sender from the connection, so nobody can whisper as someone else.
+
+export type PrivateChannel = 'whisper' | 'gm' | 'reveal';
+
+// Recipient standing for every GM in the session
+export const GM_RECIPIENT = '@gm';
+
+// A sender or recipient
+export interface Addressee {
+  userId: string; // Or GM_RECIPIENT
+  name?: string; // Display name
+}
+
+export const GM_ADDRESSEE: Addressee = { userId: GM_RECIPIENT, name: 'GM' };
+
+export interface PrivateMessage {
+  channel: PrivateChannel;
+  from: string; // User id
+  fromName?: string;
+  to: string[]; // User ids, or GM_RECIPIENT
+  toNames?: string[]; // Display names, in the order of to
+  message: string;
+  timestamp: string; // ISO 8601
+  data?: any; // Structured result shown with the message, e.g. a revealed roll
+  dataType?: string; // CommandResult type of data
+}
+
+export function createPrivateMessage(
+  channel: PrivateChannel,
+  from: Addressee,
+  to: Addressee[],
+  message: string,
+  attachment?: { type?: string; data?: any }
+): PrivateMessage {
+  return {
+    channel,
+    from: from.userId,
+    fromName: from.name,
+    to: to.map(recipient => recipient.userId),
+    toNames: to.map(recipient => recipient.name || recipient.userId),
+    message,
+    timestamp: new Date().toISOString(),
+    data: attachment?.data,
+    dataType: attachment?.type
+  };
+}
+
+// Whether a user may see a message: its sender and recipients. The server
+// delivers by it, and clients check it again before showing anything.
+export function isRecipient(message: PrivateMessage, userId: string, isGM: boolean): boolean {
+  if (message.from === userId) return true;
+  return message.to.some(recipient => (recipient === GM_RECIPIENT ? isGM : recipient === userId));
+}
+
+// Check a message received over the WebSocket
+export function isPrivateMessage(data: any): data is PrivateMessage {
+  return !!data
+    && ['whisper', 'gm', 'reveal'].includes(data.channel)
+    && typeof data.from === 'string'
+    && Array.isArray(data.to)
+    && typeof data.message === 'string';
+}
+
+// Header line for a message, from the reader's point of view
+export function describePrivateMessage(message: PrivateMessage, userId: string): string {
+  const outgoing = message.from === userId;
+  const sender = message.fromName || message.from;
+  const recipients = message.to
+    .map((recipient, i) => message.toNames?.[i] || (recipient === GM_RECIPIENT ? GM_ADDRESSEE.name : recipient))
+    .join(', ');
+
+  switch (message.channel) {
+    case 'gm':
+      return outgoing ? '👁️ To GM' : `👁️ ${sender} to GM`;
+    case 'reveal':
+      return outgoing ? `🔍 Revealed to ${recipients}` : `🔍 GM reveals to you`;
+    default:
+      return outgoing ? `🤫 Whisper to ${recipients}` : `🤫 ${sender} whispers`;
+  }
+}